@@ -0,0 +1,45 @@
+import { api, APIError } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { alertsDB } from "./db";
+import { Webhook, WebhookInput, WebhookRow, auditedWebhook, toWebhook } from "./types";
+import { validateWebhookInput, validateWebhookTarget } from "./validation";
+
+// Adds a webhook that is told when a dashboard goes down or recovers.
+export const createWebhook = api<WebhookInput, Webhook>(
+  { expose: true, method: "POST", path: "/alerts/webhooks", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const input = validateWebhookInput(req);
+    await validateWebhookTarget(input.url);
+
+    const existing = await alertsDB.queryRow`
+      SELECT id FROM webhooks WHERE LOWER(name) = LOWER(${input.name}) AND workspace_id = ${caller.workspaceID}
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("a webhook with this name already exists");
+    }
+
+    const row = await alertsDB.queryRow<WebhookRow>`
+      INSERT INTO webhooks (id, name, url, format, enabled, workspace_id)
+      VALUES (
+        ${`webhook-${randomUUID()}`}, ${input.name}, ${input.url}, ${input.format}, ${input.enabled}, ${caller.workspaceID}
+      )
+      RETURNING id, name, url, format, enabled, last_delivery_at, last_delivery_error, created_at
+    `;
+    if (!row) {
+      throw APIError.internal("failed to create webhook");
+    }
+    const webhook = toWebhook(row);
+    await recordChange(caller, {
+      action: "create",
+      resource: "webhook",
+      resourceId: webhook.id,
+      resourceName: webhook.name,
+      after: auditedWebhook(webhook),
+    });
+    return webhook;
+  }
+);
@@ -0,0 +1,35 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { alertsDB } from "./db";
+import { WebhookRow, auditedWebhook, toWebhook } from "./types";
+
+interface DeleteWebhookRequest {
+  id: string;
+}
+
+// Removes a webhook; it is sent nothing further.
+export const deleteWebhook = api<DeleteWebhookRequest, void>(
+  { expose: true, method: "DELETE", path: "/alerts/webhooks/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const row = await alertsDB.queryRow<WebhookRow>`
+      DELETE FROM webhooks
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+      RETURNING id, name, url, format, enabled, last_delivery_at, last_delivery_error, created_at
+    `;
+    if (!row) {
+      throw APIError.notFound("webhook not found");
+    }
+
+    const webhook = toWebhook(row);
+    await recordChange(caller, {
+      action: "delete",
+      resource: "webhook",
+      resourceId: webhook.id,
+      resourceName: webhook.name,
+      before: auditedWebhook(webhook),
+    });
+  }
+);
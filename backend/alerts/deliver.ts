@@ -0,0 +1,81 @@
+import log from "encore.dev/log";
+import { assertPublicUrl } from "../health/addresses";
+import { alertsDB } from "./db";
+import { buildPayload } from "./templates";
+import { AlertEvent, DeliveryResult, Webhook, WebhookRow, toWebhook } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Posts an alert to one webhook and records how the delivery went. The address is checked
+// again on every call, as the host may resolve elsewhere since the webhook was saved, and
+// redirects are refused since they could lead anywhere.
+export async function deliver(webhook: Webhook, event: AlertEvent): Promise<DeliveryResult> {
+  try {
+    await assertPublicUrl(new URL(webhook.url));
+  } catch (err) {
+    return record(webhook, event, {
+      ok: false,
+      error: `webhook not called: ${err instanceof Error ? err.message : String(err)}`,
+    });
+  }
+
+  let result: DeliveryResult;
+  try {
+    const resp = await fetch(webhook.url, {
+      method: "POST",
+      redirect: "error",
+      headers: { "Content-Type": "application/json", "User-Agent": "dashboard-alerts" },
+      body: JSON.stringify(buildPayload(webhook.format, event)),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    await resp.body?.cancel();
+    result = resp.ok
+      ? { ok: true, statusCode: resp.status }
+      : { ok: false, statusCode: resp.status, error: `HTTP ${resp.status}` };
+  } catch (err) {
+    const timedOut = err instanceof Error && err.name === "TimeoutError";
+    result = {
+      ok: false,
+      error: timedOut ? "request timed out" : `request failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  return record(webhook, event, result);
+}
+
+// Keeps the outcome of a delivery on the webhook, so the settings page can show it.
+async function record(webhook: Webhook, event: AlertEvent, result: DeliveryResult): Promise<DeliveryResult> {
+  if (!result.ok) {
+    log.warn("webhook delivery failed", { webhookId: webhook.id, kind: event.kind, error: result.error });
+  }
+  await alertsDB.exec`
+    UPDATE webhooks
+    SET last_delivery_at = NOW(), last_delivery_error = ${result.error ?? null}
+    WHERE id = ${webhook.id}
+  `;
+  return result;
+}
+
+// Sends an alert to every enabled webhook of a workspace that has not received it yet,
+// and reports whether all of them have now.
+export async function deliverAll(workspaceID: string, notificationId: number, event: AlertEvent): Promise<boolean> {
+  const rows = await alertsDB.queryAll<WebhookRow>`
+    SELECT id, name, url, format, enabled, last_delivery_at, last_delivery_error, created_at
+    FROM webhooks
+    WHERE enabled AND workspace_id = ${workspaceID}
+      AND id NOT IN (SELECT webhook_id FROM alert_deliveries WHERE notification_id = ${notificationId})
+  `;
+  const delivered = await Promise.all(
+    rows.map(async (row) => {
+      const result = await deliver(toWebhook(row), event);
+      if (result.ok) {
+        await alertsDB.exec`
+          INSERT INTO alert_deliveries (notification_id, webhook_id)
+          VALUES (${notificationId}, ${row.id})
+          ON CONFLICT DO NOTHING
+        `;
+      }
+      return result.ok;
+    })
+  );
+  return delivered.every(Boolean);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { foldCheck, Streak } from "./evaluate";
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 12, minute));
+
+const online: Streak = { confirmed: "up", state: "up", length: 5, startedAt: at(0), outageStartedAt: null };
+
+// Folds the checks one after another, as the scheduled health checks would.
+function fold(streak: Streak, checks: ["up" | "down", Date][]): Streak {
+  return checks.reduce((current, [observed, checkedAt]) => foldCheck(current, observed, checkedAt), streak);
+}
+
+describe("foldCheck", () => {
+  test("extends a streak that agrees with the check", () => {
+    expect(foldCheck(online, "up", at(5))).toEqual({ ...online, length: 6 });
+  });
+
+  test("does not confirm an outage after a single failed check", () => {
+    expect(foldCheck(online, "down", at(5))).toEqual({
+      confirmed: "up",
+      state: "down",
+      length: 1,
+      startedAt: at(5),
+      outageStartedAt: null,
+    });
+  });
+
+  test("confirms an outage after two failed checks, starting at the first", () => {
+    expect(fold(online, [["down", at(5)], ["down", at(10)]])).toEqual({
+      confirmed: "down",
+      state: "down",
+      length: 2,
+      startedAt: at(5),
+      outageStartedAt: at(5),
+    });
+  });
+
+  test("starts over when a check breaks the streak", () => {
+    const streak = fold(online, [["down", at(5)], ["up", at(10)], ["down", at(15)]]);
+    expect(streak).toMatchObject({ confirmed: "up", state: "down", length: 1, startedAt: at(15) });
+  });
+
+  test("confirms a recovery after two good checks and keeps when the outage began", () => {
+    const outage = fold(online, [["down", at(5)], ["down", at(10)]]);
+    expect(foldCheck(outage, "up", at(15))).toMatchObject({ confirmed: "down", state: "up", length: 1 });
+    expect(fold(outage, [["up", at(15)], ["up", at(20)]])).toEqual({
+      confirmed: "up",
+      state: "up",
+      length: 2,
+      startedAt: at(15),
+      outageStartedAt: at(5),
+    });
+  });
+
+  test("keeps the start of an outage that is already confirmed", () => {
+    const outage = fold(online, [["down", at(5)], ["down", at(10)], ["down", at(15)]]);
+    expect(outage).toMatchObject({ confirmed: "down", length: 3, outageStartedAt: at(5) });
+  });
+});
@@ -0,0 +1,177 @@
+import log from "encore.dev/log";
+import { DashboardHealth } from "../health/types";
+import { alertsDB } from "./db";
+import { AlertEvent, AlertState } from "./types";
+
+// Consecutive checks that must agree before a change of state counts, so a single
+// slow answer or a one-off blip does not page anyone.
+const FAILURES_TO_ALERT = 2;
+const RECOVERIES_TO_ALERT = 2;
+
+// A dashboard that keeps going up and down sends at most this many alerts per window;
+// once the window clears, only its state at that point is announced.
+const FLAP_WINDOW_MINUTES = 60;
+const MAX_ALERTS_PER_WINDOW = 4;
+
+interface AlertStateRow {
+  confirmed: AlertState;
+  notified: AlertState;
+  streak_state: AlertState;
+  streak_length: number;
+  streak_started_at: Date;
+  outage_started_at: Date | null;
+  last_checked_at: Date;
+}
+
+// The run of agreeing checks a dashboard is on and the state it has confirmed.
+export interface Streak {
+  confirmed: AlertState;
+  state: AlertState;
+  length: number;
+  startedAt: Date;
+  // When the current or most recent outage began.
+  outageStartedAt: Date | null;
+}
+
+// Extends the streak by one check and confirms a change of state once enough checks
+// in a row agree on it.
+export function foldCheck(streak: Streak, observed: AlertState, checkedAt: Date): Streak {
+  const continues = observed === streak.state;
+  const length = continues ? streak.length + 1 : 1;
+  const startedAt = continues ? streak.startedAt : checkedAt;
+
+  let confirmed = streak.confirmed;
+  let outageStartedAt = streak.outageStartedAt;
+  const threshold = observed === "down" ? FAILURES_TO_ALERT : RECOVERIES_TO_ALERT;
+  if (observed !== confirmed && length >= threshold) {
+    confirmed = observed;
+    if (observed === "down") {
+      outageStartedAt = startedAt;
+    }
+  }
+  return { confirmed, state: observed, length, startedAt, outageStartedAt };
+}
+
+export interface PendingAlert extends Omit<AlertEvent, "dashboardName"> {
+  // The notification to mark delivered once the webhooks have been called.
+  notificationId: number;
+}
+
+interface PendingAlertRow {
+  id: number;
+  state: AlertState;
+  status: DashboardHealth["status"];
+  error: string | null;
+  outage_started_at: Date | null;
+  checked_at: Date;
+}
+
+// Folds one check into the dashboard's alert state and returns the alert to send, if any.
+// A check seen before returns the alert it raised while that is still undelivered.
+export async function evaluate(health: DashboardHealth): Promise<PendingAlert | null> {
+  const observed: AlertState = health.status === "online" ? "up" : "down";
+
+  const tx = await alertsDB.begin();
+  try {
+    // Dashboards start out as online, so one that is broken from the start still alerts.
+    await tx.exec`
+      INSERT INTO alert_state (
+        dashboard_id, confirmed, notified, streak_state, streak_length, streak_started_at, last_status, last_checked_at
+      )
+      VALUES (${health.dashboardId}, 'up', 'up', 'up', 0, ${health.checkedAt}, 'online', to_timestamp(0))
+      ON CONFLICT (dashboard_id) DO NOTHING
+    `;
+    const row = await tx.queryRow<AlertStateRow>`
+      SELECT confirmed, notified, streak_state, streak_length, streak_started_at, outage_started_at, last_checked_at
+      FROM alert_state
+      WHERE dashboard_id = ${health.dashboardId}
+      FOR UPDATE
+    `;
+    // Results can be delivered twice or out of order; only newer checks move the state.
+    if (!row || health.checkedAt <= row.last_checked_at) {
+      const pending = await tx.queryRow<PendingAlertRow>`
+        SELECT id, state, status, error, outage_started_at, checked_at
+        FROM alert_notifications
+        WHERE dashboard_id = ${health.dashboardId} AND checked_at = ${health.checkedAt} AND delivered_at IS NULL
+      `;
+      await tx.rollback();
+      return pending ? toPendingAlert(health.dashboardId, pending) : null;
+    }
+
+    const streak = foldCheck(
+      {
+        confirmed: row.confirmed,
+        state: row.streak_state,
+        length: row.streak_length,
+        startedAt: row.streak_started_at,
+        outageStartedAt: row.outage_started_at,
+      },
+      observed,
+      health.checkedAt
+    );
+    const { confirmed, outageStartedAt } = streak;
+
+    let notified = row.notified;
+    let alert: PendingAlert | null = null;
+    if (confirmed !== notified) {
+      const recent = await tx.queryRow<{ count: number }>`
+        SELECT COUNT(*)::int AS count
+        FROM alert_notifications
+        WHERE dashboard_id = ${health.dashboardId}
+          AND sent_at > NOW() - make_interval(mins => ${FLAP_WINDOW_MINUTES})
+      `;
+      if ((recent?.count ?? 0) < MAX_ALERTS_PER_WINDOW) {
+        const pending = await tx.queryRow<PendingAlertRow>`
+          INSERT INTO alert_notifications (dashboard_id, state, status, error, outage_started_at, checked_at)
+          VALUES (
+            ${health.dashboardId}, ${confirmed}, ${health.status}, ${health.error ?? null}, ${outageStartedAt},
+            ${health.checkedAt}
+          )
+          RETURNING id, state, status, error, outage_started_at, checked_at
+        `;
+        notified = confirmed;
+        alert = pending ? toPendingAlert(health.dashboardId, pending) : null;
+      } else {
+        log.info("alert suppressed, dashboard is flapping", { dashboardId: health.dashboardId, state: confirmed });
+      }
+    }
+
+    await tx.exec`
+      UPDATE alert_state
+      SET confirmed = ${confirmed},
+          notified = ${notified},
+          streak_state = ${streak.state},
+          streak_length = ${streak.length},
+          streak_started_at = ${streak.startedAt},
+          outage_started_at = ${outageStartedAt},
+          last_status = ${health.status},
+          last_error = ${health.error ?? null},
+          last_checked_at = ${health.checkedAt}
+      WHERE dashboard_id = ${health.dashboardId}
+    `;
+    await tx.commit();
+    return alert;
+  } catch (err) {
+    await tx.rollback();
+    throw err;
+  }
+}
+
+// Marks an alert as sent, so a repeated delivery of its check does not send it again.
+export async function markDelivered(alert: PendingAlert): Promise<void> {
+  await alertsDB.exec`
+    UPDATE alert_notifications SET delivered_at = NOW() WHERE id = ${alert.notificationId}
+  `;
+}
+
+function toPendingAlert(dashboardId: string, row: PendingAlertRow): PendingAlert {
+  return {
+    notificationId: row.id,
+    kind: row.state === "down" ? "down" : "recovered",
+    dashboardId,
+    status: row.status,
+    error: row.error ?? undefined,
+    outageStartedAt: row.outage_started_at ?? undefined,
+    checkedAt: row.checked_at,
+  };
+}
@@ -0,0 +1,10 @@
+import { Subscription } from "encore.dev/pubsub";
+import { workspaceDeletions } from "../auth/topic";
+import { alertsDB } from "./db";
+
+// Drops the webhooks of a deleted workspace.
+export const _ = new Subscription(workspaceDeletions, "forget-workspace-webhooks", {
+  handler: async ({ workspaceId }) => {
+    await alertsDB.exec`DELETE FROM webhooks WHERE workspace_id = ${workspaceId}`;
+  },
+});
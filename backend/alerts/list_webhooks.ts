@@ -0,0 +1,24 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { alertsDB } from "./db";
+import { Webhook, WebhookRow, toWebhook } from "./types";
+
+interface ListWebhooksResponse {
+  webhooks: Webhook[];
+}
+
+// Returns the alerting webhooks of the caller's workspace.
+export const listWebhooks = api<void, ListWebhooksResponse>(
+  { expose: true, method: "GET", path: "/alerts/webhooks", auth: true },
+  async () => {
+    const caller = requireRole("admin");
+
+    const rows = await alertsDB.queryAll<WebhookRow>`
+      SELECT id, name, url, format, enabled, last_delivery_at, last_delivery_error, created_at
+      FROM webhooks
+      WHERE workspace_id = ${caller.workspaceID}
+      ORDER BY LOWER(name)
+    `;
+    return { webhooks: rows.map(toWebhook) };
+  }
+);
@@ -0,0 +1,42 @@
+CREATE TABLE webhooks (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('generic', 'slack', 'teams')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_delivery_at TIMESTAMPTZ,
+  -- Why the last delivery failed; NULL when it succeeded.
+  last_delivery_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX webhooks_name_idx ON webhooks (LOWER(name));
+
+-- Where each dashboard stands as far as alerting is concerned. Dashboards live in
+-- the dashboards service; no foreign key across databases.
+CREATE TABLE alert_state (
+  dashboard_id TEXT PRIMARY KEY,
+  -- The state enough consecutive checks agree on.
+  confirmed TEXT NOT NULL CHECK (confirmed IN ('up', 'down')),
+  -- The state the webhooks were last told about.
+  notified TEXT NOT NULL CHECK (notified IN ('up', 'down')),
+  -- The run of checks with the same outcome that ends at the latest check.
+  streak_state TEXT NOT NULL CHECK (streak_state IN ('up', 'down')),
+  streak_length INTEGER NOT NULL,
+  streak_started_at TIMESTAMPTZ NOT NULL,
+  -- When the current or most recent outage began.
+  outage_started_at TIMESTAMPTZ,
+  last_status TEXT NOT NULL,
+  last_error TEXT,
+  last_checked_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE alert_notifications (
+  id BIGSERIAL PRIMARY KEY,
+  dashboard_id TEXT NOT NULL,
+  state TEXT NOT NULL CHECK (state IN ('up', 'down')),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX alert_notifications_dashboard_sent_at ON alert_notifications (dashboard_id, sent_at);
@@ -0,0 +1,7 @@
+-- Webhooks only hear about the dashboards of their own workspace. Workspaces live in
+-- the auth service; no foreign key across databases.
+ALTER TABLE webhooks ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'workspace-default';
+
+-- Names only need to be unique within a workspace.
+DROP INDEX webhooks_name_idx;
+CREATE UNIQUE INDEX webhooks_name_idx ON webhooks (workspace_id, LOWER(name));
@@ -0,0 +1,14 @@
+-- A notification is recorded together with the alert it sends and stays pending until
+-- the webhooks have been called, so a health result delivered again after a failed
+-- attempt sends the same alert rather than nothing.
+ALTER TABLE alert_notifications
+  ADD COLUMN status TEXT,
+  ADD COLUMN error TEXT,
+  ADD COLUMN outage_started_at TIMESTAMPTZ,
+  ADD COLUMN checked_at TIMESTAMPTZ,
+  ADD COLUMN delivered_at TIMESTAMPTZ;
+
+UPDATE alert_notifications SET delivered_at = sent_at;
+
+CREATE INDEX alert_notifications_pending_idx ON alert_notifications (dashboard_id, checked_at)
+  WHERE delivered_at IS NULL;
@@ -0,0 +1,8 @@
+-- The webhooks a notification reached, so a retry after a failed delivery only calls
+-- the webhooks that did not get it yet.
+CREATE TABLE alert_deliveries (
+  notification_id BIGINT NOT NULL REFERENCES alert_notifications (id) ON DELETE CASCADE,
+  webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+  delivered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (notification_id, webhook_id)
+);
@@ -0,0 +1,39 @@
+import { Subscription } from "encore.dev/pubsub";
+import { dashboards } from "~encore/clients";
+import { healthChecks } from "../health/topic";
+import { deliverAll } from "./deliver";
+import { PendingAlert, evaluate, markDelivered } from "./evaluate";
+
+// Follows every round of health checks and alerts the webhooks of a dashboard's
+// workspace when it goes down or comes back. An alert stays pending until every webhook
+// has accepted it; should one fail, the round fails and its redelivery sends the alert
+// again to the webhooks that did not get it.
+export const _ = new Subscription(healthChecks, "send-health-alerts", {
+  handler: async ({ results }) => {
+    const alerts: PendingAlert[] = [];
+    for (const health of results) {
+      const alert = await evaluate(health);
+      if (alert) alerts.push(alert);
+    }
+    if (alerts.length === 0) return;
+
+    const { dashboards: all, workspaces } = await dashboards.listAll();
+    let undelivered = 0;
+    for (const alert of alerts) {
+      // A dashboard deleted since the check has no workspace left to tell.
+      const workspaceID = workspaces[alert.dashboardId];
+      if (workspaceID) {
+        const { notificationId, ...event } = alert;
+        const dashboardName = all.find((d) => d.id === alert.dashboardId)?.name ?? alert.dashboardId;
+        if (!(await deliverAll(workspaceID, notificationId, { ...event, dashboardName }))) {
+          undelivered++;
+          continue;
+        }
+      }
+      await markDelivered(alert);
+    }
+    if (undelivered > 0) {
+      throw new Error(`${undelivered} alert(s) did not reach every webhook`);
+    }
+  },
+});
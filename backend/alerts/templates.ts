@@ -0,0 +1,113 @@
+import { AlertEvent, WebhookFormat } from "./types";
+
+const APP_NAME = "Power BI Dashboard Viewer";
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(Math.round(ms / 60000), 1);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+}
+
+// One line saying what happened, shared by every format.
+function headline(event: AlertEvent): string {
+  switch (event.kind) {
+    case "down":
+      return `"${event.dashboardName}" is ${event.status}${event.error ? `: ${event.error}` : ""}`;
+    case "recovered":
+      return event.outageStartedAt
+        ? `"${event.dashboardName}" is back online after ${formatDuration(event.checkedAt.getTime() - event.outageStartedAt.getTime())}`
+        : `"${event.dashboardName}" is back online`;
+    case "test":
+      return `Test alert for "${event.dashboardName}" from ${APP_NAME}`;
+  }
+}
+
+function facts(event: AlertEvent): { name: string; value: string }[] {
+  const result: { name: string; value: string }[] = [{ name: "Status", value: event.status }];
+  if (event.error) result.push({ name: "Error", value: event.error });
+  if (event.outageStartedAt) {
+    result.push({ name: event.kind === "recovered" ? "Outage began" : "Down since", value: event.outageStartedAt.toISOString() });
+  }
+  result.push({ name: "Checked at", value: event.checkedAt.toISOString() });
+  return result;
+}
+
+function genericPayload(event: AlertEvent): unknown {
+  return {
+    event: `dashboard.${event.kind}`,
+    message: headline(event),
+    dashboard: { id: event.dashboardId, name: event.dashboardName },
+    status: event.status,
+    error: event.error ?? null,
+    outageStartedAt: event.outageStartedAt?.toISOString() ?? null,
+    checkedAt: event.checkedAt.toISOString(),
+  };
+}
+
+// Slack treats &, < and > as markup in message text.
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+const SLACK_EMOJI = { down: ":red_circle:", recovered: ":large_green_circle:", test: ":bell:" };
+
+function slackPayload(event: AlertEvent): unknown {
+  const text = `${SLACK_EMOJI[event.kind]} ${escapeSlack(headline(event))}`;
+  return {
+    // Shown in notifications and by clients that do not render blocks.
+    text,
+    blocks: [
+      { type: "section", text: { type: "mrkdwn", text } },
+      {
+        type: "context",
+        elements: facts(event).map((fact) => ({ type: "mrkdwn", text: `*${fact.name}:* ${escapeSlack(fact.value)}` })),
+      },
+    ],
+  };
+}
+
+const TEAMS_COLORS = { down: "attention", recovered: "good", test: "accent" };
+
+// An Adaptive Card message, which both Teams workflows and the older connectors accept.
+function teamsPayload(event: AlertEvent): unknown {
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body: [
+            {
+              type: "TextBlock",
+              text: headline(event),
+              weight: "bolder",
+              size: "medium",
+              color: TEAMS_COLORS[event.kind],
+              wrap: true,
+            },
+            {
+              type: "FactSet",
+              facts: facts(event).map((fact) => ({ title: fact.name, value: fact.value })),
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+// Lays an alert out the way the receiving end of a webhook expects it.
+export function buildPayload(format: WebhookFormat, event: AlertEvent): unknown {
+  switch (format) {
+    case "generic":
+      return genericPayload(event);
+    case "slack":
+      return slackPayload(event);
+    case "teams":
+      return teamsPayload(event);
+  }
+}
@@ -0,0 +1,37 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { alertsDB } from "./db";
+import { deliver } from "./deliver";
+import { DeliveryResult, WebhookRow, toWebhook } from "./types";
+
+interface TestWebhookRequest {
+  id: string;
+}
+
+// Sends a sample alert to a webhook, enabled or not, so its setup can be confirmed.
+export const testWebhook = api<TestWebhookRequest, DeliveryResult>(
+  { expose: true, method: "POST", path: "/alerts/webhooks/:id/test", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const row = await alertsDB.queryRow<WebhookRow>`
+      SELECT id, name, url, format, enabled, last_delivery_at, last_delivery_error, created_at
+      FROM webhooks
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+    `;
+    if (!row) {
+      throw APIError.notFound("webhook not found");
+    }
+
+    const { dashboards: all } = await dashboards.list();
+    const sample = all[0];
+    return deliver(toWebhook(row), {
+      kind: "test",
+      dashboardId: sample?.id ?? "sample",
+      dashboardName: sample?.name ?? "Sample dashboard",
+      status: "online",
+      checkedAt: new Date(),
+    });
+  }
+);
@@ -0,0 +1,80 @@
+import { HealthState } from "../health/types";
+
+// Payload layouts: plain JSON for custom receivers, or messages Slack and Microsoft
+// Teams incoming webhooks render as they are.
+export type WebhookFormat = "generic" | "slack" | "teams";
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ["generic", "slack", "teams"];
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  lastDeliveryAt?: Date;
+  // Why the last delivery failed; unset when it succeeded.
+  lastDeliveryError?: string;
+  createdAt: Date;
+}
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+}
+
+export interface WebhookRow {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  last_delivery_at: Date | null;
+  last_delivery_error: string | null;
+  created_at: Date;
+}
+
+export function toWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    format: row.format,
+    enabled: row.enabled,
+    lastDeliveryAt: row.last_delivery_at ?? undefined,
+    lastDeliveryError: row.last_delivery_error ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// A webhook as the audit trail keeps it: its settings, without the outcome of its
+// last delivery.
+export function auditedWebhook(webhook: Webhook): Omit<Webhook, "lastDeliveryAt" | "lastDeliveryError"> {
+  const { lastDeliveryAt: _at, lastDeliveryError: _error, ...settings } = webhook;
+  return settings;
+}
+
+// "down" covers every health state other than online.
+export type AlertState = "up" | "down";
+
+export type AlertKind = "down" | "recovered" | "test";
+
+// What the webhooks are told; each format lays it out its own way.
+export interface AlertEvent {
+  kind: AlertKind;
+  dashboardId: string;
+  dashboardName: string;
+  status: HealthState;
+  error?: string;
+  // When the outage began; for a recovery, the outage that just ended.
+  outageStartedAt?: Date;
+  checkedAt: Date;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+}
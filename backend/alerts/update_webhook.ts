@@ -0,0 +1,58 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { alertsDB } from "./db";
+import { Webhook, WebhookInput, WebhookRow, auditedWebhook, toWebhook } from "./types";
+import { validateWebhookInput, validateWebhookTarget } from "./validation";
+
+interface UpdateWebhookRequest extends WebhookInput {
+  id: string;
+}
+
+// Changes where a webhook posts to, its payload format, or whether it is enabled.
+export const updateWebhook = api<UpdateWebhookRequest, Webhook>(
+  { expose: true, method: "PUT", path: "/alerts/webhooks/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const input = validateWebhookInput(req);
+    await validateWebhookTarget(input.url);
+
+    const duplicate = await alertsDB.queryRow`
+      SELECT id FROM webhooks WHERE LOWER(name) = LOWER(${input.name}) AND id <> ${req.id} AND workspace_id = ${caller.workspaceID}
+    `;
+    if (duplicate) {
+      throw APIError.alreadyExists("a webhook with this name already exists");
+    }
+
+    const current = await alertsDB.queryRow<WebhookRow>`
+      SELECT id, name, url, format, enabled, last_delivery_at, last_delivery_error, created_at
+      FROM webhooks
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+    `;
+    const row = await alertsDB.queryRow<WebhookRow>`
+      UPDATE webhooks
+      SET name = ${input.name},
+          url = ${input.url},
+          format = ${input.format},
+          enabled = ${input.enabled},
+          updated_at = NOW()
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+      RETURNING id, name, url, format, enabled, last_delivery_at, last_delivery_error, created_at
+    `;
+    if (!row || !current) {
+      throw APIError.notFound("webhook not found");
+    }
+
+    const webhook = toWebhook(row);
+    await recordChange(caller, {
+      action: "update",
+      resource: "webhook",
+      resourceId: webhook.id,
+      resourceName: webhook.name,
+      before: auditedWebhook(toWebhook(current)),
+      after: auditedWebhook(webhook),
+    });
+    return webhook;
+  }
+);
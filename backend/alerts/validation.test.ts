@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { WebhookInput } from "./types";
+import { validateWebhookInput, validateWebhookTarget } from "./validation";
+
+const valid: WebhookInput = { name: "Ops channel", url: "https://hooks.example.com/alerts", format: "slack", enabled: true };
+
+describe("validateWebhookInput", () => {
+  test("trims the name and URL and keeps the rest", () => {
+    expect(validateWebhookInput({ ...valid, name: "  Ops channel ", url: " https://hooks.example.com/alerts " })).toEqual(
+      valid
+    );
+  });
+
+  test("enables webhooks unless they are explicitly disabled", () => {
+    expect(validateWebhookInput({ ...valid, enabled: undefined as unknown as boolean }).enabled).toBe(true);
+    expect(validateWebhookInput({ ...valid, enabled: false }).enabled).toBe(false);
+  });
+
+  test("rejects names shorter than 3 or longer than 50 characters", () => {
+    expect(() => validateWebhookInput({ ...valid, name: " ab " })).toThrow("between 3 and 50");
+    expect(() => validateWebhookInput({ ...valid, name: "x".repeat(51) })).toThrow("between 3 and 50");
+  });
+
+  test("rejects URLs that do not parse or use another scheme", () => {
+    expect(() => validateWebhookInput({ ...valid, url: "hooks.example.com" })).toThrow("not a valid URL");
+    expect(() => validateWebhookInput({ ...valid, url: "ftp://hooks.example.com" })).toThrow("http or https");
+  });
+
+  test("rejects URLs longer than 2000 characters", () => {
+    const url = `https://hooks.example.com/${"a".repeat(2000)}`;
+    expect(() => validateWebhookInput({ ...valid, url })).toThrow("at most 2000");
+  });
+
+  test("rejects unknown formats", () => {
+    expect(() => validateWebhookInput({ ...valid, format: "email" as never })).toThrow("generic, slack, teams");
+  });
+});
+
+describe("validateWebhookTarget", () => {
+  test("accepts public addresses", async () => {
+    await expect(validateWebhookTarget("https://93.184.216.34/hooks/alerts")).resolves.toBeUndefined();
+  });
+
+  test("rejects loopback, private and link-local addresses", async () => {
+    for (const url of ["http://127.0.0.1:4000/hook", "http://10.0.0.5/hook", "http://169.254.169.254/latest", "http://[::1]/hook"]) {
+      await expect(validateWebhookTarget(url)).rejects.toThrow("private or local address");
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { APIError } from "encore.dev/api";
+import { assertPublicUrl } from "../health/addresses";
+import { WEBHOOK_FORMATS, WebhookInput } from "./types";
+
+// Normalizes and validates a webhook payload.
+export function validateWebhookInput(input: WebhookInput): WebhookInput {
+  const name = input.name?.trim() ?? "";
+  const url = input.url?.trim() ?? "";
+
+  if (name.length < 3 || name.length > 50) {
+    throw APIError.invalidArgument("webhook name must be between 3 and 50 characters");
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw APIError.invalidArgument("webhook URL is not a valid URL");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw APIError.invalidArgument("webhook URL must use http or https");
+  }
+  if (url.length > 2000) {
+    throw APIError.invalidArgument("webhook URL must be at most 2000 characters");
+  }
+
+  if (!WEBHOOK_FORMATS.includes(input.format)) {
+    throw APIError.invalidArgument(`webhook format must be one of ${WEBHOOK_FORMATS.join(", ")}`);
+  }
+
+  return { name, url, format: input.format, enabled: input.enabled !== false };
+}
+
+// Webhooks are called from the server, so like health checks they must not reach the
+// host or its private networks. Kept apart from validateWebhookInput as it resolves the
+// host name.
+export async function validateWebhookTarget(url: string): Promise<void> {
+  try {
+    await assertPublicUrl(new URL(url));
+  } catch (err) {
+    throw APIError.invalidArgument(`webhook URL cannot be used: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
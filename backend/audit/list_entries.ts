@@ -0,0 +1,87 @@
+import { api, APIError } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { auditDB } from "./db";
+import { AUDIT_ACTIONS, AUDIT_RESOURCES, AuditAction, AuditEntry, AuditEntryRow, AuditResource, toAuditEntry } from "./types";
+
+const DEFAULT_LIMIT = 100;
+// Large enough to export a busy month in one go.
+const MAX_LIMIT = 5000;
+
+interface ListEntriesRequest {
+  // ISO timestamps bounding when the change happened.
+  from?: string;
+  to?: string;
+  // Matches part of the actor's username.
+  actor?: string;
+  resource?: AuditResource;
+  action?: AuditAction;
+  // Matches part of the resource's name or ID.
+  search?: string;
+  limit?: number;
+}
+
+interface ListEntriesResponse {
+  entries: AuditEntry[];
+  // More entries match than were returned.
+  hasMore: boolean;
+}
+
+function parseTimestamp(value: string | undefined, name: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw APIError.invalidArgument(`${name} must be a valid timestamp`);
+  }
+  return date;
+}
+
+// Pattern for a case-insensitive substring match, with LIKE wildcards taken literally.
+function containsPattern(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? `%${trimmed.replace(/[\\%_]/g, "\\$&")}%` : null;
+}
+
+// Returns the configuration changes recorded in the caller's workspace, and those to users and
+// workspaces, newest first, narrowed by the given filters.
+export const listEntries = api<ListEntriesRequest, ListEntriesResponse>(
+  { expose: true, method: "GET", path: "/audit", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const from = parseTimestamp(req.from, "from");
+    const to = parseTimestamp(req.to, "to");
+    if (req.resource && !AUDIT_RESOURCES.includes(req.resource)) {
+      throw APIError.invalidArgument(`resource must be one of ${AUDIT_RESOURCES.join(", ")}`);
+    }
+    if (req.action && !AUDIT_ACTIONS.includes(req.action)) {
+      throw APIError.invalidArgument(`action must be one of ${AUDIT_ACTIONS.join(", ")}`);
+    }
+    const limit = req.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw APIError.invalidArgument(`limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    const actor = containsPattern(req.actor);
+    const search = containsPattern(req.search);
+
+    // One extra row tells whether there are more.
+    const rows = await auditDB.queryAll<AuditEntryRow>`
+      SELECT id, occurred_at, actor_id, actor_name, action, resource, resource_id, resource_name, before_value, after_value
+      FROM audit_entries
+      WHERE (workspace_id = ${caller.workspaceID} OR workspace_id IS NULL)
+        AND (${from}::timestamptz IS NULL OR occurred_at >= ${from})
+        AND (${to}::timestamptz IS NULL OR occurred_at < ${to})
+        AND (${actor}::text IS NULL OR actor_name ILIKE ${actor})
+        AND (${req.resource ?? null}::text IS NULL OR resource = ${req.resource ?? null})
+        AND (${req.action ?? null}::text IS NULL OR action = ${req.action ?? null})
+        AND (${search}::text IS NULL OR resource_name ILIKE ${search} OR resource_id ILIKE ${search})
+      ORDER BY occurred_at DESC, id
+      LIMIT ${limit + 1}
+    `;
+
+    return {
+      entries: rows.slice(0, limit).map(toAuditEntry),
+      hasMore: rows.length > limit,
+    };
+  }
+);
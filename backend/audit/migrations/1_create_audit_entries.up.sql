@@ -0,0 +1,31 @@
+CREATE TABLE audit_entries (
+  id TEXT PRIMARY KEY,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  actor_id TEXT NOT NULL,
+  actor_name TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  resource TEXT NOT NULL CHECK (resource IN ('dashboard', 'playlist', 'schedule', 'settings')),
+  resource_id TEXT,
+  resource_name TEXT,
+  before_value JSONB,
+  after_value JSONB,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX audit_entries_occurred_at_idx ON audit_entries (occurred_at DESC);
+CREATE INDEX audit_entries_resource_idx ON audit_entries (resource, resource_id);
+
+-- The trail is append-only: entries can be added, never changed or removed.
+CREATE FUNCTION reject_audit_entry_change() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit entries cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_entries_append_only
+  BEFORE UPDATE OR DELETE ON audit_entries
+  FOR EACH ROW EXECUTE FUNCTION reject_audit_entry_change();
+
+CREATE TRIGGER audit_entries_no_truncate
+  BEFORE TRUNCATE ON audit_entries
+  FOR EACH STATEMENT EXECUTE FUNCTION reject_audit_entry_change();
@@ -0,0 +1,3 @@
+ALTER TABLE audit_entries DROP CONSTRAINT audit_entries_resource_check;
+ALTER TABLE audit_entries ADD CONSTRAINT audit_entries_resource_check
+  CHECK (resource IN ('dashboard', 'folder', 'playlist', 'schedule', 'settings', 'tag'));
@@ -0,0 +1,7 @@
+-- The workspace a change was made in; workspaces live in the auth service, so no
+-- foreign key across databases. Entries from before workspaces existed belong to the
+-- default workspace. Adding a column does not touch the rows, so the append-only
+-- triggers do not fire.
+ALTER TABLE audit_entries ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'workspace-default';
+
+CREATE INDEX audit_entries_workspace_idx ON audit_entries (workspace_id, occurred_at DESC);
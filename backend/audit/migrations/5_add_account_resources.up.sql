@@ -0,0 +1,8 @@
+ALTER TABLE audit_entries DROP CONSTRAINT audit_entries_resource_check;
+ALTER TABLE audit_entries ADD CONSTRAINT audit_entries_resource_check
+  CHECK (resource IN (
+    'dashboard', 'display', 'folder', 'layout', 'playlist', 'schedule', 'settings', 'tag', 'user', 'webhook', 'workspace'
+  ));
+
+-- Users and workspaces belong to no workspace; their entries have none.
+ALTER TABLE audit_entries ALTER COLUMN workspace_id DROP NOT NULL;
@@ -0,0 +1,22 @@
+import { Subscription } from "encore.dev/pubsub";
+import { auditDB } from "./db";
+import { auditEvents } from "./topic";
+
+// Appends every recorded configuration change to the audit trail.
+export const _ = new Subscription(auditEvents, "store-audit-entries", {
+  handler: async (event) => {
+    await auditDB.exec`
+      INSERT INTO audit_entries (
+        id, occurred_at, actor_id, actor_name, workspace_id, action, resource, resource_id, resource_name,
+        before_value, after_value
+      )
+      VALUES (
+        ${event.id}, ${event.occurredAt}, ${event.actorId}, ${event.actorName}, ${event.workspaceId ?? null},
+        ${event.action}, ${event.resource}, ${event.resourceId ?? null}, ${event.resourceName ?? null},
+        ${event.before ? JSON.stringify(event.before) : null}::jsonb,
+        ${event.after ? JSON.stringify(event.after) : null}::jsonb
+      )
+      ON CONFLICT (id) DO NOTHING
+    `;
+  },
+});
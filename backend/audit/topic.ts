@@ -0,0 +1,62 @@
+import log from "encore.dev/log";
+import { Topic } from "encore.dev/pubsub";
+import { randomUUID } from "node:crypto";
+import { AuthData } from "../auth/auth";
+import { AuditEntry, SHARED_AUDIT_RESOURCES } from "./types";
+
+// A configuration change to add to the audit trail. The ID is chosen by the
+// publisher, so a redelivered message is stored once.
+export interface AuditEvent extends AuditEntry {
+  // The workspace the change was made in; only its admins see the entry. Unset for
+  // users and workspaces, which every workspace's admins see.
+  workspaceId?: string;
+}
+
+export const auditEvents = new Topic<AuditEvent>("audit-events", {
+  deliveryGuarantee: "at-least-once",
+});
+
+export interface AuditChange {
+  action: AuditEntry["action"];
+  resource: AuditEntry["resource"];
+  resourceId?: string;
+  resourceName?: string;
+  before?: object;
+  after?: object;
+}
+
+const PUBLISH_ATTEMPTS = 3;
+const PUBLISH_RETRY_DELAY_MS = 250;
+
+// Records a change made by the caller; call it once the change has been committed.
+// A change that cannot be published after a few attempts is logged in full as an
+// error rather than failing the request, whose change has already been made.
+export async function recordChange(actor: AuthData, change: AuditChange): Promise<void> {
+  const event: AuditEvent = {
+    id: `audit-${randomUUID()}`,
+    occurredAt: new Date(),
+    actorId: actor.userID,
+    actorName: actor.username,
+    workspaceId: SHARED_AUDIT_RESOURCES.includes(change.resource) ? undefined : actor.workspaceID,
+    action: change.action,
+    resource: change.resource,
+    resourceId: change.resourceId,
+    resourceName: change.resourceName,
+    // Round-trip through JSON so the stored values match what the API returned.
+    before: change.before ? JSON.parse(JSON.stringify(change.before)) : undefined,
+    after: change.after ? JSON.parse(JSON.stringify(change.after)) : undefined,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await auditEvents.publish(event);
+      return;
+    } catch (err) {
+      if (attempt >= PUBLISH_ATTEMPTS) {
+        log.error(err, "audit entry lost: the change was made but is missing from the audit trail", { entry: event });
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, PUBLISH_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
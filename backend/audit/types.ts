@@ -0,0 +1,81 @@
+export type AuditAction = "create" | "update" | "delete";
+
+export const AUDIT_ACTIONS: AuditAction[] = ["create", "update", "delete"];
+
+// The kinds of configuration whose changes are recorded.
+export type AuditResource =
+  | "dashboard"
+  | "display"
+  | "folder"
+  | "layout"
+  | "playlist"
+  | "schedule"
+  | "settings"
+  | "tag"
+  | "user"
+  | "webhook"
+  | "workspace";
+
+export const AUDIT_RESOURCES: AuditResource[] = [
+  "dashboard",
+  "display",
+  "folder",
+  "layout",
+  "playlist",
+  "schedule",
+  "settings",
+  "tag",
+  "user",
+  "webhook",
+  "workspace",
+];
+
+// Resources shared by every workspace; their changes show up in the trail of each.
+export const SHARED_AUDIT_RESOURCES: AuditResource[] = ["user", "workspace"];
+
+// A value as stored in the before and after snapshots, which are kept as JSON.
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+export interface AuditEntry {
+  id: string;
+  occurredAt: Date;
+  actorId: string;
+  actorName: string;
+  action: AuditAction;
+  resource: AuditResource;
+  // Unset for the single schedule and settings.
+  resourceId?: string;
+  resourceName?: string;
+  // The resource as it was before the change; unset when it was created.
+  before?: { [key: string]: JsonValue };
+  // The resource as it was after the change; unset when it was deleted.
+  after?: { [key: string]: JsonValue };
+}
+
+export interface AuditEntryRow {
+  id: string;
+  occurred_at: Date;
+  actor_id: string;
+  actor_name: string;
+  action: AuditAction;
+  resource: AuditResource;
+  resource_id: string | null;
+  resource_name: string | null;
+  before_value: { [key: string]: JsonValue } | null;
+  after_value: { [key: string]: JsonValue } | null;
+}
+
+export function toAuditEntry(row: AuditEntryRow): AuditEntry {
+  return {
+    id: row.id,
+    occurredAt: row.occurred_at,
+    actorId: row.actor_id,
+    actorName: row.actor_name,
+    action: row.action,
+    resource: row.resource,
+    resourceId: row.resource_id ?? undefined,
+    resourceName: row.resource_name ?? undefined,
+    before: row.before_value ?? undefined,
+    after: row.after_value ?? undefined,
+  };
+}
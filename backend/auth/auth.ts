@@ -0,0 +1,60 @@
+import { APIError, Cookie, ErrCode, Gateway } from "encore.dev/api";
+import { authHandler } from "encore.dev/auth";
+import { displays } from "~encore/clients";
+import { authFailuresTotal } from "../metrics/instruments";
+import { Role } from "./roles";
+import { findSessionUser } from "./sessions";
+
+interface AuthParams {
+  session?: Cookie<"session">;
+  display?: Cookie<"display">;
+}
+
+export interface AuthData {
+  userID: string;
+  username: string;
+  role: Role;
+  // Set when the caller is a paired display rather than a signed-in person.
+  displayID?: string;
+  // The workspace the caller works in; every workspace-owned resource is scoped to it.
+  workspaceID: string;
+}
+
+// Resolves the session cookie to the signed-in user for every protected endpoint.
+// Paired displays authenticate with their own credential and get read-only access.
+export const auth = authHandler<AuthParams, AuthData>(async (params) => {
+  const token = params.session?.value;
+  if (token) {
+    const user = await findSessionUser(token);
+    if (!user) {
+      authFailuresTotal.inc({ reason: "invalid_session" });
+      throw APIError.unauthenticated("invalid or expired session");
+    }
+    return { userID: user.id, username: user.username, role: user.role, workspaceID: user.workspaceId };
+  }
+
+  const displayToken = params.display?.value;
+  if (displayToken) {
+    // Only an unknown credential is turned away; any other failure is not the screen's fault.
+    const display = await displays.identify({ token: displayToken }).catch((err) => {
+      if (err instanceof APIError && err.code === ErrCode.NotFound) return null;
+      throw err;
+    });
+    if (!display) {
+      authFailuresTotal.inc({ reason: "unknown_display" });
+      throw APIError.unauthenticated("display is no longer registered");
+    }
+    return {
+      userID: display.id,
+      username: display.name,
+      role: "viewer",
+      displayID: display.id,
+      workspaceID: display.workspaceId,
+    };
+  }
+
+  authFailuresTotal.inc({ reason: "missing_credentials" });
+  throw APIError.unauthenticated("missing session");
+});
+
+export const gw = new Gateway({ authHandler: auth });
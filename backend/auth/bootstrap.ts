@@ -0,0 +1,23 @@
+import { secret } from "encore.dev/config";
+import { randomUUID } from "node:crypto";
+import { authDB } from "./db";
+import { hashPassword } from "./password";
+
+const initialAdminUsername = secret("InitialAdminUsername");
+const initialAdminPassword = secret("InitialAdminPassword");
+
+// Creates the first account from secrets when the users table is still empty,
+// so a fresh environment can be signed into without credentials in the bundle.
+export async function ensureInitialUser(): Promise<void> {
+  const existing = await authDB.queryRow`SELECT id FROM users LIMIT 1`;
+  if (existing) {
+    return;
+  }
+
+  const passwordHash = await hashPassword(initialAdminPassword());
+  await authDB.exec`
+    INSERT INTO users (id, username, password_hash, role)
+    VALUES (${randomUUID()}, ${initialAdminUsername()}, ${passwordHash}, 'admin')
+    ON CONFLICT DO NOTHING
+  `;
+}
@@ -0,0 +1,24 @@
+import { Cookie } from "encore.dev/api";
+
+export function sessionCookie(token: string, expires: Date): Cookie<"session"> {
+  return {
+    value: token,
+    expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    path: "/",
+  };
+}
+
+// Long-lived credential of a paired display (kiosk device); see the displays service.
+export function displayCookie(token: string, expires: Date): Cookie<"display"> {
+  return {
+    value: token,
+    expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    path: "/",
+  };
+}
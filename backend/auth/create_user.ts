@@ -0,0 +1,58 @@
+import { api, APIError } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { authDB } from "./db";
+import { hashPassword } from "./password";
+import { Role, requireRole } from "./roles";
+import { ManagedUser, ManagedUserRow, toManagedUser } from "./types";
+import { validatePassword, validateRole, validateUsername, validateWorkspaceIds } from "./validation";
+import { DEFAULT_WORKSPACE_ID, replaceMemberships } from "./workspaces";
+
+interface CreateUserRequest {
+  username: string;
+  password: string;
+  role: Role;
+  // Defaults to the default workspace.
+  workspaceIds?: string[];
+}
+
+// Creates a new account with an initial password.
+export const createUser = api<CreateUserRequest, ManagedUser>(
+  { expose: true, method: "POST", path: "/auth/users", auth: true, sensitive: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const username = validateUsername(req.username);
+    const password = validatePassword(req.password);
+    const role = validateRole(req.role);
+    const workspaceIds = await validateWorkspaceIds(req.workspaceIds ?? [DEFAULT_WORKSPACE_ID], role);
+
+    const existing = await authDB.queryRow`
+      SELECT id FROM users WHERE LOWER(username) = LOWER(${username})
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("a user with this username already exists");
+    }
+
+    const passwordHash = await hashPassword(password);
+    const row = await authDB.queryRow<ManagedUserRow>`
+      INSERT INTO users (id, username, password_hash, role)
+      VALUES (${randomUUID()}, ${username}, ${passwordHash}, ${role})
+      RETURNING id, username, role, disabled, created_at
+    `;
+    if (!row) {
+      throw APIError.internal("failed to create user");
+    }
+    await replaceMemberships(row.id, workspaceIds);
+
+    const user = toManagedUser(row, workspaceIds);
+    await recordChange(caller, {
+      action: "create",
+      resource: "user",
+      resourceId: user.id,
+      resourceName: user.username,
+      after: user,
+    });
+    return user;
+  }
+);
@@ -0,0 +1,47 @@
+import { api, APIError } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { authDB } from "./db";
+import { requireRole } from "./roles";
+import { Workspace, WorkspaceRow, toWorkspace } from "./types";
+import { validateWorkspaceName } from "./validation";
+
+interface CreateWorkspaceRequest {
+  name: string;
+}
+
+// Creates an empty workspace; members are added from the user administration.
+export const createWorkspace = api<CreateWorkspaceRequest, Workspace>(
+  { expose: true, method: "POST", path: "/workspaces", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const name = validateWorkspaceName(req.name);
+
+    const existing = await authDB.queryRow`
+      SELECT id FROM workspaces WHERE LOWER(name) = LOWER(${name})
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("a workspace with this name already exists");
+    }
+
+    const row = await authDB.queryRow<WorkspaceRow>`
+      INSERT INTO workspaces (id, name)
+      VALUES (${`workspace-${randomUUID()}`}, ${name})
+      RETURNING id, name, created_at
+    `;
+    if (!row) {
+      throw APIError.internal("failed to create workspace");
+    }
+
+    const workspace = toWorkspace(row);
+    await recordChange(caller, {
+      action: "create",
+      resource: "workspace",
+      resourceId: workspace.id,
+      resourceName: workspace.name,
+      after: workspace,
+    });
+    return workspace;
+  }
+);
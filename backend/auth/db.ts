@@ -0,0 +1,5 @@
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+
+export const authDB = new SQLDatabase("auth", {
+  migrations: "./migrations",
+});
@@ -0,0 +1,51 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { authDB } from "./db";
+import { requireRole } from "./roles";
+import { ManagedUserRow, toManagedUser } from "./types";
+import { ensureOtherAdminExists } from "./validation";
+import { loadMemberships } from "./workspaces";
+
+interface DeleteUserRequest {
+  id: string;
+}
+
+// Permanently removes an account and its sessions.
+export const deleteUser = api<DeleteUserRequest, void>(
+  { expose: true, method: "DELETE", path: "/auth/users/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    if (req.id === caller.userID) {
+      throw APIError.failedPrecondition("you cannot delete your own account");
+    }
+
+    const user = await authDB.queryRow<ManagedUserRow>`
+      SELECT id, username, role, disabled, created_at FROM users WHERE id = ${req.id}
+    `;
+    if (!user) {
+      throw APIError.notFound("user not found");
+    }
+
+    const memberships = await loadMemberships();
+    const tx = await authDB.begin();
+    try {
+      if (user.role === "admin" && !user.disabled) {
+        await ensureOtherAdminExists(tx, req.id);
+      }
+      await tx.exec`DELETE FROM users WHERE id = ${req.id}`;
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    await recordChange(caller, {
+      action: "delete",
+      resource: "user",
+      resourceId: user.id,
+      resourceName: user.username,
+      before: toManagedUser(user, memberships.get(user.id) ?? []),
+    });
+  }
+);
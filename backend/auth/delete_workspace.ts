@@ -0,0 +1,58 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards, displays } from "~encore/clients";
+import { recordChange } from "../audit/topic";
+import { authDB } from "./db";
+import { requireRole } from "./roles";
+import { workspaceDeletions } from "./topic";
+import { WorkspaceRow, toWorkspace } from "./types";
+import { DEFAULT_WORKSPACE_ID } from "./workspaces";
+
+interface DeleteWorkspaceRequest {
+  id: string;
+}
+
+// Deletes an empty workspace: its dashboards, playlists, layouts, folders and displays
+// have to be removed first. Sessions working in it move on to another workspace, and
+// its webhooks and settings are dropped.
+export const deleteWorkspace = api<DeleteWorkspaceRequest, void>(
+  { expose: true, method: "DELETE", path: "/workspaces/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    if (req.id === DEFAULT_WORKSPACE_ID) {
+      throw APIError.failedPrecondition("the default workspace cannot be deleted");
+    }
+
+    const contents = await dashboards.workspaceContents({ workspaceId: req.id });
+    const { registered } = await displays.workspaceCount({ workspaceId: req.id });
+    const remaining = [
+      [contents.dashboards, "dashboard"],
+      [contents.playlists, "playlist"],
+      [contents.layouts, "layout"],
+      [contents.folders, "folder"],
+      [registered, "display"],
+    ] as const;
+    const left = remaining
+      .filter(([count]) => count > 0)
+      .map(([count, kind]) => `${count} ${kind}${count === 1 ? "" : "s"}`);
+    if (left.length > 0) {
+      throw APIError.failedPrecondition(`the workspace still has ${left.join(", ")}`);
+    }
+
+    const row = await authDB.queryRow<WorkspaceRow>`
+      DELETE FROM workspaces WHERE id = ${req.id} RETURNING id, name, created_at
+    `;
+    if (!row) {
+      throw APIError.notFound("workspace not found");
+    }
+
+    await workspaceDeletions.publish({ workspaceId: req.id });
+    await recordChange(caller, {
+      action: "delete",
+      resource: "workspace",
+      resourceId: row.id,
+      resourceName: row.name,
+      before: toWorkspace(row),
+    });
+  }
+);
@@ -0,0 +1,25 @@
+import { api } from "encore.dev/api";
+import { authDB } from "./db";
+import { requireRole } from "./roles";
+import { ManagedUser, ManagedUserRow, toManagedUser } from "./types";
+import { loadMemberships } from "./workspaces";
+
+interface ListUsersResponse {
+  users: ManagedUser[];
+}
+
+// Lists every account for the user administration screen.
+export const listUsers = api<void, ListUsersResponse>(
+  { expose: true, method: "GET", path: "/auth/users", auth: true },
+  async () => {
+    requireRole("admin");
+
+    const rows = await authDB.queryAll<ManagedUserRow>`
+      SELECT id, username, role, disabled, created_at
+      FROM users
+      ORDER BY LOWER(username)
+    `;
+    const memberships = await loadMemberships();
+    return { users: rows.map((row) => toManagedUser(row, memberships.get(row.id))) };
+  }
+);
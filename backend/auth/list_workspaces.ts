@@ -0,0 +1,29 @@
+import { api } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { authDB } from "./db";
+import { Workspace, WorkspaceRow, toWorkspace } from "./types";
+import { accessibleWorkspaces } from "./workspaces";
+
+interface ListWorkspacesResponse {
+  workspaces: Workspace[];
+  // The workspace the caller works in right now.
+  currentId: string;
+}
+
+// Returns the workspaces the caller may switch between; a paired display only sees its own.
+export const listWorkspaces = api<void, ListWorkspacesResponse>(
+  { expose: true, method: "GET", path: "/workspaces", auth: true },
+  async () => {
+    const data = getAuthData()!;
+
+    if (data.displayID) {
+      const rows = await authDB.queryAll<WorkspaceRow>`
+        SELECT id, name, created_at FROM workspaces WHERE id = ${data.workspaceID}
+      `;
+      return { workspaces: rows.map(toWorkspace), currentId: data.workspaceID };
+    }
+
+    const workspaces = await accessibleWorkspaces({ id: data.userID, role: data.role });
+    return { workspaces, currentId: data.workspaceID };
+  }
+);
@@ -0,0 +1,60 @@
+import { api, APIError, Cookie } from "encore.dev/api";
+import { authFailuresTotal } from "../metrics/instruments";
+import { authDB } from "./db";
+import { ensureInitialUser } from "./bootstrap";
+import { verifyPassword } from "./password";
+import { Role } from "./roles";
+import { sessionCookie } from "./cookie";
+import { createSession, deleteExpiredSessions } from "./sessions";
+import { User } from "./types";
+import { resolveWorkspace } from "./workspaces";
+
+interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+interface LoginResponse {
+  user: User;
+  session: Cookie<"session">;
+}
+
+interface UserRow {
+  id: string;
+  username: string;
+  role: Role;
+  disabled: boolean;
+  password_hash: string;
+}
+
+// Verifies credentials and issues an HTTP-only session cookie.
+export const login = api<LoginRequest, LoginResponse>(
+  { expose: true, method: "POST", path: "/auth/login", sensitive: true },
+  async (req) => {
+    await ensureInitialUser();
+
+    const row = await authDB.queryRow<UserRow>`
+      SELECT id, username, role, disabled, password_hash
+      FROM users
+      WHERE LOWER(username) = LOWER(${req.username.trim()})
+    `;
+    const valid = row ? await verifyPassword(req.password, row.password_hash) : false;
+    if (!row || !valid) {
+      authFailuresTotal.inc({ reason: "invalid_password" });
+      throw APIError.unauthenticated("invalid username or password");
+    }
+    if (row.disabled) {
+      authFailuresTotal.inc({ reason: "disabled_account" });
+      throw APIError.permissionDenied("this account has been disabled");
+    }
+
+    const workspaceId = await resolveWorkspace(row, null);
+    await deleteExpiredSessions();
+    const { token, expiresAt } = await createSession(row.id, workspaceId);
+
+    return {
+      user: { id: row.id, username: row.username, role: row.role, workspaceId },
+      session: sessionCookie(token, expiresAt),
+    };
+  }
+);
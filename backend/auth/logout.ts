@@ -0,0 +1,28 @@
+import { api, Cookie } from "encore.dev/api";
+import { displayCookie, sessionCookie } from "./cookie";
+import { deleteSession } from "./sessions";
+
+interface LogoutRequest {
+  session?: Cookie<"session">;
+}
+
+interface LogoutResponse {
+  session: Cookie<"session">;
+  display: Cookie<"display">;
+}
+
+// Revokes the current session and clears the session and display cookies in the browser.
+// A display signed out this way has to be paired again.
+export const logout = api<LogoutRequest, LogoutResponse>(
+  { expose: true, method: "POST", path: "/auth/logout" },
+  async (req) => {
+    if (req.session?.value) {
+      await deleteSession(req.session.value);
+    }
+
+    return {
+      session: sessionCookie("", new Date(0)),
+      display: displayCookie("", new Date(0)),
+    };
+  }
+);
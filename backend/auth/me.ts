@@ -0,0 +1,18 @@
+import { api } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { User } from "./types";
+
+// Returns the user (or paired display) behind the current credential.
+export const me = api<void, User>(
+  { expose: true, method: "GET", path: "/auth/me", auth: true },
+  async () => {
+    const data = getAuthData()!;
+    return {
+      id: data.userID,
+      username: data.username,
+      role: data.role,
+      displayId: data.displayID,
+      workspaceId: data.workspaceID,
+    };
+  }
+);
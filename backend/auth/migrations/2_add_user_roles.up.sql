@@ -0,0 +1,5 @@
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer'
+  CHECK (role IN ('admin', 'editor', 'viewer'));
+
+-- Accounts created before roles existed were all full administrators.
+UPDATE users SET role = 'admin';
@@ -0,0 +1,27 @@
+CREATE TABLE workspaces (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX workspaces_name_idx ON workspaces (LOWER(name));
+
+-- Everything configured before workspaces existed belongs to this one; the other
+-- services default their rows to the same ID.
+INSERT INTO workspaces (id, name) VALUES ('workspace-default', 'Default');
+
+-- Admins may enter every workspace; everyone else only those they are a member of.
+CREATE TABLE workspace_members (
+  workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX workspace_members_user_id_idx ON workspace_members (user_id);
+
+INSERT INTO workspace_members (workspace_id, user_id)
+SELECT 'workspace-default', id FROM users;
+
+-- The workspace the session is working in; switched from the nav bar.
+ALTER TABLE sessions ADD COLUMN workspace_id TEXT REFERENCES workspaces (id) ON DELETE SET NULL;
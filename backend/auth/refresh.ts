@@ -0,0 +1,49 @@
+import { api, APIError, Cookie } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { DISPLAY_TOKEN_TTL_MS } from "../displays/tokens";
+import { displayCookie, sessionCookie } from "./cookie";
+import { renewSession } from "./sessions";
+import { User } from "./types";
+
+interface RefreshRequest {
+  session?: Cookie<"session">;
+  display?: Cookie<"display">;
+}
+
+interface RefreshResponse {
+  user: User;
+  session?: Cookie<"session">;
+  display?: Cookie<"display">;
+}
+
+// Restores the signed-in user or paired display on startup and slides its cookie expiry forward.
+export const refresh = api<RefreshRequest, RefreshResponse>(
+  { expose: true, method: "POST", path: "/auth/refresh", auth: true },
+  async (req) => {
+    const data = getAuthData()!;
+
+    if (data.displayID) {
+      return {
+        user: {
+          id: data.userID,
+          username: data.username,
+          role: data.role,
+          displayId: data.displayID,
+          workspaceId: data.workspaceID,
+        },
+        display: displayCookie(req.display!.value, new Date(Date.now() + DISPLAY_TOKEN_TTL_MS)),
+      };
+    }
+
+    const token = req.session?.value;
+    const expiresAt = token ? await renewSession(token) : null;
+    if (!token || !expiresAt) {
+      throw APIError.unauthenticated("session expired");
+    }
+
+    return {
+      user: { id: data.userID, username: data.username, role: data.role, workspaceId: data.workspaceID },
+      session: sessionCookie(token, expiresAt),
+    };
+  }
+);
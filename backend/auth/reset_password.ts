@@ -0,0 +1,41 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { authDB } from "./db";
+import { hashPassword } from "./password";
+import { requireRole } from "./roles";
+import { validatePassword } from "./validation";
+
+interface ResetPasswordRequest {
+  id: string;
+  password: string;
+}
+
+// Sets a new password for an account and signs it out everywhere.
+export const resetPassword = api<ResetPasswordRequest, void>(
+  { expose: true, method: "POST", path: "/auth/users/:id/password", auth: true, sensitive: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const passwordHash = await hashPassword(validatePassword(req.password));
+    const row = await authDB.queryRow<{ id: string; username: string }>`
+      UPDATE users
+      SET password_hash = ${passwordHash}, updated_at = NOW()
+      WHERE id = ${req.id}
+      RETURNING id, username
+    `;
+    if (!row) {
+      throw APIError.notFound("user not found");
+    }
+
+    await authDB.exec`DELETE FROM sessions WHERE user_id = ${req.id}`;
+
+    // Only the fact of the reset is recorded, never the password.
+    await recordChange(caller, {
+      action: "update",
+      resource: "user",
+      resourceId: row.id,
+      resourceName: row.username,
+      after: { passwordReset: true },
+    });
+  }
+);
@@ -0,0 +1,32 @@
+import { APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { authFailuresTotal } from "../metrics/instruments";
+import { AuthData } from "./auth";
+
+export type Role = "admin" | "editor" | "viewer";
+
+export const ROLES: Role[] = ["admin", "editor", "viewer"];
+
+// Each role includes the permissions of the roles ranked below it.
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+};
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// Returns the caller's auth data, or throws if they lack the required role.
+export function requireRole(required: Role): AuthData {
+  const data = getAuthData();
+  if (!data) {
+    throw APIError.unauthenticated("not signed in");
+  }
+  if (!hasRole(data.role, required)) {
+    authFailuresTotal.inc({ reason: "insufficient_role" });
+    throw APIError.permissionDenied(`this action requires the ${required} role`);
+  }
+  return data;
+}
@@ -0,0 +1,80 @@
+import { createHash, randomBytes } from "node:crypto";
+import { settings } from "~encore/clients";
+import { authDB } from "./db";
+import { Role } from "./roles";
+import { resolveWorkspace } from "./workspaces";
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: Role;
+  workspaceId: string;
+}
+
+// Session tokens are only ever stored hashed so a database leak cannot be replayed.
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The session lifetime is configured in the shared settings and applied on every renewal.
+async function nextExpiry(): Promise<Date> {
+  const { timeoutHours } = await settings.sessionPolicy();
+  return new Date(Date.now() + timeoutHours * 60 * 60 * 1000);
+}
+
+export async function createSession(userID: string, workspaceID: string): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = await nextExpiry();
+
+  await authDB.exec`
+    INSERT INTO sessions (token_hash, user_id, expires_at, workspace_id)
+    VALUES (${hashToken(token)}, ${userID}, ${expiresAt}, ${workspaceID})
+  `;
+
+  return { token, expiresAt };
+}
+
+// Slides the expiry of a still-valid session forward; returns null once it has lapsed.
+export async function renewSession(token: string): Promise<Date | null> {
+  const expiresAt = await nextExpiry();
+  const row = await authDB.queryRow`
+    UPDATE sessions
+    SET expires_at = ${expiresAt}
+    WHERE token_hash = ${hashToken(token)} AND expires_at > NOW()
+    RETURNING token_hash
+  `;
+  return row ? expiresAt : null;
+}
+
+// Resolves a session to its user and the workspace it works in. A session whose
+// workspace the user may no longer enter moves on to one they may.
+export async function findSessionUser(token: string): Promise<SessionUser | null> {
+  const row = await authDB.queryRow<{ id: string; username: string; role: Role; workspace_id: string | null }>`
+    SELECT u.id, u.username, u.role, s.workspace_id
+    FROM sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = ${hashToken(token)} AND s.expires_at > NOW() AND u.disabled = FALSE
+  `;
+  if (!row) {
+    return null;
+  }
+
+  const workspaceId = await resolveWorkspace(row, row.workspace_id);
+  return { id: row.id, username: row.username, role: row.role, workspaceId };
+}
+
+// Moves a session to another workspace; the caller checks the user may enter it.
+export async function setSessionWorkspace(token: string, workspaceID: string): Promise<void> {
+  await authDB.exec`
+    UPDATE sessions SET workspace_id = ${workspaceID} WHERE token_hash = ${hashToken(token)}
+  `;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await authDB.exec`DELETE FROM sessions WHERE token_hash = ${hashToken(token)}`;
+}
+
+// Expired rows are pruned opportunistically whenever someone signs in.
+export async function deleteExpiredSessions(): Promise<void> {
+  await authDB.exec`DELETE FROM sessions WHERE expires_at <= NOW()`;
+}
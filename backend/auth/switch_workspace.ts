@@ -0,0 +1,39 @@
+import { api, APIError, Cookie } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { setSessionWorkspace } from "./sessions";
+import { User } from "./types";
+import { resolveWorkspace } from "./workspaces";
+
+interface SwitchWorkspaceRequest {
+  workspaceId: string;
+  session?: Cookie<"session">;
+}
+
+interface SwitchWorkspaceResponse {
+  user: User;
+}
+
+// Moves the caller's session to another workspace they may enter; a paired display
+// stays in the workspace it was registered in.
+export const switchWorkspace = api<SwitchWorkspaceRequest, SwitchWorkspaceResponse>(
+  { expose: true, method: "POST", path: "/auth/workspace", auth: true },
+  async (req) => {
+    const data = getAuthData()!;
+    if (data.displayID) {
+      throw APIError.failedPrecondition("a display cannot switch workspaces");
+    }
+
+    const user = { id: data.userID, role: data.role };
+    if ((await resolveWorkspace(user, req.workspaceId)) !== req.workspaceId) {
+      throw APIError.permissionDenied("you are not a member of this workspace");
+    }
+    if (!req.session?.value) {
+      throw APIError.unauthenticated("missing session");
+    }
+    await setSessionWorkspace(req.session.value, req.workspaceId);
+
+    return {
+      user: { id: data.userID, username: data.username, role: data.role, workspaceId: req.workspaceId },
+    };
+  }
+);
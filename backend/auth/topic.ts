@@ -0,0 +1,11 @@
+import { Topic } from "encore.dev/pubsub";
+
+// Announces that a workspace is gone, so the services keeping settings for it can
+// forget them.
+export interface WorkspaceDeleted {
+  workspaceId: string;
+}
+
+export const workspaceDeletions = new Topic<WorkspaceDeleted>("workspace-deletions", {
+  deliveryGuarantee: "at-least-once",
+});
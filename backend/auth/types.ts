@@ -0,0 +1,58 @@
+import { Role } from "./roles";
+
+export interface User {
+  id: string;
+  username: string;
+  role: Role;
+  // Present when the caller is a paired display.
+  displayId?: string;
+  // The workspace whose dashboards, playlists, displays and settings the caller works with.
+  workspaceId: string;
+}
+
+export interface ManagedUser extends Omit<User, "workspaceId"> {
+  disabled: boolean;
+  createdAt: Date;
+  // Workspaces the user is a member of; admins may enter every workspace regardless.
+  workspaceIds: string[];
+}
+
+export interface ManagedUserRow {
+  id: string;
+  username: string;
+  role: Role;
+  disabled: boolean;
+  created_at: Date;
+}
+
+export function toManagedUser(row: ManagedUserRow, workspaceIds: string[] = []): ManagedUser {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    disabled: row.disabled,
+    createdAt: row.created_at,
+    workspaceIds,
+  };
+}
+
+// A department's own set of dashboards, playlists, displays and settings.
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+export interface WorkspaceRow {
+  id: string;
+  name: string;
+  created_at: Date;
+}
+
+export function toWorkspace(row: WorkspaceRow): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,77 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { authDB } from "./db";
+import { Role, requireRole } from "./roles";
+import { ManagedUser, ManagedUserRow, toManagedUser } from "./types";
+import { ensureOtherAdminExists, validateRole, validateWorkspaceIds } from "./validation";
+import { loadMemberships, replaceMemberships } from "./workspaces";
+
+interface UpdateUserRequest {
+  id: string;
+  role?: Role;
+  disabled?: boolean;
+  workspaceIds?: string[];
+}
+
+// Changes the role or workspace memberships of an account, or enables/disables it.
+export const updateUser = api<UpdateUserRequest, ManagedUser>(
+  { expose: true, method: "PATCH", path: "/auth/users/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const current = await authDB.queryRow<ManagedUserRow>`
+      SELECT id, username, role, disabled, created_at FROM users WHERE id = ${req.id}
+    `;
+    if (!current) {
+      throw APIError.notFound("user not found");
+    }
+
+    const role = req.role === undefined ? current.role : validateRole(req.role);
+    const disabled = req.disabled ?? current.disabled;
+    const memberships = await loadMemberships();
+    const workspaceIds = await validateWorkspaceIds(req.workspaceIds ?? memberships.get(req.id) ?? [], role);
+
+    const losesAdmin = current.role === "admin" && !current.disabled && (role !== "admin" || disabled);
+    if (losesAdmin && req.id === caller.userID) {
+      throw APIError.failedPrecondition("you cannot remove your own admin access");
+    }
+
+    const tx = await authDB.begin();
+    let row: ManagedUserRow | null;
+    try {
+      if (losesAdmin) {
+        await ensureOtherAdminExists(tx, req.id);
+      }
+      row = await tx.queryRow<ManagedUserRow>`
+        UPDATE users
+        SET role = ${role}, disabled = ${disabled}, updated_at = NOW()
+        WHERE id = ${req.id}
+        RETURNING id, username, role, disabled, created_at
+      `;
+      if (!row) {
+        throw APIError.notFound("user not found");
+      }
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    await replaceMemberships(req.id, workspaceIds);
+
+    // A disabled account must not keep any live sessions.
+    if (disabled) {
+      await authDB.exec`DELETE FROM sessions WHERE user_id = ${req.id}`;
+    }
+
+    const user = toManagedUser(row, workspaceIds);
+    await recordChange(caller, {
+      action: "update",
+      resource: "user",
+      resourceId: user.id,
+      resourceName: user.username,
+      before: toManagedUser(current, memberships.get(req.id) ?? []),
+      after: user,
+    });
+    return user;
+  }
+);
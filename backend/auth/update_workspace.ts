@@ -0,0 +1,51 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { authDB } from "./db";
+import { requireRole } from "./roles";
+import { Workspace, WorkspaceRow, toWorkspace } from "./types";
+import { validateWorkspaceName } from "./validation";
+
+interface UpdateWorkspaceRequest {
+  id: string;
+  name: string;
+}
+
+// Renames a workspace.
+export const updateWorkspace = api<UpdateWorkspaceRequest, Workspace>(
+  { expose: true, method: "PUT", path: "/workspaces/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const name = validateWorkspaceName(req.name);
+
+    const duplicate = await authDB.queryRow`
+      SELECT id FROM workspaces WHERE LOWER(name) = LOWER(${name}) AND id <> ${req.id}
+    `;
+    if (duplicate) {
+      throw APIError.alreadyExists("a workspace with this name already exists");
+    }
+
+    const current = await authDB.queryRow<WorkspaceRow>`
+      SELECT id, name, created_at FROM workspaces WHERE id = ${req.id}
+    `;
+    const row = await authDB.queryRow<WorkspaceRow>`
+      UPDATE workspaces SET name = ${name}, updated_at = NOW()
+      WHERE id = ${req.id}
+      RETURNING id, name, created_at
+    `;
+    if (!row || !current) {
+      throw APIError.notFound("workspace not found");
+    }
+
+    const workspace = toWorkspace(row);
+    await recordChange(caller, {
+      action: "update",
+      resource: "workspace",
+      resourceId: workspace.id,
+      resourceName: workspace.name,
+      before: toWorkspace(current),
+      after: workspace,
+    });
+    return workspace;
+  }
+);
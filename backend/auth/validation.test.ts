@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { validatePassword, validateRole, validateUsername, validateWorkspaceName } from "./validation";
+
+describe("validateUsername", () => {
+  test("trims and accepts letters, digits, dots, dashes and underscores", () => {
+    expect(validateUsername("  jane.doe_2-b ")).toBe("jane.doe_2-b");
+  });
+
+  test("rejects names outside 3 to 32 characters", () => {
+    expect(() => validateUsername("ab")).toThrow("3-32");
+    expect(() => validateUsername("a".repeat(33))).toThrow("3-32");
+  });
+
+  test("rejects spaces and other characters", () => {
+    expect(() => validateUsername("jane doe")).toThrow("3-32");
+    expect(() => validateUsername("jane@example")).toThrow("3-32");
+  });
+});
+
+describe("validatePassword", () => {
+  test("accepts passwords of at least 8 characters as they are", () => {
+    expect(validatePassword(" secret1 ")).toBe(" secret1 ");
+  });
+
+  test("rejects shorter or missing passwords", () => {
+    expect(() => validatePassword("short12")).toThrow("at least 8");
+    expect(() => validatePassword(undefined as unknown as string)).toThrow("at least 8");
+  });
+});
+
+describe("validateRole", () => {
+  test("accepts the known roles", () => {
+    expect(validateRole("admin")).toBe("admin");
+    expect(validateRole("editor")).toBe("editor");
+    expect(validateRole("viewer")).toBe("viewer");
+  });
+
+  test("rejects anything else", () => {
+    expect(() => validateRole("owner")).toThrow("admin, editor, viewer");
+  });
+});
+
+describe("validateWorkspaceName", () => {
+  test("trims the name", () => {
+    expect(validateWorkspaceName("  Finance ")).toBe("Finance");
+  });
+
+  test("rejects names outside 2 to 50 characters", () => {
+    expect(() => validateWorkspaceName(" a ")).toThrow("between 2 and 50");
+    expect(() => validateWorkspaceName("x".repeat(51))).toThrow("between 2 and 50");
+  });
+});
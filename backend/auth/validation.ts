@@ -0,0 +1,62 @@
+import { APIError } from "encore.dev/api";
+import { Transaction } from "encore.dev/storage/sqldb";
+import { authDB } from "./db";
+import { Role, ROLES } from "./roles";
+
+export function validateUsername(username: string): string {
+  const trimmed = username?.trim() ?? "";
+  if (!/^[A-Za-z0-9._-]{3,32}$/.test(trimmed)) {
+    throw APIError.invalidArgument("username must be 3-32 letters, digits, dots, dashes or underscores");
+  }
+  return trimmed;
+}
+
+export function validatePassword(password: string): string {
+  if (!password || password.length < 8) {
+    throw APIError.invalidArgument("password must be at least 8 characters");
+  }
+  return password;
+}
+
+export function validateRole(role: string): Role {
+  if (!ROLES.includes(role as Role)) {
+    throw APIError.invalidArgument(`role must be one of ${ROLES.join(", ")}`);
+  }
+  return role as Role;
+}
+
+// Guards against locking everyone out by removing the last enabled administrator. Runs in
+// the transaction that demotes, disables or deletes the account and locks the enabled
+// admins until it ends, so two admins removing each other cannot both go ahead.
+export async function ensureOtherAdminExists(tx: Transaction, userID: string): Promise<void> {
+  const admins = await tx.queryAll<{ id: string }>`
+    SELECT id FROM users WHERE role = 'admin' AND disabled = FALSE FOR UPDATE
+  `;
+  if (!admins.some((admin) => admin.id !== userID)) {
+    throw APIError.failedPrecondition("at least one enabled admin account must remain");
+  }
+}
+
+export function validateWorkspaceName(name: string): string {
+  const trimmed = name?.trim() ?? "";
+  if (trimmed.length < 2 || trimmed.length > 50) {
+    throw APIError.invalidArgument("workspace name must be between 2 and 50 characters");
+  }
+  return trimmed;
+}
+
+// Normalizes a membership list; every workspace must exist and non-admins need at least one.
+export async function validateWorkspaceIds(workspaceIds: string[], role: Role): Promise<string[]> {
+  const ids = [...new Set(workspaceIds ?? [])];
+  if (ids.length === 0 && role !== "admin") {
+    throw APIError.invalidArgument("a user must belong to at least one workspace");
+  }
+
+  const known = await authDB.queryAll<{ id: string }>`
+    SELECT id FROM workspaces WHERE id = ANY(${ids})
+  `;
+  if (known.length !== ids.length) {
+    throw APIError.invalidArgument("unknown workspace");
+  }
+  return ids;
+}
@@ -0,0 +1,72 @@
+import { APIError } from "encore.dev/api";
+import { authDB } from "./db";
+import { Role } from "./roles";
+import { Workspace, WorkspaceRow, toWorkspace } from "./types";
+
+// Owns everything configured before workspaces existed; new users join it unless told otherwise.
+export const DEFAULT_WORKSPACE_ID = "workspace-default";
+
+interface WorkspaceUser {
+  id: string;
+  role: Role;
+}
+
+// Returns the workspaces a user may enter, by name.
+export async function accessibleWorkspaces(user: WorkspaceUser): Promise<Workspace[]> {
+  const rows = await authDB.queryAll<WorkspaceRow>`
+    SELECT w.id, w.name, w.created_at
+    FROM workspaces w
+    WHERE ${user.role} = 'admin'
+      OR EXISTS (SELECT 1 FROM workspace_members m WHERE m.workspace_id = w.id AND m.user_id = ${user.id})
+    ORDER BY LOWER(w.name)
+  `;
+  return rows.map(toWorkspace);
+}
+
+// Picks the workspace a user works in: the preferred one while they may still enter
+// it, otherwise the first they may enter.
+export async function resolveWorkspace(user: WorkspaceUser, preferred: string | null): Promise<string> {
+  const row = await authDB.queryRow<{ id: string }>`
+    SELECT w.id
+    FROM workspaces w
+    WHERE ${user.role} = 'admin'
+      OR EXISTS (SELECT 1 FROM workspace_members m WHERE m.workspace_id = w.id AND m.user_id = ${user.id})
+    ORDER BY w.id = ${preferred ?? ""} DESC, LOWER(w.name)
+    LIMIT 1
+  `;
+  if (!row) {
+    throw APIError.permissionDenied("you are not a member of any workspace");
+  }
+  return row.id;
+}
+
+// Loads the memberships of every user, keyed by user ID.
+export async function loadMemberships(): Promise<Map<string, string[]>> {
+  const rows = await authDB.queryAll<{ user_id: string; workspace_id: string }>`
+    SELECT user_id, workspace_id FROM workspace_members ORDER BY workspace_id
+  `;
+  const memberships = new Map<string, string[]>();
+  for (const row of rows) {
+    const list = memberships.get(row.user_id) ?? [];
+    list.push(row.workspace_id);
+    memberships.set(row.user_id, list);
+  }
+  return memberships;
+}
+
+// Replaces the memberships of a user.
+export async function replaceMemberships(userID: string, workspaceIds: string[]): Promise<void> {
+  const tx = await authDB.begin();
+  try {
+    await tx.exec`DELETE FROM workspace_members WHERE user_id = ${userID}`;
+    for (const workspaceId of workspaceIds) {
+      await tx.exec`
+        INSERT INTO workspace_members (workspace_id, user_id) VALUES (${workspaceId}, ${userID})
+      `;
+    }
+    await tx.commit();
+  } catch (err) {
+    await tx.rollback();
+    throw err;
+  }
+}
@@ -0,0 +1,79 @@
+import { api, APIError } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { replaceDashboardFilters } from "./filters";
+import { replaceDashboardPages } from "./pages";
+import { replaceDashboardTags } from "./tags";
+import { Dashboard, DashboardInput, DashboardRow, toDashboard } from "./types";
+import { validateDashboardInput, validateFolderId } from "./validation";
+
+// Adds a new dashboard to the end of the rotation.
+export const create = api<DashboardInput, Dashboard>(
+  { expose: true, method: "POST", path: "/dashboards", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = validateDashboardInput(req);
+    await validateFolderId(input.folderId, caller.workspaceID);
+
+    const existing = await dashboardsDB.queryRow`
+      SELECT id FROM dashboards
+      WHERE LOWER(name) = LOWER(${input.name}) AND owner_workspace_id = ${caller.workspaceID}
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("a dashboard with this name already exists");
+    }
+
+    const pages = input.pages ?? [];
+    const filters = input.filters ?? [];
+    const tags = input.tags ?? [];
+    const tx = await dashboardsDB.begin();
+    let row: DashboardRow | null;
+    try {
+      row = await tx.queryRow<DashboardRow>`
+        INSERT INTO dashboards (
+          id, name, type, url, workspace_id, report_id, duration_seconds, folder_id, position, owner_workspace_id
+        )
+        VALUES (
+          ${`dashboard-${randomUUID()}`},
+          ${input.name},
+          ${input.type},
+          ${input.url},
+          ${input.workspaceId ?? null},
+          ${input.reportId ?? null},
+          ${input.durationSeconds ?? null},
+          ${input.folderId ?? null},
+          (SELECT COALESCE(MAX(position), 0) + 1 FROM dashboards WHERE owner_workspace_id = ${caller.workspaceID}),
+          ${caller.workspaceID}
+        )
+        RETURNING id, name, type, url, workspace_id, report_id, duration_seconds, folder_id
+      `;
+      if (!row) {
+        throw APIError.internal("failed to create dashboard");
+      }
+      await replaceDashboardPages(tx, row.id, pages);
+      await replaceDashboardFilters(tx, row.id, filters);
+      await replaceDashboardTags(tx, row.id, tags);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    const dashboard = toDashboard(row, pages, filters, tags);
+    await configChanges.publish({ resource: "dashboards", id: row.id, workspaceId: caller.workspaceID });
+    // Playlists built from tags may gain or lose the dashboard.
+    await configChanges.publish({ resource: "playlists", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "create",
+      resource: "dashboard",
+      resourceId: dashboard.id,
+      resourceName: dashboard.name,
+      after: dashboard,
+    });
+    return dashboard;
+  }
+);
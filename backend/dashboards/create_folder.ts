@@ -0,0 +1,48 @@
+import { api, APIError } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { Folder, FolderInput, FolderRow, toFolder } from "./types";
+import { validateFolderInput } from "./validation";
+
+// Creates a folder at the top level or inside another folder.
+export const createFolder = api<FolderInput, Folder>(
+  { expose: true, method: "POST", path: "/folders", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = await validateFolderInput(req, caller.workspaceID);
+
+    const existing = await dashboardsDB.queryRow`
+      SELECT id FROM folders
+      WHERE workspace_id = ${caller.workspaceID}
+        AND COALESCE(parent_id, '') = ${input.parentId ?? ""}
+        AND LOWER(name) = LOWER(${input.name})
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("a folder with this name already exists here");
+    }
+
+    const row = await dashboardsDB.queryRow<FolderRow>`
+      INSERT INTO folders (id, workspace_id, parent_id, name)
+      VALUES (${`folder-${randomUUID()}`}, ${caller.workspaceID}, ${input.parentId ?? null}, ${input.name})
+      RETURNING id, name, parent_id
+    `;
+    if (!row) {
+      throw APIError.internal("failed to create folder");
+    }
+
+    const folder = toFolder(row);
+    await configChanges.publish({ resource: "folders", id: folder.id, workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "create",
+      resource: "folder",
+      resourceId: folder.id,
+      resourceName: folder.name,
+      after: folder,
+    });
+    return folder;
+  }
+);
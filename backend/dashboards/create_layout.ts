@@ -0,0 +1,54 @@
+import { api, APIError } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadLayout, replaceLayoutCells } from "./layouts";
+import { Layout, LayoutInput } from "./types";
+import { validateLayoutInput } from "./validation";
+
+// Creates a layout that splits the screen into cells.
+export const createLayout = api<LayoutInput, Layout>(
+  { expose: true, method: "POST", path: "/layouts", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = await validateLayoutInput(req, caller.workspaceID);
+
+    const existing = await dashboardsDB.queryRow`
+      SELECT id FROM layouts WHERE LOWER(name) = LOWER(${input.name}) AND workspace_id = ${caller.workspaceID}
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("a layout with this name already exists");
+    }
+
+    const id = `layout-${randomUUID()}`;
+    const tx = await dashboardsDB.begin();
+    try {
+      await tx.exec`
+        INSERT INTO layouts (id, workspace_id, name, preset, columns, rows)
+        VALUES (${id}, ${caller.workspaceID}, ${input.name}, ${input.preset}, ${input.columns}, ${input.rows})
+      `;
+      await replaceLayoutCells(tx, id, input.cells);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    const layout = await loadLayout(id, caller.workspaceID);
+    if (!layout) {
+      throw APIError.internal("failed to create layout");
+    }
+    await configChanges.publish({ resource: "layouts", id, workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "create",
+      resource: "layout",
+      resourceId: id,
+      resourceName: layout.name,
+      after: layout,
+    });
+    return layout;
+  }
+);
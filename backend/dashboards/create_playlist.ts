@@ -0,0 +1,55 @@
+import { api, APIError } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadPlaylist, replacePlaylistItems, replacePlaylistTags } from "./playlists";
+import { Playlist, PlaylistInput } from "./types";
+import { validatePlaylistInput } from "./validation";
+
+// Creates a named playlist from an ordered list of dashboards or a tag query.
+export const createPlaylist = api<PlaylistInput, Playlist>(
+  { expose: true, method: "POST", path: "/playlists", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = await validatePlaylistInput(req, caller.workspaceID);
+
+    const existing = await dashboardsDB.queryRow`
+      SELECT id FROM playlists WHERE LOWER(name) = LOWER(${input.name}) AND workspace_id = ${caller.workspaceID}
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("a playlist with this name already exists");
+    }
+
+    const id = `playlist-${randomUUID()}`;
+    const tx = await dashboardsDB.begin();
+    try {
+      await tx.exec`
+        INSERT INTO playlists (id, name, workspace_id) VALUES (${id}, ${input.name}, ${caller.workspaceID})
+      `;
+      await replacePlaylistItems(tx, id, input.entries);
+      await replacePlaylistTags(tx, id, input.tagQuery);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    // Read back so a playlist built from tags comes with its matching dashboards.
+    const playlist = await loadPlaylist(id, caller.workspaceID);
+    if (!playlist) {
+      throw APIError.internal("failed to create playlist");
+    }
+    await configChanges.publish({ resource: "playlists", id, workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "create",
+      resource: "playlist",
+      resourceId: id,
+      resourceName: playlist.name,
+      after: playlist,
+    });
+    return playlist;
+  }
+);
@@ -0,0 +1,68 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadDashboard } from "./store";
+
+interface DeleteDashboardRequest {
+  id: string;
+}
+
+// Removes a dashboard from the workspace's catalog. Dashboards that layouts show have to
+// be taken out of those layouts first.
+export const remove = api<DeleteDashboardRequest, void>(
+  { expose: true, method: "DELETE", path: "/dashboards/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const before = await loadDashboard(req.id, caller.workspaceID);
+
+    // Locking the dashboard makes a layout being saved with it wait until the delete is
+    // done, so the check below sees every layout that shows it.
+    const tx = await dashboardsDB.begin();
+    try {
+      const row = await tx.queryRow`
+        SELECT id FROM dashboards
+        WHERE id = ${req.id} AND owner_workspace_id = ${caller.workspaceID}
+        FOR UPDATE
+      `;
+      if (!row || !before) {
+        throw APIError.notFound("dashboard not found");
+      }
+
+      const layout = await tx.queryRow<{ name: string }>`
+        SELECT l.name
+        FROM layout_cell_dashboards lcd
+        JOIN layouts l ON l.id = lcd.layout_id
+        WHERE lcd.dashboard_id = ${req.id} AND l.workspace_id = ${caller.workspaceID}
+        ORDER BY LOWER(l.name)
+        LIMIT 1
+      `;
+      if (layout) {
+        throw APIError.failedPrecondition(`the layout "${layout.name}" shows this dashboard`);
+      }
+
+      await tx.exec`DELETE FROM dashboards WHERE id = ${req.id}`;
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      // The foreign key has the last word should a layout still show the dashboard.
+      if (err instanceof Error && err.message.includes("layout_cell_dashboards_dashboard_id_fkey")) {
+        throw APIError.failedPrecondition("a layout still shows this dashboard");
+      }
+      throw err;
+    }
+
+    // Removing a dashboard also drops it from every playlist.
+    await configChanges.publish({ resource: "dashboards", id: req.id, workspaceId: caller.workspaceID });
+    await configChanges.publish({ resource: "playlists", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "delete",
+      resource: "dashboard",
+      resourceId: before.id,
+      resourceName: before.name,
+      before,
+    });
+  }
+);
@@ -0,0 +1,66 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadFolder } from "./folders";
+
+interface DeleteFolderRequest {
+  id: string;
+}
+
+// Deletes a folder; its dashboards and subfolders move up into its parent.
+export const deleteFolder = api<DeleteFolderRequest, void>(
+  { expose: true, method: "DELETE", path: "/folders/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const before = await loadFolder(req.id, caller.workspaceID);
+    if (!before) {
+      throw APIError.notFound("folder not found");
+    }
+
+    const tx = await dashboardsDB.begin();
+    try {
+      const clash = await tx.queryRow<{ name: string }>`
+        SELECT child.name
+        FROM folders child
+        JOIN folders sibling
+          ON sibling.workspace_id = child.workspace_id
+          AND COALESCE(sibling.parent_id, '') = ${before.parentId ?? ""}
+          AND LOWER(sibling.name) = LOWER(child.name)
+          AND sibling.id <> ${req.id}
+        WHERE child.parent_id = ${req.id}
+      `;
+      if (clash) {
+        throw APIError.failedPrecondition(
+          `the subfolder "${clash.name}" cannot move up because a folder with that name already exists there`
+        );
+      }
+
+      await tx.exec`
+        UPDATE dashboards SET folder_id = ${before.parentId ?? null}, updated_at = NOW()
+        WHERE folder_id = ${req.id}
+      `;
+      await tx.exec`
+        UPDATE folders SET parent_id = ${before.parentId ?? null}, updated_at = NOW()
+        WHERE parent_id = ${req.id}
+      `;
+      await tx.exec`DELETE FROM folders WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}`;
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    await configChanges.publish({ resource: "folders", id: req.id, workspaceId: caller.workspaceID });
+    await configChanges.publish({ resource: "dashboards", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "delete",
+      resource: "folder",
+      resourceId: before.id,
+      resourceName: before.name,
+      before,
+    });
+  }
+);
@@ -0,0 +1,39 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadLayout } from "./layouts";
+
+interface DeleteLayoutRequest {
+  id: string;
+}
+
+// Deletes a layout; playlist entries and displays using it go back to a single dashboard.
+export const deleteLayout = api<DeleteLayoutRequest, void>(
+  { expose: true, method: "DELETE", path: "/layouts/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const before = await loadLayout(req.id, caller.workspaceID);
+    const row = await dashboardsDB.queryRow`
+      DELETE FROM layouts
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+      RETURNING id
+    `;
+    if (!row || !before) {
+      throw APIError.notFound("layout not found");
+    }
+
+    // Playlist entries lose the layout along with it; displays ignore a layout that is gone.
+    await configChanges.publish({ resource: "layouts", id: req.id, workspaceId: caller.workspaceID });
+    await configChanges.publish({ resource: "playlists", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "delete",
+      resource: "layout",
+      resourceId: before.id,
+      resourceName: before.name,
+      before,
+    });
+  }
+);
@@ -0,0 +1,39 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadPlaylist } from "./playlists";
+
+interface DeletePlaylistRequest {
+  id: string;
+}
+
+// Deletes a playlist; the dashboards it referenced are left untouched.
+export const deletePlaylist = api<DeletePlaylistRequest, void>(
+  { expose: true, method: "DELETE", path: "/playlists/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const before = await loadPlaylist(req.id, caller.workspaceID);
+    const row = await dashboardsDB.queryRow`
+      DELETE FROM playlists
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+      RETURNING id
+    `;
+    if (!row || !before) {
+      throw APIError.notFound("playlist not found");
+    }
+
+    // Schedule windows showing the playlist are deleted along with it.
+    await configChanges.publish({ resource: "playlists", id: req.id, workspaceId: caller.workspaceID });
+    await configChanges.publish({ resource: "schedule", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "delete",
+      resource: "playlist",
+      resourceId: before.id,
+      resourceName: before.name,
+      before,
+    });
+  }
+);
@@ -0,0 +1,51 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { normalizeTag } from "./validation";
+
+interface DeleteTagRequest {
+  name: string;
+}
+
+// Removes a tag from every dashboard of the workspace. Tags that playlists are built
+// from have to be taken out of those playlists first.
+export const deleteTag = api<DeleteTagRequest, void>(
+  { expose: true, method: "DELETE", path: "/tags/:name", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const name = normalizeTag(req.name);
+
+    const playlist = await dashboardsDB.queryRow<{ name: string }>`
+      SELECT p.name
+      FROM playlist_tags pt
+      JOIN playlists p ON p.id = pt.playlist_id
+      WHERE pt.tag = ${name} AND p.workspace_id = ${caller.workspaceID}
+      ORDER BY LOWER(p.name)
+      LIMIT 1
+    `;
+    if (playlist) {
+      throw APIError.failedPrecondition(`the playlist "${playlist.name}" is built from this tag`);
+    }
+
+    const removed = await dashboardsDB.queryAll<{ dashboard_id: string }>`
+      DELETE FROM dashboard_tags dt
+      USING dashboards d
+      WHERE d.id = dt.dashboard_id AND dt.tag = ${name} AND d.owner_workspace_id = ${caller.workspaceID}
+      RETURNING dt.dashboard_id
+    `;
+    if (removed.length === 0) {
+      throw APIError.notFound("tag not found");
+    }
+
+    await configChanges.publish({ resource: "dashboards", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "delete",
+      resource: "tag",
+      resourceName: name,
+      before: { name, dashboardIds: removed.map((row) => row.dashboard_id) },
+    });
+  }
+);
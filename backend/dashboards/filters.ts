@@ -0,0 +1,58 @@
+import { Transaction } from "encore.dev/storage/sqldb";
+import { dashboardsDB } from "./db";
+import { DashboardFilter, FilterOperator, FilterValueType } from "./types";
+
+interface DashboardFilterRow {
+  dashboard_id: string;
+  table_name: string;
+  field_name: string;
+  operator: FilterOperator;
+  value_type: FilterValueType;
+  filter_values: string[];
+}
+
+// Loads the ordered filters of every dashboard, keyed by dashboard ID.
+export async function loadFilters(): Promise<Map<string, DashboardFilter[]>> {
+  const rows = await dashboardsDB.queryAll<DashboardFilterRow>`
+    SELECT dashboard_id, table_name, field_name, operator, value_type, filter_values
+    FROM dashboard_filters
+    ORDER BY dashboard_id, position
+  `;
+
+  const filters = new Map<string, DashboardFilter[]>();
+  for (const row of rows) {
+    const list = filters.get(row.dashboard_id) ?? [];
+    list.push({
+      table: row.table_name,
+      field: row.field_name,
+      operator: row.operator,
+      valueType: row.value_type,
+      values: row.filter_values,
+    });
+    filters.set(row.dashboard_id, list);
+  }
+  return filters;
+}
+
+// Replaces the ordered filters of a dashboard inside the caller's transaction.
+export async function replaceDashboardFilters(
+  tx: Transaction,
+  dashboardID: string,
+  filters: DashboardFilter[]
+): Promise<void> {
+  await tx.exec`DELETE FROM dashboard_filters WHERE dashboard_id = ${dashboardID}`;
+  for (const [position, filter] of filters.entries()) {
+    await tx.exec`
+      INSERT INTO dashboard_filters (dashboard_id, position, table_name, field_name, operator, value_type, filter_values)
+      VALUES (
+        ${dashboardID},
+        ${position},
+        ${filter.table},
+        ${filter.field},
+        ${filter.operator},
+        ${filter.valueType},
+        ${filter.values}
+      )
+    `;
+  }
+}
@@ -0,0 +1,18 @@
+import { dashboardsDB } from "./db";
+import { Folder, FolderRow, toFolder } from "./types";
+
+// Loads the folders of a workspace, sorted by name; callers build the tree from parentId.
+export async function loadFolders(workspaceID: string): Promise<Folder[]> {
+  const rows = await dashboardsDB.queryAll<FolderRow>`
+    SELECT id, name, parent_id FROM folders WHERE workspace_id = ${workspaceID} ORDER BY LOWER(name)
+  `;
+  return rows.map(toFolder);
+}
+
+// Loads a single folder of a workspace, or null when it does not exist there.
+export async function loadFolder(id: string, workspaceID: string): Promise<Folder | null> {
+  const row = await dashboardsDB.queryRow<FolderRow>`
+    SELECT id, name, parent_id FROM folders WHERE id = ${id} AND workspace_id = ${workspaceID}
+  `;
+  return row ? toFolder(row) : null;
+}
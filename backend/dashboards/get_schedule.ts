@@ -0,0 +1,14 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { loadSchedule } from "./schedule";
+import { Schedule } from "./types";
+
+// Returns the time windows that decide which playlist the caller's workspace shows.
+export const getSchedule = api<void, Schedule>(
+  { expose: true, method: "GET", path: "/schedule", auth: true },
+  async () => {
+    const caller = requireRole("viewer");
+
+    return loadSchedule(caller.workspaceID);
+  }
+);
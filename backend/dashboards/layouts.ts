@@ -0,0 +1,153 @@
+import { Transaction } from "encore.dev/storage/sqldb";
+import { dashboardsDB } from "./db";
+import { Layout, LayoutCell, LayoutCellContent, LayoutPreset } from "./types";
+
+type CellArea = Pick<LayoutCell, "column" | "row" | "columnSpan" | "rowSpan">;
+
+interface PresetGrid {
+  columns: number;
+  rows: number;
+  areas: CellArea[];
+}
+
+// The grid of every preset, cells from left to right and top to bottom.
+export const PRESET_GRIDS: Record<Exclude<LayoutPreset, "custom">, PresetGrid> = {
+  "1x1": {
+    columns: 1,
+    rows: 1,
+    areas: [{ column: 1, row: 1, columnSpan: 1, rowSpan: 1 }],
+  },
+  "2x1": {
+    columns: 2,
+    rows: 1,
+    areas: [
+      { column: 1, row: 1, columnSpan: 1, rowSpan: 1 },
+      { column: 2, row: 1, columnSpan: 1, rowSpan: 1 },
+    ],
+  },
+  "2x2": {
+    columns: 2,
+    rows: 2,
+    areas: [
+      { column: 1, row: 1, columnSpan: 1, rowSpan: 1 },
+      { column: 2, row: 1, columnSpan: 1, rowSpan: 1 },
+      { column: 1, row: 2, columnSpan: 1, rowSpan: 1 },
+      { column: 2, row: 2, columnSpan: 1, rowSpan: 1 },
+    ],
+  },
+  "1+2": {
+    columns: 2,
+    rows: 2,
+    areas: [
+      { column: 1, row: 1, columnSpan: 1, rowSpan: 2 },
+      { column: 2, row: 1, columnSpan: 1, rowSpan: 1 },
+      { column: 2, row: 2, columnSpan: 1, rowSpan: 1 },
+    ],
+  },
+};
+
+interface LayoutRow {
+  id: string;
+  name: string;
+  preset: LayoutPreset;
+  columns: number;
+  rows: number;
+}
+
+interface LayoutCellRow {
+  layout_id: string;
+  position: number;
+  column_start: number;
+  row_start: number;
+  column_span: number;
+  row_span: number;
+  content: LayoutCellContent;
+  interval_seconds: number | null;
+}
+
+interface LayoutCellDashboardRow {
+  layout_id: string;
+  cell_position: number;
+  dashboard_id: string;
+}
+
+// Loads the layouts of a workspace, sorted by name, with their cells in order.
+export async function loadLayouts(workspaceID: string): Promise<Layout[]> {
+  const rows = await dashboardsDB.queryAll<LayoutRow>`
+    SELECT id, name, preset, columns, rows FROM layouts WHERE workspace_id = ${workspaceID} ORDER BY LOWER(name)
+  `;
+  const cellRows = await dashboardsDB.queryAll<LayoutCellRow>`
+    SELECT c.layout_id, c.position, c.column_start, c.row_start, c.column_span, c.row_span, c.content, c.interval_seconds
+    FROM layout_cells c
+    JOIN layouts l ON l.id = c.layout_id
+    WHERE l.workspace_id = ${workspaceID}
+    ORDER BY c.layout_id, c.position
+  `;
+  const dashboardRows = await dashboardsDB.queryAll<LayoutCellDashboardRow>`
+    SELECT cd.layout_id, cd.cell_position, cd.dashboard_id
+    FROM layout_cell_dashboards cd
+    JOIN layouts l ON l.id = cd.layout_id
+    WHERE l.workspace_id = ${workspaceID}
+    ORDER BY cd.layout_id, cd.cell_position, cd.position
+  `;
+
+  const dashboardIds = new Map<string, string[]>();
+  for (const row of dashboardRows) {
+    const key = `${row.layout_id}#${row.cell_position}`;
+    const list = dashboardIds.get(key) ?? [];
+    list.push(row.dashboard_id);
+    dashboardIds.set(key, list);
+  }
+
+  const cells = new Map<string, LayoutCell[]>();
+  for (const row of cellRows) {
+    const list = cells.get(row.layout_id) ?? [];
+    list.push({
+      column: row.column_start,
+      row: row.row_start,
+      columnSpan: row.column_span,
+      rowSpan: row.row_span,
+      content: row.content,
+      dashboardIds: dashboardIds.get(`${row.layout_id}#${row.position}`) ?? [],
+      intervalSeconds: row.interval_seconds ?? undefined,
+    });
+    cells.set(row.layout_id, list);
+  }
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    preset: row.preset,
+    columns: row.columns,
+    rows: row.rows,
+    cells: cells.get(row.id) ?? [],
+  }));
+}
+
+// Loads a single layout of a workspace, or null when it does not exist there.
+export async function loadLayout(id: string, workspaceID: string): Promise<Layout | null> {
+  return (await loadLayouts(workspaceID)).find((layout) => layout.id === id) ?? null;
+}
+
+// Replaces the cells of a layout inside the caller's transaction.
+export async function replaceLayoutCells(tx: Transaction, layoutID: string, cells: LayoutCell[]): Promise<void> {
+  // Removing the cells removes their dashboards as well.
+  await tx.exec`DELETE FROM layout_cells WHERE layout_id = ${layoutID}`;
+  for (const [position, cell] of cells.entries()) {
+    await tx.exec`
+      INSERT INTO layout_cells (
+        layout_id, position, column_start, row_start, column_span, row_span, content, interval_seconds
+      )
+      VALUES (
+        ${layoutID}, ${position}, ${cell.column}, ${cell.row}, ${cell.columnSpan}, ${cell.rowSpan},
+        ${cell.content}, ${cell.intervalSeconds ?? null}
+      )
+    `;
+    for (const [order, dashboardID] of cell.dashboardIds.entries()) {
+      await tx.exec`
+        INSERT INTO layout_cell_dashboards (layout_id, cell_position, position, dashboard_id)
+        VALUES (${layoutID}, ${position}, ${order}, ${dashboardID})
+      `;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { loadDashboards } from "./store";
+import { Dashboard } from "./types";
+
+interface ListDashboardsResponse {
+  dashboards: Dashboard[];
+}
+
+// Returns the dashboards of the caller's workspace in display order.
+export const list = api<void, ListDashboardsResponse>(
+  { expose: true, method: "GET", path: "/dashboards", auth: true },
+  async () => {
+    const caller = requireRole("viewer");
+
+    return { dashboards: await loadDashboards(caller.workspaceID) };
+  }
+);
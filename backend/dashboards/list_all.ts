@@ -0,0 +1,24 @@
+import { api } from "encore.dev/api";
+import { dashboardsDB } from "./db";
+import { loadDashboards } from "./store";
+import { Dashboard } from "./types";
+
+interface ListAllDashboardsResponse {
+  dashboards: Dashboard[];
+  // The workspace each dashboard belongs to, by dashboard ID.
+  workspaces: Record<string, string>;
+}
+
+// Internal: lets scheduled jobs read the dashboards of every workspace without a caller session.
+export const listAll = api<void, ListAllDashboardsResponse>(
+  { expose: false, method: "GET", path: "/dashboards/all" },
+  async () => {
+    const owners = await dashboardsDB.queryAll<{ id: string; owner_workspace_id: string }>`
+      SELECT id, owner_workspace_id FROM dashboards
+    `;
+    return {
+      dashboards: await loadDashboards(),
+      workspaces: Object.fromEntries(owners.map((row) => [row.id, row.owner_workspace_id])),
+    };
+  }
+);
@@ -0,0 +1,18 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { loadFolders } from "./folders";
+import { Folder } from "./types";
+
+interface ListFoldersResponse {
+  folders: Folder[];
+}
+
+// Returns the dashboard folders of the caller's workspace, sorted by name.
+export const listFolders = api<void, ListFoldersResponse>(
+  { expose: true, method: "GET", path: "/folders", auth: true },
+  async () => {
+    const caller = requireRole("viewer");
+
+    return { folders: await loadFolders(caller.workspaceID) };
+  }
+);
@@ -0,0 +1,18 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { loadLayouts } from "./layouts";
+import { Layout } from "./types";
+
+interface ListLayoutsResponse {
+  layouts: Layout[];
+}
+
+// Returns the screen layouts of the caller's workspace, sorted by name.
+export const listLayouts = api<void, ListLayoutsResponse>(
+  { expose: true, method: "GET", path: "/layouts", auth: true },
+  async () => {
+    const caller = requireRole("viewer");
+
+    return { layouts: await loadLayouts(caller.workspaceID) };
+  }
+);
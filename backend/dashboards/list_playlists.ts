@@ -0,0 +1,18 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { loadPlaylists } from "./playlists";
+import { Playlist } from "./types";
+
+interface ListPlaylistsResponse {
+  playlists: Playlist[];
+}
+
+// Returns the playlists of the caller's workspace with their dashboards in rotation order.
+export const listPlaylists = api<void, ListPlaylistsResponse>(
+  { expose: true, method: "GET", path: "/playlists", auth: true },
+  async () => {
+    const caller = requireRole("viewer");
+
+    return { playlists: await loadPlaylists(caller.workspaceID) };
+  }
+);
@@ -0,0 +1,40 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { dashboardsDB } from "./db";
+import { TagUsage } from "./types";
+
+interface ListTagsResponse {
+  tags: TagUsage[];
+}
+
+// Returns every tag used by a dashboard or playlist of the caller's workspace, sorted by name.
+export const listTags = api<void, ListTagsResponse>(
+  { expose: true, method: "GET", path: "/tags", auth: true },
+  async () => {
+    const caller = requireRole("viewer");
+
+    const rows = await dashboardsDB.queryAll<{ tag: string; dashboard_count: number; playlist_count: number }>`
+      SELECT tag, SUM(dashboard_count)::integer AS dashboard_count, SUM(playlist_count)::integer AS playlist_count
+      FROM (
+        SELECT dt.tag, 1 AS dashboard_count, 0 AS playlist_count
+        FROM dashboard_tags dt
+        JOIN dashboards d ON d.id = dt.dashboard_id
+        WHERE d.owner_workspace_id = ${caller.workspaceID}
+        UNION ALL
+        SELECT pt.tag, 0, 1
+        FROM playlist_tags pt
+        JOIN playlists p ON p.id = pt.playlist_id
+        WHERE p.workspace_id = ${caller.workspaceID}
+      ) usage
+      GROUP BY tag
+      ORDER BY tag
+    `;
+    return {
+      tags: rows.map((row) => ({
+        name: row.tag,
+        dashboardCount: row.dashboard_count,
+        playlistCount: row.playlist_count,
+      })),
+    };
+  }
+);
@@ -0,0 +1,40 @@
+-- A layout splits the screen into a grid of cells; the geometry of the presets is
+-- stored as well so screens need not know how each preset is drawn.
+CREATE TABLE layouts (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  preset TEXT NOT NULL CHECK (preset IN ('1x1', '2x1', '2x2', '1+2', 'custom')),
+  columns INTEGER NOT NULL CHECK (columns BETWEEN 1 AND 4),
+  rows INTEGER NOT NULL CHECK (rows BETWEEN 1 AND 4),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX layouts_name_idx ON layouts (workspace_id, LOWER(name));
+
+-- Cells use 1-based grid lines. A "main" cell follows the rotation, a "dashboard"
+-- cell always shows one dashboard and a "rotation" cell cycles through its own.
+CREATE TABLE layout_cells (
+  layout_id TEXT NOT NULL REFERENCES layouts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  column_start INTEGER NOT NULL,
+  row_start INTEGER NOT NULL,
+  column_span INTEGER NOT NULL,
+  row_span INTEGER NOT NULL,
+  content TEXT NOT NULL CHECK (content IN ('main', 'dashboard', 'rotation')),
+  interval_seconds INTEGER,
+  PRIMARY KEY (layout_id, position)
+);
+
+CREATE TABLE layout_cell_dashboards (
+  layout_id TEXT NOT NULL,
+  cell_position INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+  dashboard_id TEXT NOT NULL REFERENCES dashboards(id) ON DELETE CASCADE,
+  PRIMARY KEY (layout_id, cell_position, position),
+  FOREIGN KEY (layout_id, cell_position) REFERENCES layout_cells(layout_id, position) ON DELETE CASCADE
+);
+
+-- While an entry with a layout is on screen, its dashboard fills the layout's main cell.
+ALTER TABLE playlist_items ADD COLUMN layout_id TEXT REFERENCES layouts(id) ON DELETE SET NULL;
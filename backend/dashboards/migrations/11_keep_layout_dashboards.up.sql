@@ -0,0 +1,5 @@
+-- A dashboard shown in a layout cell cannot be deleted until it is taken out of the
+-- layout, rather than silently leaving the cell empty.
+ALTER TABLE layout_cell_dashboards DROP CONSTRAINT layout_cell_dashboards_dashboard_id_fkey;
+ALTER TABLE layout_cell_dashboards ADD CONSTRAINT layout_cell_dashboards_dashboard_id_fkey
+  FOREIGN KEY (dashboard_id) REFERENCES dashboards(id) ON DELETE RESTRICT;
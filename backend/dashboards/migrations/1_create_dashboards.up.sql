@@ -0,0 +1,15 @@
+CREATE TABLE dashboards (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX dashboards_name_idx ON dashboards (LOWER(name));
+
+INSERT INTO dashboards (id, name, url, position) VALUES
+  ('dashboard-1', 'Sales Dashboard', 'https://app.powerbi.com/view?r=eyJrIjoiNTFkN2Q4ODEtMzVjZi00YTZlLWI5MDEtZjZkOTE5NjY3ODgwIiwidCI6IjRiZGJiZTdkLTYzZGYtNGU1Yy05NTNlLTkyODYzMTY4OTVlNiIsImMiOjEwfQ%3D%3D', 1),
+  ('dashboard-2', 'Marketing Dashboard', 'https://app.powerbi.com/view?r=eyJrIjoiN2U5YThjNGYtOGFjMi00M2FjLWI4OWUtNDYzNjNhOTMzZGQ5IiwidCI6IjRiZGJiZTdkLTYzZGYtNGU1Yy05NTNlLTkyODYzMTY4OTVlNiIsImMiOjEwfQ%3D%3D&pageName=5d09de0a920dc3d03aa6', 2),
+  ('dashboard-3', 'Financial Dashboard', 'https://app.powerbi.com/view?r=eyJrIjoiMzZhYmJmODMtMDRhNC00OTMwLWI0OWYtNTc5OWIzY2I1Yjc1IiwidCI6IjRiZGJiZTdkLTYzZGYtNGU1Yy05NTNlLTkyODYzMTY4OTVlNiIsImMiOjEwfQ%3D%3D', 3);
@@ -0,0 +1,5 @@
+ALTER TABLE dashboards
+  ADD COLUMN duration_seconds INTEGER CHECK (duration_seconds > 0);
+
+ALTER TABLE playlist_items
+  ADD COLUMN duration_seconds INTEGER CHECK (duration_seconds > 0);
@@ -0,0 +1,19 @@
+CREATE TABLE schedule (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  default_playlist_id TEXT REFERENCES playlists(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO schedule (id) VALUES (1);
+
+-- Minutes are counted from local midnight in the schedule's timezone; a window
+-- ending at 1440 runs until the end of the day.
+CREATE TABLE schedule_windows (
+  id TEXT PRIMARY KEY,
+  playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+  days SMALLINT[] NOT NULL,
+  start_minute INTEGER NOT NULL CHECK (start_minute >= 0 AND start_minute < 1440),
+  end_minute INTEGER NOT NULL CHECK (end_minute > start_minute AND end_minute <= 1440),
+  position INTEGER NOT NULL
+);
@@ -0,0 +1,4 @@
+ALTER TABLE dashboards
+  ADD COLUMN type TEXT NOT NULL DEFAULT 'public' CHECK (type IN ('public', 'embedded')),
+  ADD COLUMN workspace_id TEXT,
+  ADD COLUMN report_id TEXT;
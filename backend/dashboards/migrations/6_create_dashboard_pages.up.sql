@@ -0,0 +1,11 @@
+-- Report pages a dashboard steps through before the rotation moves on; a
+-- dashboard without pages is shown as a whole.
+CREATE TABLE dashboard_pages (
+  dashboard_id TEXT NOT NULL REFERENCES dashboards(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  display_name TEXT,
+  duration_seconds INTEGER CHECK (duration_seconds > 0),
+  PRIMARY KEY (dashboard_id, position),
+  UNIQUE (dashboard_id, name)
+);
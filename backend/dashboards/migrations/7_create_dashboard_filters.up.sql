@@ -0,0 +1,12 @@
+-- Report filters applied to a dashboard, combined with "and"; for publish-to-web
+-- links they become the "filter" URL parameter.
+CREATE TABLE dashboard_filters (
+  dashboard_id TEXT NOT NULL REFERENCES dashboards(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  table_name TEXT NOT NULL,
+  field_name TEXT NOT NULL,
+  operator TEXT NOT NULL CHECK (operator IN ('eq', 'ne', 'gt', 'ge', 'lt', 'le', 'in')),
+  value_type TEXT NOT NULL CHECK (value_type IN ('text', 'number')),
+  filter_values TEXT[] NOT NULL,
+  PRIMARY KEY (dashboard_id, position)
+);
@@ -0,0 +1,19 @@
+-- Workspaces live in the auth service; no foreign key across databases. Rows from
+-- before workspaces existed belong to the default workspace. A dashboard's
+-- workspace_id is the Power BI workspace of an embedded report, hence owner_workspace_id.
+ALTER TABLE dashboards ADD COLUMN owner_workspace_id TEXT NOT NULL DEFAULT 'workspace-default';
+ALTER TABLE playlists ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'workspace-default';
+
+-- Names only need to be unique within a workspace.
+DROP INDEX dashboards_name_idx;
+CREATE UNIQUE INDEX dashboards_name_idx ON dashboards (owner_workspace_id, LOWER(name));
+DROP INDEX playlists_name_idx;
+CREATE UNIQUE INDEX playlists_name_idx ON playlists (workspace_id, LOWER(name));
+
+-- Each workspace has its own schedule, created on its first save.
+ALTER TABLE schedule ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'workspace-default';
+ALTER TABLE schedule DROP COLUMN id;
+ALTER TABLE schedule ADD PRIMARY KEY (workspace_id);
+
+ALTER TABLE schedule_windows ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'workspace-default';
+CREATE INDEX schedule_windows_workspace_idx ON schedule_windows (workspace_id, position);
@@ -0,0 +1,32 @@
+-- Folders nest through parent_id; dashboards outside every folder sit at the top level.
+CREATE TABLE folders (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  parent_id TEXT REFERENCES folders(id),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX folders_name_idx ON folders (workspace_id, COALESCE(parent_id, ''), LOWER(name));
+
+ALTER TABLE dashboards ADD COLUMN folder_id TEXT REFERENCES folders(id) ON DELETE SET NULL;
+
+-- Tags are plain lowercase labels; a tag exists for as long as a dashboard carries it.
+CREATE TABLE dashboard_tags (
+  dashboard_id TEXT NOT NULL REFERENCES dashboards(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL,
+  PRIMARY KEY (dashboard_id, tag)
+);
+
+CREATE INDEX dashboard_tags_tag_idx ON dashboard_tags (tag);
+
+-- A playlist with a tag match shows every dashboard carrying any (or all) of its
+-- tags instead of a fixed list of entries.
+ALTER TABLE playlists ADD COLUMN tag_match TEXT CHECK (tag_match IN ('any', 'all'));
+
+CREATE TABLE playlist_tags (
+  playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL,
+  PRIMARY KEY (playlist_id, tag)
+);
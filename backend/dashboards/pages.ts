@@ -0,0 +1,46 @@
+import { Transaction } from "encore.dev/storage/sqldb";
+import { dashboardsDB } from "./db";
+import { DashboardPage } from "./types";
+
+interface DashboardPageRow {
+  dashboard_id: string;
+  name: string;
+  display_name: string | null;
+  duration_seconds: number | null;
+}
+
+// Loads the ordered pages of every dashboard, keyed by dashboard ID.
+export async function loadPages(): Promise<Map<string, DashboardPage[]>> {
+  const rows = await dashboardsDB.queryAll<DashboardPageRow>`
+    SELECT dashboard_id, name, display_name, duration_seconds
+    FROM dashboard_pages
+    ORDER BY dashboard_id, position
+  `;
+
+  const pages = new Map<string, DashboardPage[]>();
+  for (const row of rows) {
+    const list = pages.get(row.dashboard_id) ?? [];
+    list.push({
+      name: row.name,
+      displayName: row.display_name ?? undefined,
+      durationSeconds: row.duration_seconds ?? undefined,
+    });
+    pages.set(row.dashboard_id, list);
+  }
+  return pages;
+}
+
+// Replaces the ordered pages of a dashboard inside the caller's transaction.
+export async function replaceDashboardPages(
+  tx: Transaction,
+  dashboardID: string,
+  pages: DashboardPage[]
+): Promise<void> {
+  await tx.exec`DELETE FROM dashboard_pages WHERE dashboard_id = ${dashboardID}`;
+  for (const [position, page] of pages.entries()) {
+    await tx.exec`
+      INSERT INTO dashboard_pages (dashboard_id, position, name, display_name, duration_seconds)
+      VALUES (${dashboardID}, ${position}, ${page.name}, ${page.displayName ?? null}, ${page.durationSeconds ?? null})
+    `;
+  }
+}
@@ -0,0 +1,123 @@
+import { Transaction } from "encore.dev/storage/sqldb";
+import { dashboardsDB } from "./db";
+import { Playlist, PlaylistEntry, TagMatch, TagQuery } from "./types";
+
+interface PlaylistRow {
+  id: string;
+  name: string;
+  tag_match: TagMatch | null;
+}
+
+interface PlaylistItemRow {
+  playlist_id: string;
+  dashboard_id: string;
+  duration_seconds: number | null;
+  layout_id: string | null;
+}
+
+interface PlaylistTagRow {
+  playlist_id: string;
+  tag: string;
+}
+
+// Loads the playlists of a workspace with their entries in rotation order. Playlists
+// built from tags list the dashboards matching them at the time of loading.
+export async function loadPlaylists(workspaceID: string): Promise<Playlist[]> {
+  const rows = await dashboardsDB.queryAll<PlaylistRow>`
+    SELECT id, name, tag_match FROM playlists WHERE workspace_id = ${workspaceID} ORDER BY LOWER(name)
+  `;
+  const fixedItems = await dashboardsDB.queryAll<PlaylistItemRow>`
+    SELECT i.playlist_id, i.dashboard_id, i.duration_seconds, i.layout_id
+    FROM playlist_items i
+    JOIN playlists p ON p.id = i.playlist_id
+    WHERE p.workspace_id = ${workspaceID} AND p.tag_match IS NULL
+    ORDER BY i.playlist_id, i.position
+  `;
+  const taggedItems = await dashboardsDB.queryAll<PlaylistItemRow>`
+    SELECT p.id AS playlist_id, d.id AS dashboard_id, NULL::integer AS duration_seconds, NULL AS layout_id
+    FROM playlists p
+    JOIN dashboards d ON d.owner_workspace_id = p.workspace_id
+    WHERE p.workspace_id = ${workspaceID}
+      AND (
+        (p.tag_match = 'any' AND EXISTS (
+          SELECT 1 FROM playlist_tags pt
+          JOIN dashboard_tags dt ON dt.tag = pt.tag AND dt.dashboard_id = d.id
+          WHERE pt.playlist_id = p.id
+        ))
+        OR (p.tag_match = 'all' AND NOT EXISTS (
+          SELECT 1 FROM playlist_tags pt
+          WHERE pt.playlist_id = p.id
+            AND NOT EXISTS (SELECT 1 FROM dashboard_tags dt WHERE dt.dashboard_id = d.id AND dt.tag = pt.tag)
+        ))
+      )
+    ORDER BY p.id, d.position, d.created_at
+  `;
+  const tagRows = await dashboardsDB.queryAll<PlaylistTagRow>`
+    SELECT pt.playlist_id, pt.tag
+    FROM playlist_tags pt
+    JOIN playlists p ON p.id = pt.playlist_id
+    WHERE p.workspace_id = ${workspaceID}
+    ORDER BY pt.playlist_id, pt.tag
+  `;
+
+  const tags = new Map<string, string[]>();
+  for (const row of tagRows) {
+    const list = tags.get(row.playlist_id) ?? [];
+    list.push(row.tag);
+    tags.set(row.playlist_id, list);
+  }
+
+  const entries = new Map<string, PlaylistEntry[]>();
+  for (const item of [...fixedItems, ...taggedItems]) {
+    const list = entries.get(item.playlist_id) ?? [];
+    list.push({
+      dashboardId: item.dashboard_id,
+      durationSeconds: item.duration_seconds ?? undefined,
+      layoutId: item.layout_id ?? undefined,
+    });
+    entries.set(item.playlist_id, list);
+  }
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    entries: entries.get(row.id) ?? [],
+    tagQuery: row.tag_match ? { match: row.tag_match, tags: tags.get(row.id) ?? [] } : undefined,
+  }));
+}
+
+// Loads a single playlist of a workspace, or null when it does not exist there.
+export async function loadPlaylist(id: string, workspaceID: string): Promise<Playlist | null> {
+  return (await loadPlaylists(workspaceID)).find((playlist) => playlist.id === id) ?? null;
+}
+
+// Replaces the ordered entries of a playlist inside the caller's transaction.
+export async function replacePlaylistItems(
+  tx: Transaction,
+  playlistID: string,
+  entries: PlaylistEntry[]
+): Promise<void> {
+  await tx.exec`DELETE FROM playlist_items WHERE playlist_id = ${playlistID}`;
+  for (const [position, entry] of entries.entries()) {
+    await tx.exec`
+      INSERT INTO playlist_items (playlist_id, dashboard_id, position, duration_seconds, layout_id)
+      VALUES (${playlistID}, ${entry.dashboardId}, ${position}, ${entry.durationSeconds ?? null}, ${entry.layoutId ?? null})
+    `;
+  }
+}
+
+// Replaces the tag query of a playlist inside the caller's transaction; without one
+// the playlist shows its fixed entries.
+export async function replacePlaylistTags(
+  tx: Transaction,
+  playlistID: string,
+  tagQuery: TagQuery | undefined
+): Promise<void> {
+  await tx.exec`UPDATE playlists SET tag_match = ${tagQuery?.match ?? null} WHERE id = ${playlistID}`;
+  await tx.exec`DELETE FROM playlist_tags WHERE playlist_id = ${playlistID}`;
+  for (const tag of tagQuery?.tags ?? []) {
+    await tx.exec`
+      INSERT INTO playlist_tags (playlist_id, tag) VALUES (${playlistID}, ${tag})
+    `;
+  }
+}
@@ -0,0 +1,79 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { normalizeTag } from "./validation";
+
+interface RenameTagRequest {
+  from: string;
+  to: string;
+}
+
+interface RenameTagResponse {
+  name: string;
+}
+
+// Renames a tag on every dashboard and playlist of the workspace; renaming it to a
+// tag that is already in use merges the two.
+export const renameTag = api<RenameTagRequest, RenameTagResponse>(
+  { expose: true, method: "POST", path: "/tags/rename", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const from = normalizeTag(req.from);
+    const to = normalizeTag(req.to);
+    if (from === to) {
+      return { name: to };
+    }
+
+    const tx = await dashboardsDB.begin();
+    let renamed = 0;
+    try {
+      const dashboards = await tx.queryAll<{ dashboard_id: string }>`
+        SELECT dt.dashboard_id
+        FROM dashboard_tags dt
+        JOIN dashboards d ON d.id = dt.dashboard_id
+        WHERE dt.tag = ${from} AND d.owner_workspace_id = ${caller.workspaceID}
+      `;
+      const playlists = await tx.queryAll<{ playlist_id: string }>`
+        SELECT pt.playlist_id
+        FROM playlist_tags pt
+        JOIN playlists p ON p.id = pt.playlist_id
+        WHERE pt.tag = ${from} AND p.workspace_id = ${caller.workspaceID}
+      `;
+      for (const { dashboard_id } of dashboards) {
+        await tx.exec`
+          INSERT INTO dashboard_tags (dashboard_id, tag) VALUES (${dashboard_id}, ${to}) ON CONFLICT DO NOTHING
+        `;
+        await tx.exec`DELETE FROM dashboard_tags WHERE dashboard_id = ${dashboard_id} AND tag = ${from}`;
+      }
+      for (const { playlist_id } of playlists) {
+        await tx.exec`
+          INSERT INTO playlist_tags (playlist_id, tag) VALUES (${playlist_id}, ${to}) ON CONFLICT DO NOTHING
+        `;
+        await tx.exec`DELETE FROM playlist_tags WHERE playlist_id = ${playlist_id} AND tag = ${from}`;
+      }
+      renamed = dashboards.length + playlists.length;
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    if (renamed === 0) {
+      throw APIError.notFound("tag not found");
+    }
+
+    await configChanges.publish({ resource: "dashboards", workspaceId: caller.workspaceID });
+    await configChanges.publish({ resource: "playlists", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "update",
+      resource: "tag",
+      resourceName: to,
+      before: { name: from },
+      after: { name: to },
+    });
+    return { name: to };
+  }
+);
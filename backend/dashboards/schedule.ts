@@ -0,0 +1,60 @@
+import { dashboardsDB } from "./db";
+import { Schedule } from "./types";
+
+interface ScheduleRow {
+  timezone: string;
+  default_playlist_id: string | null;
+}
+
+interface ScheduleWindowRow {
+  id: string;
+  playlist_id: string;
+  days: number[];
+  start_minute: number;
+  end_minute: number;
+}
+
+// Parses "HH:MM" into minutes since midnight; "24:00" is allowed as an end of day.
+export function toMinutes(time: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(time ?? "");
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (Number(match[2]) > 59 || minutes > 24 * 60) {
+    return null;
+  }
+  return minutes;
+}
+
+export function fromMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60).toString().padStart(2, "0");
+  const mins = (minutes % 60).toString().padStart(2, "0");
+  return `${hours}:${mins}`;
+}
+
+// Loads the schedule of a workspace; one that was never saved is empty and runs on UTC.
+export async function loadSchedule(workspaceID: string): Promise<Schedule> {
+  const row = await dashboardsDB.queryRow<ScheduleRow>`
+    SELECT timezone, default_playlist_id FROM schedule WHERE workspace_id = ${workspaceID}
+  `;
+
+  const windows = await dashboardsDB.queryAll<ScheduleWindowRow>`
+    SELECT id, playlist_id, days, start_minute, end_minute
+    FROM schedule_windows
+    WHERE workspace_id = ${workspaceID}
+    ORDER BY position
+  `;
+
+  return {
+    timezone: row?.timezone ?? "UTC",
+    defaultPlaylistId: row?.default_playlist_id ?? undefined,
+    windows: windows.map((window) => ({
+      id: window.id,
+      playlistId: window.playlist_id,
+      days: window.days,
+      start: fromMinutes(window.start_minute),
+      end: fromMinutes(window.end_minute),
+    })),
+  };
+}
@@ -0,0 +1,25 @@
+import { dashboardsDB } from "./db";
+import { loadFilters } from "./filters";
+import { loadPages } from "./pages";
+import { loadTags } from "./tags";
+import { Dashboard, DashboardRow, toDashboard } from "./types";
+
+// Loads the dashboards of a workspace, or of every workspace when none is given,
+// with their pages, filters and tags, in display order.
+export async function loadDashboards(workspaceID?: string): Promise<Dashboard[]> {
+  const rows = await dashboardsDB.queryAll<DashboardRow>`
+    SELECT id, name, type, url, workspace_id, report_id, duration_seconds, folder_id
+    FROM dashboards
+    WHERE ${workspaceID ?? null}::text IS NULL OR owner_workspace_id = ${workspaceID ?? null}
+    ORDER BY position, created_at
+  `;
+  const pages = await loadPages();
+  const filters = await loadFilters();
+  const tags = await loadTags(workspaceID);
+  return rows.map((row) => toDashboard(row, pages.get(row.id), filters.get(row.id), tags.get(row.id)));
+}
+
+// Loads a single dashboard of a workspace, or null when it does not exist there.
+export async function loadDashboard(id: string, workspaceID: string): Promise<Dashboard | null> {
+  return (await loadDashboards(workspaceID)).find((dashboard) => dashboard.id === id) ?? null;
+}
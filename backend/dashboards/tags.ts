@@ -0,0 +1,37 @@
+import { Transaction } from "encore.dev/storage/sqldb";
+import { dashboardsDB } from "./db";
+
+interface DashboardTagRow {
+  dashboard_id: string;
+  tag: string;
+}
+
+// Loads the sorted tags of the dashboards of a workspace, or of every workspace when
+// none is given, keyed by dashboard ID.
+export async function loadTags(workspaceID?: string): Promise<Map<string, string[]>> {
+  const rows = await dashboardsDB.queryAll<DashboardTagRow>`
+    SELECT dt.dashboard_id, dt.tag
+    FROM dashboard_tags dt
+    JOIN dashboards d ON d.id = dt.dashboard_id
+    WHERE ${workspaceID ?? null}::text IS NULL OR d.owner_workspace_id = ${workspaceID ?? null}
+    ORDER BY dt.dashboard_id, dt.tag
+  `;
+
+  const tags = new Map<string, string[]>();
+  for (const row of rows) {
+    const list = tags.get(row.dashboard_id) ?? [];
+    list.push(row.tag);
+    tags.set(row.dashboard_id, list);
+  }
+  return tags;
+}
+
+// Replaces the tags of a dashboard inside the caller's transaction.
+export async function replaceDashboardTags(tx: Transaction, dashboardID: string, tags: string[]): Promise<void> {
+  await tx.exec`DELETE FROM dashboard_tags WHERE dashboard_id = ${dashboardID}`;
+  for (const tag of tags) {
+    await tx.exec`
+      INSERT INTO dashboard_tags (dashboard_id, tag) VALUES (${dashboardID}, ${tag})
+    `;
+  }
+}
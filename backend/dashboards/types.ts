@@ -0,0 +1,220 @@
+// "public" dashboards are publish-to-web links shown by URL; "embedded" ones are
+// secure Power BI Embedded reports shown with a server-issued embed token.
+export type DashboardType = "public" | "embedded";
+
+// A page of a Power BI report, shown in turn before the rotation moves on.
+export interface DashboardPage {
+  // The report's internal page name, as in the "pageName" URL parameter.
+  name: string;
+  // Label shown in the settings; defaults to the page name.
+  displayName?: string;
+  // How long the page stays on screen; falls back to the dashboard's dwell time.
+  durationSeconds?: number;
+}
+
+// Comparison operators of Power BI URL filters; "in" matches any of several values.
+export type FilterOperator = "eq" | "ne" | "gt" | "ge" | "lt" | "le" | "in";
+
+// Text values are quoted in the filter expression, numbers are not.
+export type FilterValueType = "text" | "number";
+
+// A condition on a report field, e.g. Store/Territory eq 'NC'.
+export interface DashboardFilter {
+  table: string;
+  field: string;
+  operator: FilterOperator;
+  valueType: FilterValueType;
+  // A single value, or one or more for "in".
+  values: string[];
+}
+
+export interface Dashboard {
+  id: string;
+  name: string;
+  type: DashboardType;
+  // The publish-to-web link; empty for embedded reports.
+  url: string;
+  // The Power BI workspace and report of an embedded report.
+  workspaceId?: string;
+  reportId?: string;
+  // How long the dashboard stays on screen; falls back to the global rotation interval.
+  durationSeconds?: number;
+  // Pages shown in order; empty when the dashboard is shown as a whole.
+  pages: DashboardPage[];
+  // Report filters, all of which apply; kept apart from the URL, which never has a filter itself.
+  filters: DashboardFilter[];
+  // The folder the dashboard is filed in; unset at the top level.
+  folderId?: string;
+  // Lowercase labels, sorted by name.
+  tags: string[];
+}
+
+export interface DashboardInput {
+  name: string;
+  // Defaults to "public".
+  type?: DashboardType;
+  url: string;
+  workspaceId?: string;
+  reportId?: string;
+  durationSeconds?: number;
+  pages?: DashboardPage[];
+  filters?: DashboardFilter[];
+  folderId?: string;
+  tags?: string[];
+}
+
+export interface DashboardRow {
+  id: string;
+  name: string;
+  type: DashboardType;
+  url: string;
+  workspace_id: string | null;
+  report_id: string | null;
+  duration_seconds: number | null;
+  folder_id: string | null;
+}
+
+export function toDashboard(
+  row: DashboardRow,
+  pages: DashboardPage[] = [],
+  filters: DashboardFilter[] = [],
+  tags: string[] = []
+): Dashboard {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    url: row.url,
+    workspaceId: row.workspace_id ?? undefined,
+    reportId: row.report_id ?? undefined,
+    durationSeconds: row.duration_seconds ?? undefined,
+    pages,
+    filters,
+    folderId: row.folder_id ?? undefined,
+    tags,
+  };
+}
+
+// A folder of the dashboard catalog; folders nest up to a few levels deep.
+export interface Folder {
+  id: string;
+  name: string;
+  // Unset for top-level folders.
+  parentId?: string;
+}
+
+export interface FolderInput {
+  name: string;
+  parentId?: string;
+}
+
+export interface FolderRow {
+  id: string;
+  name: string;
+  parent_id: string | null;
+}
+
+export function toFolder(row: FolderRow): Folder {
+  return { id: row.id, name: row.name, parentId: row.parent_id ?? undefined };
+}
+
+// Grid presets: "2x1" is two side by side, "1+2" one large cell beside two stacked
+// ones, and "custom" places its cells freely on a grid of up to 4 by 4.
+export type LayoutPreset = "1x1" | "2x1" | "2x2" | "1+2" | "custom";
+
+// "main" follows the rotation, "dashboard" always shows one dashboard and
+// "rotation" cycles through dashboards of its own.
+export type LayoutCellContent = "main" | "dashboard" | "rotation";
+
+export interface LayoutCell {
+  // 1-based grid lines, as in CSS grid.
+  column: number;
+  row: number;
+  columnSpan: number;
+  rowSpan: number;
+  content: LayoutCellContent;
+  // One for a "dashboard" cell, one or more in order for a "rotation" cell.
+  dashboardIds: string[];
+  // How long a "rotation" cell shows each dashboard; falls back to its dwell time.
+  intervalSeconds?: number;
+}
+
+// A screen split into cells, chosen per playlist entry or per display.
+export interface Layout {
+  id: string;
+  name: string;
+  preset: LayoutPreset;
+  columns: number;
+  rows: number;
+  cells: LayoutCell[];
+}
+
+// For the presets, columns, rows and the cells' positions are derived from the
+// preset and only the contents of its cells, in order, are taken.
+export type LayoutInput = Omit<Layout, "id">;
+
+// A tag in use in a workspace, with how often it is used.
+export interface TagUsage {
+  name: string;
+  dashboardCount: number;
+  // Playlists built from a query including the tag.
+  playlistCount: number;
+}
+
+// Whether a dashboard needs any or all of the tags to be part of a playlist.
+export type TagMatch = "any" | "all";
+
+export interface TagQuery {
+  match: TagMatch;
+  tags: string[];
+}
+
+export interface PlaylistEntry {
+  dashboardId: string;
+  // Overrides the dashboard's own dwell time while this playlist is active.
+  durationSeconds?: number;
+  // Shows the dashboard in the main cell of this layout while the entry is on screen.
+  layoutId?: string;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  // For a playlist built from tags, the matching dashboards in display order.
+  entries: PlaylistEntry[];
+  // Builds the playlist from the dashboards' tags instead of fixed entries.
+  tagQuery?: TagQuery;
+}
+
+export interface PlaylistInput {
+  name: string;
+  // Must be empty when a tag query is given.
+  entries: PlaylistEntry[];
+  tagQuery?: TagQuery;
+}
+
+export interface ScheduleWindow {
+  id: string;
+  playlistId: string;
+  // Days of the week the window applies to, 0 = Sunday.
+  days: number[];
+  // Local wall-clock times in the schedule's timezone, "HH:MM"; end may be "24:00".
+  start: string;
+  end: string;
+}
+
+export interface Schedule {
+  // IANA timezone the windows are evaluated in, e.g. "Europe/Amsterdam".
+  timezone: string;
+  // Playlist shown outside every window; all dashboards when unset.
+  defaultPlaylistId?: string;
+  windows: ScheduleWindow[];
+}
+
+export type ScheduleWindowInput = Omit<ScheduleWindow, "id">;
+
+export interface ScheduleInput {
+  timezone: string;
+  defaultPlaylistId?: string;
+  windows: ScheduleWindowInput[];
+}
@@ -0,0 +1,85 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { replaceDashboardFilters } from "./filters";
+import { replaceDashboardPages } from "./pages";
+import { loadDashboard } from "./store";
+import { replaceDashboardTags } from "./tags";
+import { Dashboard, DashboardInput, DashboardRow, toDashboard } from "./types";
+import { validateDashboardInput, validateFolderId } from "./validation";
+
+interface UpdateDashboardRequest extends DashboardInput {
+  id: string;
+}
+
+// Replaces the name, type, source, dwell time, pages, filters, folder and tags of an existing dashboard.
+export const update = api<UpdateDashboardRequest, Dashboard>(
+  { expose: true, method: "PUT", path: "/dashboards/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = validateDashboardInput(req);
+    await validateFolderId(input.folderId, caller.workspaceID);
+
+    const duplicate = await dashboardsDB.queryRow`
+      SELECT id FROM dashboards
+      WHERE LOWER(name) = LOWER(${input.name}) AND id <> ${req.id} AND owner_workspace_id = ${caller.workspaceID}
+    `;
+    if (duplicate) {
+      throw APIError.alreadyExists("a dashboard with this name already exists");
+    }
+
+    const before = await loadDashboard(req.id, caller.workspaceID);
+    if (!before) {
+      throw APIError.notFound("dashboard not found");
+    }
+
+    const pages = input.pages ?? [];
+    const filters = input.filters ?? [];
+    const tags = input.tags ?? [];
+    const tx = await dashboardsDB.begin();
+    let row: DashboardRow | null;
+    try {
+      row = await tx.queryRow<DashboardRow>`
+        UPDATE dashboards
+        SET
+          name = ${input.name},
+          type = ${input.type},
+          url = ${input.url},
+          workspace_id = ${input.workspaceId ?? null},
+          report_id = ${input.reportId ?? null},
+          duration_seconds = ${input.durationSeconds ?? null},
+          folder_id = ${input.folderId ?? null},
+          updated_at = NOW()
+        WHERE id = ${req.id} AND owner_workspace_id = ${caller.workspaceID}
+        RETURNING id, name, type, url, workspace_id, report_id, duration_seconds, folder_id
+      `;
+      if (!row) {
+        throw APIError.notFound("dashboard not found");
+      }
+      await replaceDashboardPages(tx, row.id, pages);
+      await replaceDashboardFilters(tx, row.id, filters);
+      await replaceDashboardTags(tx, row.id, tags);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    const dashboard = toDashboard(row, pages, filters, tags);
+    await configChanges.publish({ resource: "dashboards", id: row.id, workspaceId: caller.workspaceID });
+    // Playlists built from tags may gain or lose the dashboard.
+    await configChanges.publish({ resource: "playlists", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "update",
+      resource: "dashboard",
+      resourceId: dashboard.id,
+      resourceName: dashboard.name,
+      before,
+      after: dashboard,
+    });
+    return dashboard;
+  }
+);
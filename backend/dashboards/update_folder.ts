@@ -0,0 +1,60 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadFolder } from "./folders";
+import { Folder, FolderInput, FolderRow, toFolder } from "./types";
+import { validateFolderInput } from "./validation";
+
+interface UpdateFolderRequest extends FolderInput {
+  id: string;
+}
+
+// Renames a folder or moves it, with its dashboards and subfolders, under another parent.
+export const updateFolder = api<UpdateFolderRequest, Folder>(
+  { expose: true, method: "PUT", path: "/folders/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = await validateFolderInput(req, caller.workspaceID, req.id);
+
+    const duplicate = await dashboardsDB.queryRow`
+      SELECT id FROM folders
+      WHERE workspace_id = ${caller.workspaceID}
+        AND COALESCE(parent_id, '') = ${input.parentId ?? ""}
+        AND LOWER(name) = LOWER(${input.name})
+        AND id <> ${req.id}
+    `;
+    if (duplicate) {
+      throw APIError.alreadyExists("a folder with this name already exists here");
+    }
+
+    const before = await loadFolder(req.id, caller.workspaceID);
+    if (!before) {
+      throw APIError.notFound("folder not found");
+    }
+
+    const row = await dashboardsDB.queryRow<FolderRow>`
+      UPDATE folders
+      SET name = ${input.name}, parent_id = ${input.parentId ?? null}, updated_at = NOW()
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+      RETURNING id, name, parent_id
+    `;
+    if (!row) {
+      throw APIError.notFound("folder not found");
+    }
+
+    const folder = toFolder(row);
+    await configChanges.publish({ resource: "folders", id: folder.id, workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "update",
+      resource: "folder",
+      resourceId: folder.id,
+      resourceName: folder.name,
+      before,
+      after: folder,
+    });
+    return folder;
+  }
+);
@@ -0,0 +1,75 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadLayout, replaceLayoutCells } from "./layouts";
+import { Layout, LayoutInput } from "./types";
+import { validateLayoutInput } from "./validation";
+
+interface UpdateLayoutRequest extends LayoutInput {
+  id: string;
+}
+
+// Renames a layout or changes its grid and what its cells show.
+export const updateLayout = api<UpdateLayoutRequest, Layout>(
+  { expose: true, method: "PUT", path: "/layouts/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = await validateLayoutInput(req, caller.workspaceID);
+
+    const duplicate = await dashboardsDB.queryRow`
+      SELECT id FROM layouts
+      WHERE LOWER(name) = LOWER(${input.name}) AND id <> ${req.id} AND workspace_id = ${caller.workspaceID}
+    `;
+    if (duplicate) {
+      throw APIError.alreadyExists("a layout with this name already exists");
+    }
+
+    const before = await loadLayout(req.id, caller.workspaceID);
+    if (!before) {
+      throw APIError.notFound("layout not found");
+    }
+
+    // Playlist entries show their dashboard in the main cell.
+    if (!input.cells.some((cell) => cell.content === "main")) {
+      const entry = await dashboardsDB.queryRow`
+        SELECT playlist_id FROM playlist_items WHERE layout_id = ${req.id} LIMIT 1
+      `;
+      if (entry) {
+        throw APIError.failedPrecondition("playlist entries use this layout, so it needs a cell that follows the rotation");
+      }
+    }
+
+    const tx = await dashboardsDB.begin();
+    try {
+      await tx.exec`
+        UPDATE layouts
+        SET name = ${input.name}, preset = ${input.preset}, columns = ${input.columns}, rows = ${input.rows},
+            updated_at = NOW()
+        WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+      `;
+      await replaceLayoutCells(tx, req.id, input.cells);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    const layout = await loadLayout(req.id, caller.workspaceID);
+    if (!layout) {
+      throw APIError.notFound("layout not found");
+    }
+    await configChanges.publish({ resource: "layouts", id: layout.id, workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "update",
+      resource: "layout",
+      resourceId: layout.id,
+      resourceName: layout.name,
+      before,
+      after: layout,
+    });
+    return layout;
+  }
+);
@@ -0,0 +1,68 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadPlaylist, replacePlaylistItems, replacePlaylistTags } from "./playlists";
+import { Playlist, PlaylistInput } from "./types";
+import { validatePlaylistInput } from "./validation";
+
+interface UpdatePlaylistRequest extends PlaylistInput {
+  id: string;
+}
+
+// Renames a playlist and replaces its entries, their order and dwell times, or its tag query.
+export const updatePlaylist = api<UpdatePlaylistRequest, Playlist>(
+  { expose: true, method: "PUT", path: "/playlists/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = await validatePlaylistInput(req, caller.workspaceID);
+
+    const duplicate = await dashboardsDB.queryRow`
+      SELECT id FROM playlists
+      WHERE LOWER(name) = LOWER(${input.name}) AND id <> ${req.id} AND workspace_id = ${caller.workspaceID}
+    `;
+    if (duplicate) {
+      throw APIError.alreadyExists("a playlist with this name already exists");
+    }
+
+    const before = await loadPlaylist(req.id, caller.workspaceID);
+    if (!before) {
+      throw APIError.notFound("playlist not found");
+    }
+
+    const tx = await dashboardsDB.begin();
+    try {
+      const row = await tx.queryRow`
+        UPDATE playlists SET name = ${input.name}, updated_at = NOW()
+        WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+        RETURNING id
+      `;
+      if (!row) {
+        throw APIError.notFound("playlist not found");
+      }
+      await replacePlaylistItems(tx, req.id, input.entries);
+      await replacePlaylistTags(tx, req.id, input.tagQuery);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    const playlist = await loadPlaylist(req.id, caller.workspaceID);
+    if (!playlist) {
+      throw APIError.notFound("playlist not found");
+    }
+    await configChanges.publish({ resource: "playlists", id: req.id, workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "update",
+      resource: "playlist",
+      resourceId: req.id,
+      resourceName: playlist.name,
+      before,
+      after: playlist,
+    });
+    return playlist;
+  }
+);
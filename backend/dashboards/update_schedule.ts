@@ -0,0 +1,67 @@
+import { api } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { dashboardsDB } from "./db";
+import { loadSchedule, toMinutes } from "./schedule";
+import { Schedule, ScheduleInput } from "./types";
+import { validateScheduleInput } from "./validation";
+
+// Windows get new IDs on every save, so the audit trail leaves them out.
+function withoutWindowIds(schedule: Schedule) {
+  return { ...schedule, windows: schedule.windows.map(({ id: _, ...window }) => window) };
+}
+
+// Replaces the timezone, default playlist and every window of the schedule.
+export const updateSchedule = api<ScheduleInput, Schedule>(
+  { expose: true, method: "PUT", path: "/schedule", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    const input = await validateScheduleInput(req, caller.workspaceID);
+
+    const before = await loadSchedule(caller.workspaceID);
+
+    const tx = await dashboardsDB.begin();
+    try {
+      await tx.exec`
+        INSERT INTO schedule (workspace_id, timezone, default_playlist_id)
+        VALUES (${caller.workspaceID}, ${input.timezone}, ${input.defaultPlaylistId ?? null})
+        ON CONFLICT (workspace_id) DO UPDATE
+        SET timezone = EXCLUDED.timezone,
+            default_playlist_id = EXCLUDED.default_playlist_id,
+            updated_at = NOW()
+      `;
+      await tx.exec`DELETE FROM schedule_windows WHERE workspace_id = ${caller.workspaceID}`;
+      for (const [position, window] of input.windows.entries()) {
+        await tx.exec`
+          INSERT INTO schedule_windows (id, playlist_id, days, start_minute, end_minute, position, workspace_id)
+          VALUES (
+            ${`window-${randomUUID()}`},
+            ${window.playlistId},
+            ${window.days},
+            ${toMinutes(window.start)},
+            ${toMinutes(window.end)},
+            ${position},
+            ${caller.workspaceID}
+          )
+        `;
+      }
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    const schedule = await loadSchedule(caller.workspaceID);
+    await configChanges.publish({ resource: "schedule", workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "update",
+      resource: "schedule",
+      before: withoutWindowIds(before),
+      after: withoutWindowIds(schedule),
+    });
+    return schedule;
+  }
+);
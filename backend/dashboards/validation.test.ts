@@ -0,0 +1,189 @@
+import { describe, expect, test } from "bun:test";
+import { DashboardFilter, DashboardInput } from "./types";
+import { normalizeTag, validateDashboardInput, validateFolderInput } from "./validation";
+
+const WORKSPACE = "8F2C1E3A-0B4D-4C6E-9A1F-2B3C4D5E6F70";
+const REPORT = "1A2B3C4D-5E6F-4A8B-9C0D-1E2F3A4B5C6D";
+
+const publicDashboard: DashboardInput = { name: "Sales", url: "https://app.powerbi.com/view?r=abc" };
+
+describe("normalizeTag", () => {
+  test("lowercases and collapses spaces", () => {
+    expect(normalizeTag("  Q3   Sales ")).toBe("q3 sales");
+  });
+
+  test("accepts letters from any script", () => {
+    expect(normalizeTag("Ventes-Été")).toBe("ventes-été");
+  });
+
+  test("rejects tags that start with a symbol or run past 30 characters", () => {
+    expect(() => normalizeTag("-sales")).toThrow("not a valid tag");
+    expect(() => normalizeTag("x".repeat(31))).toThrow("not a valid tag");
+    expect(() => normalizeTag("")).toThrow("not a valid tag");
+  });
+});
+
+describe("validateDashboardInput", () => {
+  test("normalizes a public dashboard", () => {
+    expect(validateDashboardInput({ ...publicDashboard, name: " Sales ", folderId: "" })).toEqual({
+      name: "Sales",
+      type: "public",
+      url: "https://app.powerbi.com/view?r=abc",
+      durationSeconds: undefined,
+      pages: [],
+      filters: [],
+      folderId: undefined,
+      tags: [],
+    });
+  });
+
+  test("rejects names outside 3 to 50 characters", () => {
+    expect(() => validateDashboardInput({ ...publicDashboard, name: "ab" })).toThrow("between 3 and 50");
+    expect(() => validateDashboardInput({ ...publicDashboard, name: "x".repeat(51) })).toThrow("between 3 and 50");
+  });
+
+  test("rejects links that are not http(s) or carry a filter", () => {
+    expect(() => validateDashboardInput({ ...publicDashboard, url: "not a link" })).toThrow("not a valid URL");
+    expect(() => validateDashboardInput({ ...publicDashboard, url: "javascript:alert(1)" })).toThrow("http or https");
+    expect(() =>
+      validateDashboardInput({ ...publicDashboard, url: "https://app.powerbi.com/view?r=abc&filter=Sales/Region eq 'EU'" })
+    ).toThrow("must not contain a filter");
+  });
+
+  test("lowercases the GUIDs of an embedded report and drops its link", () => {
+    const result = validateDashboardInput({
+      name: "Embedded",
+      type: "embedded",
+      url: "https://ignored.example.com",
+      workspaceId: WORKSPACE,
+      reportId: REPORT,
+    });
+    expect(result).toMatchObject({ type: "embedded", url: "", workspaceId: WORKSPACE.toLowerCase(), reportId: REPORT.toLowerCase() });
+  });
+
+  test("requires GUIDs for embedded reports", () => {
+    const embedded: DashboardInput = { name: "Embedded", type: "embedded", url: "", workspaceId: WORKSPACE, reportId: REPORT };
+    expect(() => validateDashboardInput({ ...embedded, workspaceId: "finance" })).toThrow("workspace id must be a GUID");
+    expect(() => validateDashboardInput({ ...embedded, reportId: "" })).toThrow("report id must be a GUID");
+  });
+
+  test("rejects unknown types", () => {
+    expect(() => validateDashboardInput({ ...publicDashboard, type: "paginated" as never })).toThrow("unknown dashboard type");
+  });
+
+  test("accepts whole-second durations between 5 seconds and an hour", () => {
+    expect(validateDashboardInput({ ...publicDashboard, durationSeconds: 5 }).durationSeconds).toBe(5);
+    expect(validateDashboardInput({ ...publicDashboard, durationSeconds: 3600 }).durationSeconds).toBe(3600);
+    expect(() => validateDashboardInput({ ...publicDashboard, durationSeconds: 4 })).toThrow("between 5 and 3600");
+    expect(() => validateDashboardInput({ ...publicDashboard, durationSeconds: 3601 })).toThrow("between 5 and 3600");
+    expect(() => validateDashboardInput({ ...publicDashboard, durationSeconds: 10.5 })).toThrow("whole number");
+  });
+
+  describe("pages", () => {
+    test("trims names and drops empty labels", () => {
+      const { pages } = validateDashboardInput({
+        ...publicDashboard,
+        pages: [{ name: " ReportSection2 ", displayName: " " }, { name: "a1b2c3", displayName: "Overview", durationSeconds: 30 }],
+      });
+      expect(pages).toEqual([
+        { name: "ReportSection2", displayName: undefined, durationSeconds: undefined },
+        { name: "a1b2c3", displayName: "Overview", durationSeconds: 30 },
+      ]);
+    });
+
+    test("rejects malformed names, long labels and duplicates", () => {
+      expect(() => validateDashboardInput({ ...publicDashboard, pages: [{ name: "Report Section" }] })).toThrow(
+        "not a valid report page name"
+      );
+      expect(() =>
+        validateDashboardInput({ ...publicDashboard, pages: [{ name: "ReportSection", displayName: "x".repeat(51) }] })
+      ).toThrow("at most 50");
+      expect(() =>
+        validateDashboardInput({ ...publicDashboard, pages: [{ name: "ReportSection" }, { name: "ReportSection" }] })
+      ).toThrow("same page twice");
+    });
+
+    test("allows at most 20 pages", () => {
+      const pages = Array.from({ length: 21 }, (_, i) => ({ name: `ReportSection${i}` }));
+      expect(() => validateDashboardInput({ ...publicDashboard, pages })).toThrow("at most 20 pages");
+    });
+  });
+
+  describe("filters", () => {
+    const filter: DashboardFilter = { table: "Sales", field: "Region", operator: "eq", valueType: "text", values: ["EU"] };
+
+    test("trims tables, fields and values", () => {
+      const { filters } = validateDashboardInput({
+        ...publicDashboard,
+        filters: [{ ...filter, table: " Sales ", field: " Region ", values: [" EU "] }],
+      });
+      expect(filters).toEqual([{ table: "Sales", field: "Region", operator: "eq", valueType: "text", values: ["EU"] }]);
+    });
+
+    test("requires a table and field", () => {
+      expect(() => validateDashboardInput({ ...publicDashboard, filters: [{ ...filter, table: " " }] })).toThrow(
+        "needs a table and field"
+      );
+    });
+
+    test("rejects unknown operators and value types", () => {
+      expect(() => validateDashboardInput({ ...publicDashboard, filters: [{ ...filter, operator: "like" as never }] })).toThrow(
+        'unknown filter operator "like"'
+      );
+      expect(() => validateDashboardInput({ ...publicDashboard, filters: [{ ...filter, valueType: "date" as never }] })).toThrow(
+        'unknown filter value type "date"'
+      );
+    });
+
+    test("needs exactly one value, or at least one for in", () => {
+      expect(() => validateDashboardInput({ ...publicDashboard, filters: [{ ...filter, values: ["EU", "US"] }] })).toThrow(
+        "exactly one value"
+      );
+      expect(() => validateDashboardInput({ ...publicDashboard, filters: [{ ...filter, operator: "in", values: [] }] })).toThrow(
+        "at least one value"
+      );
+      expect(
+        validateDashboardInput({ ...publicDashboard, filters: [{ ...filter, operator: "in", values: ["EU", "US"] }] }).filters
+      ).toHaveLength(1);
+    });
+
+    test("requires numbers for number filters", () => {
+      const numeric: DashboardFilter = { ...filter, field: "Year", operator: "ge", valueType: "number" };
+      expect(validateDashboardInput({ ...publicDashboard, filters: [{ ...numeric, values: ["2024"] }] }).filters).toHaveLength(1);
+      expect(() => validateDashboardInput({ ...publicDashboard, filters: [{ ...numeric, values: ["last year"] }] })).toThrow(
+        "must be numbers"
+      );
+      expect(() => validateDashboardInput({ ...publicDashboard, filters: [{ ...numeric, values: [" "] }] })).toThrow(
+        "must be numbers"
+      );
+    });
+
+    test("allows at most 10 filters", () => {
+      const filters = Array.from({ length: 11 }, () => filter);
+      expect(() => validateDashboardInput({ ...publicDashboard, filters })).toThrow("at most 10 filters");
+    });
+  });
+
+  test("drops duplicate tags and sorts the rest", () => {
+    expect(validateDashboardInput({ ...publicDashboard, tags: ["Sales", "finance", " sales "] }).tags).toEqual([
+      "finance",
+      "sales",
+    ]);
+  });
+
+  test("allows at most 20 tags", () => {
+    const tags = Array.from({ length: 21 }, (_, i) => `tag ${i}`);
+    expect(() => validateDashboardInput({ ...publicDashboard, tags })).toThrow("at most 20 tags");
+  });
+});
+
+describe("validateFolderInput", () => {
+  test("trims the name of a top-level folder", async () => {
+    expect(await validateFolderInput({ name: " Finance ", parentId: "" }, "workspace-default")).toEqual({ name: "Finance" });
+  });
+
+  test("rejects names outside 1 to 50 characters", async () => {
+    await expect(validateFolderInput({ name: " " }, "workspace-default")).rejects.toThrow("between 1 and 50");
+    await expect(validateFolderInput({ name: "x".repeat(51) }, "workspace-default")).rejects.toThrow("between 1 and 50");
+  });
+});
@@ -0,0 +1,462 @@
+import { APIError } from "encore.dev/api";
+import { dashboardsDB } from "./db";
+import { loadFolders } from "./folders";
+import { PRESET_GRIDS } from "./layouts";
+import { fromMinutes, toMinutes } from "./schedule";
+import {
+  DashboardFilter,
+  DashboardInput,
+  DashboardPage,
+  FolderInput,
+  LayoutCell,
+  LayoutInput,
+  PlaylistEntry,
+  PlaylistInput,
+  ScheduleInput,
+  TagQuery,
+} from "./types";
+
+const MIN_DURATION_SECONDS = 5;
+const MAX_DURATION_SECONDS = 60 * 60;
+
+// Dwell times are optional; when given they must be whole seconds within a sane range.
+function validateDuration(durationSeconds: number | undefined): number | undefined {
+  if (durationSeconds === undefined || durationSeconds === null) {
+    return undefined;
+  }
+  if (
+    !Number.isInteger(durationSeconds) ||
+    durationSeconds < MIN_DURATION_SECONDS ||
+    durationSeconds > MAX_DURATION_SECONDS
+  ) {
+    throw APIError.invalidArgument(
+      `duration must be a whole number of seconds between ${MIN_DURATION_SECONDS} and ${MAX_DURATION_SECONDS}`
+    );
+  }
+  return durationSeconds;
+}
+
+const MAX_PAGES = 20;
+
+// Power BI page names are generated identifiers such as "ReportSection2" or a hex string.
+const PAGE_NAME_PATTERN = /^[\w-]{1,100}$/;
+
+// Pages are optional; each needs a well-formed, unique page name.
+function validatePages(pages: DashboardPage[] | undefined): DashboardPage[] {
+  const normalized = (pages ?? []).map((page) => {
+    const name = page.name?.trim() ?? "";
+    const displayName = page.displayName?.trim() || undefined;
+    if (!PAGE_NAME_PATTERN.test(name)) {
+      throw APIError.invalidArgument(`"${name}" is not a valid report page name`);
+    }
+    if (displayName && displayName.length > 50) {
+      throw APIError.invalidArgument("page labels must be at most 50 characters");
+    }
+    return { name, displayName, durationSeconds: validateDuration(page.durationSeconds) };
+  });
+
+  if (normalized.length > MAX_PAGES) {
+    throw APIError.invalidArgument(`a dashboard can have at most ${MAX_PAGES} pages`);
+  }
+  if (new Set(normalized.map((page) => page.name)).size !== normalized.length) {
+    throw APIError.invalidArgument("a dashboard cannot contain the same page twice");
+  }
+  return normalized;
+}
+
+const MAX_FILTERS = 10;
+const FILTER_OPERATORS = ["eq", "ne", "gt", "ge", "lt", "le", "in"];
+
+// Filters are optional; each names a table and field and carries values matching its operator.
+function validateFilters(filters: DashboardFilter[] | undefined): DashboardFilter[] {
+  const normalized = (filters ?? []).map((filter) => {
+    const table = filter.table?.trim() ?? "";
+    const field = filter.field?.trim() ?? "";
+    const values = (filter.values ?? []).map((value) => value.trim());
+
+    if (!table || !field || table.length > 100 || field.length > 100) {
+      throw APIError.invalidArgument("every filter needs a table and field of at most 100 characters");
+    }
+    if (!FILTER_OPERATORS.includes(filter.operator)) {
+      throw APIError.invalidArgument(`unknown filter operator "${filter.operator}"`);
+    }
+    if (filter.valueType !== "text" && filter.valueType !== "number") {
+      throw APIError.invalidArgument(`unknown filter value type "${filter.valueType}"`);
+    }
+    if (filter.operator === "in" ? values.length === 0 : values.length !== 1) {
+      throw APIError.invalidArgument(`the filter on ${table}/${field} needs ${filter.operator === "in" ? "at least one value" : "exactly one value"}`);
+    }
+    if (filter.valueType === "number" && values.some((value) => value === "" || !Number.isFinite(Number(value)))) {
+      throw APIError.invalidArgument(`the filter on ${table}/${field} compares numbers, so its values must be numbers`);
+    }
+    return { table, field, operator: filter.operator, valueType: filter.valueType, values };
+  });
+
+  if (normalized.length > MAX_FILTERS) {
+    throw APIError.invalidArgument(`a dashboard can have at most ${MAX_FILTERS} filters`);
+  }
+  return normalized;
+}
+
+const MAX_TAGS = 20;
+
+// Letters, digits, spaces, dashes and underscores, starting with a letter or digit.
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]{0,29}$/u;
+
+// Tags are matched case-insensitively, so they are stored in lowercase with single spaces.
+export function normalizeTag(tag: string): string {
+  const normalized = (tag ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+  if (!TAG_PATTERN.test(normalized)) {
+    throw APIError.invalidArgument(
+      `"${normalized}" is not a valid tag; use up to 30 letters, digits, spaces, dashes or underscores`
+    );
+  }
+  return normalized;
+}
+
+// Tags are optional; duplicates are dropped and the rest sorted.
+function validateTags(tags: string[] | undefined): string[] {
+  const normalized = [...new Set((tags ?? []).map(normalizeTag))].sort();
+  if (normalized.length > MAX_TAGS) {
+    throw APIError.invalidArgument(`a dashboard can have at most ${MAX_TAGS} tags`);
+  }
+  return normalized;
+}
+
+// Power BI workspace and report IDs are GUIDs.
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Normalizes and validates a dashboard payload, mirroring the checks in the settings form.
+export function validateDashboardInput(input: DashboardInput): DashboardInput {
+  const name = input.name?.trim() ?? "";
+  const type = input.type ?? "public";
+  const url = input.url?.trim() ?? "";
+  const durationSeconds = validateDuration(input.durationSeconds);
+  const pages = validatePages(input.pages);
+  const filters = validateFilters(input.filters);
+  const folderId = input.folderId || undefined;
+  const tags = validateTags(input.tags);
+
+  if (name.length < 3 || name.length > 50) {
+    throw APIError.invalidArgument("dashboard name must be between 3 and 50 characters");
+  }
+
+  if (type === "embedded") {
+    const workspaceId = input.workspaceId?.trim().toLowerCase() ?? "";
+    const reportId = input.reportId?.trim().toLowerCase() ?? "";
+    if (!GUID_PATTERN.test(workspaceId)) {
+      throw APIError.invalidArgument("workspace id must be a GUID");
+    }
+    if (!GUID_PATTERN.test(reportId)) {
+      throw APIError.invalidArgument("report id must be a GUID");
+    }
+    return { name, type, url: "", workspaceId, reportId, durationSeconds, pages, filters, folderId, tags };
+  }
+  if (type !== "public") {
+    throw APIError.invalidArgument(`unknown dashboard type "${type}"`);
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw APIError.invalidArgument("dashboard url is not a valid URL");
+  }
+  if (!["http:", "https:"].includes(parsed.protocol)) {
+    throw APIError.invalidArgument("dashboard url must use http or https");
+  }
+  // Filters are stored on their own and added to the link when it is shown.
+  if (parsed.searchParams.has("filter")) {
+    throw APIError.invalidArgument("dashboard url must not contain a filter; add it to the dashboard filters instead");
+  }
+
+  return { name, type, url, durationSeconds, pages, filters, folderId, tags };
+}
+
+// A dashboard's folder, when it has one, must belong to the same workspace.
+export async function validateFolderId(folderId: string | undefined, workspaceID: string): Promise<void> {
+  if (!folderId) {
+    return;
+  }
+  const folder = await dashboardsDB.queryRow`
+    SELECT id FROM folders WHERE id = ${folderId} AND workspace_id = ${workspaceID}
+  `;
+  if (!folder) {
+    throw APIError.invalidArgument("dashboard references an unknown folder");
+  }
+}
+
+const MAX_FOLDER_DEPTH = 5;
+
+// Normalizes and validates a folder payload. The parent must be in the same workspace,
+// and moving a folder may neither put it inside itself nor nest the tree too deeply.
+export async function validateFolderInput(
+  input: FolderInput,
+  workspaceID: string,
+  folderID?: string
+): Promise<FolderInput> {
+  const name = input.name?.trim() ?? "";
+  const parentId = input.parentId || undefined;
+
+  if (name.length < 1 || name.length > 50) {
+    throw APIError.invalidArgument("folder name must be between 1 and 50 characters");
+  }
+  if (!parentId) {
+    return { name };
+  }
+
+  const folders = await loadFolders(workspaceID);
+  const parentOf = new Map(folders.map((folder) => [folder.id, folder.parentId]));
+  if (!parentOf.has(parentId)) {
+    throw APIError.invalidArgument("folder references an unknown parent folder");
+  }
+
+  // Levels from the top down to the new parent, checking the folder is not among them.
+  let depth = 0;
+  for (let id: string | undefined = parentId; id; id = parentOf.get(id)) {
+    if (id === folderID) {
+      throw APIError.invalidArgument("a folder cannot be moved into itself or one of its subfolders");
+    }
+    depth++;
+  }
+
+  // Levels the folder brings along, itself included.
+  const height = (id: string): number =>
+    1 + Math.max(0, ...folders.filter((folder) => folder.parentId === id).map((folder) => height(folder.id)));
+  if (depth + (folderID ? height(folderID) : 1) > MAX_FOLDER_DEPTH) {
+    throw APIError.invalidArgument(`folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`);
+  }
+
+  return { name, parentId };
+}
+
+// A tag query needs at least one tag and says whether dashboards need any or all of them.
+function validateTagQuery(query: TagQuery): TagQuery {
+  if (query.match !== "any" && query.match !== "all") {
+    throw APIError.invalidArgument(`unknown tag match "${query.match}"`);
+  }
+  const tags = [...new Set((query.tags ?? []).map(normalizeTag))].sort();
+  if (tags.length === 0) {
+    throw APIError.invalidArgument("a playlist built from tags needs at least one tag");
+  }
+  if (tags.length > MAX_TAGS) {
+    throw APIError.invalidArgument(`a playlist can match at most ${MAX_TAGS} tags`);
+  }
+  return { match: query.match, tags };
+}
+
+// Normalizes and validates a playlist payload; every referenced dashboard must exist
+// in the playlist's workspace. A playlist built from tags has no entries of its own.
+export async function validatePlaylistInput(input: PlaylistInput, workspaceID: string): Promise<PlaylistInput> {
+  const name = input.name?.trim() ?? "";
+  const entries: PlaylistEntry[] = (input.entries ?? []).map((entry) => ({
+    dashboardId: entry.dashboardId,
+    durationSeconds: validateDuration(entry.durationSeconds),
+    layoutId: entry.layoutId || undefined,
+  }));
+  const dashboardIds = entries.map((entry) => entry.dashboardId);
+
+  if (name.length < 3 || name.length > 50) {
+    throw APIError.invalidArgument("playlist name must be between 3 and 50 characters");
+  }
+  if (input.tagQuery) {
+    if (entries.length > 0) {
+      throw APIError.invalidArgument("a playlist built from tags cannot also list dashboards");
+    }
+    return { name, entries, tagQuery: validateTagQuery(input.tagQuery) };
+  }
+  if (dashboardIds.length === 0) {
+    throw APIError.invalidArgument("a playlist needs at least one dashboard");
+  }
+  if (new Set(dashboardIds).size !== dashboardIds.length) {
+    throw APIError.invalidArgument("a playlist cannot contain the same dashboard twice");
+  }
+
+  const known = await dashboardsDB.queryAll<{ id: string }>`
+    SELECT id FROM dashboards WHERE id = ANY(${dashboardIds}) AND owner_workspace_id = ${workspaceID}
+  `;
+  if (known.length !== dashboardIds.length) {
+    throw APIError.invalidArgument("playlist references an unknown dashboard");
+  }
+
+  const layoutIds = [...new Set(entries.flatMap((entry) => (entry.layoutId ? [entry.layoutId] : [])))];
+  if (layoutIds.length > 0) {
+    // The entry's dashboard is shown in the main cell, so the layout needs one.
+    const layouts = await dashboardsDB.queryAll<{ id: string }>`
+      SELECT l.id FROM layouts l
+      WHERE l.id = ANY(${layoutIds}) AND l.workspace_id = ${workspaceID}
+        AND EXISTS (SELECT 1 FROM layout_cells c WHERE c.layout_id = l.id AND c.content = 'main')
+    `;
+    if (layouts.length !== layoutIds.length) {
+      throw APIError.invalidArgument("playlist entries need a layout of the same workspace with a main cell");
+    }
+  }
+
+  return { name, entries };
+}
+
+const MAX_GRID_SIZE = 4;
+const MAX_ROTATION_DASHBOARDS = 20;
+const LAYOUT_CELL_CONTENTS = ["main", "dashboard", "rotation"];
+
+// Normalizes and validates a layout payload. The presets bring their own grid; custom
+// cells must lie within the grid without overlapping. At most one cell follows the
+// rotation, and every dashboard shown in the others must be in the same workspace.
+export async function validateLayoutInput(input: LayoutInput, workspaceID: string): Promise<LayoutInput> {
+  const name = input.name?.trim() ?? "";
+  const cells = input.cells ?? [];
+
+  if (name.length < 3 || name.length > 50) {
+    throw APIError.invalidArgument("layout name must be between 3 and 50 characters");
+  }
+
+  let columns: number;
+  let rows: number;
+  let areas: Pick<LayoutCell, "column" | "row" | "columnSpan" | "rowSpan">[];
+  if (input.preset === "custom") {
+    columns = input.columns;
+    rows = input.rows;
+    areas = cells;
+    const inRange = (value: number, max: number) => Number.isInteger(value) && value >= 1 && value <= max;
+    if (!inRange(columns, MAX_GRID_SIZE) || !inRange(rows, MAX_GRID_SIZE)) {
+      throw APIError.invalidArgument(`a custom layout has between 1 and ${MAX_GRID_SIZE} columns and rows`);
+    }
+    if (cells.length === 0) {
+      throw APIError.invalidArgument("a layout needs at least one cell");
+    }
+
+    const taken = new Set<string>();
+    for (const [index, area] of areas.entries()) {
+      if (
+        !inRange(area.column, columns) ||
+        !inRange(area.row, rows) ||
+        !inRange(area.columnSpan, columns - area.column + 1) ||
+        !inRange(area.rowSpan, rows - area.row + 1)
+      ) {
+        throw APIError.invalidArgument(`cell ${index + 1} does not fit in a ${columns} by ${rows} grid`);
+      }
+      for (let column = area.column; column < area.column + area.columnSpan; column++) {
+        for (let row = area.row; row < area.row + area.rowSpan; row++) {
+          if (taken.has(`${column},${row}`)) {
+            throw APIError.invalidArgument(`cell ${index + 1} overlaps another cell`);
+          }
+          taken.add(`${column},${row}`);
+        }
+      }
+    }
+  } else {
+    const grid = PRESET_GRIDS[input.preset as keyof typeof PRESET_GRIDS];
+    if (!grid) {
+      throw APIError.invalidArgument(`unknown layout preset "${input.preset}"`);
+    }
+    if (cells.length !== grid.areas.length) {
+      throw APIError.invalidArgument(`the ${input.preset} layout has ${grid.areas.length} cells`);
+    }
+    ({ columns, rows, areas } = grid);
+  }
+
+  const normalized: LayoutCell[] = cells.map((cell, index) => {
+    if (!LAYOUT_CELL_CONTENTS.includes(cell.content)) {
+      throw APIError.invalidArgument(`unknown cell content "${cell.content}"`);
+    }
+    const dashboardIds = cell.content === "main" ? [] : cell.dashboardIds ?? [];
+    if (cell.content === "dashboard" && dashboardIds.length !== 1) {
+      throw APIError.invalidArgument(`cell ${index + 1} shows exactly one dashboard`);
+    }
+    if (cell.content === "rotation") {
+      if (dashboardIds.length === 0 || dashboardIds.length > MAX_ROTATION_DASHBOARDS) {
+        throw APIError.invalidArgument(`cell ${index + 1} rotates through between 1 and ${MAX_ROTATION_DASHBOARDS} dashboards`);
+      }
+      if (new Set(dashboardIds).size !== dashboardIds.length) {
+        throw APIError.invalidArgument(`cell ${index + 1} cannot rotate through the same dashboard twice`);
+      }
+    }
+    const { column, row, columnSpan, rowSpan } = areas[index];
+    return {
+      column,
+      row,
+      columnSpan,
+      rowSpan,
+      content: cell.content,
+      dashboardIds,
+      intervalSeconds: cell.content === "rotation" ? validateDuration(cell.intervalSeconds) : undefined,
+    };
+  });
+
+  if (normalized.filter((cell) => cell.content === "main").length > 1) {
+    throw APIError.invalidArgument("only one cell can follow the rotation");
+  }
+
+  const dashboardIds = [...new Set(normalized.flatMap((cell) => cell.dashboardIds))];
+  if (dashboardIds.length > 0) {
+    const known = await dashboardsDB.queryAll<{ id: string }>`
+      SELECT id FROM dashboards WHERE id = ANY(${dashboardIds}) AND owner_workspace_id = ${workspaceID}
+    `;
+    if (known.length !== dashboardIds.length) {
+      throw APIError.invalidArgument("layout references an unknown dashboard");
+    }
+  }
+
+  return { name, preset: input.preset, columns, rows, cells: normalized };
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Validates a whole schedule: a known timezone, playlists of the same workspace and
+// no two windows covering the same minute of the same day.
+export async function validateScheduleInput(input: ScheduleInput, workspaceID: string): Promise<ScheduleInput> {
+  const timezone = input.timezone?.trim() ?? "";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw APIError.invalidArgument(`unknown timezone "${timezone}"`);
+  }
+
+  const windows = (input.windows ?? []).map((window) => {
+    const days = [...new Set(window.days ?? [])].sort((a, b) => a - b);
+    if (days.length === 0 || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw APIError.invalidArgument("every schedule window needs at least one day between 0 (Sunday) and 6");
+    }
+
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    if (start === null || end === null || start >= end || start === 24 * 60) {
+      throw APIError.invalidArgument("schedule windows need a start time before their end time (HH:MM)");
+    }
+
+    return {
+      playlistId: window.playlistId,
+      days,
+      start: fromMinutes(start),
+      end: fromMinutes(end),
+      startMinute: start,
+      endMinute: end,
+    };
+  });
+
+  for (const [i, a] of windows.entries()) {
+    for (const b of windows.slice(i + 1)) {
+      const sharedDay = a.days.find((day) => b.days.includes(day));
+      if (sharedDay !== undefined && a.startMinute < b.endMinute && b.startMinute < a.endMinute) {
+        throw APIError.invalidArgument(`schedule windows overlap on ${DAY_NAMES[sharedDay]}`);
+      }
+    }
+  }
+
+  const playlistIds = [...new Set([
+    ...windows.map((window) => window.playlistId),
+    ...(input.defaultPlaylistId ? [input.defaultPlaylistId] : []),
+  ])];
+  const known = await dashboardsDB.queryAll<{ id: string }>`
+    SELECT id FROM playlists WHERE id = ANY(${playlistIds}) AND workspace_id = ${workspaceID}
+  `;
+  if (known.length !== playlistIds.length) {
+    throw APIError.invalidArgument("schedule references an unknown playlist");
+  }
+
+  return {
+    timezone,
+    defaultPlaylistId: input.defaultPlaylistId || undefined,
+    windows: windows.map(({ playlistId, days, start, end }) => ({ playlistId, days, start, end })),
+  };
+}
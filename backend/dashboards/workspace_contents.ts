@@ -0,0 +1,28 @@
+import { api } from "encore.dev/api";
+import { dashboardsDB } from "./db";
+
+interface WorkspaceContentsRequest {
+  workspaceId: string;
+}
+
+interface WorkspaceContentsResponse {
+  dashboards: number;
+  playlists: number;
+  layouts: number;
+  folders: number;
+}
+
+// Internal: counts what a workspace still holds, so the auth service only deletes empty ones.
+export const workspaceContents = api<WorkspaceContentsRequest, WorkspaceContentsResponse>(
+  { expose: false, method: "GET", path: "/dashboards/workspaces/:workspaceId/contents" },
+  async (req) => {
+    const row = await dashboardsDB.queryRow<WorkspaceContentsResponse>`
+      SELECT
+        (SELECT COUNT(*)::int FROM dashboards WHERE owner_workspace_id = ${req.workspaceId}) AS dashboards,
+        (SELECT COUNT(*)::int FROM playlists WHERE workspace_id = ${req.workspaceId}) AS playlists,
+        (SELECT COUNT(*)::int FROM layouts WHERE workspace_id = ${req.workspaceId}) AS layouts,
+        (SELECT COUNT(*)::int FROM folders WHERE workspace_id = ${req.workspaceId}) AS folders
+    `;
+    return row ?? { dashboards: 0, playlists: 0, layouts: 0, folders: 0 };
+  }
+);
@@ -0,0 +1,77 @@
+import { StreamInOut } from "encore.dev/api";
+import { liveLease } from "../events/lease";
+import { displaysDB } from "./db";
+import { DisplayCommand, DisplayStatus } from "./types";
+
+type ControlStream = StreamInOut<DisplayStatus, DisplayCommand>;
+
+interface Connection {
+  stream: ControlStream;
+  status: DisplayStatus;
+}
+
+// Control connections held by this instance, keyed by display ID. A display may
+// briefly have two while it reconnects. Only the instance holding the lease accepts them.
+const connections = new Map<string, Set<Connection>>();
+
+export const controlLease = liveLease(displaysDB, () => {
+  for (const displayID of Array.from(connections.keys())) {
+    closeConnections(displayID);
+  }
+});
+
+export function addConnection(displayID: string, stream: ControlStream): Connection {
+  const connection: Connection = { stream, status: { isRotating: false } };
+  const existing = connections.get(displayID) ?? new Set<Connection>();
+  existing.add(connection);
+  connections.set(displayID, existing);
+  return connection;
+}
+
+export function removeConnection(displayID: string, connection: Connection) {
+  const existing = connections.get(displayID);
+  if (!existing) return;
+  existing.delete(connection);
+  if (existing.size === 0) {
+    connections.delete(displayID);
+  }
+}
+
+// Returns the most recent status of a connected display, or undefined when it is offline.
+export function liveStatus(displayID: string): DisplayStatus | undefined {
+  const existing = connections.get(displayID);
+  return existing ? Array.from(existing).pop()?.status : undefined;
+}
+
+// Returns how many displays hold at least one control connection to this instance.
+export function connectedCount(): number {
+  return connections.size;
+}
+
+// Sends a command to every connection of a display and returns how many received it.
+export async function sendToDisplay(displayID: string, command: DisplayCommand): Promise<number> {
+  const existing = connections.get(displayID);
+  if (!existing) return 0;
+
+  let delivered = 0;
+  for (const connection of existing) {
+    try {
+      await connection.stream.send(command);
+      delivered++;
+    } catch {
+      // The socket went away without closing cleanly.
+      removeConnection(displayID, connection);
+    }
+  }
+  return delivered;
+}
+
+// Drops the connections of a display that has been unregistered.
+export async function closeConnections(displayID: string) {
+  const existing = connections.get(displayID);
+  if (!existing) return;
+  connections.delete(displayID);
+  for (const connection of existing) {
+    await connection.stream.close().catch(() => undefined);
+  }
+}
@@ -0,0 +1,26 @@
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { addConnection, controlLease, removeConnection } from "./connections";
+import { DisplayCommand, DisplayStatus } from "./types";
+
+// Long-lived connection a paired display holds open to receive remote control
+// commands; the display reports what it is showing in the other direction.
+export const control = api.streamInOut<DisplayStatus, DisplayCommand>(
+  { expose: true, path: "/displays/control", auth: true },
+  async (stream) => {
+    const displayID = getAuthData()!.displayID;
+    if (!displayID) {
+      throw APIError.failedPrecondition("this device is not paired as a display");
+    }
+
+    await controlLease.require();
+    const connection = addConnection(displayID, stream);
+    try {
+      for await (const status of stream) {
+        connection.status = status;
+      }
+    } finally {
+      removeConnection(displayID, connection);
+    }
+  }
+);
@@ -0,0 +1,14 @@
+import { Cookie } from "encore.dev/api";
+
+// Ties a pairing code to the browser that requested it, so only that screen can
+// collect the display credential once an admin has entered the code.
+export function pairingCookie(secret: string, expires: Date): Cookie<"pairing"> {
+  return {
+    value: secret,
+    expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    path: "/displays/pair",
+  };
+}
@@ -0,0 +1,19 @@
+import { api } from "encore.dev/api";
+import { connectedCount } from "./connections";
+import { displaysDB } from "./db";
+
+interface DisplayCountsResponse {
+  registered: number;
+  connected: number;
+}
+
+// Internal: counts registered displays and those connected right now, for /metrics.
+export const counts = api<void, DisplayCountsResponse>(
+  { expose: false, method: "GET", path: "/displays/counts" },
+  async () => {
+    const row = await displaysDB.queryRow<{ registered: number }>`
+      SELECT COUNT(*)::int AS registered FROM displays
+    `;
+    return { registered: row?.registered ?? 0, connected: connectedCount() };
+  }
+);
@@ -0,0 +1,26 @@
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { displaysDB } from "./db";
+import { Display, DisplayRow, toDisplay } from "./types";
+
+// Returns the display the calling screen is paired as.
+export const current = api<void, Display>(
+  { expose: true, method: "GET", path: "/displays/current", auth: true },
+  async () => {
+    const displayID = getAuthData()!.displayID;
+    if (!displayID) {
+      throw APIError.failedPrecondition("this device is not paired as a display");
+    }
+
+    const row = await displaysDB.queryRow<DisplayRow>`
+      SELECT id, name, location, playlist_id, layout_id, token_hash IS NOT NULL AS is_paired, last_seen_at, created_at
+      FROM displays
+      WHERE id = ${displayID}
+    `;
+    if (!row) {
+      throw APIError.notFound("display not found");
+    }
+
+    return toDisplay(row);
+  }
+);
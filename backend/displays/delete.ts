@@ -0,0 +1,37 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { closeConnections } from "./connections";
+import { displaysDB } from "./db";
+import { DisplayRow, auditedDisplay, toDisplay } from "./types";
+
+interface DeleteDisplayRequest {
+  id: string;
+}
+
+// Unregisters a display; its control connection is dropped and the screen is signed
+// out on its next request.
+export const remove = api<DeleteDisplayRequest, void>(
+  { expose: true, method: "DELETE", path: "/displays/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const row = await displaysDB.queryRow<DisplayRow>`
+      DELETE FROM displays
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+      RETURNING id, name, location, playlist_id, layout_id, token_hash IS NOT NULL AS is_paired, last_seen_at, created_at
+    `;
+    if (!row) {
+      throw APIError.notFound("display not found");
+    }
+
+    await closeConnections(req.id);
+    await recordChange(caller, {
+      action: "delete",
+      resource: "display",
+      resourceId: row.id,
+      resourceName: row.name,
+      before: auditedDisplay(toDisplay(row)),
+    });
+  }
+);
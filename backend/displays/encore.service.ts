@@ -0,0 +1,4 @@
+import { Service } from "encore.dev/service";
+import { countRequests } from "../metrics/middleware";
+
+export default new Service("displays", { middlewares: [countRequests] });
@@ -0,0 +1,29 @@
+import { api, APIError } from "encore.dev/api";
+import { displaysDB } from "./db";
+import { hashSecret } from "./tokens";
+
+interface IdentifyDisplayRequest {
+  token: string;
+}
+
+interface IdentifyDisplayResponse {
+  id: string;
+  name: string;
+  workspaceId: string;
+}
+
+// Resolves a display credential for the auth handler and records that the screen is alive.
+export const identify = api<IdentifyDisplayRequest, IdentifyDisplayResponse>(
+  { expose: false, method: "POST", path: "/displays/identify" },
+  async (req) => {
+    const row = await displaysDB.queryRow<{ id: string; name: string; workspace_id: string }>`
+      UPDATE displays SET last_seen_at = NOW()
+      WHERE token_hash = ${hashSecret(req.token)}
+      RETURNING id, name, workspace_id
+    `;
+    if (!row) {
+      throw APIError.notFound("unknown display");
+    }
+    return { id: row.id, name: row.name, workspaceId: row.workspace_id };
+  }
+);
@@ -0,0 +1,24 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { displaysDB } from "./db";
+import { Display, DisplayRow, toDisplay } from "./types";
+
+interface ListDisplaysResponse {
+  displays: Display[];
+}
+
+// Returns the displays registered in the caller's workspace.
+export const list = api<void, ListDisplaysResponse>(
+  { expose: true, method: "GET", path: "/displays", auth: true },
+  async () => {
+    const caller = requireRole("admin");
+
+    const rows = await displaysDB.queryAll<DisplayRow>`
+      SELECT id, name, location, playlist_id, layout_id, token_hash IS NOT NULL AS is_paired, last_seen_at, created_at
+      FROM displays
+      WHERE workspace_id = ${caller.workspaceID}
+      ORDER BY LOWER(name)
+    `;
+    return { displays: rows.map(toDisplay) };
+  }
+);
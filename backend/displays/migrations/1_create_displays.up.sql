@@ -0,0 +1,22 @@
+CREATE TABLE displays (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  location TEXT NOT NULL DEFAULT '',
+  -- Playlist from the dashboards service; no foreign key across databases.
+  playlist_id TEXT,
+  -- Set once the device has collected its credential after pairing.
+  token_hash TEXT UNIQUE,
+  last_seen_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX displays_name_idx ON displays (LOWER(name));
+
+CREATE TABLE pairing_requests (
+  code TEXT PRIMARY KEY,
+  secret_hash TEXT NOT NULL UNIQUE,
+  display_id TEXT REFERENCES displays(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
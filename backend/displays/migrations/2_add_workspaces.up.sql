@@ -0,0 +1,7 @@
+-- Workspaces live in the auth service; no foreign key across databases. Displays
+-- registered before workspaces existed belong to the default workspace.
+ALTER TABLE displays ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'workspace-default';
+
+-- Names only need to be unique within a workspace.
+DROP INDEX displays_name_idx;
+CREATE UNIQUE INDEX displays_name_idx ON displays (workspace_id, LOWER(name));
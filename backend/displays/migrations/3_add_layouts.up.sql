@@ -0,0 +1,2 @@
+-- Layout from the dashboards service; no foreign key across databases.
+ALTER TABLE displays ADD COLUMN layout_id TEXT;
@@ -0,0 +1,6 @@
+-- The instance accepting control connections; see events/lease.ts.
+CREATE TABLE live_lease (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  instance_id TEXT NOT NULL,
+  renewed_at TIMESTAMPTZ NOT NULL
+);
@@ -0,0 +1,44 @@
+import { api, APIError, Cookie } from "encore.dev/api";
+import { pairingCookie } from "./cookie";
+import { displaysDB } from "./db";
+import {
+  PAIRING_CODE_TTL_MS,
+  generatePairingCode,
+  generateSecret,
+  hashSecret,
+} from "./tokens";
+
+interface RequestPairingResponse {
+  code: string;
+  expiresAt: Date;
+  pairing: Cookie<"pairing">;
+}
+
+// Issues a short code for an unregistered screen to show on the /pair page.
+export const requestPairing = api<void, RequestPairingResponse>(
+  { expose: true, method: "POST", path: "/displays/pair" },
+  async () => {
+    await displaysDB.exec`
+      DELETE FROM pairing_requests WHERE expires_at < NOW() AND display_id IS NULL
+    `;
+
+    const secret = generateSecret();
+    const expiresAt = new Date(Date.now() + PAIRING_CODE_TTL_MS);
+
+    // Codes are short, so retry on the rare collision with a live one.
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = generatePairingCode();
+      const row = await displaysDB.queryRow`
+        INSERT INTO pairing_requests (code, secret_hash, expires_at)
+        VALUES (${code}, ${hashSecret(secret)}, ${expiresAt})
+        ON CONFLICT (code) DO NOTHING
+        RETURNING code
+      `;
+      if (row) {
+        return { code, expiresAt, pairing: pairingCookie(secret, expiresAt) };
+      }
+    }
+
+    throw APIError.unavailable("unable to allocate a pairing code, please try again");
+  }
+);
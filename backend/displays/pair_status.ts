@@ -0,0 +1,54 @@
+import { api, Cookie } from "encore.dev/api";
+import { displayCookie } from "../auth/cookie";
+import { pairingCookie } from "./cookie";
+import { displaysDB } from "./db";
+import { DISPLAY_TOKEN_TTL_MS, generateSecret, hashSecret } from "./tokens";
+
+interface PairingStatusRequest {
+  pairing?: Cookie<"pairing">;
+}
+
+interface PairingStatusResponse {
+  status: "pending" | "paired" | "expired";
+  display?: Cookie<"display">;
+  pairing?: Cookie<"pairing">;
+}
+
+// Polled by the /pair page; hands the screen its credential once an admin has registered it.
+export const pairingStatus = api<PairingStatusRequest, PairingStatusResponse>(
+  { expose: true, method: "GET", path: "/displays/pair/status" },
+  async (req) => {
+    const secret = req.pairing?.value;
+    if (!secret) {
+      return { status: "expired" };
+    }
+
+    const request = await displaysDB.queryRow<{ code: string; display_id: string | null; expired: boolean }>`
+      SELECT code, display_id, expires_at < NOW() AS expired
+      FROM pairing_requests
+      WHERE secret_hash = ${hashSecret(secret)}
+    `;
+    if (!request || (request.expired && !request.display_id)) {
+      return { status: "expired" };
+    }
+    if (!request.display_id) {
+      return { status: "pending" };
+    }
+
+    const token = generateSecret();
+    const expiresAt = new Date(Date.now() + DISPLAY_TOKEN_TTL_MS);
+
+    await displaysDB.exec`
+      UPDATE displays
+      SET token_hash = ${hashSecret(token)}, last_seen_at = NOW(), updated_at = NOW()
+      WHERE id = ${request.display_id}
+    `;
+    await displaysDB.exec`DELETE FROM pairing_requests WHERE code = ${request.code}`;
+
+    return {
+      status: "paired",
+      display: displayCookie(token, expiresAt),
+      pairing: pairingCookie("", new Date(0)),
+    };
+  }
+);
@@ -0,0 +1,75 @@
+import { api, APIError } from "encore.dev/api";
+import { randomUUID } from "node:crypto";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { displaysDB } from "./db";
+import { normalizePairingCode } from "./tokens";
+import { Display, DisplayInput, DisplayRow, auditedDisplay, toDisplay } from "./types";
+import { validateDisplayInput } from "./validation";
+
+interface RegisterDisplayRequest extends DisplayInput {
+  // The code shown on the screen's /pair page.
+  code: string;
+}
+
+// Registers the screen showing the given pairing code as a named display of the caller's workspace.
+export const register = api<RegisterDisplayRequest, Display>(
+  { expose: true, method: "POST", path: "/displays", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const input = await validateDisplayInput(req);
+    const code = normalizePairingCode(req.code);
+
+    // Claiming the code and registering happen together, so a code is never used twice.
+    const tx = await displaysDB.begin();
+    let row: DisplayRow | null;
+    try {
+      const request = await tx.queryRow`
+        SELECT code FROM pairing_requests
+        WHERE code = ${code} AND display_id IS NULL AND expires_at > NOW()
+        FOR UPDATE
+      `;
+      if (!request) {
+        throw APIError.notFound("pairing code not found or expired");
+      }
+
+      const existing = await tx.queryRow`
+        SELECT id FROM displays WHERE LOWER(name) = LOWER(${input.name}) AND workspace_id = ${caller.workspaceID}
+      `;
+      if (existing) {
+        throw APIError.alreadyExists("a display with this name already exists");
+      }
+
+      row = await tx.queryRow<DisplayRow>`
+        INSERT INTO displays (id, name, location, playlist_id, layout_id, workspace_id)
+        VALUES (
+          ${`display-${randomUUID()}`}, ${input.name}, ${input.location}, ${input.playlistId ?? null},
+          ${input.layoutId ?? null}, ${caller.workspaceID}
+        )
+        RETURNING id, name, location, playlist_id, layout_id, token_hash IS NOT NULL AS is_paired, last_seen_at, created_at
+      `;
+      if (!row) {
+        throw APIError.internal("failed to register display");
+      }
+
+      await tx.exec`
+        UPDATE pairing_requests SET display_id = ${row.id} WHERE code = ${code}
+      `;
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    const display = toDisplay(row);
+    await recordChange(caller, {
+      action: "create",
+      resource: "display",
+      resourceId: display.id,
+      resourceName: display.name,
+      after: auditedDisplay(display),
+    });
+    return display;
+  }
+);
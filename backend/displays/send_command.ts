@@ -0,0 +1,48 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { controlLease, sendToDisplay } from "./connections";
+import { displaysDB } from "./db";
+import { DisplayCommand } from "./types";
+
+const ACTIONS = ["next", "pause", "play", "show", "reload"];
+
+interface SendCommandRequest extends DisplayCommand {
+  id: string;
+}
+
+// Pushes a remote control command to a connected display.
+export const sendCommand = api<SendCommandRequest, void>(
+  { expose: true, method: "POST", path: "/displays/:id/commands", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    if (!ACTIONS.includes(req.action)) {
+      throw APIError.invalidArgument(`unknown action "${req.action}"`);
+    }
+    if (req.action === "show" && !req.dashboardId) {
+      throw APIError.invalidArgument("a dashboard is required to show");
+    }
+
+    if (req.action === "show") {
+      const { dashboards: all } = await dashboards.list();
+      if (!all.some((dashboard) => dashboard.id === req.dashboardId)) {
+        throw APIError.notFound("dashboard not found");
+      }
+    }
+
+    const display = await displaysDB.queryRow`
+      SELECT id FROM displays WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+    `;
+    if (!display) {
+      throw APIError.notFound("display not found");
+    }
+
+    await controlLease.require();
+    const command: DisplayCommand = { action: req.action, dashboardId: req.dashboardId };
+    const delivered = await sendToDisplay(req.id, command);
+    if (delivered === 0) {
+      throw APIError.failedPrecondition("display is not connected");
+    }
+  }
+);
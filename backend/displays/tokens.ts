@@ -0,0 +1,33 @@
+import { createHash, randomBytes, randomInt } from "node:crypto";
+
+// Letters and digits that cannot be confused with each other on a TV screen.
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+// How long a pairing code stays valid on screen before the device asks for a new one.
+export const PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+
+// How long a paired display stays signed in; the cookie is reissued on every refresh.
+export const DISPLAY_TOKEN_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+export function generatePairingCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Codes are shown as "ABC-DEF"; accept them typed with or without the dash or in lower case.
+export function normalizePairingCode(code: string): string {
+  return (code ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function generateSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// Secrets and tokens are only ever stored hashed.
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
@@ -0,0 +1,70 @@
+import { liveStatus } from "./connections";
+
+export interface Display {
+  id: string;
+  name: string;
+  location: string;
+  playlistId?: string;
+  // Splits the screen into cells, the main one showing the playlist.
+  layoutId?: string;
+  // False until the screen has picked up its credential after being registered.
+  isPaired: boolean;
+  lastSeenAt?: Date;
+  // Present while the screen holds a live control connection.
+  live?: DisplayStatus;
+  createdAt: Date;
+}
+
+// A display as the audit trail keeps it: its settings, without when it was last seen
+// or whether it is connected right now.
+export function auditedDisplay(display: Display): Omit<Display, "lastSeenAt" | "live"> {
+  const { lastSeenAt: _seen, live: _live, ...settings } = display;
+  return settings;
+}
+
+export interface DisplayInput {
+  name: string;
+  location: string;
+  playlistId?: string;
+  layoutId?: string;
+}
+
+export interface DisplayRow {
+  id: string;
+  name: string;
+  location: string;
+  playlist_id: string | null;
+  layout_id: string | null;
+  is_paired: boolean;
+  last_seen_at: Date | null;
+  created_at: Date;
+}
+
+export function toDisplay(row: DisplayRow): Display {
+  return {
+    id: row.id,
+    name: row.name,
+    location: row.location,
+    playlistId: row.playlist_id ?? undefined,
+    layoutId: row.layout_id ?? undefined,
+    isPaired: row.is_paired,
+    lastSeenAt: row.last_seen_at ?? undefined,
+    live: liveStatus(row.id),
+    createdAt: row.created_at,
+  };
+}
+
+// Remote control commands an admin can push to a connected display.
+export type DisplayAction = "next" | "pause" | "play" | "show" | "reload";
+
+export interface DisplayCommand {
+  action: DisplayAction;
+  // The dashboard to switch to; required for "show".
+  dashboardId?: string;
+}
+
+// What a connected display reports back about its screen.
+export interface DisplayStatus {
+  dashboardId?: string;
+  isRotating: boolean;
+}
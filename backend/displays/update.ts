@@ -0,0 +1,60 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { displaysDB } from "./db";
+import { Display, DisplayInput, DisplayRow, auditedDisplay, toDisplay } from "./types";
+import { validateDisplayInput } from "./validation";
+
+interface UpdateDisplayRequest extends DisplayInput {
+  id: string;
+}
+
+// Renames, relocates or reassigns the playlist or layout of a display.
+export const update = api<UpdateDisplayRequest, Display>(
+  { expose: true, method: "PUT", path: "/displays/:id", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const input = await validateDisplayInput(req);
+
+    const duplicate = await displaysDB.queryRow`
+      SELECT id FROM displays
+      WHERE LOWER(name) = LOWER(${input.name}) AND id <> ${req.id} AND workspace_id = ${caller.workspaceID}
+    `;
+    if (duplicate) {
+      throw APIError.alreadyExists("a display with this name already exists");
+    }
+
+    const current = await displaysDB.queryRow<DisplayRow>`
+      SELECT id, name, location, playlist_id, layout_id, token_hash IS NOT NULL AS is_paired, last_seen_at, created_at
+      FROM displays
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+    `;
+    const row = await displaysDB.queryRow<DisplayRow>`
+      UPDATE displays
+      SET name = ${input.name},
+          location = ${input.location},
+          playlist_id = ${input.playlistId ?? null},
+          layout_id = ${input.layoutId ?? null},
+          updated_at = NOW()
+      WHERE id = ${req.id} AND workspace_id = ${caller.workspaceID}
+      RETURNING id, name, location, playlist_id, layout_id, token_hash IS NOT NULL AS is_paired, last_seen_at, created_at
+    `;
+    if (!row || !current) {
+      throw APIError.notFound("display not found");
+    }
+
+    const display = toDisplay(row);
+    await configChanges.publish({ resource: "displays", id: row.id, workspaceId: caller.workspaceID });
+    await recordChange(caller, {
+      action: "update",
+      resource: "display",
+      resourceId: display.id,
+      resourceName: display.name,
+      before: auditedDisplay(toDisplay(current)),
+      after: auditedDisplay(display),
+    });
+    return display;
+  }
+);
@@ -0,0 +1,22 @@
+import { describe, expect, test } from "bun:test";
+import { validateDisplayInput } from "./validation";
+
+describe("validateDisplayInput", () => {
+  test("trims the name and location and drops empty assignments", async () => {
+    expect(await validateDisplayInput({ name: " Lobby ", location: " Ground floor ", playlistId: "", layoutId: "" })).toEqual({
+      name: "Lobby",
+      location: "Ground floor",
+      playlistId: undefined,
+      layoutId: undefined,
+    });
+  });
+
+  test("rejects names outside 3 to 50 characters", async () => {
+    await expect(validateDisplayInput({ name: "TV", location: "" })).rejects.toThrow("between 3 and 50");
+    await expect(validateDisplayInput({ name: "x".repeat(51), location: "" })).rejects.toThrow("between 3 and 50");
+  });
+
+  test("rejects locations longer than 100 characters", async () => {
+    await expect(validateDisplayInput({ name: "Lobby", location: "x".repeat(101) })).rejects.toThrow("at most 100");
+  });
+});
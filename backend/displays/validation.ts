@@ -0,0 +1,35 @@
+import { APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { DisplayInput } from "./types";
+
+// Normalizes and validates a display payload; an assigned playlist or layout must exist
+// in the caller's workspace, which is the only one listPlaylists and listLayouts see.
+export async function validateDisplayInput(input: DisplayInput): Promise<DisplayInput> {
+  const name = input.name?.trim() ?? "";
+  const location = input.location?.trim() ?? "";
+  const playlistId = input.playlistId || undefined;
+  const layoutId = input.layoutId || undefined;
+
+  if (name.length < 3 || name.length > 50) {
+    throw APIError.invalidArgument("display name must be between 3 and 50 characters");
+  }
+  if (location.length > 100) {
+    throw APIError.invalidArgument("display location must be at most 100 characters");
+  }
+
+  if (playlistId) {
+    const { playlists } = await dashboards.listPlaylists();
+    if (!playlists.some((playlist) => playlist.id === playlistId)) {
+      throw APIError.invalidArgument("display references an unknown playlist");
+    }
+  }
+
+  if (layoutId) {
+    const { layouts } = await dashboards.listLayouts();
+    if (!layouts.some((layout) => layout.id === layoutId)) {
+      throw APIError.invalidArgument("display references an unknown layout");
+    }
+  }
+
+  return { name, location, playlistId, layoutId };
+}
@@ -0,0 +1,21 @@
+import { api } from "encore.dev/api";
+import { displaysDB } from "./db";
+
+interface WorkspaceCountRequest {
+  workspaceId: string;
+}
+
+interface WorkspaceCountResponse {
+  registered: number;
+}
+
+// Internal: counts the displays registered to a workspace, so the auth service only deletes empty ones.
+export const workspaceCount = api<WorkspaceCountRequest, WorkspaceCountResponse>(
+  { expose: false, method: "GET", path: "/displays/workspaces/:workspaceId/count" },
+  async (req) => {
+    const row = await displaysDB.queryRow<WorkspaceCountResponse>`
+      SELECT COUNT(*)::int AS registered FROM displays WHERE workspace_id = ${req.workspaceId}
+    `;
+    return { registered: row?.registered ?? 0 };
+  }
+);
@@ -0,0 +1,12 @@
+import { Subscription } from "encore.dev/pubsub";
+import { broadcast, streamLease } from "./listeners";
+import { configChanges } from "./topic";
+
+// Relays every configuration change to the screens connected to the event stream. A
+// change handed to an instance without the streams fails, so it is delivered again.
+export const _ = new Subscription(configChanges, "relay-config-changes", {
+  handler: async (change) => {
+    await streamLease.require();
+    await broadcast(change);
+  },
+});
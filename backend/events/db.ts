@@ -0,0 +1,5 @@
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+
+export const eventsDB = new SQLDatabase("events", {
+  migrations: "./migrations",
+});
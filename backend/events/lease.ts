@@ -0,0 +1,67 @@
+import { APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { randomUUID } from "node:crypto";
+
+// Live connections (the screens' event streams, the displays' control connections)
+// are held in the memory of the instance that accepted them, and a change or command
+// only reaches the connections of the instance handling it. The backend therefore runs
+// as a single instance; a lease in the database makes sure that only one instance
+// accepts live connections and that any other refuses them instead of losing updates.
+
+// This process, as far as leases are concerned.
+const INSTANCE_ID = `instance-${randomUUID()}`;
+
+// An instance that stops renewing its lease gives it up after this long.
+const LEASE_TTL_SECONDS = 30;
+const RENEW_INTERVAL_MS = 10 * 1000;
+
+export interface LiveLease {
+  // Throws unless this instance holds the lease, and keeps renewing it from then on.
+  require(): Promise<void>;
+}
+
+// Claims the lease for this instance or renews it; false when another instance holds it.
+async function claim(db: SQLDatabase): Promise<boolean> {
+  const row = await db.queryRow`
+    INSERT INTO live_lease (id, instance_id, renewed_at)
+    VALUES (1, ${INSTANCE_ID}, NOW())
+    ON CONFLICT (id) DO UPDATE
+    SET instance_id = EXCLUDED.instance_id, renewed_at = EXCLUDED.renewed_at
+    WHERE live_lease.instance_id = EXCLUDED.instance_id
+      OR live_lease.renewed_at < NOW() - make_interval(secs => ${LEASE_TTL_SECONDS})
+    RETURNING instance_id
+  `;
+  return row !== null;
+}
+
+// The lease of a service's live connections, kept in its database. Should another
+// instance take it over, onLost closes this instance's connections so they reconnect.
+export function liveLease(db: SQLDatabase, onLost: () => void): LiveLease {
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const renew = async () => {
+    const held = await claim(db).catch((err) => {
+      log.warn("renewing the live connection lease failed", { error: String(err) });
+      return true;
+    });
+    if (held) return;
+    log.error("another backend instance took over the live connections; run the backend as a single instance");
+    clearInterval(timer);
+    timer = undefined;
+    onLost();
+  };
+
+  return {
+    async require() {
+      if (!(await claim(db))) {
+        log.error("another backend instance holds the live connections; run the backend as a single instance");
+        throw APIError.unavailable("live connections are served by another backend instance");
+      }
+      if (!timer) {
+        timer = setInterval(renew, RENEW_INTERVAL_MS);
+        timer.unref();
+      }
+    },
+  };
+}
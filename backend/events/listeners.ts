@@ -0,0 +1,41 @@
+import { StreamInOut } from "encore.dev/api";
+import { eventsDB } from "./db";
+import { liveLease } from "./lease";
+import { ConfigChange } from "./topic";
+
+// Clients never send anything; the inbound side only tells us when the socket closes.
+export interface ListenerMessage {}
+
+type Listener = StreamInOut<ListenerMessage, ConfigChange>;
+
+// Event streams held open by this instance, with the workspace each screen works in.
+// Only the instance holding the lease accepts them.
+const listeners = new Map<Listener, string>();
+
+export const streamLease = liveLease(eventsDB, () => {
+  const streams = Array.from(listeners.keys());
+  listeners.clear();
+  for (const stream of streams) {
+    stream.close().catch(() => undefined);
+  }
+});
+
+export function addListener(stream: Listener, workspaceID: string) {
+  listeners.set(stream, workspaceID);
+}
+
+export function removeListener(stream: Listener) {
+  listeners.delete(stream);
+}
+
+export async function broadcast(change: ConfigChange) {
+  for (const [stream, workspaceID] of listeners) {
+    if (change.workspaceId && change.workspaceId !== workspaceID) continue;
+    try {
+      await stream.send(change);
+    } catch {
+      // The socket went away without closing cleanly.
+      listeners.delete(stream);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { api } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { addListener, ListenerMessage, removeListener, streamLease } from "./listeners";
+import { ConfigChange } from "./topic";
+
+// Streams dashboard, playlist, schedule, settings and display changes of their workspace
+// to connected screens.
+export const subscribe = api.streamInOut<ListenerMessage, ConfigChange>(
+  { expose: true, path: "/events", auth: true },
+  async (stream) => {
+    await streamLease.require();
+    addListener(stream, getAuthData()!.workspaceID);
+    try {
+      for await (const _ of stream) {
+        // Nothing to do; keep the stream open until the client goes away.
+      }
+    } finally {
+      removeListener(stream);
+    }
+  }
+);
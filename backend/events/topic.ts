@@ -0,0 +1,17 @@
+import { Topic } from "encore.dev/pubsub";
+
+// The kinds of shared configuration screens keep a copy of.
+export type ConfigResource = "dashboards" | "folders" | "layouts" | "playlists" | "schedule" | "settings" | "displays";
+
+// Announces that a resource changed; listeners reload it rather than applying a diff.
+export interface ConfigChange {
+  resource: ConfigResource;
+  // The changed item, when the change concerns a single one.
+  id?: string;
+  // The workspace the resource belongs to; unset for changes that concern every workspace.
+  workspaceId?: string;
+}
+
+export const configChanges = new Topic<ConfigChange>("config-changes", {
+  deliveryGuarantee: "at-least-once",
+});
@@ -0,0 +1,27 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { recordChecks } from "./history";
+import { checkDashboard as probe } from "./probe";
+import { DashboardHealth } from "./types";
+
+interface CheckDashboardRequest {
+  id: string;
+}
+
+// Checks whether a single dashboard loads, from the server rather than the browser.
+export const checkDashboard = api<CheckDashboardRequest, DashboardHealth>(
+  { expose: true, method: "POST", path: "/health/dashboards/:id", auth: true },
+  async (req) => {
+    requireRole("editor");
+
+    const { dashboards: all } = await dashboards.list();
+    const dashboard = all.find((d) => d.id === req.id);
+    if (!dashboard) {
+      throw APIError.notFound("dashboard not found");
+    }
+    const health = await probe(dashboard);
+    await recordChecks([health]);
+    return health;
+  }
+);
@@ -0,0 +1,24 @@
+import { api } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { recordChecks } from "./history";
+import { checkAll } from "./probe";
+import { DashboardHealth } from "./types";
+
+interface CheckDashboardsResponse {
+  results: DashboardHealth[];
+}
+
+// Checks every configured dashboard and returns the results in display order.
+export const checkDashboards = api<void, CheckDashboardsResponse>(
+  { expose: true, method: "POST", path: "/health/dashboards", auth: true },
+  async () => {
+    requireRole("editor");
+
+    const { dashboards: all } = await dashboards.list();
+    const results = await checkAll(all);
+    await recordChecks(results);
+
+    return { results };
+  }
+);
@@ -1,3 +1,4 @@
 import { Service } from "encore.dev/service";
+import { countRequests } from "../metrics/middleware";
 
-export default new Service("health");
+export default new Service("health", { middlewares: [countRequests] });
@@ -0,0 +1,103 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { HealthCheckRow, loadChecks } from "./history";
+import { DashboardHealthHistory, HealthIncident, LatencyPoint } from "./types";
+
+// Windows the history view offers: a day, a week and 30 days.
+const WINDOW_HOURS = [24, 168, 720];
+// Points on each latency trend, whatever the window.
+const LATENCY_BUCKETS = 48;
+
+interface GetHistoryRequest {
+  hours: number;
+}
+
+interface GetHistoryResponse {
+  since: Date;
+  dashboards: DashboardHealthHistory[];
+}
+
+function latencyTrend(checks: HealthCheckRow[], since: Date, bucketMs: number): LatencyPoint[] {
+  const buckets = new Map<number, { total: number; count: number }>();
+  for (const check of checks) {
+    // Offline checks only measured how long it took to give up.
+    if (check.status === "offline") continue;
+    const index = Math.floor((check.checked_at.getTime() - since.getTime()) / bucketMs);
+    const bucket = buckets.get(index) ?? { total: 0, count: 0 };
+    bucket.total += check.latency_ms;
+    bucket.count++;
+    buckets.set(index, bucket);
+  }
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, { total, count }]) => ({
+      bucketStart: new Date(since.getTime() + index * bucketMs),
+      averageMs: Math.round(total / count),
+    }));
+}
+
+function incidents(checks: HealthCheckRow[]): HealthIncident[] {
+  const result: HealthIncident[] = [];
+  let current: HealthIncident | null = null;
+  for (const check of checks) {
+    if (check.status === "online") {
+      if (current) {
+        current.endedAt = check.checked_at;
+        result.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current) {
+      current = { status: check.status, startedAt: check.checked_at, failedChecks: 0 };
+    }
+    current.failedChecks++;
+    current.error = check.error ?? undefined;
+  }
+  if (current) result.push(current);
+  return result;
+}
+
+function summarize(dashboardId: string, checks: HealthCheckRow[], since: Date, bucketMs: number): DashboardHealthHistory {
+  const last = checks[checks.length - 1];
+  const online = checks.filter((check) => check.status === "online").length;
+  return {
+    dashboardId,
+    checks: checks.length,
+    uptimePercent: checks.length > 0 ? Math.round((online / checks.length) * 1000) / 10 : undefined,
+    latency: latencyTrend(checks, since, bucketMs),
+    incidents: incidents(checks),
+    lastStatus: last?.status,
+    lastCheckedAt: last?.checked_at,
+  };
+}
+
+// Returns uptime, a latency trend and the incidents of each checked dashboard of the
+// caller's workspace over a recent window.
+export const getHistory = api<GetHistoryRequest, GetHistoryResponse>(
+  { expose: true, method: "GET", path: "/health/history", auth: true },
+  async (req) => {
+    requireRole("editor");
+
+    if (!WINDOW_HOURS.includes(req.hours)) {
+      throw APIError.invalidArgument(`hours must be one of ${WINDOW_HOURS.join(", ")}`);
+    }
+
+    const since = new Date(Date.now() - req.hours * 60 * 60 * 1000);
+    const bucketMs = (req.hours * 60 * 60 * 1000) / LATENCY_BUCKETS;
+
+    const { dashboards: all } = await dashboards.list();
+    const byDashboard = new Map<string, HealthCheckRow[]>();
+    for (const check of await loadChecks(all.map((d) => d.id), since)) {
+      const checks = byDashboard.get(check.dashboard_id) ?? [];
+      checks.push(check);
+      byDashboard.set(check.dashboard_id, checks);
+    }
+
+    return {
+      since,
+      dashboards: [...byDashboard].map(([dashboardId, checks]) => summarize(dashboardId, checks, since, bucketMs)),
+    };
+  }
+);
@@ -0,0 +1,57 @@
+import { healthDB } from "./db";
+import { healthChecks } from "./topic";
+import { DashboardHealth, HealthState } from "./types";
+
+// Checks older than this are pruned by the monitor; the history view reaches back 30 days.
+export const RETENTION_DAYS = 30;
+
+export interface HealthCheckRow {
+  dashboard_id: string;
+  status: HealthState;
+  latency_ms: number;
+  error: string | null;
+  checked_at: Date;
+}
+
+// Stores check results so uptime and incidents can be worked out later, and announces
+// them so alerts can follow state changes.
+export async function recordChecks(results: DashboardHealth[]): Promise<void> {
+  for (const health of results) {
+    await healthDB.exec`
+      INSERT INTO health_checks (dashboard_id, status, status_code, latency_ms, redirects, error, checked_at)
+      VALUES (
+        ${health.dashboardId}, ${health.status}, ${health.statusCode ?? null}, ${health.latencyMs},
+        ${health.redirects}, ${health.error ?? null}, ${health.checkedAt}
+      )
+    `;
+  }
+  if (results.length > 0) {
+    await healthChecks.publish({ results });
+  }
+}
+
+export async function pruneChecks(): Promise<void> {
+  await healthDB.exec`
+    DELETE FROM health_checks WHERE checked_at < NOW() - make_interval(days => ${RETENTION_DAYS})
+  `;
+}
+
+// Checks are kept per dashboard only; callers pass the dashboards of their workspace.
+export async function loadChecks(dashboardIDs: string[], since: Date): Promise<HealthCheckRow[]> {
+  return healthDB.queryAll<HealthCheckRow>`
+    SELECT dashboard_id, status, latency_ms, error, checked_at
+    FROM health_checks
+    WHERE dashboard_id = ANY(${dashboardIDs}) AND checked_at >= ${since}
+    ORDER BY dashboard_id, checked_at
+  `;
+}
+
+// The most recent check of each of the given dashboards.
+export async function loadLatestChecks(dashboardIDs: string[]): Promise<HealthCheckRow[]> {
+  return healthDB.queryAll<HealthCheckRow>`
+    SELECT DISTINCT ON (dashboard_id) dashboard_id, status, latency_ms, error, checked_at
+    FROM health_checks
+    WHERE dashboard_id = ANY(${dashboardIDs})
+    ORDER BY dashboard_id, checked_at DESC
+  `;
+}
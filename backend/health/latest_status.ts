@@ -0,0 +1,36 @@
+import { api } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { loadLatestChecks } from "./history";
+import { HealthState } from "./types";
+
+interface LatestStatus {
+  dashboardId: string;
+  status: HealthState;
+  error?: string;
+  checkedAt: Date;
+}
+
+interface LatestStatusResponse {
+  dashboards: LatestStatus[];
+}
+
+// Returns the outcome of the most recent check of each dashboard of the caller's
+// workspace, so screens can leave out the ones that are down.
+export const latestStatus = api<void, LatestStatusResponse>(
+  { expose: true, method: "GET", path: "/health/status", auth: true },
+  async () => {
+    requireRole("viewer");
+
+    const { dashboards: all } = await dashboards.list();
+    const rows = await loadLatestChecks(all.map((d) => d.id));
+    return {
+      dashboards: rows.map((row) => ({
+        dashboardId: row.dashboard_id,
+        status: row.status,
+        error: row.error ?? undefined,
+        checkedAt: row.checked_at,
+      })),
+    };
+  }
+);
@@ -0,0 +1,21 @@
+CREATE TABLE health_checks (
+  id BIGSERIAL PRIMARY KEY,
+  dashboard_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('online', 'unavailable', 'offline')),
+  status_code INTEGER,
+  latency_ms INTEGER NOT NULL,
+  redirects INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  checked_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX health_checks_dashboard_checked_at ON health_checks (dashboard_id, checked_at);
+CREATE INDEX health_checks_checked_at ON health_checks (checked_at);
+
+-- When the scheduled monitor last checked every dashboard; a single row.
+CREATE TABLE monitor_state (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  last_run_at TIMESTAMPTZ
+);
+
+INSERT INTO monitor_state (id) VALUES (1);
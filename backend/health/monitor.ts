@@ -0,0 +1,41 @@
+import { api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { dashboards, settings } from "~encore/clients";
+import { healthDB } from "./db";
+import { pruneChecks, recordChecks } from "./history";
+import { checkAll } from "./probe";
+
+// Internal: checks every dashboard when the configured interval has passed since the last run.
+export const runMonitor = api<void, void>(
+  { expose: false, method: "POST", path: "/health/monitor" },
+  async () => {
+    const { intervalMinutes } = await settings.monitoringPolicy();
+
+    // Claiming the run in the same statement keeps overlapping ticks from checking twice;
+    // the slack lets a tick that fires a moment early still count as on time.
+    const claimed = await healthDB.queryRow<{ id: number }>`
+      UPDATE monitor_state
+      SET last_run_at = NOW()
+      WHERE id = 1
+        AND (last_run_at IS NULL OR last_run_at <= NOW() - make_interval(mins => ${intervalMinutes}) + INTERVAL '30 seconds')
+      RETURNING id
+    `;
+    if (!claimed) return;
+
+    const { dashboards: all } = await dashboards.listAll();
+    const results = await checkAll(all);
+    await recordChecks(results);
+    await pruneChecks();
+
+    const failing = results.filter((health) => health.status !== "online").length;
+    log.info("scheduled health check finished", { dashboards: results.length, failing });
+  }
+);
+
+// Ticks every minute; the interval in the settings decides which ticks run the checks.
+const _ = new CronJob("dashboard-health-monitor", {
+  title: "Check dashboard health",
+  every: "1m",
+  endpoint: runMonitor,
+});
@@ -0,0 +1,165 @@
+import log from "encore.dev/log";
+import { powerbi } from "~encore/clients";
+import { Dashboard } from "../dashboards/types";
+import { assertPublicUrl } from "./addresses";
+import { DashboardHealth } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_REDIRECTS = 5;
+// Requests in flight at once, so a long list does not flood Power BI.
+const CONCURRENCY = 4;
+// Only the start of the page is searched for the markers below.
+const MAX_BODY_BYTES = 512 * 1024;
+
+// Publish-to-web links whose report was deleted or unpublished still answer 200,
+// with a page saying the content is not available.
+const CONTENT_NOT_AVAILABLE_MARKERS = [
+  "this content isn't available",
+  "this content isn&#39;t available",
+  "this content is not available",
+  "contentnotavailable",
+];
+
+async function readBodyStart(resp: Response): Promise<string> {
+  if (!resp.body) return "";
+  const reader = resp.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (size < MAX_BODY_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      size += value.length;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Describes why a request or reading its response failed.
+function fetchError(err: unknown): string {
+  if (err instanceof Error && err.name === "TimeoutError") return "request timed out";
+  return `request failed: ${err instanceof Error ? err.message : String(err)}`;
+}
+
+// Requests a publish-to-web link the way a browser would, following redirects by hand
+// so each hop counts towards the latency and the final status is the real one. Every
+// hop must lead to a public address, so an editor cannot point the check at internal
+// services.
+async function probeUrl(dashboardId: string, url: string): Promise<DashboardHealth> {
+  const started = Date.now();
+  const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  const result = (fields: Omit<DashboardHealth, "dashboardId" | "latencyMs" | "checkedAt">) => ({
+    dashboardId,
+    latencyMs: Date.now() - started,
+    checkedAt: new Date(),
+    ...fields,
+  });
+
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    try {
+      await assertPublicUrl(new URL(current));
+    } catch (err) {
+      return result({
+        status: "unavailable",
+        redirects,
+        error: `link not checked: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+
+    let resp: Response;
+    try {
+      resp = await fetch(current, {
+        redirect: "manual",
+        signal,
+        headers: { "User-Agent": "dashboard-health-check", Accept: "text/html" },
+      });
+    } catch (err) {
+      return result({ status: "offline", redirects, error: fetchError(err) });
+    }
+
+    const finalUrl = current !== url ? current : undefined;
+    const location = resp.headers.get("location");
+    if (resp.status >= 300 && resp.status < 400 && location) {
+      await resp.body?.cancel().catch(() => undefined);
+      if (redirects === MAX_REDIRECTS) {
+        return result({ status: "offline", statusCode: resp.status, redirects, finalUrl, error: "too many redirects" });
+      }
+      try {
+        current = new URL(location, current).toString();
+      } catch {
+        return result({ status: "unavailable", statusCode: resp.status, redirects, finalUrl, error: "redirect to an invalid URL" });
+      }
+      continue;
+    }
+
+    if (!resp.ok) {
+      await resp.body?.cancel().catch(() => undefined);
+      return result({ status: "unavailable", statusCode: resp.status, redirects, finalUrl, error: `HTTP ${resp.status}` });
+    }
+
+    // The timeout covers reading the body too, and the connection can drop midway.
+    let body: string;
+    try {
+      body = (await readBodyStart(resp)).toLowerCase();
+    } catch (err) {
+      return result({ status: "offline", statusCode: resp.status, redirects, finalUrl, error: fetchError(err) });
+    }
+    if (CONTENT_NOT_AVAILABLE_MARKERS.some((marker) => body.includes(marker))) {
+      return result({
+        status: "unavailable",
+        statusCode: resp.status,
+        redirects,
+        finalUrl,
+        error: "Power BI reports the content is not available",
+      });
+    }
+    return result({ status: "online", statusCode: resp.status, redirects, finalUrl });
+  }
+}
+
+// An embedded report is healthy when Power BI issues an embed token for it, which
+// proves the report exists and is shared with the service principal.
+async function probeEmbeddedReport(dashboard: Dashboard): Promise<DashboardHealth> {
+  const started = Date.now();
+  try {
+    await powerbi.verifyReport({ workspaceId: dashboard.workspaceId ?? "", reportId: dashboard.reportId ?? "" });
+    return { dashboardId: dashboard.id, status: "online", latencyMs: Date.now() - started, redirects: 0, checkedAt: new Date() };
+  } catch (err) {
+    return {
+      dashboardId: dashboard.id,
+      status: "unavailable",
+      latencyMs: Date.now() - started,
+      redirects: 0,
+      error: err instanceof Error ? err.message : String(err),
+      checkedAt: new Date(),
+    };
+  }
+}
+
+export async function checkDashboard(dashboard: Dashboard): Promise<DashboardHealth> {
+  const health = dashboard.type === "embedded"
+    ? await probeEmbeddedReport(dashboard)
+    : await probeUrl(dashboard.id, dashboard.url);
+  if (health.status !== "online") {
+    log.warn("dashboard health check failed", { dashboardId: dashboard.id, status: health.status, error: health.error });
+  }
+  return health;
+}
+
+// Checks several dashboards a few at a time and returns the results in the given order.
+export async function checkAll(dashboards: Dashboard[]): Promise<DashboardHealth[]> {
+  const results: DashboardHealth[] = new Array(dashboards.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < dashboards.length) {
+      const index = next++;
+      results[index] = await checkDashboard(dashboards[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, dashboards.length) }, worker));
+  return results;
+}
@@ -0,0 +1,50 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { checkDashboard as probe } from "./probe";
+import { DashboardHealth } from "./types";
+
+interface RecheckDashboardRequest {
+  id: string;
+}
+
+// Every screen that failed to load a dashboard asks about it, so each dashboard is
+// probed at most this often and the callers in between share the answer.
+const RECHECK_INTERVAL_MS = 30 * 1000;
+
+const recentChecks = new Map<string, { startedAt: number; health: Promise<DashboardHealth> }>();
+
+function recentCheck(dashboardId: string, now: number): Promise<DashboardHealth> | undefined {
+  for (const [id, check] of recentChecks) {
+    if (now - check.startedAt >= RECHECK_INTERVAL_MS) {
+      recentChecks.delete(id);
+    }
+  }
+  return recentChecks.get(dashboardId)?.health;
+}
+
+// Checks whether a dashboard that failed to load on a screen is back, from the server
+// rather than the browser. Unlike checkDashboard the result is neither kept in the
+// history nor passed on to alerting: screens retry on their own schedule, which would
+// skew uptime and confirm outages long before the scheduled checks agree.
+export const recheckDashboard = api<RecheckDashboardRequest, DashboardHealth>(
+  { expose: true, method: "POST", path: "/health/dashboards/:id/recheck", auth: true },
+  async (req) => {
+    requireRole("viewer");
+
+    const { dashboards: all } = await dashboards.list();
+    const dashboard = all.find((d) => d.id === req.id);
+    if (!dashboard) {
+      throw APIError.notFound("dashboard not found");
+    }
+
+    const now = Date.now();
+    const recent = recentCheck(dashboard.id, now);
+    if (recent) {
+      return recent;
+    }
+    const health = probe(dashboard);
+    recentChecks.set(dashboard.id, { startedAt: now, health });
+    return health;
+  }
+);
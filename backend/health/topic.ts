@@ -0,0 +1,11 @@
+import { Topic } from "encore.dev/pubsub";
+import { DashboardHealth } from "./types";
+
+// Announces the results of a round of health checks, scheduled or started by hand.
+export interface HealthChecked {
+  results: DashboardHealth[];
+}
+
+export const healthChecks = new Topic<HealthChecked>("health-checks", {
+  deliveryGuarantee: "at-least-once",
+});
@@ -0,0 +1,46 @@
+// "online": the dashboard loaded; "unavailable": the server answered, but with an
+// error status or Power BI's "content not available" page; "offline": no answer at all.
+export type HealthState = "online" | "unavailable" | "offline";
+
+export interface DashboardHealth {
+  dashboardId: string;
+  status: HealthState;
+  // HTTP status of the final response, after redirects; unset for embedded reports
+  // and when nothing answered.
+  statusCode?: number;
+  // Time until the final response arrived, including redirects.
+  latencyMs: number;
+  redirects: number;
+  // The URL the redirects ended at, when it differs from the dashboard URL.
+  finalUrl?: string;
+  // Why the dashboard is not online.
+  error?: string;
+  checkedAt: Date;
+}
+
+export interface LatencyPoint {
+  bucketStart: Date;
+  // Average latency of the checks in the bucket that got an answer.
+  averageMs: number;
+}
+
+// A stretch of consecutive checks that were not online.
+export interface HealthIncident {
+  status: HealthState; // of the first failing check
+  startedAt: Date;
+  // The first online check afterwards; unset while the incident is ongoing.
+  endedAt?: Date;
+  failedChecks: number;
+  error?: string; // of the last failing check
+}
+
+export interface DashboardHealthHistory {
+  dashboardId: string;
+  checks: number;
+  // Share of online checks; unset when nothing was checked in the window.
+  uptimePercent?: number;
+  latency: LatencyPoint[];
+  incidents: HealthIncident[];
+  lastStatus?: HealthState;
+  lastCheckedAt?: Date;
+}
@@ -0,0 +1,4 @@
+import { Service } from "encore.dev/service";
+import { countRequests } from "./middleware";
+
+export default new Service("metrics", { middlewares: [countRequests] });
@@ -0,0 +1,64 @@
+import { Counter, Gauge, Histogram } from "./registry";
+
+// The metrics /metrics exposes. Other services record into them directly.
+
+export const requestsTotal = new Counter(
+  "reo_http_requests_total",
+  "API requests handled, by endpoint and outcome.",
+  ["service", "endpoint", "code"]
+);
+
+export const requestDuration = new Histogram(
+  "reo_http_request_duration_seconds",
+  "Time spent handling API requests.",
+  ["service", "endpoint"],
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+
+export const authFailuresTotal = new Counter(
+  "reo_auth_failures_total",
+  "Requests turned away for missing or invalid credentials, or an insufficient role.",
+  ["reason"]
+);
+
+export const healthChecksTotal = new Counter(
+  "reo_dashboard_health_checks_total",
+  "Dashboard health checks, by dashboard and outcome.",
+  ["dashboard_id", "dashboard", "status"]
+);
+
+export const dashboardUp = new Gauge(
+  "reo_dashboard_up",
+  "Whether the latest health check found the dashboard online (1) or not (0).",
+  ["dashboard_id", "dashboard"]
+);
+
+export const dashboardCheckLatency = new Gauge(
+  "reo_dashboard_health_check_latency_seconds",
+  "Response time of the latest health check of the dashboard.",
+  ["dashboard_id", "dashboard"]
+);
+
+export const displaysConnected = new Gauge(
+  "reo_displays_connected",
+  "Paired displays currently holding a control connection."
+);
+
+export const displaysRegistered = new Gauge(
+  "reo_displays_registered",
+  "Displays registered, paired or not."
+);
+
+// Reported by the screens themselves; see the telemetry service.
+export const dashboardLoadDuration = new Histogram(
+  "reo_dashboard_load_duration_seconds",
+  "Time for a dashboard to show on a screen, for successful loads.",
+  ["dashboard_id", "load_method"],
+  [0.25, 0.5, 1, 2, 3, 5, 8, 13, 20, 30, 60]
+);
+
+export const dashboardLoadFailuresTotal = new Counter(
+  "reo_dashboard_load_failures_total",
+  "Dashboard loads that failed or timed out on a screen.",
+  ["dashboard_id", "load_method"]
+);
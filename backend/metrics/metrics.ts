@@ -0,0 +1,55 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { api } from "encore.dev/api";
+import { secret } from "encore.dev/config";
+import log from "encore.dev/log";
+import { displays } from "~encore/clients";
+import { displaysConnected, displaysRegistered } from "./instruments";
+import { renderMetrics } from "./registry";
+
+// Bearer token Prometheus must send; when it is not set the endpoint stays closed,
+// as the metrics name every dashboard.
+const metricsToken = secret("MetricsToken");
+
+function readToken(): string {
+  try {
+    return metricsToken().trim();
+  } catch {
+    return "";
+  }
+}
+
+// Compares digests so neither the length nor the content of the token leaks through timing.
+function isValidToken(header: string | undefined, token: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(header ?? ""), digest(`Bearer ${token}`));
+}
+
+// Serves the backend's metrics in the Prometheus text format for scraping.
+export const metrics = api.raw(
+  { expose: true, method: "GET", path: "/metrics" },
+  async (req, resp) => {
+    const token = readToken();
+    if (!token) {
+      resp.writeHead(503, { "Content-Type": "text/plain; charset=utf-8" });
+      resp.end("metrics are disabled until the MetricsToken secret is set\n");
+      return;
+    }
+    if (!isValidToken(req.headers.authorization, token)) {
+      resp.writeHead(401, { "Content-Type": "text/plain; charset=utf-8", "WWW-Authenticate": "Bearer" });
+      resp.end("missing or invalid bearer token\n");
+      return;
+    }
+
+    try {
+      const counts = await displays.counts();
+      displaysConnected.set({}, counts.connected);
+      displaysRegistered.set({}, counts.registered);
+    } catch (err) {
+      // Serve the rest; the display gauges keep their last values.
+      log.warn("failed to count displays for metrics", { error: String(err) });
+    }
+
+    resp.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+    resp.end(renderMetrics());
+  }
+);
@@ -0,0 +1,21 @@
+import { APIError, middleware } from "encore.dev/api";
+import { requestDuration, requestsTotal } from "./instruments";
+
+// Counts every typed and raw request; streams stay open for as long as a screen is
+// connected, so their duration says nothing about the backend.
+export const countRequests = middleware({ target: { isStream: false } }, async (req, next) => {
+  const api = req.requestMeta?.type === "api-call" ? req.requestMeta.api : undefined;
+  const labels = { service: api?.service ?? "unknown", endpoint: api?.endpoint ?? "unknown" };
+  const started = performance.now();
+
+  try {
+    const response = await next(req);
+    requestsTotal.inc({ ...labels, code: "ok" });
+    return response;
+  } catch (err) {
+    requestsTotal.inc({ ...labels, code: err instanceof APIError ? err.code : "internal" });
+    throw err;
+  } finally {
+    requestDuration.observe(labels, (performance.now() - started) / 1000);
+  }
+});
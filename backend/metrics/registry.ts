@@ -0,0 +1,136 @@
+// A minimal Prometheus registry. Values live in the memory of this process, like the
+// display connections do; they start over when the backend restarts, which Prometheus
+// treats as a counter reset. Other services record into it directly, so /metrics only
+// shows what was recorded in the process serving it: everything when the backend runs
+// as one process, as it does by default, but only the metrics service's own share when
+// services are deployed as separate processes.
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+// Series are keyed by their label values, in the order the metric declares its labels.
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ""));
+}
+
+abstract class LabelledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram",
+    readonly labelNames: string[]
+  ) {
+    metrics.push(this);
+  }
+
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = seriesKey(this.labelNames, labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      const ordered = Object.fromEntries(this.labelNames.map((name) => [name, labels[name] ?? ""]));
+      entry = { labels: ordered, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()];
+  }
+
+  protected abstract renderSeries(): string[];
+}
+
+export class Counter extends LabelledMetric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, "counter", labelNames);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  protected renderSeries(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Gauge extends LabelledMetric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, "gauge", labelNames);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => value).value = value;
+  }
+
+  protected renderSeries(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+interface HistogramValue {
+  // Cumulative counts, one per bucket plus +Inf.
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramValue> {
+  constructor(name: string, help: string, labelNames: string[], readonly bounds: number[]) {
+    super(name, help, "histogram", labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ buckets: [...this.bounds, Infinity].map(() => 0), sum: 0, count: 0 }));
+    [...this.bounds, Infinity].forEach((bound, index) => {
+      if (value <= bound) entry.value.buckets[index]++;
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  protected renderSeries(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      [...this.bounds, Infinity].forEach((bound, index) => {
+        const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${bucketLabels} ${value.buckets[index]}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+// Renders every registered metric in the Prometheus text exposition format.
+export function renderMetrics(): string {
+  return metrics.map((metric) => metric.render().join("\n")).join("\n\n") + "\n";
+}
@@ -0,0 +1,23 @@
+import { Subscription } from "encore.dev/pubsub";
+import { dashboards } from "~encore/clients";
+import { healthChecks } from "../health/topic";
+import { dashboardCheckLatency, dashboardUp, healthChecksTotal } from "./instruments";
+
+// Follows every round of health checks to count their outcomes per dashboard.
+export const _ = new Subscription(healthChecks, "record-health-metrics", {
+  handler: async ({ results }) => {
+    const { dashboards: all } = await dashboards.listAll();
+    for (const health of results) {
+      const labels = {
+        dashboard_id: health.dashboardId,
+        dashboard: all.find((d) => d.id === health.dashboardId)?.name ?? health.dashboardId,
+      };
+      healthChecksTotal.inc({ ...labels, status: health.status });
+      dashboardUp.set(labels, health.status === "online" ? 1 : 0);
+      // Nothing answered an offline check, so its latency is only the time we waited.
+      if (health.status !== "offline") {
+        dashboardCheckLatency.set(labels, health.latencyMs / 1000);
+      }
+    }
+  },
+});
@@ -0,0 +1,40 @@
+import { appMeta } from "encore.dev";
+import { secret } from "encore.dev/config";
+
+// Azure AD app registration (service principal) that has been given access to
+// the Power BI workspaces holding the embedded reports.
+const tenantId = secret("PowerBITenantId");
+const clientId = secret("PowerBIClientId");
+const clientSecret = secret("PowerBIClientSecret");
+
+export interface Credentials {
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+function read(value: () => string): string {
+  try {
+    return value().trim();
+  } catch {
+    return "";
+  }
+}
+
+// Returns the service principal credentials, or null when they have not been set.
+export function loadCredentials(): Credentials | null {
+  const credentials = {
+    tenantId: read(tenantId),
+    clientId: read(clientId),
+    clientSecret: read(clientSecret),
+  };
+  if (!credentials.tenantId || !credentials.clientId || !credentials.clientSecret) {
+    return null;
+  }
+  return credentials;
+}
+
+// Without credentials, local development falls back to mock embed tokens.
+export function shouldMockTokens(): boolean {
+  return loadCredentials() === null && appMeta().environment.cloud === "local";
+}
@@ -0,0 +1,47 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { loadCredentials, shouldMockTokens } from "./credentials";
+import { mockReportEmbed } from "./mock";
+import { generateReportEmbed } from "./rest";
+
+interface EmbedTokenRequest {
+  dashboardId: string;
+}
+
+interface EmbedTokenResponse {
+  reportId: string;
+  embedUrl: string;
+  token: string;
+  expiresAt: Date;
+  // True when the token came from the local development mock and will not render.
+  isMock: boolean;
+}
+
+// Issues an embed token for an embedded-report dashboard; screens call it again before the token expires.
+export const embedToken = api<EmbedTokenRequest, EmbedTokenResponse>(
+  { expose: true, method: "POST", path: "/powerbi/embed-token", auth: true },
+  async (req) => {
+    // Only reports configured as dashboards can be embedded, whatever IDs a caller knows.
+    const { dashboards: all } = await dashboards.list();
+    const dashboard = all.find((d) => d.id === req.dashboardId);
+    if (!dashboard) {
+      throw APIError.notFound("dashboard not found");
+    }
+    if (dashboard.type !== "embedded" || !dashboard.workspaceId || !dashboard.reportId) {
+      throw APIError.failedPrecondition("dashboard is not an embedded report");
+    }
+
+    if (shouldMockTokens()) {
+      const embed = mockReportEmbed(dashboard.workspaceId, dashboard.reportId);
+      return { reportId: dashboard.reportId, ...embed, isMock: true };
+    }
+
+    const credentials = loadCredentials();
+    if (!credentials) {
+      throw APIError.failedPrecondition("Power BI credentials are not configured");
+    }
+
+    const embed = await generateReportEmbed(credentials, dashboard.workspaceId, dashboard.reportId);
+    return { reportId: dashboard.reportId, ...embed, isMock: false };
+  }
+);
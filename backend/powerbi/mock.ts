@@ -0,0 +1,14 @@
+import { randomBytes } from "node:crypto";
+import { ReportEmbed } from "./rest";
+
+// Short enough that the token refresh on screen is exercised within a few minutes.
+const MOCK_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+// Stands in for Power BI during local development, where no service principal is configured.
+export function mockReportEmbed(workspaceId: string, reportId: string): ReportEmbed {
+  return {
+    embedUrl: `https://app.powerbi.com/reportEmbed?reportId=${reportId}&groupId=${workspaceId}`,
+    token: `mock-${randomBytes(16).toString("hex")}`,
+    expiresAt: new Date(Date.now() + MOCK_TOKEN_TTL_MS),
+  };
+}
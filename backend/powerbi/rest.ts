@@ -0,0 +1,80 @@
+import { APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { Credentials } from "./credentials";
+
+const POWER_BI_API = "https://api.powerbi.com/v1.0/myorg";
+const POWER_BI_SCOPE = "https://analysis.windows.net/powerbi/api/.default";
+
+// Renew the Azure AD token a little before it runs out.
+const ACCESS_TOKEN_MARGIN_MS = 5 * 60 * 1000;
+
+let cachedAccessToken: { token: string; expiresAt: number } | null = null;
+
+// Signs in as the service principal with the client credentials flow.
+async function accessToken(credentials: Credentials): Promise<string> {
+  if (cachedAccessToken && cachedAccessToken.expiresAt - ACCESS_TOKEN_MARGIN_MS > Date.now()) {
+    return cachedAccessToken.token;
+  }
+
+  const resp = await fetch(
+    `https://login.microsoftonline.com/${encodeURIComponent(credentials.tenantId)}/oauth2/v2.0/token`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+        scope: POWER_BI_SCOPE,
+      }),
+    }
+  );
+  if (!resp.ok) {
+    log.error("azure ad sign-in failed", { status: resp.status, body: await resp.text() });
+    throw APIError.unavailable("unable to sign in to Power BI");
+  }
+
+  const body = (await resp.json()) as { access_token: string; expires_in: number };
+  cachedAccessToken = { token: body.access_token, expiresAt: Date.now() + body.expires_in * 1000 };
+  return body.access_token;
+}
+
+async function call<T>(credentials: Credentials, path: string, init?: RequestInit): Promise<T> {
+  const resp = await fetch(`${POWER_BI_API}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${await accessToken(credentials)}`,
+      "Content-Type": "application/json",
+    },
+  });
+  if (resp.status === 404 || resp.status === 401 || resp.status === 403) {
+    throw APIError.notFound("report not found or not shared with the service principal");
+  }
+  if (!resp.ok) {
+    log.error("power bi request failed", { path, status: resp.status, body: await resp.text() });
+    throw APIError.unavailable("Power BI request failed");
+  }
+  return (await resp.json()) as T;
+}
+
+export interface ReportEmbed {
+  embedUrl: string;
+  token: string;
+  expiresAt: Date;
+}
+
+// Looks up a report's embed URL and issues a view-only embed token for it.
+export async function generateReportEmbed(
+  credentials: Credentials,
+  workspaceId: string,
+  reportId: string
+): Promise<ReportEmbed> {
+  const base = `/groups/${encodeURIComponent(workspaceId)}/reports/${encodeURIComponent(reportId)}`;
+  const report = await call<{ embedUrl: string }>(credentials, base);
+  const token = await call<{ token: string; expiration: string }>(credentials, `${base}/GenerateToken`, {
+    method: "POST",
+    body: JSON.stringify({ accessLevel: "View" }),
+  });
+
+  return { embedUrl: report.embedUrl, token: token.token, expiresAt: new Date(token.expiration) };
+}
@@ -0,0 +1,32 @@
+import { api, APIError } from "encore.dev/api";
+import { loadCredentials, shouldMockTokens } from "./credentials";
+import { generateReportEmbed } from "./rest";
+
+interface VerifyReportRequest {
+  workspaceId: string;
+  reportId: string;
+}
+
+interface VerifyReportResponse {
+  // True when no credentials are configured locally and the report was not contacted.
+  isMock: boolean;
+}
+
+// Internal: lets the health monitor confirm an embedded report can still be embedded
+// without a caller session; fails the same way issuing an embed token would.
+export const verifyReport = api<VerifyReportRequest, VerifyReportResponse>(
+  { expose: false, method: "POST", path: "/powerbi/verify-report" },
+  async (req) => {
+    if (shouldMockTokens()) {
+      return { isMock: true };
+    }
+
+    const credentials = loadCredentials();
+    if (!credentials) {
+      throw APIError.failedPrecondition("Power BI credentials are not configured");
+    }
+
+    await generateReportEmbed(credentials, req.workspaceId, req.reportId);
+    return { isMock: false };
+  }
+);
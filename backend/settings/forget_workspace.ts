@@ -0,0 +1,10 @@
+import { Subscription } from "encore.dev/pubsub";
+import { workspaceDeletions } from "../auth/topic";
+import { settingsDB } from "./db";
+
+// Drops the settings of a deleted workspace.
+export const _ = new Subscription(workspaceDeletions, "forget-workspace-settings", {
+  handler: async ({ workspaceId }) => {
+    await settingsDB.exec`DELETE FROM workspace_settings WHERE workspace_id = ${workspaceId}`;
+  },
+});
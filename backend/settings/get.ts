@@ -0,0 +1,14 @@
+import { api } from "encore.dev/api";
+import { requireRole } from "../auth/roles";
+import { loadSettings } from "./store";
+import { AppSettings } from "./types";
+
+// Returns the settings of the caller's workspace.
+export const get = api<void, AppSettings>(
+  { expose: true, method: "GET", path: "/settings", auth: true },
+  async () => {
+    const caller = requireRole("viewer");
+
+    return loadSettings(caller.workspaceID);
+  }
+);
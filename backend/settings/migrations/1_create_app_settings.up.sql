@@ -0,0 +1,8 @@
+CREATE TABLE app_settings (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  rotation_interval INTEGER NOT NULL DEFAULT 60,
+  session_timeout_hours INTEGER NOT NULL DEFAULT 168,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO app_settings (id) VALUES (1);
@@ -0,0 +1,2 @@
+ALTER TABLE app_settings
+  ADD COLUMN health_check_interval_minutes INTEGER NOT NULL DEFAULT 5;
@@ -0,0 +1,13 @@
+-- The rotation interval belongs to each workspace; the session timeout and the
+-- health check interval stay shared by every workspace. Workspaces live in the auth
+-- service; no foreign key across databases.
+CREATE TABLE workspace_settings (
+  workspace_id TEXT PRIMARY KEY,
+  rotation_interval INTEGER NOT NULL DEFAULT 60,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO workspace_settings (workspace_id, rotation_interval)
+SELECT 'workspace-default', rotation_interval FROM app_settings WHERE id = 1;
+
+ALTER TABLE app_settings DROP COLUMN rotation_interval;
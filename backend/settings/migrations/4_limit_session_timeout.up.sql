@@ -0,0 +1,6 @@
+-- Sessions last at most a year; a longer timeout saved before the limit would keep
+-- every sign-in from getting a valid expiry.
+UPDATE app_settings SET session_timeout_hours = 365 * 24 WHERE session_timeout_hours > 365 * 24;
+
+ALTER TABLE app_settings
+  ADD CONSTRAINT app_settings_session_timeout_check CHECK (session_timeout_hours BETWEEN 1 AND 365 * 24);
@@ -0,0 +1,15 @@
+import { api } from "encore.dev/api";
+import { loadSharedSettings } from "./store";
+
+interface MonitoringPolicy {
+  intervalMinutes: number;
+}
+
+// Internal: lets the health monitor pace its scheduled checks without a caller session.
+export const monitoringPolicy = api<void, MonitoringPolicy>(
+  { expose: false, method: "GET", path: "/settings/monitoring-policy" },
+  async () => {
+    const settings = await loadSharedSettings();
+    return { intervalMinutes: settings.healthCheckIntervalMinutes };
+  }
+);
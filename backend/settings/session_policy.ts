@@ -0,0 +1,15 @@
+import { api } from "encore.dev/api";
+import { loadSharedSettings } from "./store";
+
+interface SessionPolicy {
+  timeoutHours: number;
+}
+
+// Internal: lets the auth service size session lifetimes without requiring a caller session.
+export const sessionPolicy = api<void, SessionPolicy>(
+  { expose: false, method: "GET", path: "/settings/session-policy" },
+  async () => {
+    const settings = await loadSharedSettings();
+    return { timeoutHours: settings.sessionTimeoutHours };
+  }
+);
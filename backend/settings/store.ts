@@ -0,0 +1,37 @@
+import { APIError } from "encore.dev/api";
+import { settingsDB } from "./db";
+import { AppSettings, AppSettingsRow, toAppSettings } from "./types";
+
+// Workspaces that never saved their settings rotate at this pace.
+const DEFAULT_ROTATION_INTERVAL = 60;
+
+// Loads the settings as seen from a workspace: its own rotation interval and the shared rest.
+export async function loadSettings(workspaceID: string): Promise<AppSettings> {
+  const row = await settingsDB.queryRow<AppSettingsRow>`
+    SELECT
+      COALESCE(w.rotation_interval, ${DEFAULT_ROTATION_INTERVAL}) AS rotation_interval,
+      a.session_timeout_hours,
+      a.health_check_interval_minutes
+    FROM app_settings a
+    LEFT JOIN workspace_settings w ON w.workspace_id = ${workspaceID}
+    WHERE a.id = 1
+  `;
+  if (!row) {
+    throw APIError.internal("application settings are missing");
+  }
+  return toAppSettings(row);
+}
+
+// Loads the settings shared by every workspace, for callers outside any workspace.
+export async function loadSharedSettings(): Promise<Omit<AppSettings, "rotationInterval">> {
+  const row = await settingsDB.queryRow<Omit<AppSettingsRow, "rotation_interval">>`
+    SELECT session_timeout_hours, health_check_interval_minutes FROM app_settings WHERE id = 1
+  `;
+  if (!row) {
+    throw APIError.internal("application settings are missing");
+  }
+  return {
+    sessionTimeoutHours: row.session_timeout_hours,
+    healthCheckIntervalMinutes: row.health_check_interval_minutes,
+  };
+}
@@ -0,0 +1,19 @@
+export interface AppSettings {
+  rotationInterval: number; // in seconds; set per workspace, the others are shared by every workspace
+  sessionTimeoutHours: number;
+  healthCheckIntervalMinutes: number; // how often the background monitor checks every dashboard
+}
+
+export interface AppSettingsRow {
+  rotation_interval: number;
+  session_timeout_hours: number;
+  health_check_interval_minutes: number;
+}
+
+export function toAppSettings(row: AppSettingsRow): AppSettings {
+  return {
+    rotationInterval: row.rotation_interval,
+    sessionTimeoutHours: row.session_timeout_hours,
+    healthCheckIntervalMinutes: row.health_check_interval_minutes,
+  };
+}
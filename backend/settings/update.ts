@@ -0,0 +1,68 @@
+import { api, APIError } from "encore.dev/api";
+import { recordChange } from "../audit/topic";
+import { requireRole } from "../auth/roles";
+import { configChanges } from "../events/topic";
+import { settingsDB } from "./db";
+import { loadSettings } from "./store";
+import { AppSettings } from "./types";
+
+type UpdateSettingsRequest = Partial<AppSettings>;
+
+// Applies a partial update to the settings of the caller's workspace and the shared ones.
+export const update = api<UpdateSettingsRequest, AppSettings>(
+  { expose: true, method: "PUT", path: "/settings", auth: true },
+  async (req) => {
+    const caller = requireRole("admin");
+
+    const before = await loadSettings(caller.workspaceID);
+    const next = { ...before, ...req };
+
+    if (!Number.isInteger(next.rotationInterval) || next.rotationInterval < 5) {
+      throw APIError.invalidArgument("rotation interval must be at least 5 seconds");
+    }
+    // Longer timeouts would put session expiry past the dates the server can represent.
+    if (
+      !Number.isInteger(next.sessionTimeoutHours) ||
+      next.sessionTimeoutHours < 1 ||
+      next.sessionTimeoutHours > 365 * 24
+    ) {
+      throw APIError.invalidArgument("session timeout must be between 1 hour and 1 year");
+    }
+    if (
+      !Number.isInteger(next.healthCheckIntervalMinutes) ||
+      next.healthCheckIntervalMinutes < 1 ||
+      next.healthCheckIntervalMinutes > 24 * 60
+    ) {
+      throw APIError.invalidArgument("health check interval must be between 1 minute and 1 day");
+    }
+
+    const tx = await settingsDB.begin();
+    try {
+      await tx.exec`
+        INSERT INTO workspace_settings (workspace_id, rotation_interval)
+        VALUES (${caller.workspaceID}, ${next.rotationInterval})
+        ON CONFLICT (workspace_id) DO UPDATE
+        SET rotation_interval = EXCLUDED.rotation_interval, updated_at = NOW()
+      `;
+      await tx.exec`
+        UPDATE app_settings
+        SET session_timeout_hours = ${next.sessionTimeoutHours},
+            health_check_interval_minutes = ${next.healthCheckIntervalMinutes},
+            updated_at = NOW()
+        WHERE id = 1
+      `;
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    // Other workspaces only see a change to the shared settings.
+    const sharedChanged =
+      next.sessionTimeoutHours !== before.sessionTimeoutHours ||
+      next.healthCheckIntervalMinutes !== before.healthCheckIntervalMinutes;
+    await configChanges.publish({ resource: "settings", workspaceId: sharedChanged ? undefined : caller.workspaceID });
+    await recordChange(caller, { action: "update", resource: "settings", before, after: next });
+    return next;
+  }
+);
@@ -0,0 +1,5 @@
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+
+export const telemetryDB = new SQLDatabase("telemetry", {
+  migrations: "./migrations",
+});
@@ -0,0 +1,105 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { telemetryDB } from "./db";
+import { LoadMethod, LoadTimeStats } from "./types";
+
+// Windows the stats page offers: a day, a week and 30 days.
+const WINDOW_HOURS = [24, 168, 720];
+
+const METHOD_LABELS: Record<LoadMethod, string> = {
+  preloaded: "Preloaded",
+  pooled: "Connection pool",
+  fresh: "Fresh iframe",
+};
+
+interface GetStatsRequest {
+  hours: number;
+}
+
+interface GetStatsResponse {
+  since: Date;
+  byMethod: LoadTimeStats[];
+  byDashboard: LoadTimeStats[];
+  byDisplay: LoadTimeStats[];
+}
+
+interface StatsRow {
+  dimension: "dashboard" | "display" | "method";
+  key: string | null;
+  client_name: string;
+  loads: number;
+  failures: number;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+function toStats(row: StatsRow, label: string): LoadTimeStats {
+  const ms = (value: number | null) => (value === null ? undefined : Math.round(value));
+  return {
+    key: row.key ?? "",
+    label,
+    loads: row.loads,
+    failures: row.failures,
+    p50Ms: ms(row.p50),
+    p90Ms: ms(row.p90),
+    p95Ms: ms(row.p95),
+    p99Ms: ms(row.p99),
+  };
+}
+
+const bySlowest = (a: LoadTimeStats, b: LoadTimeStats) => (b.p90Ms ?? 0) - (a.p90Ms ?? 0);
+
+// Returns load-time percentiles of the caller's workspace per load method, dashboard and
+// display over a recent window.
+export const getStats = api<GetStatsRequest, GetStatsResponse>(
+  { expose: true, method: "GET", path: "/telemetry/stats", auth: true },
+  async (req) => {
+    const caller = requireRole("editor");
+
+    if (!WINDOW_HOURS.includes(req.hours)) {
+      throw APIError.invalidArgument(`hours must be one of ${WINDOW_HOURS.join(", ")}`);
+    }
+    const since = new Date(Date.now() - req.hours * 60 * 60 * 1000);
+
+    // One pass over the window, grouped three ways; GROUPING() tells the groups apart,
+    // and a NULL display is the group of signed-in browsers.
+    const rows = await telemetryDB.queryAll<StatsRow>`
+      SELECT
+        CASE
+          WHEN GROUPING(dashboard_id) = 0 THEN 'dashboard'
+          WHEN GROUPING(display_id) = 0 THEN 'display'
+          ELSE 'method'
+        END AS dimension,
+        COALESCE(dashboard_id, display_id, load_method) AS key,
+        MAX(client_name) AS client_name,
+        COUNT(*)::int AS loads,
+        (COUNT(*) FILTER (WHERE NOT succeeded))::int AS failures,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY load_time_ms) FILTER (WHERE succeeded) AS p50,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY load_time_ms) FILTER (WHERE succeeded) AS p90,
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY load_time_ms) FILTER (WHERE succeeded) AS p95,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY load_time_ms) FILTER (WHERE succeeded) AS p99
+      FROM load_events
+      WHERE occurred_at >= ${since} AND workspace_id = ${caller.workspaceID}
+      GROUP BY GROUPING SETS ((dashboard_id), (display_id), (load_method))
+    `;
+
+    const { dashboards: all } = await dashboards.list();
+    const dashboardName = (id: string | null) => all.find((d) => d.id === id)?.name ?? "Deleted dashboard";
+
+    return {
+      since,
+      byMethod: rows.filter((row) => row.dimension === "method").map((row) => toStats(row, METHOD_LABELS[row.key as LoadMethod] ?? row.key)),
+      byDashboard: rows
+        .filter((row) => row.dimension === "dashboard")
+        .map((row) => toStats(row, dashboardName(row.key)))
+        .sort(bySlowest),
+      byDisplay: rows
+        .filter((row) => row.dimension === "display")
+        .map((row) => toStats(row, row.key === null ? "Signed-in browsers" : row.client_name))
+        .sort(bySlowest),
+    };
+  }
+);
@@ -0,0 +1,18 @@
+CREATE TABLE load_events (
+  id BIGSERIAL PRIMARY KEY,
+  -- Dashboards and displays live in other services; no foreign keys across databases.
+  dashboard_id TEXT NOT NULL,
+  page_name TEXT,
+  -- NULL when the dashboard was loaded in a signed-in browser rather than on a paired display.
+  display_id TEXT,
+  -- The display's or user's name when the event was sent.
+  client_name TEXT NOT NULL,
+  load_method TEXT NOT NULL CHECK (load_method IN ('preloaded', 'pooled', 'fresh')),
+  load_time_ms INTEGER NOT NULL,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  succeeded BOOLEAN NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX load_events_occurred_at ON load_events (occurred_at);
@@ -0,0 +1,5 @@
+-- The workspace the screen worked in; workspaces live in the auth service, so no
+-- foreign key across databases.
+ALTER TABLE load_events ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'workspace-default';
+
+CREATE INDEX load_events_workspace_idx ON load_events (workspace_id, occurred_at);
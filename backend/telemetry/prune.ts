@@ -0,0 +1,22 @@
+import { api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { telemetryDB } from "./db";
+
+// Stats reach back 30 days; older measurements are no longer shown.
+const RETENTION_DAYS = 30;
+
+// Internal: deletes load measurements older than the stats page can show.
+export const pruneLoads = api<void, void>(
+  { expose: false, method: "POST", path: "/telemetry/prune" },
+  async () => {
+    await telemetryDB.exec`
+      DELETE FROM load_events WHERE occurred_at < NOW() - make_interval(days => ${RETENTION_DAYS})
+    `;
+  }
+);
+
+const _ = new CronJob("prune-load-telemetry", {
+  title: "Prune old dashboard load telemetry",
+  every: "24h",
+  endpoint: pruneLoads,
+});
@@ -0,0 +1,88 @@
+import { api, APIError } from "encore.dev/api";
+import { dashboards } from "~encore/clients";
+import { requireRole } from "../auth/roles";
+import { dashboardLoadDuration, dashboardLoadFailuresTotal } from "../metrics/instruments";
+import { telemetryDB } from "./db";
+import { LOAD_METHODS, LoadEvent } from "./types";
+
+// Screens send what they have gathered every few seconds; a screen that was
+// offline for a while catches up in several batches.
+const MAX_BATCH_SIZE = 100;
+const MAX_LOAD_TIME_MS = 10 * 60 * 1000;
+// Events queued longer than this are dropped rather than skewing recent stats.
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+interface RecordLoadsRequest {
+  events: LoadEvent[];
+}
+
+interface RecordLoadsResponse {
+  // Events stored; the rest were too old, dated in the future or about dashboards
+  // that are not in the caller's workspace (e.g. deleted since).
+  accepted: number;
+}
+
+function validateEvent(event: LoadEvent): void {
+  if (!event.dashboardId || event.dashboardId.length > 100) {
+    throw APIError.invalidArgument("every event needs a dashboard ID");
+  }
+  if (event.pageName !== undefined && event.pageName.length > 100) {
+    throw APIError.invalidArgument("page name must be at most 100 characters");
+  }
+  if (!LOAD_METHODS.includes(event.loadMethod)) {
+    throw APIError.invalidArgument(`load method must be one of ${LOAD_METHODS.join(", ")}`);
+  }
+  if (!Number.isInteger(event.loadTimeMs) || event.loadTimeMs < 0 || event.loadTimeMs > MAX_LOAD_TIME_MS) {
+    throw APIError.invalidArgument("load time must be a whole number of milliseconds up to 10 minutes");
+  }
+  if (!Number.isInteger(event.retryCount) || event.retryCount < 0 || event.retryCount > 100) {
+    throw APIError.invalidArgument("retry count must be between 0 and 100");
+  }
+}
+
+// Stores a batch of dashboard load measurements sent by a screen.
+export const recordLoads = api<RecordLoadsRequest, RecordLoadsResponse>(
+  { expose: true, method: "POST", path: "/telemetry/loads", auth: true },
+  async (req) => {
+    const caller = requireRole("viewer");
+
+    if (!Array.isArray(req.events) || req.events.length > MAX_BATCH_SIZE) {
+      throw APIError.invalidArgument(`a batch holds at most ${MAX_BATCH_SIZE} events`);
+    }
+    req.events.forEach(validateEvent);
+
+    // The dashboard ID becomes a metric label, so only known dashboards may add series.
+    const { dashboards: known } = await dashboards.list();
+    const knownIDs = new Set(known.map((dashboard) => dashboard.id));
+
+    const now = Date.now();
+    const events = req.events.filter((event) => {
+      const age = now - event.occurredAt.getTime();
+      return age <= MAX_EVENT_AGE_MS && age >= -MAX_CLOCK_SKEW_MS && knownIDs.has(event.dashboardId);
+    });
+
+    for (const event of events) {
+      await telemetryDB.exec`
+        INSERT INTO load_events (
+          dashboard_id, page_name, display_id, client_name, load_method, load_time_ms, retry_count, succeeded, occurred_at,
+          workspace_id
+        )
+        VALUES (
+          ${event.dashboardId}, ${event.pageName ?? null}, ${caller.displayID ?? null}, ${caller.username},
+          ${event.loadMethod}, ${event.loadTimeMs}, ${event.retryCount}, ${event.succeeded}, ${event.occurredAt},
+          ${caller.workspaceID}
+        )
+      `;
+
+      const labels = { dashboard_id: event.dashboardId, load_method: event.loadMethod };
+      if (event.succeeded) {
+        dashboardLoadDuration.observe(labels, event.loadTimeMs / 1000);
+      } else {
+        dashboardLoadFailuresTotal.inc(labels);
+      }
+    }
+
+    return { accepted: events.length };
+  }
+);
@@ -0,0 +1,29 @@
+// How DashboardFrame got the dashboard on screen: a hidden iframe loaded ahead of
+// time, a warm iframe from the connection pool, or a new iframe.
+export type LoadMethod = "preloaded" | "pooled" | "fresh";
+
+export const LOAD_METHODS: LoadMethod[] = ["preloaded", "pooled", "fresh"];
+
+export interface LoadEvent {
+  dashboardId: string;
+  pageName?: string;
+  loadMethod: LoadMethod;
+  // From the start of the load until the dashboard showed, or until it failed.
+  loadTimeMs: number;
+  // Manual retries before this load.
+  retryCount: number;
+  succeeded: boolean;
+  occurredAt: Date;
+}
+
+// Load times of the successful loads in a group; unset when none succeeded.
+export interface LoadTimeStats {
+  key: string;
+  label: string;
+  loads: number;
+  failures: number;
+  p50Ms?: number;
+  p90Ms?: number;
+  p95Ms?: number;
+  p99Ms?: number;
+}
@@ -3,30 +3,68 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import LoginPage from './components/LoginPage';
 import DashboardPage from './components/DashboardPage';
 import SettingsPage from './components/SettingsPage';
+import PairPage from './components/PairPage';
+import StatsPage from './components/StatsPage';
 import { AuthProvider } from './contexts/AuthContext';
+import { ConfigEventsProvider } from './contexts/ConfigEventsContext';
 import { DashboardProvider } from './contexts/DashboardContext';
+import { LayoutProvider } from './contexts/LayoutContext';
+import { PlaylistProvider } from './contexts/PlaylistContext';
+import { ScheduleProvider } from './contexts/ScheduleContext';
 import { SettingsProvider } from './contexts/SettingsContext';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { ProtectedRoute } from './components/ProtectedRoute';
 import { Toaster } from '@/components/ui/toaster';
 
 export default function App() {
   return (
     <ErrorBoundary>
       <AuthProvider>
-        <SettingsProvider>
-          <DashboardProvider>
-            <Router>
-              <div className="min-h-screen bg-gray-100">
-                <Routes>
-                  <Route path="/" element={<LoginPage />} />
-                  <Route path="/dashboard" element={<DashboardPage />} />
-                  <Route path="/settings" element={<SettingsPage />} />
-                </Routes>
-                <Toaster />
-              </div>
-            </Router>
-          </DashboardProvider>
-        </SettingsProvider>
+        <ConfigEventsProvider>
+          <SettingsProvider>
+            <DashboardProvider>
+              <LayoutProvider>
+                <PlaylistProvider>
+                  <ScheduleProvider>
+                    <Router>
+                      <div className="min-h-screen bg-gray-100">
+                        <Routes>
+                          <Route path="/" element={<LoginPage />} />
+                          <Route path="/pair" element={<PairPage />} />
+                          <Route
+                            path="/dashboard"
+                            element={
+                              <ProtectedRoute>
+                                <DashboardPage />
+                              </ProtectedRoute>
+                            }
+                          />
+                          <Route
+                            path="/settings"
+                            element={
+                              <ProtectedRoute requiredRole="editor">
+                                <SettingsPage />
+                              </ProtectedRoute>
+                            }
+                          />
+                          <Route
+                            path="/stats"
+                            element={
+                              <ProtectedRoute requiredRole="editor">
+                                <StatsPage />
+                              </ProtectedRoute>
+                            }
+                          />
+                        </Routes>
+                        <Toaster />
+                      </div>
+                    </Router>
+                  </ScheduleProvider>
+                </PlaylistProvider>
+              </LayoutProvider>
+            </DashboardProvider>
+          </SettingsProvider>
+        </ConfigEventsProvider>
       </AuthProvider>
     </ErrorBoundary>
   );
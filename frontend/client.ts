@@ -33,7 +33,17 @@ const BROWSER = typeof globalThis === "object" && ("window" in globalThis);
  * Client is an API client for the  Encore application.
  */
 export class Client {
+    public readonly alerts: alerts.ServiceClient
+    public readonly audit: audit.ServiceClient
+    public readonly auth: auth.ServiceClient
+    public readonly dashboards: dashboards.ServiceClient
+    public readonly displays: displays.ServiceClient
+    public readonly events: events.ServiceClient
     public readonly health: health.ServiceClient
+    public readonly metrics: metrics.ServiceClient
+    public readonly powerbi: powerbi.ServiceClient
+    public readonly settings: settings.ServiceClient
+    public readonly telemetry: telemetry.ServiceClient
     private readonly options: ClientOptions
     private readonly target: string
 
@@ -48,7 +58,17 @@ export class Client {
         this.target = target
         this.options = options ?? {}
         const base = new BaseClient(this.target, this.options)
+        this.alerts = new alerts.ServiceClient(base)
+        this.audit = new audit.ServiceClient(base)
+        this.auth = new auth.ServiceClient(base)
+        this.dashboards = new dashboards.ServiceClient(base)
+        this.displays = new displays.ServiceClient(base)
+        this.events = new events.ServiceClient(base)
         this.health = new health.ServiceClient(base)
+        this.metrics = new metrics.ServiceClient(base)
+        this.powerbi = new powerbi.ServiceClient(base)
+        this.settings = new settings.ServiceClient(base)
+        this.telemetry = new telemetry.ServiceClient(base)
     }
 
     /**
@@ -82,7 +102,570 @@ export interface ClientOptions {
 /**
  * Import the endpoint handlers to derive the types for the client.
  */
+import { createWebhook as api_alerts_create_webhook_createWebhook } from "~backend/alerts/create_webhook";
+import { deleteWebhook as api_alerts_delete_webhook_deleteWebhook } from "~backend/alerts/delete_webhook";
+import { listWebhooks as api_alerts_list_webhooks_listWebhooks } from "~backend/alerts/list_webhooks";
+import { testWebhook as api_alerts_test_webhook_testWebhook } from "~backend/alerts/test_webhook";
+import { updateWebhook as api_alerts_update_webhook_updateWebhook } from "~backend/alerts/update_webhook";
+
+export namespace alerts {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.createWebhook = this.createWebhook.bind(this)
+            this.deleteWebhook = this.deleteWebhook.bind(this)
+            this.listWebhooks = this.listWebhooks.bind(this)
+            this.testWebhook = this.testWebhook.bind(this)
+            this.updateWebhook = this.updateWebhook.bind(this)
+        }
+
+        public async createWebhook(params: RequestType<typeof api_alerts_create_webhook_createWebhook>): Promise<ResponseType<typeof api_alerts_create_webhook_createWebhook>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/alerts/webhooks`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_alerts_create_webhook_createWebhook>
+        }
+
+        public async deleteWebhook(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/alerts/webhooks/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async listWebhooks(): Promise<ResponseType<typeof api_alerts_list_webhooks_listWebhooks>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/alerts/webhooks`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_alerts_list_webhooks_listWebhooks>
+        }
+
+        public async testWebhook(params: { id: string }): Promise<ResponseType<typeof api_alerts_test_webhook_testWebhook>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/alerts/webhooks/${encodeURIComponent(params.id)}/test`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_alerts_test_webhook_testWebhook>
+        }
+
+        public async updateWebhook(params: RequestType<typeof api_alerts_update_webhook_updateWebhook>): Promise<ResponseType<typeof api_alerts_update_webhook_updateWebhook>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                enabled: params.enabled,
+                format:  params.format,
+                name:    params.name,
+                url:     params.url,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/alerts/webhooks/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_alerts_update_webhook_updateWebhook>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { listEntries as api_audit_list_entries_listEntries } from "~backend/audit/list_entries";
+
+export namespace audit {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.listEntries = this.listEntries.bind(this)
+        }
+
+        public async listEntries(params: RequestType<typeof api_audit_list_entries_listEntries>): Promise<ResponseType<typeof api_audit_list_entries_listEntries>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                action:   params.action,
+                actor:    params.actor,
+                from:     params.from,
+                limit:    params.limit === undefined ? undefined : String(params.limit),
+                resource: params.resource,
+                search:   params.search,
+                to:       params.to,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/audit`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_audit_list_entries_listEntries>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { createUser as api_auth_create_user_createUser } from "~backend/auth/create_user";
+import { createWorkspace as api_auth_create_workspace_createWorkspace } from "~backend/auth/create_workspace";
+import { deleteUser as api_auth_delete_user_deleteUser } from "~backend/auth/delete_user";
+import { deleteWorkspace as api_auth_delete_workspace_deleteWorkspace } from "~backend/auth/delete_workspace";
+import { listUsers as api_auth_list_users_listUsers } from "~backend/auth/list_users";
+import { listWorkspaces as api_auth_list_workspaces_listWorkspaces } from "~backend/auth/list_workspaces";
+import { login as api_auth_login_login } from "~backend/auth/login";
+import { logout as api_auth_logout_logout } from "~backend/auth/logout";
+import { me as api_auth_me_me } from "~backend/auth/me";
+import { refresh as api_auth_refresh_refresh } from "~backend/auth/refresh";
+import { resetPassword as api_auth_reset_password_resetPassword } from "~backend/auth/reset_password";
+import { switchWorkspace as api_auth_switch_workspace_switchWorkspace } from "~backend/auth/switch_workspace";
+import { updateUser as api_auth_update_user_updateUser } from "~backend/auth/update_user";
+import { updateWorkspace as api_auth_update_workspace_updateWorkspace } from "~backend/auth/update_workspace";
+
+export namespace auth {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.createUser = this.createUser.bind(this)
+            this.createWorkspace = this.createWorkspace.bind(this)
+            this.deleteUser = this.deleteUser.bind(this)
+            this.deleteWorkspace = this.deleteWorkspace.bind(this)
+            this.listUsers = this.listUsers.bind(this)
+            this.listWorkspaces = this.listWorkspaces.bind(this)
+            this.login = this.login.bind(this)
+            this.logout = this.logout.bind(this)
+            this.me = this.me.bind(this)
+            this.refresh = this.refresh.bind(this)
+            this.resetPassword = this.resetPassword.bind(this)
+            this.switchWorkspace = this.switchWorkspace.bind(this)
+            this.updateUser = this.updateUser.bind(this)
+            this.updateWorkspace = this.updateWorkspace.bind(this)
+        }
+
+        public async createUser(params: RequestType<typeof api_auth_create_user_createUser>): Promise<ResponseType<typeof api_auth_create_user_createUser>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/users`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_create_user_createUser>
+        }
+
+        public async createWorkspace(params: RequestType<typeof api_auth_create_workspace_createWorkspace>): Promise<ResponseType<typeof api_auth_create_workspace_createWorkspace>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/workspaces`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_create_workspace_createWorkspace>
+        }
+
+        public async deleteUser(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/auth/users/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async deleteWorkspace(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/workspaces/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async listUsers(): Promise<ResponseType<typeof api_auth_list_users_listUsers>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/users`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_list_users_listUsers>
+        }
+
+        public async listWorkspaces(): Promise<ResponseType<typeof api_auth_list_workspaces_listWorkspaces>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/workspaces`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_list_workspaces_listWorkspaces>
+        }
+
+        public async login(params: RequestType<typeof api_auth_login_login>): Promise<ResponseType<typeof api_auth_login_login>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/login`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_login_login>
+        }
+
+        public async logout(): Promise<ResponseType<typeof api_auth_logout_logout>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/logout`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_logout_logout>
+        }
+
+        public async me(): Promise<ResponseType<typeof api_auth_me_me>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/me`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_me_me>
+        }
+
+        public async refresh(): Promise<ResponseType<typeof api_auth_refresh_refresh>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/refresh`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_refresh_refresh>
+        }
+
+        public async resetPassword(params: RequestType<typeof api_auth_reset_password_resetPassword>): Promise<void> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                password: params.password,
+            }
+
+            await this.baseClient.callTypedAPI(`/auth/users/${encodeURIComponent(params.id)}/password`, {method: "POST", body: JSON.stringify(body)})
+        }
+
+        public async switchWorkspace(params: RequestType<typeof api_auth_switch_workspace_switchWorkspace>): Promise<ResponseType<typeof api_auth_switch_workspace_switchWorkspace>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/workspace`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_switch_workspace_switchWorkspace>
+        }
+
+        public async updateUser(params: RequestType<typeof api_auth_update_user_updateUser>): Promise<ResponseType<typeof api_auth_update_user_updateUser>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                disabled:     params.disabled,
+                role:         params.role,
+                workspaceIds: params.workspaceIds,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/users/${encodeURIComponent(params.id)}`, {method: "PATCH", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_update_user_updateUser>
+        }
+
+        public async updateWorkspace(params: RequestType<typeof api_auth_update_workspace_updateWorkspace>): Promise<ResponseType<typeof api_auth_update_workspace_updateWorkspace>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                name: params.name,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/workspaces/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_update_workspace_updateWorkspace>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { create as api_dashboards_create_create } from "~backend/dashboards/create";
+import { createFolder as api_dashboards_create_folder_createFolder } from "~backend/dashboards/create_folder";
+import { createLayout as api_dashboards_create_layout_createLayout } from "~backend/dashboards/create_layout";
+import { createPlaylist as api_dashboards_create_playlist_createPlaylist } from "~backend/dashboards/create_playlist";
+import { remove as api_dashboards_delete_remove } from "~backend/dashboards/delete";
+import { deleteFolder as api_dashboards_delete_folder_deleteFolder } from "~backend/dashboards/delete_folder";
+import { deleteLayout as api_dashboards_delete_layout_deleteLayout } from "~backend/dashboards/delete_layout";
+import { deletePlaylist as api_dashboards_delete_playlist_deletePlaylist } from "~backend/dashboards/delete_playlist";
+import { deleteTag as api_dashboards_delete_tag_deleteTag } from "~backend/dashboards/delete_tag";
+import { getSchedule as api_dashboards_get_schedule_getSchedule } from "~backend/dashboards/get_schedule";
+import { list as api_dashboards_list_list } from "~backend/dashboards/list";
+import { listFolders as api_dashboards_list_folders_listFolders } from "~backend/dashboards/list_folders";
+import { listLayouts as api_dashboards_list_layouts_listLayouts } from "~backend/dashboards/list_layouts";
+import { listPlaylists as api_dashboards_list_playlists_listPlaylists } from "~backend/dashboards/list_playlists";
+import { listTags as api_dashboards_list_tags_listTags } from "~backend/dashboards/list_tags";
+import { renameTag as api_dashboards_rename_tag_renameTag } from "~backend/dashboards/rename_tag";
+import { update as api_dashboards_update_update } from "~backend/dashboards/update";
+import { updateFolder as api_dashboards_update_folder_updateFolder } from "~backend/dashboards/update_folder";
+import { updateLayout as api_dashboards_update_layout_updateLayout } from "~backend/dashboards/update_layout";
+import { updatePlaylist as api_dashboards_update_playlist_updatePlaylist } from "~backend/dashboards/update_playlist";
+import { updateSchedule as api_dashboards_update_schedule_updateSchedule } from "~backend/dashboards/update_schedule";
+
+export namespace dashboards {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.create = this.create.bind(this)
+            this.createFolder = this.createFolder.bind(this)
+            this.createLayout = this.createLayout.bind(this)
+            this.createPlaylist = this.createPlaylist.bind(this)
+            this.deleteFolder = this.deleteFolder.bind(this)
+            this.deleteLayout = this.deleteLayout.bind(this)
+            this.deletePlaylist = this.deletePlaylist.bind(this)
+            this.deleteTag = this.deleteTag.bind(this)
+            this.getSchedule = this.getSchedule.bind(this)
+            this.list = this.list.bind(this)
+            this.listFolders = this.listFolders.bind(this)
+            this.listLayouts = this.listLayouts.bind(this)
+            this.listPlaylists = this.listPlaylists.bind(this)
+            this.listTags = this.listTags.bind(this)
+            this.remove = this.remove.bind(this)
+            this.renameTag = this.renameTag.bind(this)
+            this.update = this.update.bind(this)
+            this.updateFolder = this.updateFolder.bind(this)
+            this.updateLayout = this.updateLayout.bind(this)
+            this.updatePlaylist = this.updatePlaylist.bind(this)
+            this.updateSchedule = this.updateSchedule.bind(this)
+        }
+
+        public async create(params: RequestType<typeof api_dashboards_create_create>): Promise<ResponseType<typeof api_dashboards_create_create>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/dashboards`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_create_create>
+        }
+
+        public async createFolder(params: RequestType<typeof api_dashboards_create_folder_createFolder>): Promise<ResponseType<typeof api_dashboards_create_folder_createFolder>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/folders`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_create_folder_createFolder>
+        }
+
+        public async createLayout(params: RequestType<typeof api_dashboards_create_layout_createLayout>): Promise<ResponseType<typeof api_dashboards_create_layout_createLayout>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/layouts`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_create_layout_createLayout>
+        }
+
+        public async createPlaylist(params: RequestType<typeof api_dashboards_create_playlist_createPlaylist>): Promise<ResponseType<typeof api_dashboards_create_playlist_createPlaylist>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/playlists`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_create_playlist_createPlaylist>
+        }
+
+        public async deleteFolder(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/folders/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async deleteLayout(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/layouts/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async deletePlaylist(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/playlists/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async deleteTag(params: { name: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/tags/${encodeURIComponent(params.name)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async getSchedule(): Promise<ResponseType<typeof api_dashboards_get_schedule_getSchedule>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedule`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_get_schedule_getSchedule>
+        }
+
+        public async list(): Promise<ResponseType<typeof api_dashboards_list_list>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/dashboards`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_list_list>
+        }
+
+        public async listFolders(): Promise<ResponseType<typeof api_dashboards_list_folders_listFolders>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/folders`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_list_folders_listFolders>
+        }
+
+        public async listLayouts(): Promise<ResponseType<typeof api_dashboards_list_layouts_listLayouts>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/layouts`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_list_layouts_listLayouts>
+        }
+
+        public async listPlaylists(): Promise<ResponseType<typeof api_dashboards_list_playlists_listPlaylists>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/playlists`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_list_playlists_listPlaylists>
+        }
+
+        public async listTags(): Promise<ResponseType<typeof api_dashboards_list_tags_listTags>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/tags`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_list_tags_listTags>
+        }
+
+        public async remove(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/dashboards/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async renameTag(params: RequestType<typeof api_dashboards_rename_tag_renameTag>): Promise<ResponseType<typeof api_dashboards_rename_tag_renameTag>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/tags/rename`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_rename_tag_renameTag>
+        }
+
+        public async update(params: RequestType<typeof api_dashboards_update_update>): Promise<ResponseType<typeof api_dashboards_update_update>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                durationSeconds: params.durationSeconds,
+                filters:         params.filters,
+                folderId:        params.folderId,
+                name:            params.name,
+                pages:           params.pages,
+                reportId:        params.reportId,
+                tags:            params.tags,
+                type:            params.type,
+                url:             params.url,
+                workspaceId:     params.workspaceId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/dashboards/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_update_update>
+        }
+
+        public async updateFolder(params: RequestType<typeof api_dashboards_update_folder_updateFolder>): Promise<ResponseType<typeof api_dashboards_update_folder_updateFolder>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                name:     params.name,
+                parentId: params.parentId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/folders/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_update_folder_updateFolder>
+        }
+
+        public async updateLayout(params: RequestType<typeof api_dashboards_update_layout_updateLayout>): Promise<ResponseType<typeof api_dashboards_update_layout_updateLayout>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                cells:   params.cells,
+                columns: params.columns,
+                name:    params.name,
+                preset:  params.preset,
+                rows:    params.rows,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/layouts/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_update_layout_updateLayout>
+        }
+
+        public async updatePlaylist(params: RequestType<typeof api_dashboards_update_playlist_updatePlaylist>): Promise<ResponseType<typeof api_dashboards_update_playlist_updatePlaylist>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                entries:  params.entries,
+                name:     params.name,
+                tagQuery: params.tagQuery,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/playlists/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_update_playlist_updatePlaylist>
+        }
+
+        public async updateSchedule(params: RequestType<typeof api_dashboards_update_schedule_updateSchedule>): Promise<ResponseType<typeof api_dashboards_update_schedule_updateSchedule>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/schedule`, {method: "PUT", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_dashboards_update_schedule_updateSchedule>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { control as api_displays_control_control } from "~backend/displays/control";
+import { current as api_displays_current_current } from "~backend/displays/current";
+import { remove as api_displays_delete_remove } from "~backend/displays/delete";
+import { list as api_displays_list_list } from "~backend/displays/list";
+import { requestPairing as api_displays_pair_requestPairing } from "~backend/displays/pair";
+import { pairingStatus as api_displays_pair_status_pairingStatus } from "~backend/displays/pair_status";
+import { register as api_displays_register_register } from "~backend/displays/register";
+import { sendCommand as api_displays_send_command_sendCommand } from "~backend/displays/send_command";
+import { update as api_displays_update_update } from "~backend/displays/update";
+
+export namespace displays {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.control = this.control.bind(this)
+            this.current = this.current.bind(this)
+            this.list = this.list.bind(this)
+            this.pairingStatus = this.pairingStatus.bind(this)
+            this.register = this.register.bind(this)
+            this.remove = this.remove.bind(this)
+            this.requestPairing = this.requestPairing.bind(this)
+            this.sendCommand = this.sendCommand.bind(this)
+            this.update = this.update.bind(this)
+        }
+
+        public async control(): Promise<StreamInOut<StreamRequest<typeof api_displays_control_control>, StreamResponse<typeof api_displays_control_control>>> {
+            return await this.baseClient.createStreamInOut(`/displays/control`)
+        }
+
+        public async current(): Promise<ResponseType<typeof api_displays_current_current>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/displays/current`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_displays_current_current>
+        }
+
+        public async list(): Promise<ResponseType<typeof api_displays_list_list>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/displays`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_displays_list_list>
+        }
+
+        public async pairingStatus(): Promise<ResponseType<typeof api_displays_pair_status_pairingStatus>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/displays/pair/status`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_displays_pair_status_pairingStatus>
+        }
+
+        public async register(params: RequestType<typeof api_displays_register_register>): Promise<ResponseType<typeof api_displays_register_register>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/displays`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_displays_register_register>
+        }
+
+        public async remove(params: { id: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/displays/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        public async requestPairing(): Promise<ResponseType<typeof api_displays_pair_requestPairing>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/displays/pair`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_displays_pair_requestPairing>
+        }
+
+        public async sendCommand(params: RequestType<typeof api_displays_send_command_sendCommand>): Promise<void> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                action:      params.action,
+                dashboardId: params.dashboardId,
+            }
+
+            await this.baseClient.callTypedAPI(`/displays/${encodeURIComponent(params.id)}/commands`, {method: "POST", body: JSON.stringify(body)})
+        }
+
+        public async update(params: RequestType<typeof api_displays_update_update>): Promise<ResponseType<typeof api_displays_update_update>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                layoutId:   params.layoutId,
+                location:   params.location,
+                name:       params.name,
+                playlistId: params.playlistId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/displays/${encodeURIComponent(params.id)}`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_displays_update_update>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { subscribe as api_events_stream_subscribe } from "~backend/events/stream";
+
+export namespace events {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.subscribe = this.subscribe.bind(this)
+        }
+
+        public async subscribe(): Promise<StreamInOut<StreamRequest<typeof api_events_stream_subscribe>, StreamResponse<typeof api_events_stream_subscribe>>> {
+            return await this.baseClient.createStreamInOut(`/events`)
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { checkDashboard as api_health_check_dashboard_checkDashboard } from "~backend/health/check_dashboard";
+import { checkDashboards as api_health_check_dashboards_checkDashboards } from "~backend/health/check_dashboards";
+import { getHistory as api_health_get_history_getHistory } from "~backend/health/get_history";
+import { latestStatus as api_health_latest_status_latestStatus } from "~backend/health/latest_status";
 import { ping as api_health_ping_ping } from "~backend/health/ping";
+import { recheckDashboard as api_health_recheck_dashboard_recheckDashboard } from "~backend/health/recheck_dashboard";
 
 export namespace health {
 
@@ -91,7 +674,41 @@ export namespace health {
 
         constructor(baseClient: BaseClient) {
             this.baseClient = baseClient
+            this.checkDashboard = this.checkDashboard.bind(this)
+            this.checkDashboards = this.checkDashboards.bind(this)
+            this.getHistory = this.getHistory.bind(this)
+            this.latestStatus = this.latestStatus.bind(this)
             this.ping = this.ping.bind(this)
+            this.recheckDashboard = this.recheckDashboard.bind(this)
+        }
+
+        public async checkDashboard(params: { id: string }): Promise<ResponseType<typeof api_health_check_dashboard_checkDashboard>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/health/dashboards/${encodeURIComponent(params.id)}`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_health_check_dashboard_checkDashboard>
+        }
+
+        public async checkDashboards(): Promise<ResponseType<typeof api_health_check_dashboards_checkDashboards>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/health/dashboards`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_health_check_dashboards_checkDashboards>
+        }
+
+        public async getHistory(params: RequestType<typeof api_health_get_history_getHistory>): Promise<ResponseType<typeof api_health_get_history_getHistory>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                hours: String(params.hours),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/health/history`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_health_get_history_getHistory>
+        }
+
+        public async latestStatus(): Promise<ResponseType<typeof api_health_latest_status_latestStatus>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/health/status`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_health_latest_status_latestStatus>
         }
 
         public async ping(): Promise<ResponseType<typeof api_health_ping_ping>> {
@@ -99,6 +716,118 @@ export namespace health {
             const resp = await this.baseClient.callTypedAPI(`/ping`, {method: "GET", body: undefined})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_health_ping_ping>
         }
+
+        public async recheckDashboard(params: { id: string }): Promise<ResponseType<typeof api_health_recheck_dashboard_recheckDashboard>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/health/dashboards/${encodeURIComponent(params.id)}/recheck`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_health_recheck_dashboard_recheckDashboard>
+        }
+    }
+}
+
+export namespace metrics {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.metrics = this.metrics.bind(this)
+        }
+
+        public async metrics(method: "GET", body?: RequestInit["body"], options?: PickMethods<"GET">): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(`/metrics`, {...options, method, body})
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { embedToken as api_powerbi_embed_token_embedToken } from "~backend/powerbi/embed_token";
+
+export namespace powerbi {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.embedToken = this.embedToken.bind(this)
+        }
+
+        public async embedToken(params: RequestType<typeof api_powerbi_embed_token_embedToken>): Promise<ResponseType<typeof api_powerbi_embed_token_embedToken>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/powerbi/embed-token`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_powerbi_embed_token_embedToken>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { get as api_settings_get_get } from "~backend/settings/get";
+import { update as api_settings_update_update } from "~backend/settings/update";
+
+export namespace settings {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.get = this.get.bind(this)
+            this.update = this.update.bind(this)
+        }
+
+        public async get(): Promise<ResponseType<typeof api_settings_get_get>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/settings`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_settings_get_get>
+        }
+
+        public async update(params: RequestType<typeof api_settings_update_update>): Promise<ResponseType<typeof api_settings_update_update>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/settings`, {method: "PUT", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_settings_update_update>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import { getStats as api_telemetry_get_stats_getStats } from "~backend/telemetry/get_stats";
+import { recordLoads as api_telemetry_record_loads_recordLoads } from "~backend/telemetry/record_loads";
+
+export namespace telemetry {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.getStats = this.getStats.bind(this)
+            this.recordLoads = this.recordLoads.bind(this)
+        }
+
+        public async getStats(params: RequestType<typeof api_telemetry_get_stats_getStats>): Promise<ResponseType<typeof api_telemetry_get_stats_getStats>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                hours: String(params.hours),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/telemetry/stats`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_telemetry_get_stats_getStats>
+        }
+
+        public async recordLoads(params: RequestType<typeof api_telemetry_record_loads_recordLoads>): Promise<ResponseType<typeof api_telemetry_record_loads_recordLoads>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/telemetry/loads`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_telemetry_record_loads_recordLoads>
+        }
     }
 }
 
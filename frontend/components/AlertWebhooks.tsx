@@ -0,0 +1,341 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { BellRing, Plus, Edit, Trash2, Save, X, Send } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { DashboardListSkeleton } from './SkeletonLoader';
+import { LoadingSpinner } from './LoadingSpinner';
+
+type Webhook = Awaited<ReturnType<typeof backend.alerts.listWebhooks>>['webhooks'][number];
+type WebhookFormat = Webhook['format'];
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+}
+
+const formatOptions: { value: WebhookFormat; label: string; placeholder: string }[] = [
+  { value: 'generic', label: 'Generic JSON', placeholder: 'https://example.com/hooks/dashboards' },
+  { value: 'slack', label: 'Slack', placeholder: 'https://hooks.slack.com/services/...' },
+  { value: 'teams', label: 'Microsoft Teams', placeholder: 'https://...webhook.office.com/...' },
+];
+
+const emptyForm: WebhookForm = { name: '', url: '', format: 'generic', enabled: true };
+
+// Outgoing webhooks told when a dashboard goes offline or comes back online
+export function AlertWebhooks() {
+  const { toast } = useToast();
+
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<WebhookForm>(emptyForm);
+  const [isFormSubmitting, setIsFormSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const response = await backend.alerts.listWebhooks();
+      setWebhooks(response.webhooks);
+    } catch (error) {
+      showError('Unable to Load Webhooks', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const replaceWebhook = (updated: Webhook) => {
+    setWebhooks(prev => prev.map(webhook => webhook.id === updated.id ? updated : webhook));
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setIsAddingNew(false);
+    setEditingId(null);
+  };
+
+  const handleEdit = (webhook: Webhook) => {
+    setFormData({ name: webhook.name, url: webhook.url, format: webhook.format, enabled: webhook.enabled });
+    setEditingId(webhook.id);
+    setIsAddingNew(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsFormSubmitting(true);
+
+    const input = { ...formData, name: formData.name.trim(), url: formData.url.trim() };
+
+    try {
+      if (editingId) {
+        replaceWebhook(await backend.alerts.updateWebhook({ id: editingId, ...input }));
+        toast({
+          title: "Webhook Updated",
+          description: `"${input.name}" has been updated.`,
+        });
+      } else {
+        const created = await backend.alerts.createWebhook(input);
+        setWebhooks(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+        toast({
+          title: "Webhook Added",
+          description: `"${created.name}" will be alerted when a dashboard goes down or recovers.`,
+        });
+      }
+      resetForm();
+    } catch (error) {
+      showError(editingId ? 'Update Failed' : 'Create Failed', error);
+    } finally {
+      setIsFormSubmitting(false);
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    setBusyId(webhook.id);
+    try {
+      const result = await backend.alerts.testWebhook({ id: webhook.id });
+      if (result.ok) {
+        toast({
+          title: "Test Alert Sent",
+          description: `"${webhook.name}" accepted the test alert.`,
+        });
+      } else {
+        toast({
+          title: "Test Alert Failed",
+          description: `"${webhook.name}" did not accept the test alert: ${result.error}.`,
+          variant: "destructive",
+        });
+      }
+      // Pick up the recorded delivery status
+      await loadWebhooks();
+    } catch (error) {
+      showError('Test Alert Failed', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (window.confirm(`Are you sure you want to delete the webhook "${webhook.name}"?`)) {
+      setBusyId(webhook.id);
+      try {
+        await backend.alerts.deleteWebhook({ id: webhook.id });
+        setWebhooks(prev => prev.filter(w => w.id !== webhook.id));
+        toast({
+          title: "Webhook Deleted",
+          description: `"${webhook.name}" has been deleted.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        showError('Delete Failed', error);
+      } finally {
+        setBusyId(null);
+      }
+    }
+  };
+
+  const formatLabel = (format: WebhookFormat) => formatOptions.find(option => option.value === format)?.label ?? format;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <BellRing className="h-5 w-5" />
+            <span>Alert Webhooks</span>
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={() => {
+              setFormData(emptyForm);
+              setEditingId(null);
+              setIsAddingNew(true);
+            }}
+            disabled={isAddingNew || editingId !== null}
+            className="flex items-center space-x-2"
+            aria-label="Add new webhook"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Webhook</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          An alert is sent once two checks in a row agree a dashboard is down, or back online.
+          A dashboard that keeps flapping sends at most four alerts an hour.
+        </p>
+
+        {(isAddingNew || editingId) && (
+          <form onSubmit={handleSubmit} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-name">Name *</Label>
+                <Input
+                  id="webhook-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., BI team channel"
+                  minLength={3}
+                  maxLength={50}
+                  required
+                  disabled={isFormSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-format">Payload Format</Label>
+                <Select
+                  value={formData.format}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, format: value as WebhookFormat }))}
+                  disabled={isFormSubmitting}
+                >
+                  <SelectTrigger id="webhook-format" aria-label="Select payload format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {formatOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end space-x-2 pb-2">
+                <input
+                  id="webhook-enabled"
+                  type="checkbox"
+                  checked={formData.enabled}
+                  onChange={(e) => setFormData(prev => ({ ...prev, enabled: e.target.checked }))}
+                  disabled={isFormSubmitting}
+                  className="h-4 w-4"
+                />
+                <Label htmlFor="webhook-enabled">Send alerts</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Webhook URL *</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={formData.url}
+                onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
+                placeholder={formatOptions.find(option => option.value === formData.format)?.placeholder}
+                required
+                disabled={isFormSubmitting}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button type="submit" className="flex items-center space-x-2" disabled={isFormSubmitting}>
+                {isFormSubmitting ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+                <span>{editingId ? 'Update Webhook' : 'Add Webhook'}</span>
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={resetForm}
+                className="flex items-center space-x-2"
+                disabled={isFormSubmitting}
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <DashboardListSkeleton />
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-gray-600">No webhooks yet; nobody is alerted when a dashboard breaks.</p>
+        ) : (
+          <div className="grid gap-3">
+            {webhooks.map((webhook) => {
+              const isBusy = busyId === webhook.id;
+
+              return (
+                <div
+                  key={webhook.id}
+                  className={`border rounded-lg p-3 ${webhook.enabled ? '' : 'bg-gray-50 opacity-75'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900">{webhook.name}</span>
+                        <Badge variant="secondary" className="text-xs">{formatLabel(webhook.format)}</Badge>
+                        {!webhook.enabled && <Badge variant="outline" className="text-xs">Paused</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">{webhook.url}</p>
+                      {webhook.lastDeliveryAt && (
+                        <p className={`text-xs ${webhook.lastDeliveryError ? 'text-red-600' : 'text-gray-500'}`}>
+                          {webhook.lastDeliveryError
+                            ? `Last delivery failed ${webhook.lastDeliveryAt.toLocaleString()}: ${webhook.lastDeliveryError}`
+                            : `Last delivered ${webhook.lastDeliveryAt.toLocaleString()}`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleTest(webhook)}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1"
+                        aria-label={`Send a test alert to ${webhook.name}`}
+                      >
+                        {isBusy ? <LoadingSpinner size="sm" /> : <Send className="h-4 w-4" />}
+                        <span>Test</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(webhook)}
+                        disabled={isBusy || isAddingNew || editingId !== null}
+                        className="flex items-center space-x-1"
+                        aria-label={`Edit ${webhook.name}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                        <span>Edit</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(webhook)}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                        aria-label={`Delete ${webhook.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span>Delete</span>
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronRight, Download, Filter, History, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { DashboardListSkeleton } from './SkeletonLoader';
+import { LoadingSpinner } from './LoadingSpinner';
+import { AuditEntry, auditEntriesToCsv, changedFields, downloadCsv, formatAuditValue } from '../utils/audit';
+
+type AuditQuery = Parameters<typeof backend.audit.listEntries>[0];
+type AuditAction = AuditEntry['action'];
+type AuditResource = AuditEntry['resource'];
+
+interface AuditFilters {
+  resource: AuditResource | 'all';
+  action: AuditAction | 'all';
+  actor: string;
+  search: string;
+  // Days as picked in the date inputs, "YYYY-MM-DD"
+  fromDate: string;
+  toDate: string;
+}
+
+const PAGE_SIZE = 100;
+// The most the backend returns at once
+const EXPORT_LIMIT = 5000;
+
+const resourceOptions: { value: AuditFilters['resource']; label: string }[] = [
+  { value: 'all', label: 'All resources' },
+  { value: 'dashboard', label: 'Dashboards' },
+  { value: 'folder', label: 'Folders' },
+  { value: 'tag', label: 'Tags' },
+  { value: 'playlist', label: 'Playlists' },
+  { value: 'layout', label: 'Layouts' },
+  { value: 'schedule', label: 'Schedule' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'display', label: 'Displays' },
+  { value: 'webhook', label: 'Webhooks' },
+  { value: 'user', label: 'Users' },
+  { value: 'workspace', label: 'Workspaces' },
+];
+
+const actionOptions: { value: AuditFilters['action']; label: string }[] = [
+  { value: 'all', label: 'All actions' },
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'delete', label: 'Deleted' },
+];
+
+const actionBadgeClass: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+const emptyFilters: AuditFilters = { resource: 'all', action: 'all', actor: '', search: '', fromDate: '', toDate: '' };
+
+// Turn the form into a query; the "to" day is included in full
+function toQuery(filters: AuditFilters): AuditQuery {
+  const dayStart = (date: string, addDays = 0) => {
+    const day = new Date(`${date}T00:00`);
+    day.setDate(day.getDate() + addDays);
+    return day.toISOString();
+  };
+
+  return {
+    resource: filters.resource === 'all' ? undefined : filters.resource,
+    action: filters.action === 'all' ? undefined : filters.action,
+    actor: filters.actor.trim() || undefined,
+    search: filters.search.trim() || undefined,
+    from: filters.fromDate ? dayStart(filters.fromDate) : undefined,
+    to: filters.toDate ? dayStart(filters.toDate, 1) : undefined,
+  };
+}
+
+function describeEntry(entry: AuditEntry): string {
+  const verb = actionOptions.find(option => option.value === entry.action)?.label.toLowerCase() ?? entry.action;
+  if (entry.resource === 'settings') return `${verb} the settings`;
+  if (entry.resource === 'schedule') return `${verb} the schedule`;
+  return `${verb} ${entry.resource} "${entry.resourceName ?? entry.resourceId}"`;
+}
+
+// Who changed which dashboards, playlists, schedule and settings, and what they changed
+export function AuditLog() {
+  const { toast } = useToast();
+
+  const [formFilters, setFormFilters] = useState<AuditFilters>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(emptyFilters);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await backend.audit.listEntries({ ...toQuery(appliedFilters), limit });
+      setEntries(response.entries);
+      setHasMore(response.hasMore);
+    } catch (error) {
+      showError('Unable to Load Audit Log', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [appliedFilters, limit, showError]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const applyFilters = (filters: AuditFilters) => {
+    setAppliedFilters(filters);
+    setLimit(PAGE_SIZE);
+    setExpandedId(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyFilters(formFilters);
+  };
+
+  const handleReset = () => {
+    setFormFilters(emptyFilters);
+    applyFilters(emptyFilters);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await backend.audit.listEntries({ ...toQuery(appliedFilters), limit: EXPORT_LIMIT });
+      const date = new Date().toISOString().slice(0, 10);
+      downloadCsv(`audit-log-${date}.csv`, auditEntriesToCsv(response.entries));
+      toast({
+        title: "Audit Log Exported",
+        description: response.hasMore
+          ? `The ${EXPORT_LIMIT} most recent matching changes were exported; narrow the filters to export older ones.`
+          : `${response.entries.length} change${response.entries.length === 1 ? '' : 's'} exported.`,
+      });
+    } catch (error) {
+      showError('Export Failed', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Audit Log</span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting || entries.length === 0}
+            className="flex items-center space-x-2"
+            aria-label="Export the filtered audit log as CSV"
+          >
+            {isExporting ? <LoadingSpinner size="sm" /> : <Download className="h-4 w-4" />}
+            <span>Export CSV</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-resource">Resource</Label>
+              <Select
+                value={formFilters.resource}
+                onValueChange={(value) => setFormFilters(prev => ({ ...prev, resource: value as AuditFilters['resource'] }))}
+              >
+                <SelectTrigger id="audit-resource" aria-label="Filter by resource">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {resourceOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-action">Action</Label>
+              <Select
+                value={formFilters.action}
+                onValueChange={(value) => setFormFilters(prev => ({ ...prev, action: value as AuditFilters['action'] }))}
+              >
+                <SelectTrigger id="audit-action" aria-label="Filter by action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {actionOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">Changed By</Label>
+              <Input
+                id="audit-actor"
+                value={formFilters.actor}
+                onChange={(e) => setFormFilters(prev => ({ ...prev, actor: e.target.value }))}
+                placeholder="Username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-search">Name or ID</Label>
+              <Input
+                id="audit-search"
+                value={formFilters.search}
+                onChange={(e) => setFormFilters(prev => ({ ...prev, search: e.target.value }))}
+                placeholder="e.g., Sales Overview"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={formFilters.fromDate}
+                onChange={(e) => setFormFilters(prev => ({ ...prev, fromDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={formFilters.toDate}
+                min={formFilters.fromDate || undefined}
+                onChange={(e) => setFormFilters(prev => ({ ...prev, toDate: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button type="submit" size="sm" className="flex items-center space-x-2">
+              <Filter className="h-4 w-4" />
+              <span>Apply Filters</span>
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleReset} className="flex items-center space-x-2">
+              <X className="h-4 w-4" />
+              <span>Clear</span>
+            </Button>
+          </div>
+        </form>
+
+        {isLoading && entries.length === 0 ? (
+          <DashboardListSkeleton />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-600">No changes match these filters.</p>
+        ) : (
+          <ul className="border rounded-lg divide-y">
+            {entries.map((entry) => {
+              const isExpanded = expandedId === entry.id;
+              const changes = changedFields(entry);
+
+              return (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="w-full flex items-center justify-between p-3 text-left hover:bg-gray-50"
+                    aria-expanded={isExpanded}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {isExpanded
+                        ? <ChevronDown className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                        : <ChevronRight className="h-4 w-4 flex-shrink-0 text-gray-500" />}
+                      <Badge className={`${actionBadgeClass[entry.action]} text-xs`}>{entry.action}</Badge>
+                      <span className="text-sm text-gray-900 truncate">
+                        <span className="font-medium">{entry.actorName}</span> {describeEntry(entry)}
+                      </span>
+                    </div>
+                    <span className="text-xs text-gray-500 whitespace-nowrap ml-3">
+                      {entry.occurredAt.toLocaleString()}
+                    </span>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="px-3 pb-3 overflow-x-auto">
+                      {changes.length === 0 ? (
+                        <p className="text-sm text-gray-600">Saved without changes.</p>
+                      ) : (
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="border-b text-left text-gray-600">
+                              <th className="py-1 pr-3 font-medium">Field</th>
+                              <th className="py-1 pr-3 font-medium">Before</th>
+                              <th className="py-1 font-medium">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {changes.map((change) => (
+                              <tr key={change.field} className="border-b last:border-0 align-top">
+                                <td className="py-1 pr-3 font-medium text-gray-900">{change.field}</td>
+                                <td className="py-1 pr-3 text-red-700 break-all font-mono">{formatAuditValue(change.before)}</td>
+                                <td className="py-1 text-green-700 break-all font-mono">{formatAuditValue(change.after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {hasMore && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setLimit(prev => prev + PAGE_SIZE)}
+            disabled={isLoading}
+            className="w-full"
+          >
+            {isLoading ? <LoadingSpinner size="sm" /> : 'Show Older Changes'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Search, Tag, X } from 'lucide-react';
+import { CatalogFilter } from '../utils/catalog';
+
+interface CatalogFilterBarProps {
+  filter: CatalogFilter;
+  onChange: (filter: CatalogFilter) => void;
+  // Tags offered as toggles; usually every tag in use
+  tags: string[];
+  placeholder?: string;
+  autoFocus?: boolean;
+  onKeyDown?: (event: React.KeyboardEvent<HTMLInputElement>) => void;
+}
+
+// Search box plus tag toggles for narrowing down a long dashboard list
+export function CatalogFilterBar({ filter, onChange, tags, placeholder, autoFocus, onKeyDown }: CatalogFilterBarProps) {
+  const toggleTag = (tag: string) => {
+    onChange({
+      ...filter,
+      tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          type="search"
+          value={filter.search}
+          onChange={(e) => onChange({ ...filter, search: e.target.value })}
+          onKeyDown={onKeyDown}
+          placeholder={placeholder ?? 'Filter by name, tag or folder'}
+          className="pl-8"
+          autoFocus={autoFocus}
+          aria-label="Filter dashboards"
+        />
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by tag">
+          {tags.map(tag => {
+            const isSelected = filter.tags.includes(tag);
+            return (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                className={`inline-flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs ${
+                  isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+                aria-pressed={isSelected}
+              >
+                <Tag className="h-3 w-3" />
+                <span>{tag}</span>
+                {isSelected && <X className="h-3 w-3" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
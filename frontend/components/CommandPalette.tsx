@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { History, Search, LucideIcon } from 'lucide-react';
+import { StorageManager } from '../utils/storage';
+import { bestFuzzyScore } from '../utils/fuzzy';
+
+export interface PaletteCommand {
+  // Stable across reloads, as it is remembered among the recently used items
+  id: string;
+  label: string;
+  group: 'Dashboards' | 'Playlists' | 'Actions';
+  icon: LucideIcon;
+  // Shown next to the label, e.g. the folder or the keyboard shortcut
+  hint?: string;
+  // Further texts the search looks at, e.g. tags
+  keywords?: string[];
+  run: () => void;
+}
+
+interface RankedCommand {
+  command: PaletteCommand;
+  isRecent: boolean;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+// Recently used items get ahead of better but unused matches
+const RECENT_BONUS = 10;
+
+// Keyword matches count for less than matches on the label itself
+const KEYWORD_PENALTY = 2;
+
+function rankCommands(commands: PaletteCommand[], query: string, recentIds: string[]): RankedCommand[] {
+  const recency = (command: PaletteCommand) => recentIds.indexOf(command.id);
+
+  if (!query.trim()) {
+    const recent = recentIds
+      .map(id => commands.find(command => command.id === id))
+      .filter((command): command is PaletteCommand => command !== undefined)
+      .map(command => ({ command, isRecent: true }));
+    const rest = commands
+      .filter(command => recency(command) === -1)
+      .map(command => ({ command, isRecent: false }));
+    return [...recent, ...rest].slice(0, MAX_RESULTS);
+  }
+
+  return commands
+    .map(command => {
+      const labelScore = bestFuzzyScore(query, [command.label]);
+      const keywordScore = bestFuzzyScore(query, command.keywords ?? []);
+      const scores = [labelScore, keywordScore === null ? null : keywordScore - KEYWORD_PENALTY]
+        .filter((score): score is number => score !== null);
+      if (scores.length === 0) return null;
+
+      const index = recency(command);
+      const bonus = index === -1 ? 0 : RECENT_BONUS + (recentIds.length - index) * 0.1;
+      return { command, isRecent: index !== -1, score: Math.max(...scores) + bonus };
+    })
+    .filter((ranked): ranked is RankedCommand & { score: number } => ranked !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+}
+
+// Keyboard-driven search over dashboards, playlists and actions; opened with Ctrl+K
+export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [recentIds] = useState(() => StorageManager.getRecentCommands());
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => rankCommands(commands, query, recentIds), [commands, query, recentIds]);
+
+  // Hand the focus back to whatever had it before the palette opened
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    return () => previous?.focus();
+  }, []);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = (command: PaletteCommand) => {
+    try {
+      StorageManager.saveRecentCommand(command.id);
+    } catch (error) {
+      console.error('Error saving recent command:', error);
+    }
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        if (results.length === 0) break;
+        const offset = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(index => (index + offset + results.length) % results.length);
+        break;
+      }
+      case 'Home':
+        event.preventDefault();
+        setActiveIndex(0);
+        break;
+      case 'End':
+        event.preventDefault();
+        setActiveIndex(Math.max(results.length - 1, 0));
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const selected = results[activeIndex];
+        if (selected) runCommand(selected.command);
+        break;
+      }
+      case 'Escape':
+        // Keep the page from also leaving fullscreen
+        event.stopPropagation();
+        onClose();
+        break;
+      case 'Tab':
+        // Focus stays in the search box; the list is driven by the arrow keys
+        event.preventDefault();
+        break;
+    }
+  };
+
+  const optionId = (index: number) => `command-palette-option-${index}`;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-black/40 pt-[15vh]"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-full max-w-xl rounded-lg bg-white shadow-2xl overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+      >
+        <div className="flex items-center border-b px-3">
+          <Search className="h-4 w-4 text-gray-400 shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Jump to a dashboard, playlist or action..."
+            className="w-full bg-transparent px-2 py-3 text-sm outline-none"
+            autoFocus
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-results"
+            aria-activedescendant={results.length > 0 ? optionId(activeIndex) : undefined}
+            aria-autocomplete="list"
+          />
+        </div>
+
+        <div
+          ref={listRef}
+          id="command-palette-results"
+          className="max-h-80 overflow-y-auto p-1"
+          role="listbox"
+          aria-label="Results"
+        >
+          {results.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-gray-500">Nothing matches "{query}".</p>
+          ) : results.map(({ command, isRecent }, index) => {
+            const Icon = command.icon;
+            const isActive = index === activeIndex;
+
+            return (
+              <div
+                key={command.id}
+                id={optionId(index)}
+                data-index={index}
+                role="option"
+                aria-selected={isActive}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => runCommand(command)}
+                className={`flex cursor-pointer items-center justify-between rounded px-3 py-2 text-sm ${
+                  isActive ? 'bg-blue-600 text-white' : 'text-gray-900'
+                }`}
+              >
+                <span className="flex items-center space-x-2 min-w-0">
+                  <Icon className="h-4 w-4 shrink-0" />
+                  <span className="truncate">{command.label}</span>
+                  {command.hint && (
+                    <span className={`truncate text-xs ${isActive ? 'text-blue-100' : 'text-gray-500'}`}>
+                      {command.hint}
+                    </span>
+                  )}
+                </span>
+                <span className={`flex items-center space-x-1 shrink-0 text-xs ${isActive ? 'text-blue-100' : 'text-gray-400'}`}>
+                  {isRecent && <History className="h-3 w-3" aria-label="Recently used" />}
+                  <span>{command.group}</span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center space-x-4 border-t px-3 py-2 text-xs text-gray-500">
+          <span>↑↓ to move</span>
+          <span>Enter to run</span>
+          <span>Esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+}
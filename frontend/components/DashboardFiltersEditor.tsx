@@ -0,0 +1,184 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { DashboardFilter, FilterOperator, FilterValueType } from '../contexts/DashboardContext';
+import { FILTER_OPERATORS, buildFilterExpression, emptyFilter, validateFilter } from '../utils/filters';
+
+interface DashboardFiltersEditorProps {
+  filters: DashboardFilter[];
+  onChange: (filters: DashboardFilter[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+// Structured editor for the conditions of a report's "filter" URL parameter
+export function DashboardFiltersEditor({ filters, onChange, error, disabled = false }: DashboardFiltersEditorProps) {
+  const updateFilter = (index: number, changes: Partial<DashboardFilter>) => {
+    onChange(filters.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)));
+  };
+
+  const setOperator = (index: number, operator: FilterOperator) => {
+    // Only "in" takes more than one value
+    const values = filters[index].values;
+    updateFilter(index, { operator, values: operator === 'in' ? values : [values[0] ?? ''] });
+  };
+
+  const setValue = (index: number, valueIndex: number, value: string) => {
+    updateFilter(index, { values: filters[index].values.map((v, i) => (i === valueIndex ? value : v)) });
+  };
+
+  const removeValue = (index: number, valueIndex: number) => {
+    updateFilter(index, { values: filters[index].values.filter((_, i) => i !== valueIndex) });
+  };
+
+  const removeFilter = (index: number) => {
+    onChange(filters.filter((_, i) => i !== index));
+  };
+
+  const isComplete = filters.length > 0 && filters.every(filter => validateFilter(filter) === null);
+
+  return (
+    <div className="space-y-2">
+      <Label>Report Filters</Label>
+      {filters.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No filters; the report shows all data.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {filters.map((filter, index) => (
+            <li key={index} className="bg-white border rounded p-2 space-y-2">
+              <div className="flex items-center space-x-1">
+                {index > 0 && <span className="text-xs font-medium text-gray-500 w-8">and</span>}
+                <Input
+                  type="text"
+                  value={filter.table}
+                  onChange={(e) => updateFilter(index, { table: e.target.value })}
+                  placeholder="Table, e.g. Store"
+                  className="flex-1"
+                  aria-label={`Table of filter ${index + 1}`}
+                  disabled={disabled}
+                />
+                <span className="text-gray-400">/</span>
+                <Input
+                  type="text"
+                  value={filter.field}
+                  onChange={(e) => updateFilter(index, { field: e.target.value })}
+                  placeholder="Field, e.g. Territory"
+                  className="flex-1"
+                  aria-label={`Field of filter ${index + 1}`}
+                  disabled={disabled}
+                />
+                <Select
+                  value={filter.operator}
+                  onValueChange={(value) => setOperator(index, value as FilterOperator)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-36" aria-label={`Operator of filter ${index + 1}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FILTER_OPERATORS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={filter.valueType}
+                  onValueChange={(value) => updateFilter(index, { valueType: value as FilterValueType })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-28" aria-label={`Value type of filter ${index + 1}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="text">Text</SelectItem>
+                    <SelectItem value="number">Number</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => removeFilter(index)}
+                  disabled={disabled}
+                  className="text-red-600 hover:text-red-800"
+                  aria-label={`Remove filter ${index + 1}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1 pl-9">
+                {filter.values.map((value, valueIndex) => (
+                  <div key={valueIndex} className="flex items-center">
+                    <Input
+                      type={filter.valueType === 'number' ? 'number' : 'text'}
+                      value={value}
+                      onChange={(e) => setValue(index, valueIndex, e.target.value)}
+                      placeholder="Value"
+                      className="w-40"
+                      aria-label={`Value ${valueIndex + 1} of filter ${index + 1}`}
+                      disabled={disabled}
+                    />
+                    {filter.operator === 'in' && filter.values.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeValue(index, valueIndex)}
+                        disabled={disabled}
+                        aria-label={`Remove value ${valueIndex + 1} of filter ${index + 1}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {filter.operator === 'in' && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateFilter(index, { values: [...filter.values, ''] })}
+                    disabled={disabled}
+                    className="flex items-center space-x-1"
+                  >
+                    <Plus className="h-3 w-3" />
+                    <span>Value</span>
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...filters, emptyFilter])}
+        disabled={disabled}
+        className="flex items-center space-x-1"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add Filter</span>
+      </Button>
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      ) : isComplete ? (
+        <p className="text-sm text-gray-500 break-all">
+          URL filter: <code className="font-mono text-xs">{buildFilterExpression(filters)}</code>
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Pasting a link that already has a filter moves its conditions here.
+        </p>
+      )}
+    </div>
+  );
+}
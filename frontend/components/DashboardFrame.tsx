@@ -5,33 +5,55 @@ import { AlertTriangle, RefreshCw, Zap } from 'lucide-react';
 import { Dashboard } from '../contexts/DashboardContext';
 import { DashboardSkeleton } from './SkeletonLoader';
 import { LoadingSpinner } from './LoadingSpinner';
+import { EmbeddedReport } from './EmbeddedReport';
 import { useDashboardPreloader } from '../hooks/useDashboardPreloader';
 import { useConnectionPool } from '../hooks/useConnectionPool';
+import { pageKey, pageUrl } from '../utils/pages';
+import { CellRotation } from '../utils/layouts';
+import { LoadEvent, recordLoad } from '../utils/telemetry';
+
+type LoadMethod = LoadEvent['loadMethod'];
 
 interface DashboardFrameProps {
   dashboard: Dashboard;
+  pageIndex?: number;
   className?: string;
   currentDashboardIndex: number;
+  currentPageIndex?: number;
   dashboards: Dashboard[];
+  // The rest of the layout on screen, when the frame is one of its cells
+  otherCells?: CellRotation[];
+  // Told whether the dashboard loaded, so the rotation can skip ones that fail
+  onLoadResult?: (dashboardId: string, loaded: boolean, error?: string) => void;
 }
 
+const NO_OTHER_CELLS: CellRotation[] = [];
+
 export function DashboardFrame({ 
   dashboard, 
+  pageIndex = 0,
   className = '', 
   currentDashboardIndex, 
-  dashboards 
+  currentPageIndex = 0,
+  dashboards,
+  otherCells = NO_OTHER_CELLS,
+  onLoadResult
 }: DashboardFrameProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
   const [loadingProgress, setLoadingProgress] = useState(0);
-  const [loadMethod, setLoadMethod] = useState<'preloaded' | 'pooled' | 'fresh'>('fresh');
+  const [loadMethod, setLoadMethod] = useState<LoadMethod>('fresh');
   const [loadTime, setLoadTime] = useState<number | null>(null);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const progressRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const loadStartTime = useRef<number>(0);
+  // The method of the load in progress, for telemetry; the state lags a render behind
+  const attemptMethodRef = useRef<LoadMethod>('fresh');
+  // A failed fresh load reports its error twice; it is one measurement
+  const isRecordedRef = useRef(false);
 
   const maxRetries = 3;
   const loadTimeout = 15000; // 15 seconds
@@ -42,21 +64,27 @@ export function DashboardFrame({
     removePreloadedDashboard,
     getPreloadStats,
     isPreloading,
-  } = useDashboardPreloader(dashboards, currentDashboardIndex);
+  } = useDashboardPreloader(dashboards, currentDashboardIndex, currentPageIndex, otherCells);
 
   const {
     acquireConnection,
     releaseConnection,
     getPoolStats,
     isWarmingUp,
-  } = useConnectionPool(dashboards);
+  } = useConnectionPool(dashboards, otherCells);
+
+  // Each page of a publish-to-web dashboard is a URL of its own
+  const url = pageUrl(dashboard, pageIndex);
+  const key = pageKey(dashboard, pageIndex);
 
   useEffect(() => {
+    // Embedded reports are rendered by EmbeddedReport instead of an iframe
+    if (dashboard.type === 'embedded') return;
     loadDashboard();
     return () => {
       cleanup();
     };
-  }, [dashboard.url, retryCount]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [url, dashboard.type, retryCount]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const cleanup = () => {
     if (timeoutRef.current) {
@@ -75,6 +103,8 @@ export function DashboardFrame({
     setLoadingProgress(0);
     setLoadTime(null);
     loadStartTime.current = Date.now();
+    attemptMethodRef.current = 'fresh';
+    isRecordedRef.current = false;
     
     // Start progress simulation
     let progress = 0;
@@ -91,19 +121,21 @@ export function DashboardFrame({
         setIsLoading(false);
         setLoadingProgress(0);
         cleanup();
+        recordLoadTelemetry(false);
+        onLoadResult?.(dashboard.id, false, 'Timed out while loading');
       }
     }, loadTimeout);
 
     try {
       // Try to get preloaded iframe first
-      const preloadedIframe = getPreloadedIframe(dashboard.id);
+      const preloadedIframe = getPreloadedIframe(key);
       if (preloadedIframe) {
         await usePreloadedIframe(preloadedIframe);
         return;
       }
 
-      // Try to get pooled connection
-      const pooledIframe = await acquireConnection(dashboard.id);
+      // Try to get pooled connection; the pool only holds a dashboard's first page
+      const pooledIframe = pageIndex === 0 ? await acquireConnection(dashboard.id) : null;
       if (pooledIframe) {
         await usePooledIframe(pooledIframe);
         return;
@@ -119,7 +151,7 @@ export function DashboardFrame({
 
   const usePreloadedIframe = async (preloadedIframe: HTMLIFrameElement) => {
     try {
-      setLoadMethod('preloaded');
+      beginAttempt('preloaded');
       
       // Clone the preloaded iframe
       const clonedIframe = preloadedIframe.cloneNode(true) as HTMLIFrameElement;
@@ -138,7 +170,7 @@ export function DashboardFrame({
       }
 
       // Remove the preloaded iframe since we've used it
-      removePreloadedDashboard(dashboard.id);
+      removePreloadedDashboard(key);
       
       // Simulate a brief loading time for the clone
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -148,7 +180,7 @@ export function DashboardFrame({
     } catch (error) {
       console.warn('Failed to use preloaded iframe:', error);
       // Fall back to pooled or fresh
-      const pooledIframe = await acquireConnection(dashboard.id);
+      const pooledIframe = pageIndex === 0 ? await acquireConnection(dashboard.id) : null;
       if (pooledIframe) {
         await usePooledIframe(pooledIframe);
       } else {
@@ -159,7 +191,7 @@ export function DashboardFrame({
 
   const usePooledIframe = async (pooledIframe: HTMLIFrameElement) => {
     try {
-      setLoadMethod('pooled');
+      beginAttempt('pooled');
       
       // Move the pooled iframe to the display container
       if (containerRef.current && pooledIframe.parentNode) {
@@ -183,10 +215,10 @@ export function DashboardFrame({
 
   const createFreshIframe = async () => {
     return new Promise<void>((resolve, reject) => {
-      setLoadMethod('fresh');
+      beginAttempt('fresh');
       
       const iframe = document.createElement('iframe');
-      iframe.src = dashboard.url;
+      iframe.src = url;
       iframe.style.cssText = `
         width: 100%;
         height: 100%;
@@ -225,6 +257,25 @@ export function DashboardFrame({
     });
   };
 
+  const beginAttempt = (method: LoadMethod) => {
+    attemptMethodRef.current = method;
+    setLoadMethod(method);
+  };
+
+  const recordLoadTelemetry = (succeeded: boolean) => {
+    if (isRecordedRef.current) return;
+    isRecordedRef.current = true;
+    recordLoad({
+      dashboardId: dashboard.id,
+      pageName: dashboard.pages[pageIndex]?.name,
+      loadMethod: attemptMethodRef.current,
+      loadTimeMs: Date.now() - loadStartTime.current,
+      retryCount,
+      succeeded,
+      occurredAt: new Date(),
+    });
+  };
+
   const handleLoad = () => {
     const totalLoadTime = Date.now() - loadStartTime.current;
     setLoadTime(totalLoadTime);
@@ -233,6 +284,8 @@ export function DashboardFrame({
     setLoadingProgress(100);
     
     cleanup();
+    recordLoadTelemetry(true);
+    onLoadResult?.(dashboard.id, true);
     
     // Complete the progress bar
     setTimeout(() => setLoadingProgress(0), 500);
@@ -245,6 +298,8 @@ export function DashboardFrame({
     setLoadTime(null);
     
     cleanup();
+    recordLoadTelemetry(false);
+    onLoadResult?.(dashboard.id, false, 'Failed to load');
   };
 
   const handleRetry = () => {
@@ -290,6 +345,17 @@ export function DashboardFrame({
     }
   };
 
+  if (dashboard.type === 'embedded') {
+    return (
+      <EmbeddedReport
+        dashboard={dashboard}
+        pageName={dashboard.pages[pageIndex]?.name}
+        className={className}
+        onLoadResult={onLoadResult}
+      />
+    );
+  }
+
   if (hasError) {
     return (
       <div className={`flex items-center justify-center h-full ${className}`}>
@@ -1,7 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useDashboards } from '../contexts/DashboardContext';
+import { useLayouts } from '../contexts/LayoutContext';
+import { usePlaylists } from '../contexts/PlaylistContext';
+import { useSchedule } from '../contexts/ScheduleContext';
 import { useSettings } from '../contexts/SettingsContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -18,23 +21,52 @@ import {
   RotateCcw,
   Settings,
   Zap,
-  Activity
+  Activity,
+  CalendarClock,
+  Search,
+  LayoutDashboard,
+  ListVideo,
+  SkipForward
 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { useUserActivity } from '../hooks/useUserActivity';
 import { useAutoRotation } from '../hooks/useAutoRotation';
+import { useDashboardProbation } from '../hooks/useDashboardProbation';
 import { useDashboardPreloader } from '../hooks/useDashboardPreloader';
 import { useConnectionPool } from '../hooks/useConnectionPool';
+import { useLayoutRotation } from '../hooks/useLayoutRotation';
+import { useScheduledPlaylist } from '../hooks/useScheduledPlaylist';
+import { useRemoteControl, RemoteCommand } from '../hooks/useRemoteControl';
+import { pageLabel } from '../utils/pages';
+import { folderLabel, folderPath } from '../utils/catalog';
+import { CellRotation } from '../utils/layouts';
 import { DashboardFrame } from './DashboardFrame';
 import { ErrorBoundary } from './ErrorBoundary';
 import { NavigationSkeleton } from './SkeletonLoader';
 import { FullPageLoader } from './LoadingSpinner';
 import { CooldownTimer } from './CooldownTimer';
+import { DashboardPicker } from './DashboardPicker';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
+import { CommandPalette, PaletteCommand } from './CommandPalette';
+import { LayoutGrid } from './LayoutGrid';
+
+// Select value standing in for "no playlist", i.e. rotate through every dashboard
+const ALL_DASHBOARDS = 'all';
 
 export default function DashboardPage() {
-  const { isAuthenticated, logout } = useAuth();
-  const { dashboards } = useDashboards();
+  const { user, hasRole, logout } = useAuth();
+  const {
+    playlists,
+    activePlaylist,
+    activeDashboards: dashboards,
+    setActivePlaylistId,
+    assignedPlaylistId,
+    assignedLayoutId,
+  } = usePlaylists();
+  const { dashboards: allDashboards, folders } = useDashboards();
+  const { layouts } = useLayouts();
   const { settings } = useSettings();
+  const { schedule } = useSchedule();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -43,27 +75,26 @@ export default function DashboardPage() {
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [isNavigationLoading, setIsNavigationLoading] = useState(false);
   const [showPerformanceStats, setShowPerformanceStats] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const hasAutoStartedRef = useRef(false);
+  // A dashboard the remote control asked for, shown once the rotation includes it
+  const pendingShowRef = useRef<string | null>(null);
   
   const isUserActive = useUserActivity();
+  const { isScheduled, activeWindow, scheduledPlaylistId } = useScheduledPlaylist(schedule);
+  const { probation, skippedIds, reportLoad } = useDashboardProbation(dashboards);
   const { 
     currentDashboardIndex, 
+    currentPageIndex,
+    canRotate,
     isRotating, 
     timeRemaining, 
+    currentInterval,
     startRotation, 
     stopRotation, 
-    nextDashboard 
-  } = useAutoRotation(dashboards, isUserActive, settings.rotationInterval);
-
-  // Initialize performance optimization hooks
-  const { getPreloadStats, isPreloading } = useDashboardPreloader(dashboards, currentDashboardIndex);
-  const { getPoolStats, isWarmingUp } = useConnectionPool(dashboards);
-
-  useEffect(() => {
-    if (!isAuthenticated) {
-      navigate('/');
-    }
-  }, [isAuthenticated, navigate]);
+    advanceRotation 
+  } = useAutoRotation(dashboards, isUserActive, settings.rotationInterval, skippedIds);
 
   useEffect(() => {
     // Simulate initial loading
@@ -74,17 +105,83 @@ export default function DashboardPage() {
     return () => clearTimeout(timer);
   }, []);
 
+  // Follow the schedule whenever a window starts or ends; a playlist picked by
+  // hand stays on screen until the next scheduled change. Displays with an
+  // assigned playlist ignore the schedule.
   useEffect(() => {
-    if (dashboards.length > 0 && !selectedDashboard) {
+    if (isScheduled && !assignedPlaylistId) {
+      setActivePlaylistId(scheduledPlaylistId);
+    }
+  }, [isScheduled, scheduledPlaylistId, activeWindow?.id, assignedPlaylistId, setActivePlaylistId]);
+
+  // Commands pushed from the settings page to this display
+  const handleRemoteCommand = useCallback((command: RemoteCommand) => {
+    switch (command.action) {
+      case 'next':
+        advanceRotation();
+        break;
+      case 'pause':
+        stopRotation();
+        break;
+      case 'play':
+        startRotation();
+        break;
+      case 'show':
+        if (dashboards.some(d => d.id === command.dashboardId)) {
+          setSelectedDashboard(command.dashboardId!);
+        } else if (allDashboards.some(d => d.id === command.dashboardId)) {
+          // Outside the playlist: rotate through every dashboard, which includes it
+          pendingShowRef.current = command.dashboardId!;
+          setActivePlaylistId(null);
+        } else {
+          console.warn('Remote control asked for an unknown dashboard:', command.dashboardId);
+        }
+        break;
+      case 'reload':
+        window.location.reload();
+        break;
+    }
+  }, [dashboards, allDashboards, setActivePlaylistId, advanceRotation, stopRotation, startRotation]);
+
+  useRemoteControl(
+    !!user?.displayId,
+    { dashboardId: selectedDashboard || undefined, isRotating },
+    handleRemoteCommand
+  );
+
+  // Paired displays have nobody at the remote to press start
+  useEffect(() => {
+    if (user?.displayId && !hasAutoStartedRef.current && canRotate) {
+      hasAutoStartedRef.current = true;
+      startRotation();
+    }
+  }, [user?.displayId, canRotate, startRotation]);
+
+  // Fall back to the first dashboard when nothing is selected yet or the
+  // selected one has been deleted elsewhere
+  useEffect(() => {
+    if (dashboards.length > 0 && !dashboards.some(d => d.id === selectedDashboard)) {
       setSelectedDashboard(dashboards[0].id);
     }
   }, [dashboards, selectedDashboard]);
 
+  // Follow the rotation; a reloaded dashboard list alone does not move the
+  // selection, so a dashboard picked by hand stays on screen
+  const rotatingDashboardId = dashboards[currentDashboardIndex]?.id;
   useEffect(() => {
-    if (dashboards[currentDashboardIndex]) {
-      setSelectedDashboard(dashboards[currentDashboardIndex].id);
+    if (rotatingDashboardId) {
+      setSelectedDashboard(rotatingDashboardId);
     }
-  }, [currentDashboardIndex, dashboards]);
+  }, [rotatingDashboardId]);
+
+  // Show the dashboard the remote control asked for once the switch to all dashboards is in
+  useEffect(() => {
+    const pendingId = pendingShowRef.current;
+    if (pendingId && dashboards.some(d => d.id === pendingId)) {
+      pendingShowRef.current = null;
+      setSelectedDashboard(pendingId);
+    }
+  }, [dashboards]);
 
   // Cursor management for idle state
   useEffect(() => {
@@ -106,8 +203,8 @@ export default function DashboardPage() {
     };
   }, [isUserActive, showNavigation]);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/');
     toast({
       title: "Logged out",
@@ -176,20 +273,24 @@ export default function DashboardPage() {
             break;
           case 'r':
             event.preventDefault();
-            if (dashboards.length > 1) {
+            if (canRotate) {
               isRotating ? stopRotation() : startRotation();
             }
             break;
           case 'n':
             event.preventDefault();
-            if (dashboards.length > 1) {
-              nextDashboard();
+            if (canRotate) {
+              advanceRotation();
             }
             break;
           case 'p':
             event.preventDefault();
             togglePerformanceStats();
             break;
+          case 'k':
+            event.preventDefault();
+            setIsPaletteOpen(open => !open);
+            break;
         }
       }
       
@@ -210,9 +311,122 @@ export default function DashboardPage() {
       document.removeEventListener('fullscreenchange', handleFullscreenChange);
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [isFullscreen, showNavigation, dashboards.length, isRotating, startRotation, stopRotation, nextDashboard]);
+  }, [isFullscreen, showNavigation, canRotate, isRotating, startRotation, stopRotation, advanceRotation]);
 
   const currentDashboard = dashboards.find(d => d.id === selectedDashboard);
+  // Pages only step while the rotating dashboard is on screen; one picked by hand starts at its first page
+  const visiblePageIndex = currentDashboard?.id === rotatingDashboardId ? currentPageIndex : 0;
+  const visiblePageLabel = currentDashboard ? pageLabel(currentDashboard, visiblePageIndex) : null;
+
+  // A layout shows the rotation in its main cell next to dashboards of its own; the
+  // playlist entry's layout takes precedence over the one assigned to the display
+  const activeLayoutId = currentDashboard?.layoutId ?? assignedLayoutId;
+  const activeLayout = layouts.find(layout => layout.id === activeLayoutId) ?? null;
+  const { cells: layoutCells } = useLayoutRotation(activeLayout, isUserActive, settings.rotationInterval);
+  const ownCells = layoutCells.filter(({ cell }) => cell.content !== 'main');
+  const mainCell: CellRotation = {
+    dashboards,
+    step: { dashboardIndex: currentDashboard ? dashboards.indexOf(currentDashboard) : 0, pageIndex: visiblePageIndex },
+  };
+
+  // Initialize performance optimization hooks
+  const { getPreloadStats, isPreloading } = useDashboardPreloader(dashboards, currentDashboardIndex, currentPageIndex, ownCells);
+  const { getPoolStats, isWarmingUp } = useConnectionPool(dashboards, ownCells);
+
+  const probationSummary = probation.map(entry => {
+    const name = dashboards.find(d => d.id === entry.dashboardId)?.name ?? entry.dashboardId;
+    const reason = entry.reason === 'load' ? 'failed to load here' : 'reported down by the health check';
+    return `${name}: ${reason}${entry.error ? ` (${entry.error})` : ''}`;
+  }).join('\n');
+
+  // Built only while the command palette is open
+  const paletteCommands = (): PaletteCommand[] => {
+    const dashboardCommands = dashboards.map((dashboard): PaletteCommand => ({
+      id: `dashboard:${dashboard.id}`,
+      label: dashboard.name,
+      group: 'Dashboards',
+      icon: LayoutDashboard,
+      hint: folderLabel(folders, dashboard.folderId) || undefined,
+      keywords: [...dashboard.tags, ...folderPath(folders, dashboard.folderId)],
+      run: () => setSelectedDashboard(dashboard.id),
+    }));
+
+    const playlistCommands: PaletteCommand[] = playlists.length === 0 ? [] : [
+      {
+        id: 'playlist:all',
+        label: 'All dashboards',
+        group: 'Playlists',
+        icon: ListVideo,
+        hint: activePlaylist ? undefined : 'Playing',
+        run: () => setActivePlaylistId(null),
+      },
+      ...playlists.map((playlist): PaletteCommand => ({
+        id: `playlist:${playlist.id}`,
+        label: playlist.name,
+        group: 'Playlists',
+        icon: ListVideo,
+        hint: activePlaylist?.id === playlist.id ? 'Playing' : undefined,
+        run: () => setActivePlaylistId(playlist.id),
+      })),
+    ];
+
+    const actions: Omit<PaletteCommand, 'group'>[] = [];
+    if (canRotate) {
+      actions.push({
+        id: 'action:rotation',
+        label: isRotating ? 'Pause rotation' : 'Start rotation',
+        icon: isRotating ? Pause : Play,
+        hint: 'Ctrl+R',
+        keywords: ['play', 'stop', 'resume'],
+        run: isRotating ? stopRotation : startRotation,
+      }, {
+        id: 'action:next',
+        label: 'Next page or dashboard',
+        icon: SkipForward,
+        hint: 'Ctrl+N',
+        keywords: ['advance', 'skip'],
+        run: advanceRotation,
+      });
+    }
+    actions.push({
+      id: 'action:fullscreen',
+      label: isFullscreen ? 'Exit fullscreen' : 'Enter fullscreen',
+      icon: isFullscreen ? Minimize : Maximize,
+      hint: 'Ctrl+F',
+      run: toggleFullscreen,
+    }, {
+      id: 'action:navigation',
+      label: showNavigation ? 'Hide navigation' : 'Show navigation',
+      icon: showNavigation ? EyeOff : Eye,
+      hint: 'Ctrl+H',
+      keywords: ['menu', 'toolbar'],
+      run: handleNavigationToggle,
+    }, {
+      id: 'action:stats',
+      label: `${showPerformanceStats ? 'Hide' : 'Show'} performance stats`,
+      icon: Activity,
+      hint: 'Ctrl+P',
+      run: togglePerformanceStats,
+    });
+    if (hasRole('editor')) {
+      actions.push({
+        id: 'action:settings',
+        label: 'Open settings',
+        icon: Settings,
+        keywords: ['configure', 'manage'],
+        run: handleSettingsNavigation,
+      });
+    }
+    actions.push({
+      id: 'action:logout',
+      label: 'Log out',
+      icon: LogOut,
+      keywords: ['sign out'],
+      run: handleLogout,
+    });
+
+    return [...dashboardCommands, ...playlistCommands, ...actions.map(action => ({ ...action, group: 'Actions' as const }))];
+  };
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -230,16 +444,84 @@ export default function DashboardPage() {
     };
   };
 
-  if (!isAuthenticated) {
-    return null;
-  }
-
   if (isInitialLoading) {
     return <FullPageLoader text="Initializing Dashboard..." />;
   }
 
   const performanceStats = getPerformanceStats();
 
+  // The rotation, filling the screen or the main cell of a layout
+  const mainContent = currentDashboard ? (
+    <ErrorBoundary
+      fallback={
+        <div className="flex items-center justify-center h-full">
+          <Card className="w-96">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Settings className="h-5 w-5" />
+                <span>Dashboard Error</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-600 mb-4">
+                There was an error loading the dashboard component.
+              </p>
+              <Button
+                onClick={() => window.location.reload()}
+                className="w-full flex items-center space-x-2"
+              >
+                <Settings className="h-4 w-4" />
+                <span>Reload Page</span>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      }
+    >
+      <DashboardFrame 
+        dashboard={currentDashboard} 
+        pageIndex={visiblePageIndex}
+        currentDashboardIndex={currentDashboardIndex}
+        currentPageIndex={currentPageIndex}
+        dashboards={dashboards}
+        otherCells={ownCells}
+        onLoadResult={reportLoad}
+      />
+    </ErrorBoundary>
+  ) : (
+    <div className="flex items-center justify-center h-full">
+      <Card className="w-96">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Settings className="h-5 w-5" />
+            <span>No Dashboard Available</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-gray-600 mb-4">
+            {dashboards.length === 0 
+              ? activePlaylist
+                ? `The playlist "${activePlaylist.name}" has no dashboards.`
+                : "No dashboards have been configured yet."
+              : "Please select a dashboard from the dropdown menu above."
+            }
+          </p>
+          {hasRole('editor') && (
+            <Button
+              onClick={handleSettingsNavigation}
+              className="w-full flex items-center space-x-2"
+              aria-label="Go to settings to configure dashboards"
+              disabled={isNavigationLoading}
+            >
+              <Settings className="h-4 w-4" />
+              <span>Go to Settings</span>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+
   return (
     <ErrorBoundary>
       <div 
@@ -268,6 +550,7 @@ export default function DashboardPage() {
                       <h1 className="text-xl font-semibold text-gray-900">
                         REO Dashboard Viewer
                       </h1>
+                      <WorkspaceSwitcher />
                     </div>
                     <div className="flex items-center space-x-2">
                       <Badge 
@@ -290,6 +573,49 @@ export default function DashboardPage() {
                   </div>
                   
                   <div className="flex items-center space-x-4">
+                    {/* Playlist Selector */}
+                    {playlists.length > 0 && (
+                      <div className="flex items-center space-x-2">
+                        <label 
+                          htmlFor="playlist-select"
+                          className="text-sm font-medium text-gray-700"
+                        >
+                          Playlist:
+                        </label>
+                        <Select 
+                          value={activePlaylist?.id ?? ALL_DASHBOARDS} 
+                          onValueChange={(value) => setActivePlaylistId(value === ALL_DASHBOARDS ? null : value)}
+                        >
+                          <SelectTrigger 
+                            className="w-48"
+                            id="playlist-select"
+                            aria-label="Select playlist to rotate through"
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL_DASHBOARDS}>All dashboards</SelectItem>
+                            {playlists.map((playlist) => (
+                              <SelectItem key={playlist.id} value={playlist.id}>
+                                {playlist.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {isScheduled && !assignedPlaylistId && (activePlaylist?.id ?? null) === scheduledPlaylistId && (
+                          <Badge 
+                            variant="outline" 
+                            className="text-xs flex items-center space-x-1"
+                            aria-label={activeWindow ? `Scheduled until ${activeWindow.end}` : 'Scheduled default'}
+                            title={`Schedule timezone: ${schedule.timezone}`}
+                          >
+                            <CalendarClock className="h-3 w-3" />
+                            <span>{activeWindow ? `Until ${activeWindow.end}` : 'Scheduled'}</span>
+                          </Badge>
+                        )}
+                      </div>
+                    )}
+
                     {/* Dashboard Selector */}
                     <div className="flex items-center space-x-2">
                       <label 
@@ -298,29 +624,26 @@ export default function DashboardPage() {
                       >
                         Dashboard:
                       </label>
-                      <Select 
-                        value={selectedDashboard} 
-                        onValueChange={setSelectedDashboard}
-                      >
-                        <SelectTrigger 
-                          className="w-48"
-                          id="dashboard-select"
-                          aria-label="Select dashboard to view"
+                      <DashboardPicker
+                        id="dashboard-select"
+                        dashboards={dashboards}
+                        folders={folders}
+                        value={selectedDashboard}
+                        onChange={setSelectedDashboard}
+                      />
+                      {visiblePageLabel && (
+                        <Badge 
+                          variant="outline" 
+                          className="text-xs"
+                          aria-label={`Report page: ${visiblePageLabel}`}
                         >
-                          <SelectValue placeholder="Select dashboard" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {dashboards.map((dashboard) => (
-                            <SelectItem key={dashboard.id} value={dashboard.id}>
-                              {dashboard.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                          {visiblePageLabel}
+                        </Badge>
+                      )}
                     </div>
 
                     {/* Rotation Controls */}
-                    {dashboards.length > 1 && (
+                    {canRotate && (
                       <div 
                         className="flex items-center space-x-2"
                         role="group"
@@ -351,19 +674,30 @@ export default function DashboardPage() {
                           <Badge 
                             variant="outline" 
                             className="text-xs"
-                            aria-label={`Next dashboard in ${formatTime(timeRemaining)}`}
+                            aria-label={`Next page or dashboard in ${formatTime(timeRemaining)}`}
                           >
                             Next: {formatTime(timeRemaining)}
                           </Badge>
                         )}
+
+                        {probation.length > 0 && (
+                          <Badge 
+                            variant="outline" 
+                            className="text-xs border-amber-400 text-amber-800"
+                            title={probationSummary}
+                            aria-label={`${probation.length} unhealthy dashboard${probation.length === 1 ? '' : 's'} skipped: ${probationSummary}`}
+                          >
+                            Skipping {probation.length}
+                          </Badge>
+                        )}
                         
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={nextDashboard}
+                          onClick={advanceRotation}
                           className="flex items-center space-x-1"
-                          aria-label="Go to next dashboard"
-                          title="Next dashboard (Ctrl+N)"
+                          aria-label="Go to next page or dashboard"
+                          title="Next page or dashboard (Ctrl+N)"
                         >
                           <RotateCcw className="h-4 w-4" />
                           <span>Next</span>
@@ -380,27 +714,41 @@ export default function DashboardPage() {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={togglePerformanceStats}
+                        onClick={() => setIsPaletteOpen(true)}
                         className="flex items-center space-x-1"
-                        aria-label="Toggle performance statistics"
-                        title="Performance stats (Ctrl+P)"
+                        aria-label="Open command palette"
+                        title="Jump to a dashboard, playlist or action (Ctrl+K)"
                       >
-                        <Activity className="h-4 w-4" />
-                        <span>Stats</span>
+                        <Search className="h-4 w-4" />
+                        <span>Jump to</span>
                       </Button>
 
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={handleSettingsNavigation}
+                        onClick={togglePerformanceStats}
                         className="flex items-center space-x-1"
-                        aria-label="Open settings page"
-                        disabled={isNavigationLoading}
+                        aria-label="Toggle performance statistics"
+                        title="Performance stats (Ctrl+P)"
                       >
-                        <Settings className="h-4 w-4" />
-                        <span>Settings</span>
+                        <Activity className="h-4 w-4" />
+                        <span>Stats</span>
                       </Button>
 
+                      {hasRole('editor') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleSettingsNavigation}
+                          className="flex items-center space-x-1"
+                          aria-label="Open settings page"
+                          disabled={isNavigationLoading}
+                        >
+                          <Settings className="h-4 w-4" />
+                          <span>Settings</span>
+                        </Button>
+                      )}
+
                       <Button
                         variant="outline"
                         size="sm"
@@ -495,7 +843,9 @@ export default function DashboardPage() {
                     <span className="font-medium">System</span>
                   </div>
                   <div className="space-y-1 text-xs text-gray-600">
+                    <div>Playlist: {activePlaylist?.name ?? 'All dashboards'}</div>
                     <div>Dashboards: {dashboards.length}</div>
+                    {activeLayout && <div>Layout: {activeLayout.name}</div>}
                     <div>User: {isUserActive ? 'Active' : 'Idle'}</div>
                   </div>
                 </div>
@@ -505,10 +855,10 @@ export default function DashboardPage() {
         )}
 
         {/* Cooldown Timer - Only visible when rotation is active and navigation is hidden */}
-        {isRotating && !showNavigation && dashboards.length > 1 && (
+        {isRotating && !showNavigation && canRotate && (
           <CooldownTimer
             timeRemaining={timeRemaining}
-            totalTime={settings.rotationInterval}
+            totalTime={currentInterval}
             isActive={!isUserActive}
           />
         )}
@@ -518,70 +868,16 @@ export default function DashboardPage() {
           className={`${showNavigation ? (showPerformanceStats ? 'h-[calc(100vh-140px)]' : 'h-[calc(100vh-80px)]') : 'h-screen'} w-full`}
           aria-label="Dashboard content area"
         >
-          {currentDashboard ? (
-            <ErrorBoundary
-              fallback={
-                <div className="flex items-center justify-center h-full">
-                  <Card className="w-96">
-                    <CardHeader>
-                      <CardTitle className="flex items-center space-x-2">
-                        <Settings className="h-5 w-5" />
-                        <span>Dashboard Error</span>
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-gray-600 mb-4">
-                        There was an error loading the dashboard component.
-                      </p>
-                      <Button
-                        onClick={() => window.location.reload()}
-                        className="w-full flex items-center space-x-2"
-                      >
-                        <Settings className="h-4 w-4" />
-                        <span>Reload Page</span>
-                      </Button>
-                    </CardContent>
-                  </Card>
-                </div>
-              }
-            >
-              <DashboardFrame 
-                dashboard={currentDashboard} 
-                currentDashboardIndex={currentDashboardIndex}
-                dashboards={dashboards}
-              />
-            </ErrorBoundary>
-          ) : (
-            <div className="flex items-center justify-center h-full">
-              <Card className="w-96">
-                <CardHeader>
-                  <CardTitle className="flex items-center space-x-2">
-                    <Settings className="h-5 w-5" />
-                    <span>No Dashboard Available</span>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-gray-600 mb-4">
-                    {dashboards.length === 0 
-                      ? "No dashboards have been configured yet."
-                      : "Please select a dashboard from the dropdown menu above."
-                    }
-                  </p>
-                  <Button
-                    onClick={handleSettingsNavigation}
-                    className="w-full flex items-center space-x-2"
-                    aria-label="Go to settings to configure dashboards"
-                    disabled={isNavigationLoading}
-                  >
-                    <Settings className="h-4 w-4" />
-                    <span>Go to Settings</span>
-                  </Button>
-                </CardContent>
-              </Card>
-            </div>
-          )}
+          {activeLayout ? (
+            <LayoutGrid layout={activeLayout} cells={layoutCells} mainContent={mainContent} mainCell={mainCell} />
+          ) : mainContent}
         </main>
 
+        {/* Command Palette (inside the container so it also shows in fullscreen) */}
+        {isPaletteOpen && (
+          <CommandPalette commands={paletteCommands()} onClose={() => setIsPaletteOpen(false)} />
+        )}
+
         {/* Floating Navigation Toggle (when nav is hidden) */}
         {!showNavigation && (
           <Button
@@ -604,8 +900,9 @@ export default function DashboardPage() {
             <li>Ctrl+F: Toggle fullscreen</li>
             <li>Ctrl+H: Toggle navigation</li>
             <li>Ctrl+R: Start/stop rotation</li>
-            <li>Ctrl+N: Next dashboard</li>
+            <li>Ctrl+N: Next page or dashboard</li>
             <li>Ctrl+P: Toggle performance stats</li>
+            <li>Ctrl+K: Open the command palette</li>
             <li>Escape: Exit fullscreen or show navigation</li>
           </ul>
         </div>
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, X, ArrowUp, ArrowDown } from 'lucide-react';
+import { MIN_DURATION_SECONDS, MAX_DURATION_SECONDS } from '../utils/duration';
+
+export interface PageForm {
+  name: string;
+  displayName: string;
+  duration: string; // seconds; empty means the dashboard's dwell time
+}
+
+interface DashboardPagesEditorProps {
+  pages: PageForm[];
+  onChange: (pages: PageForm[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+export const emptyPage: PageForm = { name: '', displayName: '', duration: '' };
+
+// Ordered list of report pages a dashboard steps through before the rotation moves on
+export function DashboardPagesEditor({ pages, onChange, error, disabled = false }: DashboardPagesEditorProps) {
+  const updatePage = (index: number, changes: Partial<PageForm>) => {
+    onChange(pages.map((page, i) => (i === index ? { ...page, ...changes } : page)));
+  };
+
+  const movePage = (index: number, offset: -1 | 1) => {
+    const updated = [...pages];
+    const [moved] = updated.splice(index, 1);
+    updated.splice(index + offset, 0, moved);
+    onChange(updated);
+  };
+
+  const removePage = (index: number) => {
+    onChange(pages.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Report Pages</Label>
+      {pages.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No pages added; the dashboard is shown as a whole.
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {pages.map((page, index) => (
+            <li key={index} className="flex items-center space-x-1 bg-white border rounded p-2">
+              <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+              <Input
+                type="text"
+                value={page.name}
+                onChange={(e) => updatePage(index, { name: e.target.value })}
+                placeholder="Page name, e.g. ReportSection2"
+                className="flex-1 font-mono"
+                aria-label={`Report page name of page ${index + 1}`}
+                disabled={disabled}
+              />
+              <Input
+                type="text"
+                value={page.displayName}
+                onChange={(e) => updatePage(index, { displayName: e.target.value })}
+                placeholder="Label (optional)"
+                className="w-40"
+                aria-label={`Label of page ${index + 1}`}
+                disabled={disabled}
+              />
+              <Input
+                type="number"
+                min={MIN_DURATION_SECONDS}
+                max={MAX_DURATION_SECONDS}
+                value={page.duration}
+                onChange={(e) => updatePage(index, { duration: e.target.value })}
+                placeholder="Default"
+                className="w-28"
+                aria-label={`Dwell time in seconds of page ${index + 1}`}
+                title="Seconds on screen; leave empty to use the dashboard's dwell time"
+                disabled={disabled}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => movePage(index, -1)}
+                disabled={index === 0 || disabled}
+                aria-label={`Move page ${index + 1} up`}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => movePage(index, 1)}
+                disabled={index === pages.length - 1 || disabled}
+                aria-label={`Move page ${index + 1} down`}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => removePage(index)}
+                disabled={disabled}
+                className="text-red-600 hover:text-red-800"
+                aria-label={`Remove page ${index + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...pages, emptyPage])}
+        disabled={disabled}
+        className="flex items-center space-x-1"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add Page</span>
+      </Button>
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500">
+          The page name is the "pageName" parameter in the report's URL. Pages are shown in this order before the next dashboard.
+        </p>
+      )}
+    </div>
+  );
+}
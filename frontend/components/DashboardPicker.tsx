@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Dashboard, Folder } from '../contexts/DashboardContext';
+import { Badge } from '@/components/ui/badge';
+import { Check, ChevronDown, Folder as FolderIcon } from 'lucide-react';
+import { CatalogFilterBar } from './CatalogFilterBar';
+import { CatalogFilter, collectTags, emptyCatalogFilter, groupByFolder, matchesCatalogFilter } from '../utils/catalog';
+
+interface DashboardPickerProps {
+  dashboards: Dashboard[];
+  folders: Folder[];
+  value: string;
+  onChange: (id: string) => void;
+  id?: string;
+}
+
+// Dashboard selector grouped by folder, with a filter for catalogs too long to scroll through
+export function DashboardPicker({ dashboards, folders, value, onChange, id }: DashboardPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState<CatalogFilter>(emptyCatalogFilter);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const selected = dashboards.find(d => d.id === value);
+  const tags = useMemo(() => collectTags(dashboards), [dashboards]);
+  const groups = useMemo(
+    () => groupByFolder(dashboards.filter(d => matchesCatalogFilter(d, filter, folders)), folders),
+    [dashboards, folders, filter]
+  );
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const pick = (dashboardId: string) => {
+    onChange(dashboardId);
+    setIsOpen(false);
+    setFilter(emptyCatalogFilter);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      // Keep the page from also leaving fullscreen
+      event.stopPropagation();
+      setIsOpen(false);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const first = groups[0]?.dashboards[0];
+      if (first) pick(first.id);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        id={id}
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex h-9 w-56 items-center justify-between rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        aria-label="Select dashboard to view"
+      >
+        <span className={`truncate ${selected ? '' : 'text-muted-foreground'}`}>
+          {selected?.name ?? 'Select dashboard'}
+        </span>
+        <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-80 rounded-md border bg-white p-2 shadow-lg">
+          <CatalogFilterBar filter={filter} onChange={setFilter} tags={tags} autoFocus onKeyDown={handleKeyDown} />
+          <div className="mt-2 max-h-96 overflow-y-auto" role="listbox" aria-label="Dashboards">
+            {groups.length === 0 ? (
+              <p className="px-2 py-4 text-center text-sm text-gray-500">No dashboards match the filter.</p>
+            ) : groups.map(group => (
+              <div key={group.folderId ?? 'top-level'} role="group" aria-label={group.label || 'No folder'}>
+                {group.label && (
+                  <div className="flex items-center space-x-1 px-2 pt-2 pb-1 text-xs font-medium text-gray-500">
+                    <FolderIcon className="h-3 w-3" />
+                    <span className="truncate">{group.label}</span>
+                  </div>
+                )}
+                {group.dashboards.map(dashboard => (
+                  <button
+                    key={dashboard.id}
+                    type="button"
+                    role="option"
+                    aria-selected={dashboard.id === value}
+                    onClick={() => pick(dashboard.id)}
+                    className={`flex w-full items-center justify-between rounded px-2 py-1.5 text-left text-sm hover:bg-gray-100 ${
+                      group.label ? 'pl-6' : ''
+                    }`}
+                  >
+                    <span className="truncate">{dashboard.name}</span>
+                    <span className="flex items-center space-x-1 shrink-0">
+                      {dashboard.tags.slice(0, 2).map(tag => (
+                        <Badge key={tag} variant="outline" className="text-[10px] px-1 py-0">{tag}</Badge>
+                      ))}
+                      {dashboard.id === value && <Check className="h-4 w-4 text-blue-600" />}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useDashboards } from '../contexts/DashboardContext';
+import { usePlaylists } from '../contexts/PlaylistContext';
+import { useLayouts } from '../contexts/LayoutContext';
+import { RemoteCommand, RemoteStatus } from '../hooks/useRemoteControl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Monitor, Plus, Edit, Trash2, Save, X, MapPin, ListVideo, LayoutGrid, SkipForward, Play, Pause, RotateCcw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { DashboardListSkeleton } from './SkeletonLoader';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface Display {
+  id: string;
+  name: string;
+  location: string;
+  playlistId?: string;
+  layoutId?: string;
+  isPaired: boolean;
+  lastSeenAt?: Date;
+  live?: RemoteStatus; // present while the screen is connected
+  createdAt: Date;
+}
+
+interface DisplayForm {
+  code: string;
+  name: string;
+  location: string;
+  playlistId: string;
+  layoutId: string;
+}
+
+// Select value standing in for "no playlist", i.e. rotate through every dashboard
+const NO_PLAYLIST = 'none';
+
+// Select value standing in for "no layout", i.e. one dashboard fills the screen
+const NO_LAYOUT = 'none';
+
+const emptyForm: DisplayForm = { code: '', name: '', location: '', playlistId: NO_PLAYLIST, layoutId: NO_LAYOUT };
+
+// How often the list refreshes so online state and what is on screen stay current
+const LIVE_REFRESH_INTERVAL_MS = 10000;
+// Give the screen a moment to act on a command before reading its status back
+const COMMAND_SETTLE_DELAY_MS = 1000;
+
+export function DisplayManagement() {
+  const { dashboards } = useDashboards();
+  const { playlists } = usePlaylists();
+  const { layouts } = useLayouts();
+  const { toast } = useToast();
+
+  const [displays, setDisplays] = useState<Display[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<DisplayForm>(emptyForm);
+  const [isFormSubmitting, setIsFormSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [commandingId, setCommandingId] = useState<string | null>(null);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadDisplays = useCallback(async () => {
+    try {
+      const response = await backend.displays.list();
+      setDisplays(response.displays);
+    } catch (error) {
+      showError('Unable to Load Displays', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadDisplays();
+    const intervalId = setInterval(loadDisplays, LIVE_REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [loadDisplays]);
+
+  const dashboardName = (id?: string) => dashboards.find(d => d.id === id)?.name ?? 'Unknown dashboard';
+
+  const playlistName = (id?: string) =>
+    id ? playlists.find(p => p.id === id)?.name ?? 'Unknown playlist' : 'All dashboards';
+  const layoutName = (id?: string) =>
+    id ? layouts.find(layout => layout.id === id)?.name ?? 'Unknown layout' : null;
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setIsAddingNew(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsFormSubmitting(true);
+
+    const input = {
+      name: formData.name.trim(),
+      location: formData.location.trim(),
+      playlistId: formData.playlistId === NO_PLAYLIST ? undefined : formData.playlistId,
+      layoutId: formData.layoutId === NO_LAYOUT ? undefined : formData.layoutId,
+    };
+
+    try {
+      if (editingId) {
+        const saved = await backend.displays.update({ id: editingId, ...input });
+        setDisplays(prev => prev.map(display => display.id === editingId ? saved : display));
+        toast({
+          title: "Display Updated",
+          description: `"${saved.name}" has been updated.`,
+        });
+      } else {
+        const created = await backend.displays.register({ code: formData.code, ...input });
+        setDisplays(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+        toast({
+          title: "Display Registered",
+          description: `"${created.name}" will start rotating within a few seconds.`,
+        });
+      }
+      resetForm();
+    } catch (error) {
+      showError(editingId ? 'Update Failed' : 'Registration Failed', error);
+    } finally {
+      setIsFormSubmitting(false);
+    }
+  };
+
+  const handleCommand = async (display: Display, command: RemoteCommand) => {
+    setCommandingId(display.id);
+    try {
+      await backend.displays.sendCommand({ id: display.id, ...command });
+      setTimeout(loadDisplays, COMMAND_SETTLE_DELAY_MS);
+    } catch (error) {
+      showError('Command Failed', error);
+    } finally {
+      setCommandingId(null);
+    }
+  };
+
+  const handleEdit = (display: Display) => {
+    setFormData({
+      code: '',
+      name: display.name,
+      location: display.location,
+      playlistId: display.playlistId ?? NO_PLAYLIST,
+      layoutId: display.layoutId ?? NO_LAYOUT,
+    });
+    setEditingId(display.id);
+    setIsAddingNew(false);
+  };
+
+  const handleDelete = async (display: Display) => {
+    if (window.confirm(`Are you sure you want to remove the display "${display.name}"? It will have to be paired again.`)) {
+      setDeletingId(display.id);
+      try {
+        await backend.displays.remove({ id: display.id });
+        setDisplays(prev => prev.filter(d => d.id !== display.id));
+        toast({
+          title: "Display Removed",
+          description: `"${display.name}" has been signed out.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        showError('Delete Failed', error);
+      } finally {
+        setDeletingId(null);
+      }
+    }
+  };
+
+  const isFormOpen = isAddingNew || editingId !== null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Monitor className="h-5 w-5" />
+            <span>Displays</span>
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={() => {
+              setFormData(emptyForm);
+              setEditingId(null);
+              setIsAddingNew(true);
+            }}
+            disabled={isFormOpen}
+            className="flex items-center space-x-2"
+            aria-label="Register new display"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Register Display</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isFormOpen && (
+          <form onSubmit={handleSubmit} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+            {isAddingNew && (
+              <p className="text-sm text-gray-600">
+                Open <span className="font-mono">/pair</span> on the screen and enter the code it shows.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {isAddingNew && (
+                <div className="space-y-2">
+                  <Label htmlFor="display-code">Pairing Code *</Label>
+                  <Input
+                    id="display-code"
+                    value={formData.code}
+                    onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                    placeholder="e.g., ABC-123"
+                    className="font-mono tracking-widest"
+                    autoComplete="off"
+                    required
+                    disabled={isFormSubmitting}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="display-name">Name *</Label>
+                <Input
+                  id="display-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Lobby TV"
+                  required
+                  disabled={isFormSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="display-location">Location</Label>
+                <Input
+                  id="display-location"
+                  value={formData.location}
+                  onChange={(e) => setFormData(prev => ({ ...prev, location: e.target.value }))}
+                  placeholder="e.g., Building A, ground floor"
+                  disabled={isFormSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="display-playlist">Playlist</Label>
+                <Select
+                  value={formData.playlistId}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, playlistId: value }))}
+                >
+                  <SelectTrigger id="display-playlist" aria-label="Select playlist for this display">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PLAYLIST}>All dashboards (follow schedule)</SelectItem>
+                    {playlists.map((playlist) => (
+                      <SelectItem key={playlist.id} value={playlist.id}>
+                        {playlist.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="display-layout">Layout</Label>
+                <Select
+                  value={formData.layoutId}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, layoutId: value }))}
+                >
+                  <SelectTrigger id="display-layout" aria-label="Select layout for this display">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LAYOUT}>No layout (one dashboard at a time)</SelectItem>
+                    {layouts.map((layout) => (
+                      <SelectItem key={layout.id} value={layout.id}>
+                        {layout.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">Playlist entries with a layout of their own use that one instead.</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button type="submit" className="flex items-center space-x-2" disabled={isFormSubmitting}>
+                {isFormSubmitting ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+                <span>{editingId ? 'Save Display' : 'Register'}</span>
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={resetForm}
+                className="flex items-center space-x-2"
+                disabled={isFormSubmitting}
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <DashboardListSkeleton />
+        ) : displays.length === 0 ? (
+          <p className="text-sm text-gray-500">No displays registered yet.</p>
+        ) : (
+          <div className="grid gap-3">
+            {displays.map((display) => (
+              <div key={display.id} className="border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{display.name}</span>
+                      {!display.isPaired ? (
+                        <Badge variant="outline" className="text-xs">Waiting for screen</Badge>
+                      ) : display.live ? (
+                        <Badge variant="secondary" className="text-xs bg-green-100 text-green-800">Online</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">Offline</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-4 text-sm text-gray-500">
+                      {display.location && (
+                        <span className="flex items-center space-x-1">
+                          <MapPin className="h-3 w-3" />
+                          <span>{display.location}</span>
+                        </span>
+                      )}
+                      <span className="flex items-center space-x-1">
+                        <ListVideo className="h-3 w-3" />
+                        <span>{playlistName(display.playlistId)}</span>
+                      </span>
+                      {layoutName(display.layoutId) && (
+                        <span className="flex items-center space-x-1">
+                          <LayoutGrid className="h-3 w-3" />
+                          <span>{layoutName(display.layoutId)}</span>
+                        </span>
+                      )}
+                      {display.lastSeenAt && (
+                        <span>Last seen {display.lastSeenAt.toLocaleString()}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(display)}
+                      disabled={isFormOpen || deletingId === display.id}
+                      className="flex items-center space-x-1"
+                      aria-label={`Edit ${display.name}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                      <span>Edit</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(display)}
+                      disabled={deletingId === display.id}
+                      className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                      aria-label={`Remove ${display.name}`}
+                    >
+                      {deletingId === display.id ? <LoadingSpinner size="sm" /> : <Trash2 className="h-4 w-4" />}
+                      <span>Remove</span>
+                    </Button>
+                  </div>
+                </div>
+
+                {display.live && (
+                  <div className="flex items-center justify-between mt-3 pt-3 border-t">
+                    <span className="text-sm text-gray-600">
+                      {display.live.dashboardId ? `Showing ${dashboardName(display.live.dashboardId)}` : 'Nothing on screen'}
+                      {' · '}
+                      {display.live.isRotating ? 'rotating' : 'paused'}
+                    </span>
+                    <div className="flex items-center space-x-2">
+                      <Select
+                        value=""
+                        onValueChange={(dashboardId) => handleCommand(display, { action: 'show', dashboardId })}
+                        disabled={commandingId === display.id}
+                      >
+                        <SelectTrigger className="w-48 h-9" aria-label={`Show a dashboard on ${display.name}`}>
+                          <SelectValue placeholder="Show dashboard..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {dashboards.map((dashboard) => (
+                            <SelectItem key={dashboard.id} value={dashboard.id}>
+                              {dashboard.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCommand(display, { action: display.live!.isRotating ? 'pause' : 'play' })}
+                        disabled={commandingId === display.id}
+                        aria-label={`${display.live.isRotating ? 'Pause' : 'Resume'} rotation on ${display.name}`}
+                      >
+                        {display.live.isRotating ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCommand(display, { action: 'next' })}
+                        disabled={commandingId === display.id}
+                        aria-label={`Next dashboard on ${display.name}`}
+                      >
+                        <SkipForward className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCommand(display, { action: 'reload' })}
+                        disabled={commandingId === display.id}
+                        aria-label={`Reload ${display.name}`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { service, factories, models, Report } from 'powerbi-client';
+import backend from '~backend/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, FileBarChart, RefreshCw } from 'lucide-react';
+import { Dashboard } from '../contexts/DashboardContext';
+import { LoadingSpinner } from './LoadingSpinner';
+import { toReportFilters } from '../utils/filters';
+
+// A single embedding service for the whole app, as the Power BI client recommends
+const powerbi = new service.Service(factories.hpmFactory, factories.wpmpFactory, factories.routerFactory);
+
+const TOKEN_REFRESH_MARGIN_MS = 2 * 60 * 1000; // renew this long before the token expires
+const TOKEN_RETRY_DELAY_MS = 30 * 1000;
+
+interface EmbeddedReportProps {
+  dashboard: Dashboard;
+  pageName?: string; // the report page to show; the report's own default when unset
+  className?: string;
+  onLoadResult?: (dashboardId: string, loaded: boolean, error?: string) => void;
+}
+
+export function EmbeddedReport({ dashboard, pageName, className = '', onLoadResult }: EmbeddedReportProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isMock, setIsMock] = useState(false);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<Date | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const reportRef = useRef<Report | null>(null);
+  const isReportLoadedRef = useRef(false);
+  // Read when the report loads, so switching pages does not re-embed it
+  const pageNameRef = useRef(pageName);
+  pageNameRef.current = pageName;
+  const onLoadResultRef = useRef(onLoadResult);
+  onLoadResultRef.current = onLoadResult;
+  // Edited filters embed the report again
+  const filtersKey = JSON.stringify(dashboard.filters);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleRefresh = (expiresAt: Date) => {
+      const delay = Math.max(expiresAt.getTime() - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+      refreshTimer = setTimeout(refreshToken, delay);
+    };
+
+    // Swap in a new token without reloading the report, so the screen never goes blank
+    const refreshToken = async () => {
+      try {
+        const embed = await backend.powerbi.embedToken({ dashboardId: dashboard.id });
+        if (cancelled) return;
+        await reportRef.current?.setAccessToken(embed.token);
+        setTokenExpiresAt(embed.expiresAt);
+        scheduleRefresh(embed.expiresAt);
+      } catch (error) {
+        console.warn(`Failed to refresh embed token for "${dashboard.name}":`, error);
+        if (!cancelled) {
+          refreshTimer = setTimeout(refreshToken, TOKEN_RETRY_DELAY_MS);
+        }
+      }
+    };
+
+    const embedReport = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const embed = await backend.powerbi.embedToken({ dashboardId: dashboard.id });
+        if (cancelled) return;
+
+        setIsMock(embed.isMock);
+        setTokenExpiresAt(embed.expiresAt);
+        scheduleRefresh(embed.expiresAt);
+
+        // Mock tokens are only good for exercising the refresh cycle; Power BI would reject them
+        if (embed.isMock) {
+          setIsLoading(false);
+          onLoadResultRef.current?.(dashboard.id, true);
+          return;
+        }
+
+        const report = powerbi.embed(container, {
+          type: 'report',
+          id: embed.reportId,
+          embedUrl: embed.embedUrl,
+          accessToken: embed.token,
+          tokenType: models.TokenType.Embed,
+          pageName: pageNameRef.current,
+          filters: toReportFilters(dashboard.filters),
+          settings: {
+            panes: {
+              filters: { visible: false },
+              pageNavigation: { visible: false },
+            },
+          },
+        }) as Report;
+        reportRef.current = report;
+
+        const embeddedPageName = pageNameRef.current;
+        report.on('loaded', () => {
+          if (cancelled) return;
+          isReportLoadedRef.current = true;
+          setIsLoading(false);
+          onLoadResultRef.current?.(dashboard.id, true);
+          // The rotation may have moved on while the report was loading
+          if (pageNameRef.current && pageNameRef.current !== embeddedPageName) {
+            report.setPage(pageNameRef.current).catch(error => console.warn('Failed to switch report page:', error));
+          }
+        });
+        report.on('error', (event) => {
+          const detail = (event as CustomEvent<models.IError>).detail;
+          console.error(`Embedded report "${dashboard.name}" error:`, detail);
+          // Power BI reports recoverable problems through the same event
+          if (!cancelled && detail?.level === models.TraceType.Fatal) {
+            setError(detail.message);
+            setIsLoading(false);
+            onLoadResultRef.current?.(dashboard.id, false, detail.message);
+          }
+        });
+      } catch (error) {
+        console.error('Error embedding report:', error);
+        if (!cancelled) {
+          const message = error instanceof Error ? error.message : 'Unable to embed the report';
+          setError(message);
+          setIsLoading(false);
+          onLoadResultRef.current?.(dashboard.id, false, message);
+        }
+      }
+    };
+
+    embedReport();
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+      reportRef.current?.off('loaded');
+      reportRef.current?.off('error');
+      reportRef.current = null;
+      isReportLoadedRef.current = false;
+      powerbi.reset(container);
+    };
+  }, [dashboard.id, dashboard.workspaceId, dashboard.reportId, filtersKey, retryCount]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Step through report pages in place rather than embedding the report again
+  useEffect(() => {
+    if (!pageName || !isReportLoadedRef.current || !reportRef.current) return;
+    reportRef.current.setPage(pageName).catch(error => {
+      console.warn(`Failed to show page "${pageName}" of "${dashboard.name}":`, error);
+    });
+  }, [pageName]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <div className={`relative h-full ${className}`}>
+      {isLoading && (
+        <div className="absolute inset-0 bg-white bg-opacity-90 z-10 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <LoadingSpinner size="lg" />
+            <div className="space-y-2">
+              <p className="text-lg font-medium text-gray-900">Loading Report</p>
+              <p className="text-sm text-gray-600">"{dashboard.name}"</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* The container stays mounted behind the error so a retry can embed into it */}
+      {error && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-white">
+          <Card className="w-96">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-red-600">
+                <AlertTriangle className="h-5 w-5" />
+                <span>Report Embed Error</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-600 mb-2">
+                Unable to embed "{dashboard.name}".
+              </p>
+              <p className="text-sm text-gray-500 mb-4">{error}</p>
+              <Button
+                onClick={() => setRetryCount(prev => prev + 1)}
+                className="w-full flex items-center space-x-2"
+              >
+                <RefreshCw className="h-4 w-4" />
+                <span>Retry</span>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {isMock && !isLoading && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-gray-50">
+          <Card className="w-96">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileBarChart className="h-5 w-5 text-blue-600" />
+                <span>{dashboard.name}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm text-gray-600">
+              <p>
+                Power BI credentials are not configured, so this embedded report is shown with a mock token.
+              </p>
+              <p className="font-mono text-xs break-all">
+                Report {dashboard.reportId}{pageName && `, page ${pageName}`}
+              </p>
+              {tokenExpiresAt && (
+                <p className="text-xs text-gray-500">
+                  Token renews before {tokenExpiresAt.toLocaleTimeString()}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <div ref={containerRef} className="w-full h-full" />
+    </div>
+  );
+}
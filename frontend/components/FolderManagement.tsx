@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { useDashboards, Folder } from '../contexts/DashboardContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { FolderTree, FolderPlus, Edit, Trash2, Save, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { LoadingSpinner } from './LoadingSpinner';
+import { folderDescendants, folderTree } from '../utils/catalog';
+
+interface FolderForm {
+  name: string;
+  parentId: string; // TOP_LEVEL for none
+}
+
+// Select value standing in for "no parent", i.e. the top level
+const TOP_LEVEL = 'top';
+
+const emptyForm: FolderForm = { name: '', parentId: TOP_LEVEL };
+
+export function FolderManagement() {
+  const { dashboards, folders, addFolder, updateFolder, deleteFolder } = useDashboards();
+  const { toast } = useToast();
+
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<FolderForm>(emptyForm);
+  const [isFormSubmitting, setIsFormSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // A folder cannot move into itself or below itself
+  const excludedParents = editingId ? folderDescendants(folders, editingId) : new Set<string>();
+  const parentOptions = folderTree(folders).filter(({ folder }) => !excludedParents.has(folder.id));
+
+  const handleCancel = () => {
+    setIsAddingNew(false);
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsFormSubmitting(true);
+
+    const folder = {
+      name: formData.name.trim(),
+      parentId: formData.parentId === TOP_LEVEL ? undefined : formData.parentId,
+    };
+
+    try {
+      if (editingId) {
+        await updateFolder(editingId, folder);
+        toast({
+          title: "Folder Updated",
+          description: `"${folder.name}" has been updated successfully.`,
+        });
+      } else {
+        await addFolder(folder);
+        toast({
+          title: "Folder Added",
+          description: `"${folder.name}" has been added successfully.`,
+        });
+      }
+      handleCancel();
+    } catch (error) {
+      console.error('Error saving folder:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : 'Unable to save the folder.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsFormSubmitting(false);
+    }
+  };
+
+  const handleEdit = (folder: Folder) => {
+    setIsAddingNew(false);
+    setEditingId(folder.id);
+    setFormData({ name: folder.name, parentId: folder.parentId ?? TOP_LEVEL });
+  };
+
+  const handleDelete = async (folder: Folder) => {
+    if (window.confirm(`Delete the folder "${folder.name}"? Its dashboards and subfolders move up a level.`)) {
+      setDeletingId(folder.id);
+
+      try {
+        await deleteFolder(folder.id);
+        toast({
+          title: "Folder Deleted",
+          description: `"${folder.name}" has been deleted.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        console.error('Error deleting folder:', error);
+        toast({
+          title: "Delete Failed",
+          description: error instanceof Error ? error.message : 'Unable to delete the folder.',
+          variant: "destructive",
+        });
+      } finally {
+        setDeletingId(null);
+      }
+    }
+  };
+
+  const folderForm = (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end border rounded-lg p-3 bg-gray-50">
+      <div className="space-y-1">
+        <Label htmlFor="folder-name">Name</Label>
+        <Input
+          id="folder-name"
+          value={formData.name}
+          onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="e.g., Finance"
+          maxLength={50}
+          required
+          disabled={isFormSubmitting}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="folder-parent">Inside</Label>
+        <Select
+          value={formData.parentId}
+          onValueChange={(value) => setFormData(prev => ({ ...prev, parentId: value }))}
+          disabled={isFormSubmitting}
+        >
+          <SelectTrigger id="folder-parent">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+            {parentOptions.map(({ folder, depth }) => (
+              <SelectItem key={folder.id} value={folder.id}>
+                <span style={{ paddingLeft: `${depth}rem` }}>{folder.name}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Button type="submit" size="sm" className="flex items-center space-x-1" disabled={isFormSubmitting}>
+          {isFormSubmitting ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+          <span>{editingId ? 'Update' : 'Add'}</span>
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleCancel}
+          className="flex items-center space-x-1"
+          disabled={isFormSubmitting}
+        >
+          <X className="h-4 w-4" />
+          <span>Cancel</span>
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <FolderTree className="h-5 w-5" />
+            <span>Folders</span>
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={() => {
+              setEditingId(null);
+              setFormData(emptyForm);
+              setIsAddingNew(true);
+            }}
+            disabled={isAddingNew || editingId !== null}
+            className="flex items-center space-x-2"
+            aria-label="Add new folder"
+          >
+            <FolderPlus className="h-4 w-4" />
+            <span>Add Folder</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isAddingNew && folderForm}
+
+        {folders.length === 0 && !isAddingNew ? (
+          <p className="text-sm text-gray-600">
+            No folders yet. Folders group dashboards in the dashboard selector and the list above.
+          </p>
+        ) : (
+          <div className="grid gap-2">
+            {folderTree(folders).map(({ folder, depth }) => {
+              const count = dashboards.filter(d => d.folderId === folder.id).length;
+
+              return editingId === folder.id ? (
+                <div key={folder.id}>{folderForm}</div>
+              ) : (
+                <div
+                  key={folder.id}
+                  className={`flex items-center justify-between border rounded-lg p-2 ${deletingId === folder.id ? 'opacity-50' : ''}`}
+                  style={{ marginLeft: `${depth * 1.5}rem` }}
+                >
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{folder.name}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {count} dashboard{count === 1 ? '' : 's'}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(folder)}
+                      disabled={isAddingNew || editingId !== null || deletingId !== null}
+                      className="flex items-center space-x-1"
+                      aria-label={`Edit folder ${folder.name}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                      <span>Edit</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(folder)}
+                      disabled={isAddingNew || editingId !== null || deletingId !== null}
+                      className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                      aria-label={`Delete folder ${folder.name}`}
+                    >
+                      {deletingId === folder.id ? <LoadingSpinner size="sm" /> : <Trash2 className="h-4 w-4" />}
+                      <span>Delete</span>
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useDashboards } from '../contexts/DashboardContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Activity, RefreshCw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { DashboardListSkeleton } from './SkeletonLoader';
+
+type HealthHistory = Awaited<ReturnType<typeof backend.health.getHistory>>;
+type DashboardHistory = HealthHistory['dashboards'][number];
+type Incident = DashboardHistory['incidents'][number];
+
+const windowOptions = [
+  { value: 24, label: 'Last 24 hours' },
+  { value: 168, label: 'Last 7 days' },
+  { value: 720, label: 'Last 30 days' },
+];
+
+const TREND_WIDTH = 240;
+const TREND_HEIGHT = 32;
+
+function uptimeBadgeClass(uptime: number): string {
+  if (uptime >= 99) return 'bg-green-100 text-green-800';
+  if (uptime >= 95) return 'bg-amber-100 text-amber-800';
+  return 'bg-red-100 text-red-800';
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${Math.max(minutes, 1)} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+}
+
+// Position of a moment across the window, from 0 to 1
+function offsetIn(date: Date, since: Date, until: Date): number {
+  const span = until.getTime() - since.getTime();
+  return Math.min(Math.max((date.getTime() - since.getTime()) / span, 0), 1);
+}
+
+function LatencyTrend({ history, since, until }: { history: DashboardHistory; since: Date; until: Date }) {
+  if (history.latency.length < 2) {
+    return <p className="text-xs text-gray-500">Not enough checks for a trend</p>;
+  }
+
+  const max = Math.max(...history.latency.map(point => point.averageMs), 1);
+  const points = history.latency.map(point => {
+    const x = offsetIn(point.bucketStart, since, until) * TREND_WIDTH;
+    const y = TREND_HEIGHT - (point.averageMs / max) * (TREND_HEIGHT - 2) - 1;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const latest = history.latency[history.latency.length - 1];
+
+  return (
+    <div className="flex items-center space-x-2">
+      <svg
+        width={TREND_WIDTH}
+        height={TREND_HEIGHT}
+        className="text-blue-600"
+        role="img"
+        aria-label={`Latency trend, peaking at ${max} ms`}
+      >
+        <polyline points={points.join(' ')} fill="none" stroke="currentColor" strokeWidth={1.5} />
+      </svg>
+      <span className="text-xs text-gray-600 whitespace-nowrap">
+        {latest.averageMs} ms now, {max} ms peak
+      </span>
+    </div>
+  );
+}
+
+function IncidentTimeline({ incidents, since, until }: { incidents: Incident[]; since: Date; until: Date }) {
+  return (
+    <div
+      className="relative h-3 w-full bg-green-200 rounded overflow-hidden"
+      role="img"
+      aria-label={`${incidents.length} incident${incidents.length === 1 ? '' : 's'} in this window`}
+    >
+      {incidents.map((incident, index) => {
+        const start = offsetIn(incident.startedAt, since, until);
+        const end = offsetIn(incident.endedAt ?? until, since, until);
+        return (
+          <div
+            key={index}
+            className={`absolute inset-y-0 ${incident.status === 'offline' ? 'bg-red-500' : 'bg-amber-500'}`}
+            // Keep short incidents visible at any window size
+            style={{ left: `${start * 100}%`, width: `max(${(end - start) * 100}%, 2px)` }}
+            title={`${incident.startedAt.toLocaleString()}: ${incident.error ?? incident.status}`}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+// Uptime, latency and incidents recorded by the scheduled health checks
+export function HealthHistory() {
+  const { dashboards } = useDashboards();
+  const { toast } = useToast();
+
+  const [hours, setHours] = useState(24);
+  const [history, setHistory] = useState<HealthHistory | null>(null);
+  const [loadedAt, setLoadedAt] = useState(new Date());
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setHistory(await backend.health.getHistory({ hours }));
+      setLoadedAt(new Date());
+    } catch (error) {
+      console.error('Error loading health history:', error);
+      toast({
+        title: "Unable to Load Health History",
+        description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [hours, toast]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const historyById = new Map(history?.dashboards.map(entry => [entry.dashboardId, entry]));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Activity className="h-5 w-5" />
+            <span>Health History</span>
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select value={hours.toString()} onValueChange={(value) => setHours(parseInt(value))}>
+              <SelectTrigger className="w-40" aria-label="Select history window">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {windowOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value.toString()}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={loadHistory}
+              disabled={isLoading}
+              aria-label="Reload health history"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !history ? (
+          <DashboardListSkeleton />
+        ) : dashboards.length === 0 ? (
+          <p className="text-sm text-gray-600">No dashboards to report on yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {dashboards.map(dashboard => {
+              const entry = historyById.get(dashboard.id);
+              const since = history?.since ?? loadedAt;
+
+              return (
+                <li key={dashboard.id} className="border rounded p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">{dashboard.name}</span>
+                    {entry?.uptimePercent !== undefined ? (
+                      <Badge className={uptimeBadgeClass(entry.uptimePercent)}>
+                        {entry.uptimePercent}% uptime
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">No checks yet</Badge>
+                    )}
+                  </div>
+
+                  {entry && (
+                    <>
+                      <LatencyTrend history={entry} since={since} until={loadedAt} />
+                      <IncidentTimeline incidents={entry.incidents} since={since} until={loadedAt} />
+                      <div className="flex justify-between text-xs text-gray-500">
+                        <span>{since.toLocaleString()}</span>
+                        <span>{entry.checks} checks</span>
+                        <span>Now</span>
+                      </div>
+
+                      {entry.incidents.length > 0 && (
+                        <ul className="text-sm space-y-1">
+                          {[...entry.incidents].reverse().map((incident, index) => (
+                            <li key={index} className="flex items-start space-x-2">
+                              <span className={`mt-1.5 h-2 w-2 rounded-full flex-shrink-0 ${incident.status === 'offline' ? 'bg-red-500' : 'bg-amber-500'}`} />
+                              <span className="text-gray-700">
+                                {incident.startedAt.toLocaleString()}
+                                {incident.endedAt
+                                  ? `, down for ${formatDuration(incident.endedAt.getTime() - incident.startedAt.getTime())}`
+                                  : ', still failing'}
+                                {incident.error && <span className="text-gray-500"> ({incident.error})</span>}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import React, { ReactNode } from 'react';
+import { LayoutGrid as LayoutGridIcon } from 'lucide-react';
+import { Layout } from '../contexts/LayoutContext';
+import { LayoutCellView } from '../hooks/useLayoutRotation';
+import { CellRotation, cellStyle, gridStyle } from '../utils/layouts';
+import { DashboardFrame } from './DashboardFrame';
+import { ErrorBoundary } from './ErrorBoundary';
+
+interface LayoutGridProps {
+  layout: Layout;
+  cells: LayoutCellView[];
+  // What the main cell shows: the rotation, as it would fill the screen without a layout
+  mainContent: ReactNode;
+  // The rotation's step on screen, so the other cells know what the main cell shows
+  mainCell: CellRotation;
+}
+
+// Several dashboards on one screen, each cell in its own frame
+export function LayoutGrid({ layout, cells, mainContent, mainCell }: LayoutGridProps) {
+  const hasMainCell = cells.some(({ cell }) => cell.content === 'main');
+  const ownCells = cells.filter(({ cell }) => cell.content !== 'main');
+
+  return (
+    <div
+      className="h-full w-full gap-1 bg-gray-300 p-1"
+      style={gridStyle(layout)}
+      aria-label={`Layout: ${layout.name}`}
+    >
+      {cells.map((view, index) => {
+        if (view.cell.content === 'main') {
+          return (
+            <div key={index} style={cellStyle(view.cell)} className="min-h-0 min-w-0 overflow-hidden bg-gray-50">
+              {mainContent}
+            </div>
+          );
+        }
+
+        const dashboard = view.dashboards[view.step.dashboardIndex];
+        const otherCells = [...(hasMainCell ? [mainCell] : []), ...ownCells.filter(other => other !== view)];
+
+        return (
+          <div
+            key={index}
+            style={cellStyle(view.cell)}
+            className="min-h-0 min-w-0 overflow-hidden bg-gray-50"
+            aria-label={dashboard ? `Cell ${index + 1}: ${dashboard.name}` : `Cell ${index + 1}`}
+          >
+            {dashboard ? (
+              <ErrorBoundary>
+                <DashboardFrame
+                  dashboard={dashboard}
+                  pageIndex={view.step.pageIndex}
+                  currentDashboardIndex={view.step.dashboardIndex}
+                  currentPageIndex={view.step.pageIndex}
+                  dashboards={view.dashboards}
+                  otherCells={otherCells}
+                />
+              </ErrorBoundary>
+            ) : (
+              <div className="flex h-full flex-col items-center justify-center space-y-2 text-sm text-gray-500">
+                <LayoutGridIcon className="h-6 w-6" />
+                <span>The dashboards of this cell have been deleted.</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
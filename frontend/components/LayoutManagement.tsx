@@ -0,0 +1,566 @@
+import React, { useState } from 'react';
+import { useDashboards } from '../contexts/DashboardContext';
+import { useLayouts, Layout, LayoutCell, LayoutCellContent, LayoutPreset } from '../contexts/LayoutContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { LayoutGrid, Plus, Edit, Trash2, Save, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { LoadingSpinner } from './LoadingSpinner';
+import { DashboardPicker } from './DashboardPicker';
+import { MIN_DURATION_SECONDS, MAX_DURATION_SECONDS, isValidDuration, parseDuration } from '../utils/duration';
+import {
+  MAX_GRID_SIZE,
+  MAX_ROTATION_DASHBOARDS,
+  PRESET_LABELS,
+  applyPreset,
+  cellStyle,
+  freeSquare,
+  gridError,
+  gridStyle,
+  hasMainCell,
+} from '../utils/layouts';
+
+type LayoutForm = Omit<Layout, 'id'>;
+
+interface FormErrors {
+  name?: string;
+  cells?: string;
+}
+
+const CONTENT_LABELS: Record<LayoutCellContent, string> = {
+  main: 'Follows the rotation',
+  dashboard: 'One dashboard',
+  rotation: 'Own rotation',
+};
+
+// A 2x2 grid with the rotation in the first cell, the most common start for a big screen
+const newForm = (): LayoutForm => {
+  const grid = applyPreset({ preset: 'custom', columns: 1, rows: 1, cells: [] }, '2x2');
+  return {
+    name: '',
+    ...grid,
+    cells: grid.cells.map((cell, index) => index === 0 ? { ...cell, content: 'main' } : cell),
+  };
+};
+
+// Screens split into several dashboards at once, used by playlist entries and displays
+export function LayoutManagement() {
+  const { dashboards, folders } = useDashboards();
+  const { layouts, addLayout, updateLayout, deleteLayout } = useLayouts();
+  const { toast } = useToast();
+
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<LayoutForm>(newForm);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isFormSubmitting, setIsFormSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const dashboardName = (id: string) => dashboards.find(d => d.id === id)?.name ?? 'Unknown dashboard';
+  const isCustom = formData.preset === 'custom';
+
+  const validateForm = (data: LayoutForm): FormErrors => {
+    const errors: FormErrors = {};
+
+    if (!data.name) {
+      errors.name = 'Layout name is required';
+    } else if (data.name.length < 3) {
+      errors.name = 'Layout name must be at least 3 characters';
+    } else if (data.name.length > 50) {
+      errors.name = 'Layout name must be less than 50 characters';
+    } else if (layouts.some(l => l.name.toLowerCase() === data.name.toLowerCase() && l.id !== editingId)) {
+      errors.name = 'A layout with this name already exists';
+    }
+
+    const emptyCell = data.cells.findIndex(cell => cell.content !== 'main' && cell.dashboardIds.length === 0);
+    const badInterval = data.cells.findIndex(cell =>
+      cell.content === 'rotation' && cell.intervalSeconds !== undefined && !isValidDuration(cell.intervalSeconds)
+    );
+
+    if (data.cells.length === 0) {
+      errors.cells = 'Add at least one cell';
+    } else if (gridError(data)) {
+      errors.cells = gridError(data)!;
+    } else if (emptyCell !== -1) {
+      errors.cells = `Choose a dashboard for cell ${emptyCell + 1}`;
+    } else if (badInterval !== -1) {
+      errors.cells = `The interval of cell ${badInterval + 1} must be whole seconds between ${MIN_DURATION_SECONDS} and ${MAX_DURATION_SECONDS}`;
+    } else if (data.cells.filter(cell => cell.content === 'main').length > 1) {
+      errors.cells = 'Only one cell can follow the rotation';
+    }
+
+    return errors;
+  };
+
+  const setPreset = (preset: string) => {
+    setFormData(prev => ({ ...prev, ...applyPreset(prev, preset as LayoutPreset) }));
+  };
+
+  const setGridSize = (dimension: 'columns' | 'rows', value: string) => {
+    const size = parseInt(value, 10);
+    if (!Number.isInteger(size) || size < 1 || size > MAX_GRID_SIZE) return;
+    setFormData(prev => ({ ...prev, [dimension]: size }));
+  };
+
+  const updateCell = (index: number, changes: Partial<LayoutCell>) => {
+    setFormData(prev => ({
+      ...prev,
+      cells: prev.cells.map((cell, i) => i === index ? { ...cell, ...changes } : cell),
+    }));
+  };
+
+  const setCellArea = (index: number, field: 'column' | 'row' | 'columnSpan' | 'rowSpan', value: string) => {
+    const number = parseInt(value, 10);
+    if (Number.isInteger(number) && number >= 1) {
+      updateCell(index, { [field]: number });
+    }
+  };
+
+  // Switching what a cell shows keeps as many of its dashboards as still fit
+  const setCellContent = (index: number, content: LayoutCellContent) => {
+    const cell = formData.cells[index];
+    updateCell(index, {
+      content,
+      dashboardIds: content === 'main' ? [] : content === 'dashboard' ? cell.dashboardIds.slice(0, 1) : cell.dashboardIds,
+      intervalSeconds: content === 'rotation' ? cell.intervalSeconds : undefined,
+    });
+  };
+
+  const addCell = () => {
+    const area = freeSquare(formData);
+    if (!area) return;
+    setFormData(prev => ({ ...prev, cells: [...prev.cells, { ...area, content: 'dashboard', dashboardIds: [] }] }));
+  };
+
+  const removeCell = (index: number) => {
+    setFormData(prev => ({ ...prev, cells: prev.cells.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedData = { ...formData, name: formData.name.trim() };
+
+    const validationErrors = validateForm(trimmedData);
+    setErrors(validationErrors);
+
+    if (Object.keys(validationErrors).length === 0) {
+      setIsFormSubmitting(true);
+
+      try {
+        if (editingId) {
+          await updateLayout(editingId, trimmedData);
+          toast({
+            title: "Layout Updated",
+            description: `"${trimmedData.name}" has been updated successfully.`,
+          });
+        } else {
+          await addLayout(trimmedData);
+          toast({
+            title: "Layout Added",
+            description: `"${trimmedData.name}" has been added successfully.`,
+          });
+        }
+        handleCancel();
+      } catch (error) {
+        console.error('Error saving layout:', error);
+        toast({
+          title: "Save Failed",
+          description: error instanceof Error ? error.message : 'Unable to save the layout.',
+          variant: "destructive",
+        });
+      } finally {
+        setIsFormSubmitting(false);
+      }
+    }
+  };
+
+  const handleEdit = (layout: Layout) => {
+    setEditingId(layout.id);
+    setIsAddingNew(false);
+    setFormData({
+      name: layout.name,
+      preset: layout.preset,
+      columns: layout.columns,
+      rows: layout.rows,
+      cells: layout.cells,
+    });
+    setErrors({});
+  };
+
+  const handleDelete = async (layout: Layout) => {
+    if (window.confirm(`Are you sure you want to delete the layout "${layout.name}"? Playlist entries and displays using it go back to one dashboard at a time.`)) {
+      setDeletingId(layout.id);
+
+      try {
+        await deleteLayout(layout.id);
+        toast({
+          title: "Layout Deleted",
+          description: `"${layout.name}" has been deleted.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        console.error('Error deleting layout:', error);
+        toast({
+          title: "Delete Failed",
+          description: error instanceof Error ? error.message : 'Unable to delete the layout.',
+          variant: "destructive",
+        });
+      } finally {
+        setDeletingId(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setIsAddingNew(false);
+    setEditingId(null);
+    setFormData(newForm());
+    setErrors({});
+  };
+
+  const handleAddNew = () => {
+    setIsAddingNew(true);
+    setEditingId(null);
+    setFormData(newForm());
+    setErrors({});
+  };
+
+  const describeCell = (cell: LayoutCell) => cell.content === 'main'
+    ? 'Rotation'
+    : cell.dashboardIds.map(dashboardName).join(', ') || 'Empty';
+
+  const renderPreview = (layout: Pick<Layout, 'columns' | 'rows' | 'cells'>, className: string) => (
+    <div className={`gap-0.5 rounded border bg-gray-200 p-0.5 ${className}`} style={gridStyle(layout)} aria-hidden="true">
+      {layout.cells.map((cell, index) => (
+        <div
+          key={index}
+          style={cellStyle(cell)}
+          className={`flex min-h-0 min-w-0 items-center justify-center overflow-hidden rounded-sm px-1 text-[10px] ${
+            cell.content === 'main' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700'
+          }`}
+          title={describeCell(cell)}
+        >
+          <span className="truncate">{index + 1}. {describeCell(cell)}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <LayoutGrid className="h-5 w-5" />
+            <span>Layouts ({layouts.length})</span>
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={handleAddNew}
+            disabled={isAddingNew || editingId !== null || dashboards.length === 0}
+            className="flex items-center space-x-2"
+            aria-label="Add new layout"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Layout</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(isAddingNew || editingId) && (
+          <form onSubmit={handleSubmit} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="layout-name">Layout Name *</Label>
+                <Input
+                  id="layout-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Ops Wall 4K"
+                  className={errors.name ? 'border-red-500' : ''}
+                  aria-describedby={errors.name ? 'layout-name-error' : undefined}
+                  aria-invalid={!!errors.name}
+                  disabled={isFormSubmitting}
+                />
+                {errors.name && (
+                  <p id="layout-name-error" className="text-sm text-red-600" role="alert">
+                    {errors.name}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="layout-preset">Grid</Label>
+                <Select value={formData.preset} onValueChange={setPreset} disabled={isFormSubmitting}>
+                  <SelectTrigger id="layout-preset" className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PRESET_LABELS) as LayoutPreset[]).map(preset => (
+                      <SelectItem key={preset} value={preset}>{PRESET_LABELS[preset]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isCustom && (
+              <div className="flex items-center space-x-4">
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="layout-columns" className="font-normal">Columns</Label>
+                  <Input
+                    id="layout-columns"
+                    type="number"
+                    min={1}
+                    max={MAX_GRID_SIZE}
+                    value={formData.columns}
+                    onChange={(e) => setGridSize('columns', e.target.value)}
+                    className="w-20"
+                    disabled={isFormSubmitting}
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="layout-rows" className="font-normal">Rows</Label>
+                  <Input
+                    id="layout-rows"
+                    type="number"
+                    min={1}
+                    max={MAX_GRID_SIZE}
+                    value={formData.rows}
+                    onChange={(e) => setGridSize('rows', e.target.value)}
+                    className="w-20"
+                    disabled={isFormSubmitting}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-start space-x-4">
+              {renderPreview(formData, 'h-32 w-56 shrink-0')}
+              <p className="text-sm text-gray-600">
+                The cell that follows the rotation shows whatever the playlist is on; the others
+                keep showing their own dashboard or rotate through their own list.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cells *</Label>
+              <ol className="space-y-2">
+                {formData.cells.map((cell, index) => {
+                  const rotationCandidates = dashboards.filter(d => !cell.dashboardIds.includes(d.id));
+
+                  return (
+                    <li key={index} className="space-y-2 bg-white border rounded p-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium text-gray-900 w-14">Cell {index + 1}</span>
+                        <Select
+                          value={cell.content}
+                          onValueChange={(content) => setCellContent(index, content as LayoutCellContent)}
+                          disabled={isFormSubmitting}
+                        >
+                          <SelectTrigger className="w-48" aria-label={`What cell ${index + 1} shows`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(CONTENT_LABELS) as LayoutCellContent[]).map(content => (
+                              <SelectItem key={content} value={content}>{CONTENT_LABELS[content]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {cell.content === 'dashboard' && (
+                          <DashboardPicker
+                            dashboards={dashboards}
+                            folders={folders}
+                            value={cell.dashboardIds[0] ?? ''}
+                            onChange={(id) => updateCell(index, { dashboardIds: [id] })}
+                          />
+                        )}
+                        {isCustom && (
+                          <>
+                            {([
+                              ['column', 'Column'],
+                              ['row', 'Row'],
+                              ['columnSpan', 'Width'],
+                              ['rowSpan', 'Height'],
+                            ] as const).map(([field, label]) => (
+                              <Input
+                                key={field}
+                                type="number"
+                                min={1}
+                                max={MAX_GRID_SIZE}
+                                value={cell[field]}
+                                onChange={(e) => setCellArea(index, field, e.target.value)}
+                                className="w-16"
+                                aria-label={`${label} of cell ${index + 1}`}
+                                title={label}
+                                disabled={isFormSubmitting}
+                              />
+                            ))}
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeCell(index)}
+                              disabled={isFormSubmitting}
+                              className="text-red-600 hover:text-red-800"
+                              aria-label={`Remove cell ${index + 1}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+
+                      {cell.content === 'rotation' && (
+                        <div className="space-y-2 pl-16">
+                          {cell.dashboardIds.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {cell.dashboardIds.map(id => (
+                                <Badge key={id} variant="secondary" className="flex items-center space-x-1">
+                                  <span>{dashboardName(id)}</span>
+                                  <button
+                                    type="button"
+                                    onClick={() => updateCell(index, { dashboardIds: cell.dashboardIds.filter(d => d !== id) })}
+                                    aria-label={`Remove ${dashboardName(id)} from cell ${index + 1}`}
+                                    disabled={isFormSubmitting}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                          <div className="flex items-center space-x-2">
+                            {cell.dashboardIds.length < MAX_ROTATION_DASHBOARDS && rotationCandidates.length > 0 && (
+                              <DashboardPicker
+                                dashboards={rotationCandidates}
+                                folders={folders}
+                                value=""
+                                onChange={(id) => updateCell(index, { dashboardIds: [...cell.dashboardIds, id] })}
+                              />
+                            )}
+                            <Input
+                              type="number"
+                              min={MIN_DURATION_SECONDS}
+                              max={MAX_DURATION_SECONDS}
+                              value={cell.intervalSeconds ?? ''}
+                              onChange={(e) => updateCell(index, { intervalSeconds: parseDuration(e.target.value) })}
+                              placeholder="Default"
+                              className="w-28"
+                              aria-label={`Seconds per dashboard in cell ${index + 1}`}
+                              title="Seconds per dashboard; leave empty to use each dashboard's own dwell time"
+                              disabled={isFormSubmitting}
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+              {isCustom && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addCell}
+                  disabled={!freeSquare(formData) || isFormSubmitting}
+                  className="flex items-center space-x-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Cell</span>
+                </Button>
+              )}
+              {errors.cells && (
+                <p className="text-sm text-red-600" role="alert">
+                  {errors.cells}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Button type="submit" className="flex items-center space-x-2" disabled={isFormSubmitting}>
+                {isFormSubmitting ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+                <span>{editingId ? 'Update' : 'Add'} Layout</span>
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCancel}
+                className="flex items-center space-x-2"
+                disabled={isFormSubmitting}
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {layouts.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No layouts yet. Without one, a screen shows one dashboard at a time.
+          </p>
+        ) : (
+          <div className="grid gap-3">
+            {layouts.map((layout) => (
+              <div
+                key={layout.id}
+                className={`border rounded-lg p-3 ${editingId === layout.id ? 'ring-2 ring-blue-500' : ''} ${deletingId === layout.id ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    {renderPreview(layout, 'h-12 w-20 shrink-0')}
+                    <div>
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className="font-medium text-gray-900">{layout.name}</span>
+                        <Badge variant="secondary" className="text-xs">
+                          {PRESET_LABELS[layout.preset]}
+                        </Badge>
+                        {!hasMainCell(layout) && (
+                          <Badge variant="outline" className="text-xs">Displays only</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 truncate max-w-md">
+                        {layout.cells.map(describeCell).join(' | ')}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(layout)}
+                      disabled={isAddingNew || (editingId !== null && editingId !== layout.id) || isFormSubmitting || deletingId === layout.id}
+                      className="flex items-center space-x-1"
+                      aria-label={`Edit ${layout.name}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                      <span>Edit</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(layout)}
+                      disabled={isAddingNew || editingId !== null || isFormSubmitting || deletingId !== null}
+                      className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                      aria-label={`Delete ${layout.name}`}
+                    >
+                      {deletingId === layout.id ? <LoadingSpinner size="sm" /> : <Trash2 className="h-4 w-4" />}
+                      <span>Delete</span>
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
+import { ErrCode, isAPIError } from '~backend/client';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,7 +18,7 @@ export default function LoginPage() {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isPageLoading, setIsPageLoading] = useState(true);
-  const { login, isAuthenticated } = useAuth();
+  const { login, isAuthenticated, isInitializing } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -40,21 +41,26 @@ export default function LoginPage() {
     setError('');
     setIsLoading(true);
 
-    // Simulate authentication delay
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    const success = login(username, password);
-    if (success) {
-      // Add a small delay before navigation for better UX
-      await new Promise(resolve => setTimeout(resolve, 300));
-      navigate('/dashboard');
-    } else {
-      setError('Invalid username or password');
+    try {
+      const success = await login(username, password);
+      if (success) {
+        navigate('/dashboard');
+      } else {
+        setError('Invalid username or password');
+      }
+    } catch (error) {
+      console.error('Error signing in:', error);
+      if (isAPIError(error) && error.code === ErrCode.PermissionDenied) {
+        setError('This account has been disabled. Contact an administrator.');
+      } else {
+        setError('Unable to reach the server. Please try again.');
+      }
+    } finally {
+      setIsLoading(false);
     }
-    setIsLoading(false);
   };
 
-  if (isPageLoading) {
+  if (isPageLoading || isInitializing) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
         <Card className="w-full max-w-md shadow-lg">
@@ -165,6 +171,12 @@ export default function LoginPage() {
                 </div>
               )}
             </form>
+            <p className="mt-6 text-center text-sm text-gray-600">
+              Setting up a wall screen?{' '}
+              <Link to="/pair" className="font-medium text-blue-600 hover:text-blue-800">
+                Pair this display
+              </Link>
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import backend from '~backend/client';
+import { useAuth } from '../contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Monitor } from 'lucide-react';
+import { ErrorBoundary } from './ErrorBoundary';
+import { LoadingSpinner } from './LoadingSpinner';
+
+// How often the screen asks whether an admin has registered its code yet
+const STATUS_POLL_INTERVAL_MS = 3000;
+// How long to wait before retrying after the server could not be reached
+const RETRY_DELAY_MS = 10000;
+
+// Codes are stored without separators; show them in two halves so they read well from across a room
+function formatCode(code: string): string {
+  return code.length === 6 ? `${code.slice(0, 3)}-${code.slice(3)}` : code;
+}
+
+export default function PairPage() {
+  const [code, setCode] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const { isAuthenticated, isInitializing, restoreSession } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      navigate('/dashboard');
+    }
+  }, [isAuthenticated, navigate]);
+
+  const requestCode = useCallback(async () => {
+    try {
+      const response = await backend.displays.requestPairing();
+      setCode(response.code);
+      setError('');
+    } catch (error) {
+      console.error('Error requesting pairing code:', error);
+      setCode(null);
+      setError('Unable to reach the server. Retrying shortly...');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isInitializing || isAuthenticated) return;
+    requestCode();
+  }, [isInitializing, isAuthenticated, requestCode]);
+
+  // Retry periodically while the server is unreachable
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(requestCode, RETRY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [error, requestCode]);
+
+  useEffect(() => {
+    if (!code) return;
+
+    const intervalId = setInterval(async () => {
+      try {
+        const response = await backend.displays.pairingStatus();
+        if (response.status === 'paired') {
+          clearInterval(intervalId);
+          await restoreSession();
+        } else if (response.status === 'expired') {
+          clearInterval(intervalId);
+          await requestCode();
+        }
+      } catch (error) {
+        console.warn('Pairing status check failed, will retry:', error);
+      }
+    }, STATUS_POLL_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [code, requestCode, restoreSession]);
+
+  return (
+    <ErrorBoundary>
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+        <Card className="w-full max-w-2xl shadow-lg">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="p-3 bg-white rounded-full shadow-sm">
+                <Monitor className="h-12 w-12 text-blue-600" />
+              </div>
+            </div>
+            <CardTitle className="text-3xl font-bold text-gray-900">
+              Pair this display
+            </CardTitle>
+            <CardDescription className="text-lg text-gray-600">
+              In REO Dashboard, open Settings &rarr; Displays and enter this code
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center space-y-6">
+            {code ? (
+              <div
+                className="text-7xl font-mono font-bold tracking-widest text-gray-900"
+                aria-live="polite"
+                aria-label={`Pairing code ${code.split('').join(' ')}`}
+              >
+                {formatCode(code)}
+              </div>
+            ) : (
+              !error && <LoadingSpinner size="lg" text="Requesting a pairing code..." />
+            )}
+            {code && (
+              <p className="text-gray-500">
+                The display will start automatically once it has been registered.
+              </p>
+            )}
+            {error && (
+              <Alert variant="destructive" role="alert">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ErrorBoundary>
+  );
+}
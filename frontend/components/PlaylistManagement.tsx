@@ -0,0 +1,534 @@
+import React, { useState } from 'react';
+import { useDashboards } from '../contexts/DashboardContext';
+import { usePlaylists, Playlist, PlaylistEntry, TagQuery } from '../contexts/PlaylistContext';
+import { useLayouts } from '../contexts/LayoutContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { ListVideo, Plus, Edit, Trash2, Save, X, ArrowUp, ArrowDown, Tag } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { LoadingSpinner } from './LoadingSpinner';
+import { MIN_DURATION_SECONDS, MAX_DURATION_SECONDS, isValidDuration, parseDuration } from '../utils/duration';
+import { collectTags, matchesTagQuery } from '../utils/catalog';
+import { hasMainCell } from '../utils/layouts';
+
+interface PlaylistForm {
+  name: string;
+  entries: PlaylistEntry[];
+  tagQuery?: TagQuery; // set when the playlist is built from tags instead of chosen dashboards
+}
+
+interface FormErrors {
+  name?: string;
+  entries?: string;
+}
+
+const emptyForm: PlaylistForm = { name: '', entries: [] };
+
+// Select value standing in for "no layout", i.e. the dashboard fills the screen
+const NO_LAYOUT = 'none';
+
+export function PlaylistManagement() {
+  const { dashboards } = useDashboards();
+  const { playlists, addPlaylist, updatePlaylist, deletePlaylist } = usePlaylists();
+  const { layouts } = useLayouts();
+  const { toast } = useToast();
+
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<PlaylistForm>(emptyForm);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isFormSubmitting, setIsFormSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const dashboardName = (id: string) => dashboards.find(d => d.id === id)?.name ?? 'Unknown dashboard';
+  // Dashboards deleted since the playlists were loaded have already been removed on the server
+  const knownEntries = (playlist: Playlist) => playlist.entries.filter(entry => dashboards.some(d => d.id === entry.dashboardId));
+  const availableDashboards = dashboards.filter(d => !formData.entries.some(entry => entry.dashboardId === d.id));
+  const knownTags = collectTags(dashboards);
+  const tagQuery = formData.tagQuery;
+  const tagMatches = tagQuery ? dashboards.filter(d => matchesTagQuery(d, tagQuery)) : [];
+  const describeTagQuery = (query: TagQuery) => query.tags.join(query.match === 'all' ? ' + ' : ' or ');
+  // An entry's dashboard goes into the main cell, so only layouts that have one fit
+  const entryLayouts = layouts.filter(hasMainCell);
+
+  const validateForm = (data: PlaylistForm): FormErrors => {
+    const errors: FormErrors = {};
+
+    if (!data.name) {
+      errors.name = 'Playlist name is required';
+    } else if (data.name.length < 3) {
+      errors.name = 'Playlist name must be at least 3 characters';
+    } else if (data.name.length > 50) {
+      errors.name = 'Playlist name must be less than 50 characters';
+    } else if (playlists.some(p => p.name.toLowerCase() === data.name.toLowerCase() && p.id !== editingId)) {
+      errors.name = 'A playlist with this name already exists';
+    }
+
+    if (data.tagQuery) {
+      if (data.tagQuery.tags.length === 0) {
+        errors.entries = 'Choose at least one tag';
+      }
+    } else if (data.entries.length === 0) {
+      errors.entries = 'Add at least one dashboard';
+    } else if (data.entries.some(entry => entry.durationSeconds !== undefined && !isValidDuration(entry.durationSeconds))) {
+      errors.entries = `Dwell times must be whole seconds between ${MIN_DURATION_SECONDS} and ${MAX_DURATION_SECONDS}`;
+    }
+
+    return errors;
+  };
+
+  const setMode = (mode: string) => {
+    setFormData(prev => ({
+      ...prev,
+      entries: [],
+      tagQuery: mode === 'tags' ? { match: 'any', tags: [] } : undefined,
+    }));
+  };
+
+  const toggleQueryTag = (tag: string) => {
+    setFormData(prev => {
+      if (!prev.tagQuery) return prev;
+      const tags = prev.tagQuery.tags.includes(tag)
+        ? prev.tagQuery.tags.filter(t => t !== tag)
+        : [...prev.tagQuery.tags, tag];
+      return { ...prev, tagQuery: { ...prev.tagQuery, tags } };
+    });
+  };
+
+  const moveDashboard = (index: number, offset: number) => {
+    setFormData(prev => {
+      const entries = [...prev.entries];
+      const [moved] = entries.splice(index, 1);
+      entries.splice(index + offset, 0, moved);
+      return { ...prev, entries };
+    });
+  };
+
+  const removeDashboard = (id: string) => {
+    setFormData(prev => ({ ...prev, entries: prev.entries.filter(entry => entry.dashboardId !== id) }));
+  };
+
+  const setEntryDuration = (id: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      entries: prev.entries.map(entry =>
+        entry.dashboardId === id
+          ? { ...entry, durationSeconds: parseDuration(value) }
+          : entry
+      ),
+    }));
+  };
+
+  const setEntryLayout = (id: string, layoutId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      entries: prev.entries.map(entry =>
+        entry.dashboardId === id
+          ? { ...entry, layoutId: layoutId === NO_LAYOUT ? undefined : layoutId }
+          : entry
+      ),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedData = {
+      name: formData.name.trim(),
+      entries: formData.tagQuery ? [] : formData.entries,
+      tagQuery: formData.tagQuery,
+    };
+
+    const validationErrors = validateForm(trimmedData);
+    setErrors(validationErrors);
+
+    if (Object.keys(validationErrors).length === 0) {
+      setIsFormSubmitting(true);
+
+      try {
+        if (editingId) {
+          await updatePlaylist(editingId, trimmedData);
+          toast({
+            title: "Playlist Updated",
+            description: `"${trimmedData.name}" has been updated successfully.`,
+          });
+        } else {
+          await addPlaylist(trimmedData);
+          toast({
+            title: "Playlist Added",
+            description: `"${trimmedData.name}" has been added successfully.`,
+          });
+        }
+        handleCancel();
+      } catch (error) {
+        console.error('Error saving playlist:', error);
+        toast({
+          title: "Save Failed",
+          description: error instanceof Error ? error.message : 'Unable to save the playlist.',
+          variant: "destructive",
+        });
+      } finally {
+        setIsFormSubmitting(false);
+      }
+    }
+  };
+
+  const handleEdit = (playlist: Playlist) => {
+    setEditingId(playlist.id);
+    setIsAddingNew(false);
+    setFormData(playlist.tagQuery
+      ? { name: playlist.name, entries: [], tagQuery: playlist.tagQuery }
+      : { name: playlist.name, entries: knownEntries(playlist) });
+    setErrors({});
+  };
+
+  const handleDelete = async (playlist: Playlist) => {
+    if (window.confirm(`Are you sure you want to delete the playlist "${playlist.name}"?`)) {
+      setDeletingId(playlist.id);
+
+      try {
+        await deletePlaylist(playlist.id);
+        toast({
+          title: "Playlist Deleted",
+          description: `"${playlist.name}" has been deleted.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        console.error('Error deleting playlist:', error);
+        toast({
+          title: "Delete Failed",
+          description: error instanceof Error ? error.message : 'Unable to delete the playlist.',
+          variant: "destructive",
+        });
+      } finally {
+        setDeletingId(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setIsAddingNew(false);
+    setEditingId(null);
+    setFormData(emptyForm);
+    setErrors({});
+  };
+
+  const handleAddNew = () => {
+    setIsAddingNew(true);
+    setEditingId(null);
+    setFormData(emptyForm);
+    setErrors({});
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <ListVideo className="h-5 w-5" />
+            <span>Playlists ({playlists.length})</span>
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={handleAddNew}
+            disabled={isAddingNew || editingId !== null || dashboards.length === 0}
+            className="flex items-center space-x-2"
+            aria-label="Add new playlist"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Playlist</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(isAddingNew || editingId) && (
+          <form onSubmit={handleSubmit} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+            <div className="space-y-2">
+              <Label htmlFor="playlist-name">Playlist Name *</Label>
+              <Input
+                id="playlist-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Finance Floor"
+                className={errors.name ? 'border-red-500' : ''}
+                aria-describedby={errors.name ? 'playlist-name-error' : undefined}
+                aria-invalid={!!errors.name}
+                disabled={isFormSubmitting}
+              />
+              {errors.name && (
+                <p id="playlist-name-error" className="text-sm text-red-600" role="alert">
+                  {errors.name}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="playlist-mode">Build from</Label>
+              <Select value={tagQuery ? 'tags' : 'dashboards'} onValueChange={setMode} disabled={isFormSubmitting}>
+                <SelectTrigger id="playlist-mode" className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="dashboards">Chosen dashboards</SelectItem>
+                  <SelectItem value="tags">Dashboards with tags</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {tagQuery ? (
+              <div className="space-y-2">
+                <Label>Tags *</Label>
+                {knownTags.length === 0 ? (
+                  <p className="text-sm text-gray-600">No dashboards have tags yet.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-1" role="group" aria-label="Tags to build the playlist from">
+                    {knownTags.map(tag => {
+                      const isSelected = tagQuery.tags.includes(tag);
+                      return (
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={() => toggleQueryTag(tag)}
+                          className={`inline-flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs ${
+                            isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                          }`}
+                          aria-pressed={isSelected}
+                          disabled={isFormSubmitting}
+                        >
+                          <Tag className="h-3 w-3" />
+                          <span>{tag}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="playlist-tag-match" className="font-normal">Include dashboards with</Label>
+                  <Select
+                    value={tagQuery.match}
+                    onValueChange={(match) => setFormData(prev => prev.tagQuery
+                      ? { ...prev, tagQuery: { ...prev.tagQuery, match: match as TagQuery['match'] } }
+                      : prev)}
+                    disabled={isFormSubmitting}
+                  >
+                    <SelectTrigger id="playlist-tag-match" className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">any of the tags</SelectItem>
+                      <SelectItem value="all">all of the tags</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {tagQuery.tags.length > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Currently {tagMatches.length} dashboard{tagMatches.length === 1 ? '' : 's'}
+                    {tagMatches.length > 0 && `: ${tagMatches.map(d => d.name).join(', ')}`}.
+                    Dashboards join and leave as their tags change.
+                  </p>
+                )}
+                {errors.entries && (
+                  <p className="text-sm text-red-600" role="alert">
+                    {errors.entries}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Dashboards in rotation order *</Label>
+                {formData.entries.length === 0 ? (
+                  <p className="text-sm text-gray-600">No dashboards added yet.</p>
+                ) : (
+                  <ol className="space-y-2">
+                    {formData.entries.map(({ dashboardId: id, durationSeconds, layoutId }, index) => (
+                      <li key={id} className="flex items-center justify-between bg-white border rounded p-2">
+                        <span className="text-sm text-gray-900">
+                          {index + 1}. {dashboardName(id)}
+                        </span>
+                        <div className="flex items-center space-x-1">
+                          {entryLayouts.length > 0 && (
+                            <Select
+                              value={layoutId ?? NO_LAYOUT}
+                              onValueChange={(value) => setEntryLayout(id, value)}
+                              disabled={isFormSubmitting}
+                            >
+                              <SelectTrigger
+                                className="w-40"
+                                aria-label={`Layout for ${dashboardName(id)} in this playlist`}
+                                title="Show the dashboard in the main cell of a layout"
+                              >
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_LAYOUT}>No layout</SelectItem>
+                                {entryLayouts.map((layout) => (
+                                  <SelectItem key={layout.id} value={layout.id}>
+                                    {layout.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Input
+                            type="number"
+                            min={MIN_DURATION_SECONDS}
+                            max={MAX_DURATION_SECONDS}
+                            value={durationSeconds ?? ''}
+                            onChange={(e) => setEntryDuration(id, e.target.value)}
+                            placeholder="Default"
+                            className="w-28"
+                            aria-label={`Dwell time in seconds for ${dashboardName(id)} in this playlist`}
+                            title="Seconds on screen; leave empty to use the dashboard's own dwell time"
+                            disabled={isFormSubmitting}
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => moveDashboard(index, -1)}
+                            disabled={index === 0 || isFormSubmitting}
+                            aria-label={`Move ${dashboardName(id)} up`}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => moveDashboard(index, 1)}
+                            disabled={index === formData.entries.length - 1 || isFormSubmitting}
+                            aria-label={`Move ${dashboardName(id)} down`}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => removeDashboard(id)}
+                            disabled={isFormSubmitting}
+                            className="text-red-600 hover:text-red-800"
+                            aria-label={`Remove ${dashboardName(id)} from playlist`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {availableDashboards.length > 0 && (
+                  <Select
+                    value=""
+                    onValueChange={(id) => setFormData(prev => ({ ...prev, entries: [...prev.entries, { dashboardId: id }] }))}
+                    disabled={isFormSubmitting}
+                  >
+                    <SelectTrigger className="w-64" aria-label="Add a dashboard to the playlist">
+                      <SelectValue placeholder="Add dashboard..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableDashboards.map((dashboard) => (
+                        <SelectItem key={dashboard.id} value={dashboard.id}>
+                          {dashboard.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {errors.entries && (
+                  <p className="text-sm text-red-600" role="alert">
+                    {errors.entries}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Button type="submit" className="flex items-center space-x-2" disabled={isFormSubmitting}>
+                {isFormSubmitting ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+                <span>{editingId ? 'Update' : 'Add'} Playlist</span>
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCancel}
+                className="flex items-center space-x-2"
+                disabled={isFormSubmitting}
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {playlists.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No playlists yet. Displays without a playlist rotate through every dashboard.
+          </p>
+        ) : (
+          <div className="grid gap-3">
+            {playlists.map((playlist) => {
+              const entries = knownEntries(playlist);
+
+              return (
+                <div
+                  key={playlist.id}
+                  className={`border rounded-lg p-3 ${editingId === playlist.id ? 'ring-2 ring-blue-500' : ''} ${deletingId === playlist.id ? 'opacity-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className="font-medium text-gray-900">{playlist.name}</span>
+                        <Badge variant="secondary" className="text-xs">
+                          {entries.length} dashboard{entries.length === 1 ? '' : 's'}
+                        </Badge>
+                        {playlist.tagQuery && (
+                          <Badge variant="outline" className="text-xs flex items-center space-x-1">
+                            <Tag className="h-3 w-3" />
+                            <span>{describeTagQuery(playlist.tagQuery)}</span>
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 truncate max-w-md">
+                        {entries.map(entry => dashboardName(entry.dashboardId)).join(' → ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(playlist)}
+                        disabled={isAddingNew || (editingId !== null && editingId !== playlist.id) || isFormSubmitting || deletingId === playlist.id}
+                        className="flex items-center space-x-1"
+                        aria-label={`Edit ${playlist.name}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                        <span>Edit</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(playlist)}
+                        disabled={isAddingNew || editingId !== null || isFormSubmitting || deletingId !== null}
+                        className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                        aria-label={`Delete ${playlist.name}`}
+                      >
+                        {deletingId === playlist.id ? <LoadingSpinner size="sm" /> : <Trash2 className="h-4 w-4" />}
+                        <span>Delete</span>
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,28 @@
+import React, { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth, Role } from '../contexts/AuthContext';
+import { FullPageLoader } from './LoadingSpinner';
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+  requiredRole?: Role;
+}
+
+export function ProtectedRoute({ children, requiredRole = 'viewer' }: ProtectedRouteProps) {
+  const { isAuthenticated, isInitializing, hasRole } = useAuth();
+
+  // Wait for the stored session to be restored before deciding where to go
+  if (isInitializing) {
+    return <FullPageLoader text="Restoring session..." />;
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (!hasRole(requiredRole)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,417 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { usePlaylists } from '../contexts/PlaylistContext';
+import { useSchedule } from '../contexts/ScheduleContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Plus, Save, Trash2, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { LoadingSpinner } from './LoadingSpinner';
+import {
+  ScheduleWindow,
+  DAY_LABELS,
+  toMinutes,
+  getTimezones,
+  getZonedDayAndMinute,
+} from '../utils/schedule';
+
+interface WindowForm {
+  playlistId: string;
+  days: number[];
+  start: string;
+  end: string;
+}
+
+const ALL_DASHBOARDS = 'all';
+const HOUR_HEIGHT_PX = 20;
+const emptyWindowForm: WindowForm = { playlistId: '', days: [1, 2, 3, 4, 5], start: '08:00', end: '10:00' };
+
+// Tailwind classes cycled through so each playlist keeps its own colour on the calendar
+const WINDOW_COLORS = [
+  'bg-blue-100 border-blue-400 text-blue-900',
+  'bg-green-100 border-green-400 text-green-900',
+  'bg-purple-100 border-purple-400 text-purple-900',
+  'bg-amber-100 border-amber-400 text-amber-900',
+  'bg-pink-100 border-pink-400 text-pink-900',
+  'bg-teal-100 border-teal-400 text-teal-900',
+];
+
+export function ScheduleEditor() {
+  const { playlists } = usePlaylists();
+  const { schedule, updateSchedule } = useSchedule();
+  const { toast } = useToast();
+
+  const [timezone, setTimezone] = useState(schedule.timezone);
+  const [defaultPlaylistId, setDefaultPlaylistId] = useState<string | undefined>(schedule.defaultPlaylistId);
+  const [windows, setWindows] = useState<ScheduleWindow[]>(schedule.windows);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [windowForm, setWindowForm] = useState<WindowForm | null>(null);
+  const [formError, setFormError] = useState('');
+
+  const timezones = useMemo(() => getTimezones(), []);
+  const now = getZonedDayAndMinute(timezone);
+
+  // Start over from the saved schedule whenever it is (re)loaded
+  useEffect(() => {
+    setTimezone(schedule.timezone);
+    setDefaultPlaylistId(schedule.defaultPlaylistId);
+    setWindows(schedule.windows);
+    setIsDirty(false);
+  }, [schedule]);
+
+  const playlistName = (id: string) => playlists.find(p => p.id === id)?.name ?? 'Unknown playlist';
+  const playlistColor = (id: string) => {
+    const index = playlists.findIndex(p => p.id === id);
+    return WINDOW_COLORS[(index < 0 ? 0 : index) % WINDOW_COLORS.length];
+  };
+
+  const openNewWindow = () => {
+    setEditingId(null);
+    setWindowForm({ ...emptyWindowForm, playlistId: playlists[0]?.id ?? '' });
+    setFormError('');
+  };
+
+  const openWindow = (window: ScheduleWindow) => {
+    setEditingId(window.id);
+    setWindowForm({ playlistId: window.playlistId, days: [...window.days], start: window.start, end: window.end });
+    setFormError('');
+  };
+
+  const closeWindowForm = () => {
+    setEditingId(null);
+    setWindowForm(null);
+    setFormError('');
+  };
+
+  const toggleDay = (day: number) => {
+    setWindowForm(prev => prev && ({
+      ...prev,
+      days: prev.days.includes(day)
+        ? prev.days.filter(d => d !== day)
+        : [...prev.days, day].sort((a, b) => a - b),
+    }));
+  };
+
+  const validateWindow = (form: WindowForm): string => {
+    if (!form.playlistId) return 'Choose a playlist';
+    if (form.days.length === 0) return 'Choose at least one day';
+    if (!form.start || !form.end) return 'Enter a start and end time';
+
+    const start = toMinutes(form.start);
+    const end = form.end === '00:00' ? 24 * 60 : toMinutes(form.end);
+    if (start >= end) return 'The window must end after it starts';
+
+    const clash = windows.find(w =>
+      w.id !== editingId &&
+      w.days.some(day => form.days.includes(day)) &&
+      toMinutes(w.start) < end &&
+      start < toMinutes(w.end)
+    );
+    if (clash) {
+      return `Overlaps with "${playlistName(clash.playlistId)}" (${clash.start}–${clash.end})`;
+    }
+    return '';
+  };
+
+  const handleWindowSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!windowForm) return;
+
+    const error = validateWindow(windowForm);
+    setFormError(error);
+    if (error) return;
+
+    // An end of midnight means "until the end of the day"
+    const saved = { ...windowForm, end: windowForm.end === '00:00' ? '24:00' : windowForm.end };
+    setWindows(prev =>
+      editingId
+        ? prev.map(w => (w.id === editingId ? { ...saved, id: editingId } : w))
+        : [...prev, { ...saved, id: `draft-${Date.now()}` }]
+    );
+    setIsDirty(true);
+    closeWindowForm();
+  };
+
+  const handleRemoveWindow = () => {
+    if (!editingId) return;
+    setWindows(prev => prev.filter(w => w.id !== editingId));
+    setIsDirty(true);
+    closeWindowForm();
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateSchedule({
+        timezone,
+        defaultPlaylistId,
+        windows: windows.map(({ playlistId, days, start, end }) => ({ playlistId, days, start, end })),
+      });
+      closeWindowForm();
+      toast({
+        title: "Schedule Saved",
+        description: windows.length === 0
+          ? 'Scheduling is off; displays keep their chosen playlist.'
+          : `${windows.length} window${windows.length === 1 ? '' : 's'} active in ${timezone}.`,
+      });
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : 'Unable to save the schedule.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5" />
+            <span>Schedule</span>
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={openNewWindow}
+              disabled={playlists.length === 0 || windowForm !== null || isSaving}
+              className="flex items-center space-x-2"
+              aria-label="Add schedule window"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Window</span>
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={!isDirty || isSaving}
+              className="flex items-center space-x-2"
+              aria-label="Save schedule"
+            >
+              {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+              <span>Save Schedule</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {playlists.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Create a playlist first; schedule windows switch displays between playlists.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-timezone">Timezone</Label>
+                <Select
+                  value={timezone}
+                  onValueChange={(value) => {
+                    setTimezone(value);
+                    setIsDirty(true);
+                  }}
+                >
+                  <SelectTrigger id="schedule-timezone" aria-label="Select schedule timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timezones.map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-default">Outside scheduled windows</Label>
+                <Select
+                  value={defaultPlaylistId ?? ALL_DASHBOARDS}
+                  onValueChange={(value) => {
+                    setDefaultPlaylistId(value === ALL_DASHBOARDS ? undefined : value);
+                    setIsDirty(true);
+                  }}
+                >
+                  <SelectTrigger id="schedule-default" aria-label="Select playlist shown outside scheduled windows">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_DASHBOARDS}>All dashboards</SelectItem>
+                    {playlists.map((playlist) => (
+                      <SelectItem key={playlist.id} value={playlist.id}>
+                        {playlist.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {windowForm && (
+              <form onSubmit={handleWindowSubmit} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="window-playlist">Playlist</Label>
+                    <Select
+                      value={windowForm.playlistId}
+                      onValueChange={(value) => setWindowForm(prev => prev && ({ ...prev, playlistId: value }))}
+                    >
+                      <SelectTrigger id="window-playlist" aria-label="Select playlist for this window">
+                        <SelectValue placeholder="Select playlist" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {playlists.map((playlist) => (
+                          <SelectItem key={playlist.id} value={playlist.id}>
+                            {playlist.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="window-start">Starts</Label>
+                    <Input
+                      id="window-start"
+                      type="time"
+                      value={windowForm.start}
+                      onChange={(e) => setWindowForm(prev => prev && ({ ...prev, start: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="window-end">Ends</Label>
+                    <Input
+                      id="window-end"
+                      type="time"
+                      value={windowForm.end === '24:00' ? '00:00' : windowForm.end}
+                      onChange={(e) => setWindowForm(prev => prev && ({ ...prev, end: e.target.value }))}
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1" role="group" aria-label="Days of the week">
+                  {DAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={windowForm.days.includes(day) ? 'default' : 'outline'}
+                      onClick={() => toggleDay(day)}
+                      aria-pressed={windowForm.days.includes(day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                {formError && (
+                  <p className="text-sm text-red-600" role="alert">
+                    {formError}
+                  </p>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Button type="submit" size="sm" className="flex items-center space-x-2">
+                    <Save className="h-4 w-4" />
+                    <span>{editingId ? 'Update' : 'Add'} Window</span>
+                  </Button>
+                  {editingId && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRemoveWindow}
+                      className="flex items-center space-x-2 text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span>Remove</span>
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={closeWindowForm}
+                    className="flex items-center space-x-2"
+                  >
+                    <X className="h-4 w-4" />
+                    <span>Cancel</span>
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {/* Week calendar */}
+            <div className="border rounded-lg overflow-hidden" role="grid" aria-label="Weekly schedule">
+              <div className="grid grid-cols-[3rem_repeat(7,1fr)] bg-gray-50 border-b text-xs font-medium text-gray-700">
+                <div />
+                {DAY_LABELS.map((label) => (
+                  <div key={label} className="text-center py-1 border-l">{label}</div>
+                ))}
+              </div>
+              <div className="grid grid-cols-[3rem_repeat(7,1fr)]">
+                <div className="relative" style={{ height: 24 * HOUR_HEIGHT_PX }}>
+                  {Array.from({ length: 24 }, (_, hour) => hour % 3 === 0 && (
+                    <div
+                      key={hour}
+                      className="absolute right-1 text-[10px] text-gray-500"
+                      style={{ top: hour * HOUR_HEIGHT_PX }}
+                    >
+                      {hour.toString().padStart(2, '0')}:00
+                    </div>
+                  ))}
+                </div>
+                {DAY_LABELS.map((label, day) => (
+                  <div key={label} className="relative border-l" style={{ height: 24 * HOUR_HEIGHT_PX }}>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <div
+                        key={hour}
+                        className="absolute inset-x-0 border-t border-gray-100"
+                        style={{ top: hour * HOUR_HEIGHT_PX }}
+                      />
+                    ))}
+                    {windows.filter(w => w.days.includes(day)).map((window) => (
+                      <button
+                        key={window.id}
+                        type="button"
+                        onClick={() => openWindow(window)}
+                        className={`absolute inset-x-0.5 border rounded px-1 text-left text-[10px] leading-tight overflow-hidden ${playlistColor(window.playlistId)} ${editingId === window.id ? 'ring-2 ring-blue-500' : ''}`}
+                        style={{
+                          top: (toMinutes(window.start) / 60) * HOUR_HEIGHT_PX,
+                          height: ((toMinutes(window.end) - toMinutes(window.start)) / 60) * HOUR_HEIGHT_PX,
+                        }}
+                        aria-label={`${playlistName(window.playlistId)} on ${label} from ${window.start} to ${window.end}`}
+                        title={`${playlistName(window.playlistId)} ${window.start}–${window.end}`}
+                      >
+                        <div className="font-medium truncate">{playlistName(window.playlistId)}</div>
+                        <div className="truncate">{window.start}–{window.end}</div>
+                      </button>
+                    ))}
+                    {now.day === day && (
+                      <div
+                        className="absolute inset-x-0 border-t-2 border-red-500 pointer-events-none"
+                        style={{ top: (now.minute / 60) * HOUR_HEIGHT_PX }}
+                        aria-hidden="true"
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Click a window to edit it. Displays switch automatically when a window starts or ends;
+              the red line marks the current time in {timezone}.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
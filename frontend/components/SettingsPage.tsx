@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { useDashboards, Dashboard } from '../contexts/DashboardContext';
+import { useDashboards, Dashboard, DashboardFilter, DashboardType } from '../contexts/DashboardContext';
 import { useSettings } from '../contexts/SettingsContext';
 import { useDashboardHealth } from '../hooks/useDashboardHealth';
 import { Button } from '@/components/ui/button';
@@ -23,23 +23,90 @@ import {
   CheckCircle,
   XCircle,
   Clock,
-  RefreshCw
+  RefreshCw,
+  BarChart3,
+  Folder as FolderIcon,
+  Tag
 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { ErrorBoundary } from './ErrorBoundary';
 import { SettingsPageSkeleton, DashboardListSkeleton } from './SkeletonLoader';
 import { LoadingSpinner } from './LoadingSpinner';
+import { DisplayManagement } from './DisplayManagement';
+import { LayoutManagement } from './LayoutManagement';
+import { PlaylistManagement } from './PlaylistManagement';
+import { ScheduleEditor } from './ScheduleEditor';
+import { HealthHistory } from './HealthHistory';
+import { AlertWebhooks } from './AlertWebhooks';
+import { AuditLog } from './AuditLog';
+import { UserManagement } from './UserManagement';
+import { WorkspaceManagement } from './WorkspaceManagement';
+import { DashboardPagesEditor, PageForm } from './DashboardPagesEditor';
+import { DashboardFiltersEditor } from './DashboardFiltersEditor';
+import { CatalogFilterBar } from './CatalogFilterBar';
+import { FolderManagement } from './FolderManagement';
+import { TagManagement } from './TagManagement';
+import { MIN_DURATION_SECONDS, MAX_DURATION_SECONDS, isValidDuration, parseDuration, formatDuration } from '../utils/duration';
+import { buildFilterExpression, splitFilterUrl, validateFilter } from '../utils/filters';
+import {
+  CatalogFilter,
+  collectTags,
+  emptyCatalogFilter,
+  folderTree,
+  groupByFolder,
+  isValidTag,
+  matchesCatalogFilter,
+  parseTags,
+} from '../utils/catalog';
 
 interface DashboardForm {
   name: string;
+  type: DashboardType;
   url: string;
+  workspaceId: string;
+  reportId: string;
+  duration: string; // seconds; empty means the global rotation interval
+  pages: PageForm[];
+  filters: DashboardFilter[];
+  folderId: string; // NO_FOLDER for the top level
+  tags: string; // comma-separated, as typed
 }
 
 interface FormErrors {
   name?: string;
   url?: string;
+  workspaceId?: string;
+  reportId?: string;
+  duration?: string;
+  pages?: string;
+  filters?: string;
+  tags?: string;
 }
 
+// Select value standing in for "no folder", i.e. the top level
+const NO_FOLDER = 'none';
+
+const MAX_TAGS = 20;
+
+const emptyForm: DashboardForm = {
+  name: '',
+  type: 'public',
+  url: '',
+  workspaceId: '',
+  reportId: '',
+  duration: '',
+  pages: [],
+  filters: [],
+  folderId: NO_FOLDER,
+  tags: '',
+};
+
+// Power BI workspace and report IDs are GUIDs
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Power BI page names are generated identifiers such as "ReportSection2" or a hex string
+const PAGE_NAME_PATTERN = /^[\w-]{1,100}$/;
+
 const rotationOptions = [
   { value: 30, label: '30 seconds' },
   { value: 60, label: '1 minute' },
@@ -47,29 +114,42 @@ const rotationOptions = [
   { value: 300, label: '5 minutes' },
 ];
 
+const sessionTimeoutOptions = [
+  { value: 8, label: '8 hours' },
+  { value: 24, label: '1 day' },
+  { value: 168, label: '7 days' },
+  { value: 720, label: '30 days' },
+];
+
+const healthCheckOptions = [
+  { value: 1, label: '1 minute' },
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 60, label: '1 hour' },
+];
+
 export default function SettingsPage() {
-  const { isAuthenticated } = useAuth();
-  const { dashboards, addDashboard, updateDashboard, deleteDashboard } = useDashboards();
+  const { hasRole } = useAuth();
+  const { dashboards, folders, addDashboard, updateDashboard, deleteDashboard } = useDashboards();
   const { settings, updateSettings } = useSettings();
-  const { healthStatus, checkHealth, isChecking } = useDashboardHealth();
+  const { healthStatus, checkHealth, checkAllHealth, isChecking } = useDashboardHealth();
   const navigate = useNavigate();
   const { toast } = useToast();
   
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState<DashboardForm>({ name: '', url: '' });
+  const [formData, setFormData] = useState<DashboardForm>(emptyForm);
   const [errors, setErrors] = useState<FormErrors>({});
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [isDashboardsLoading, setIsDashboardsLoading] = useState(false);
   const [isFormSubmitting, setIsFormSubmitting] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [isNavigating, setIsNavigating] = useState(false);
+  const [catalogFilter, setCatalogFilter] = useState<CatalogFilter>(emptyCatalogFilter);
 
-  React.useEffect(() => {
-    if (!isAuthenticated) {
-      navigate('/');
-    }
-  }, [isAuthenticated, navigate]);
+  const filteredDashboards = dashboards.filter(d => matchesCatalogFilter(d, catalogFilter, folders));
+  const dashboardGroups = groupByFolder(filteredDashboards, folders);
+  const knownTags = collectTags(dashboards);
 
   React.useEffect(() => {
     // Simulate initial loading
@@ -85,15 +165,13 @@ export default function SettingsPage() {
       // Check health of all dashboards on mount
       setIsDashboardsLoading(true);
       const timer = setTimeout(() => {
-        dashboards.forEach(dashboard => {
-          checkHealth(dashboard.id, dashboard.url);
-        });
+        checkAllHealth(dashboards);
         setIsDashboardsLoading(false);
       }, 300);
 
       return () => clearTimeout(timer);
     }
-  }, [dashboards, checkHealth, isInitialLoading]);
+  }, [dashboards, checkAllHealth, isInitialLoading]);
 
   const validateForm = (data: DashboardForm): FormErrors => {
     const errors: FormErrors = {};
@@ -107,20 +185,65 @@ export default function SettingsPage() {
       errors.name = 'Dashboard name must be less than 50 characters';
     }
 
-    // Validate URL
-    if (!data.url.trim()) {
+    // Validate the report IDs or the URL, depending on the dashboard type
+    if (data.type === 'embedded') {
+      if (!GUID_PATTERN.test(data.workspaceId)) {
+        errors.workspaceId = 'Workspace ID must be a GUID';
+      }
+      if (!GUID_PATTERN.test(data.reportId)) {
+        errors.reportId = 'Report ID must be a GUID';
+      }
+    } else if (!data.url.trim()) {
       errors.url = 'Dashboard URL is required';
     } else {
       try {
         const url = new URL(data.url);
         if (!['http:', 'https:'].includes(url.protocol)) {
           errors.url = 'URL must use HTTP or HTTPS protocol';
+        } else if (url.searchParams.has('filter')) {
+          errors.url = 'Move the filter out of the URL and into the report filters below';
         }
       } catch {
         errors.url = 'Please enter a valid URL';
       }
     }
 
+    // Validate dwell time
+    const duration = parseDuration(data.duration);
+    if (duration !== undefined && !isValidDuration(duration)) {
+      errors.duration = `Dwell time must be a whole number of seconds between ${MIN_DURATION_SECONDS} and ${MAX_DURATION_SECONDS}`;
+    }
+
+    // Validate report pages
+    const pageNames = data.pages.map(page => page.name);
+    if (pageNames.some(name => !PAGE_NAME_PATTERN.test(name))) {
+      errors.pages = 'Every page needs a page name made of letters, digits, "_" or "-"';
+    } else if (new Set(pageNames).size !== pageNames.length) {
+      errors.pages = 'A page can only be added once';
+    } else if (data.pages.some(page => page.displayName.length > 50)) {
+      errors.pages = 'Page labels must be at most 50 characters';
+    } else if (data.pages.some(page => {
+      const pageDuration = parseDuration(page.duration);
+      return pageDuration !== undefined && !isValidDuration(pageDuration);
+    })) {
+      errors.pages = `Page dwell times must be whole seconds between ${MIN_DURATION_SECONDS} and ${MAX_DURATION_SECONDS}`;
+    }
+
+    // Validate report filters
+    const filterError = data.filters.map(validateFilter).find(error => error !== null);
+    if (filterError) {
+      errors.filters = filterError;
+    }
+
+    // Validate tags
+    const tags = parseTags(data.tags);
+    const invalidTag = tags.find(tag => !isValidTag(tag));
+    if (invalidTag) {
+      errors.tags = `"${invalidTag}" is not a valid tag; use up to 30 letters, digits, spaces, dashes or underscores`;
+    } else if (tags.length > MAX_TAGS) {
+      errors.tags = `A dashboard can have at most ${MAX_TAGS} tags`;
+    }
+
     // Check for duplicate names (excluding current item when editing)
     const existingDashboard = dashboards.find(d => 
       d.name.toLowerCase() === data.name.trim().toLowerCase() && 
@@ -136,47 +259,104 @@ export default function SettingsPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const trimmedData = {
+    const trimmedForm = {
       name: formData.name.trim(),
+      type: formData.type,
       url: formData.url.trim(),
+      workspaceId: formData.workspaceId.trim(),
+      reportId: formData.reportId.trim(),
+      duration: formData.duration.trim(),
+      pages: formData.pages.map(page => ({
+        name: page.name.trim(),
+        displayName: page.displayName.trim(),
+        duration: page.duration.trim(),
+      })),
+      filters: formData.filters.map(filter => ({
+        ...filter,
+        table: filter.table.trim(),
+        field: filter.field.trim(),
+        values: filter.values.map(value => value.trim()),
+      })),
+      folderId: formData.folderId,
+      tags: formData.tags,
     };
 
-    const validationErrors = validateForm(trimmedData);
+    const validationErrors = validateForm(trimmedForm);
     setErrors(validationErrors);
 
     if (Object.keys(validationErrors).length === 0) {
       setIsFormSubmitting(true);
-      
-      // Simulate form submission delay
-      await new Promise(resolve => setTimeout(resolve, 500));
 
-      if (editingId) {
-        updateDashboard(editingId, trimmedData);
-        toast({
-          title: "Dashboard Updated",
-          description: `"${trimmedData.name}" has been updated successfully.`,
-        });
-        setEditingId(null);
-      } else {
-        const newDashboard = addDashboard(trimmedData);
-        // Check health of new dashboard
-        setTimeout(() => {
-          checkHealth(newDashboard.id, newDashboard.url);
-        }, 100);
+      const isEmbedded = trimmedForm.type === 'embedded';
+      const trimmedData = {
+        name: trimmedForm.name,
+        type: trimmedForm.type,
+        url: isEmbedded ? '' : trimmedForm.url,
+        workspaceId: isEmbedded ? trimmedForm.workspaceId : undefined,
+        reportId: isEmbedded ? trimmedForm.reportId : undefined,
+        durationSeconds: parseDuration(trimmedForm.duration),
+        pages: trimmedForm.pages.map(page => ({
+          name: page.name,
+          displayName: page.displayName || undefined,
+          durationSeconds: parseDuration(page.duration),
+        })),
+        filters: trimmedForm.filters,
+        folderId: trimmedForm.folderId === NO_FOLDER ? undefined : trimmedForm.folderId,
+        tags: parseTags(trimmedForm.tags),
+      };
+
+      try {
+        if (editingId) {
+          await updateDashboard(editingId, trimmedData);
+          toast({
+            title: "Dashboard Updated",
+            description: `"${trimmedData.name}" has been updated successfully.`,
+          });
+          setEditingId(null);
+        } else {
+          const newDashboard = await addDashboard(trimmedData);
+          // Check health of new dashboard
+          setTimeout(() => {
+            checkHealth(newDashboard);
+          }, 100);
+          toast({
+            title: "Dashboard Added",
+            description: `"${trimmedData.name}" has been added successfully.`,
+          });
+          setIsAddingNew(false);
+        }
+        setFormData(emptyForm);
+      } catch (error) {
+        console.error('Error saving dashboard:', error);
         toast({
-          title: "Dashboard Added",
-          description: `"${trimmedData.name}" has been added successfully.`,
+          title: "Save Failed",
+          description: error instanceof Error ? error.message : 'Unable to save the dashboard.',
+          variant: "destructive",
         });
-        setIsAddingNew(false);
+      } finally {
+        setIsFormSubmitting(false);
       }
-      setFormData({ name: '', url: '' });
-      setIsFormSubmitting(false);
     }
   };
 
   const handleEdit = (dashboard: Dashboard) => {
     setEditingId(dashboard.id);
-    setFormData({ name: dashboard.name, url: dashboard.url });
+    setFormData({
+      name: dashboard.name,
+      type: dashboard.type,
+      url: dashboard.url,
+      workspaceId: dashboard.workspaceId ?? '',
+      reportId: dashboard.reportId ?? '',
+      duration: dashboard.durationSeconds?.toString() ?? '',
+      pages: dashboard.pages.map(page => ({
+        name: page.name,
+        displayName: page.displayName ?? '',
+        duration: page.durationSeconds?.toString() ?? '',
+      })),
+      filters: dashboard.filters,
+      folderId: dashboard.folderId ?? NO_FOLDER,
+      tags: dashboard.tags.join(', '),
+    });
     setErrors({});
     setIsAddingNew(false);
   };
@@ -184,40 +364,110 @@ export default function SettingsPage() {
   const handleDelete = async (dashboard: Dashboard) => {
     if (window.confirm(`Are you sure you want to delete "${dashboard.name}"?`)) {
       setDeletingId(dashboard.id);
-      
-      // Simulate deletion delay
-      await new Promise(resolve => setTimeout(resolve, 300));
-      
-      deleteDashboard(dashboard.id);
-      toast({
-        title: "Dashboard Deleted",
-        description: `"${dashboard.name}" has been deleted.`,
-        variant: "destructive",
-      });
-      setDeletingId(null);
+
+      try {
+        await deleteDashboard(dashboard.id);
+        toast({
+          title: "Dashboard Deleted",
+          description: `"${dashboard.name}" has been deleted.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        console.error('Error deleting dashboard:', error);
+        toast({
+          title: "Delete Failed",
+          description: error instanceof Error ? error.message : 'Unable to delete the dashboard.',
+          variant: "destructive",
+        });
+      } finally {
+        setDeletingId(null);
+      }
+    }
+  };
+
+  // A pasted link may carry a filter already; move its conditions into the filter builder
+  const handleUrlBlur = () => {
+    try {
+      const { url, filters } = splitFilterUrl(formData.url.trim());
+      if (filters.length > 0) {
+        setFormData(prev => ({ ...prev, url, filters: [...prev.filters, ...filters] }));
+        setErrors(prev => ({ ...prev, url: undefined }));
+        toast({
+          title: "Filters Imported",
+          description: `Moved ${filters.length} filter condition${filters.length === 1 ? '' : 's'} from the URL into the report filters.`,
+        });
+      }
+    } catch (error) {
+      setErrors(prev => ({
+        ...prev,
+        url: `The filter in this URL could not be read: ${error instanceof Error ? error.message : 'unknown error'}`,
+      }));
     }
   };
 
   const handleCancel = () => {
     setIsAddingNew(false);
     setEditingId(null);
-    setFormData({ name: '', url: '' });
+    setFormData(emptyForm);
     setErrors({});
   };
 
   const handleAddNew = () => {
     setIsAddingNew(true);
     setEditingId(null);
-    setFormData({ name: '', url: '' });
+    setFormData(emptyForm);
     setErrors({});
   };
 
-  const handleRotationIntervalChange = (value: string) => {
-    updateSettings({ rotationInterval: parseInt(value) });
-    toast({
-      title: "Settings Updated",
-      description: `Rotation interval set to ${rotationOptions.find(opt => opt.value === parseInt(value))?.label}.`,
-    });
+  const handleRotationIntervalChange = async (value: string) => {
+    try {
+      await updateSettings({ rotationInterval: parseInt(value) });
+      toast({
+        title: "Settings Updated",
+        description: `Rotation interval set to ${rotationOptions.find(opt => opt.value === parseInt(value))?.label}.`,
+      });
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : 'Unable to update the settings.',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSessionTimeoutChange = async (value: string) => {
+    try {
+      await updateSettings({ sessionTimeoutHours: parseInt(value) });
+      toast({
+        title: "Settings Updated",
+        description: `Sessions now stay signed in for ${sessionTimeoutOptions.find(opt => opt.value === parseInt(value))?.label} of inactivity.`,
+      });
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : 'Unable to update the settings.',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleHealthCheckIntervalChange = async (value: string) => {
+    try {
+      await updateSettings({ healthCheckIntervalMinutes: parseInt(value) });
+      toast({
+        title: "Settings Updated",
+        description: `Dashboards are now checked every ${healthCheckOptions.find(opt => opt.value === parseInt(value))?.label}.`,
+      });
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : 'Unable to update the settings.',
+        variant: "destructive",
+      });
+    }
   };
 
   const handleBackToDashboard = () => {
@@ -236,6 +486,8 @@ export default function SettingsPage() {
     switch (status.status) {
       case 'online':
         return <CheckCircle className="h-4 w-4 text-green-600" aria-label="Online" />;
+      case 'unavailable':
+        return <XCircle className="h-4 w-4 text-red-600" aria-label="Unavailable" />;
       case 'offline':
         return <XCircle className="h-4 w-4 text-red-600" aria-label="Offline" />;
       case 'error':
@@ -251,22 +503,35 @@ export default function SettingsPage() {
     
     switch (status.status) {
       case 'online':
-        return 'Online';
+        return status.latencyMs !== undefined ? `Online (${status.latencyMs}ms)` : 'Online';
+      case 'unavailable':
+        return `Unavailable: ${status.error}`;
       case 'offline':
-        return 'Offline';
+        return `Offline: ${status.error}`;
       case 'error':
-        return `Error: ${status.error}`;
+        return `Check failed: ${status.error}`;
       default:
         return 'Checking...';
     }
   };
 
+  // HTTP status, redirects and check time, shown on hover
+  const getHealthStatusDetails = (dashboardId: string) => {
+    const status = healthStatus[dashboardId];
+    if (!status || status.status === 'checking') return undefined;
+
+    const details = [];
+    if (status.statusCode !== undefined) details.push(`HTTP ${status.statusCode}`);
+    if (status.latencyMs !== undefined) details.push(`${status.latencyMs}ms`);
+    if (status.redirects) details.push(`${status.redirects} redirect${status.redirects === 1 ? '' : 's'}`);
+    details.push(`checked ${status.lastChecked.toLocaleTimeString()}`);
+    return details.join(' · ');
+  };
+
   const handleRefreshHealth = () => {
     setIsDashboardsLoading(true);
     setTimeout(() => {
-      dashboards.forEach(dashboard => {
-        checkHealth(dashboard.id, dashboard.url);
-      });
+      checkAllHealth(dashboards);
       setIsDashboardsLoading(false);
     }, 200);
     
@@ -276,10 +541,6 @@ export default function SettingsPage() {
     });
   };
 
-  if (!isAuthenticated) {
-    return null;
-  }
-
   if (isInitialLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -330,48 +591,118 @@ export default function SettingsPage() {
                 </h1>
               </div>
             </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate('/stats')}
+              className="flex items-center space-x-2"
+              aria-label="View load performance stats"
+            >
+              <BarChart3 className="h-4 w-4" />
+              <span>Load Stats</span>
+            </Button>
           </div>
         </nav>
 
         {/* Main Content */}
         <main className="max-w-4xl mx-auto p-6" role="main">
           {/* General Settings */}
-          <Card className="mb-6">
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <Settings className="h-5 w-5" />
-                <span>General Settings</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <div className="flex items-center space-x-4">
-                  <Label htmlFor="rotation-interval" className="text-sm font-medium text-gray-700 min-w-0 flex-shrink-0">
-                    Auto-rotation interval:
-                  </Label>
-                  <Select 
-                    value={settings.rotationInterval.toString()} 
-                    onValueChange={handleRotationIntervalChange}
-                  >
-                    <SelectTrigger 
-                      className="w-48"
-                      id="rotation-interval"
-                      aria-label="Select rotation interval"
+          {hasRole('admin') && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Settings className="h-5 w-5" />
+                  <span>General Settings</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    The rotation interval belongs to the current workspace. The session timeout and the
+                    health check interval apply to every workspace.
+                  </p>
+                  <div className="flex items-center space-x-4">
+                    <Label htmlFor="rotation-interval" className="text-sm font-medium text-gray-700 min-w-0 flex-shrink-0">
+                      Auto-rotation interval:
+                    </Label>
+                    <Select 
+                      value={settings.rotationInterval.toString()} 
+                      onValueChange={handleRotationIntervalChange}
                     >
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {rotationOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value.toString()}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                      <SelectTrigger 
+                        className="w-48"
+                        id="rotation-interval"
+                        aria-label="Select rotation interval"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {rotationOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value.toString()}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <Label htmlFor="session-timeout" className="text-sm font-medium text-gray-700 min-w-0 flex-shrink-0">
+                      Session timeout:
+                    </Label>
+                    <Select 
+                      value={settings.sessionTimeoutHours.toString()} 
+                      onValueChange={handleSessionTimeoutChange}
+                    >
+                      <SelectTrigger 
+                        className="w-48"
+                        id="session-timeout"
+                        aria-label="Select session timeout"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sessionTimeoutOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value.toString()}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <Label htmlFor="health-check-interval" className="text-sm font-medium text-gray-700 min-w-0 flex-shrink-0">
+                      Health check interval:
+                    </Label>
+                    <Select 
+                      value={settings.healthCheckIntervalMinutes.toString()} 
+                      onValueChange={handleHealthCheckIntervalChange}
+                    >
+                      <SelectTrigger 
+                        className="w-48"
+                        id="health-check-interval"
+                        aria-label="Select health check interval"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {healthCheckOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value.toString()}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Workspace Management */}
+          {hasRole('admin') && <WorkspaceManagement />}
+
+          {/* User Management */}
+          {hasRole('admin') && <UserManagement />}
 
           {/* Dashboard Management */}
           <div className="mb-6">
@@ -442,30 +773,205 @@ export default function SettingsPage() {
                     </div>
                     
                     <div className="space-y-2">
-                      <Label htmlFor="dashboard-url">Dashboard URL *</Label>
+                      <Label htmlFor="dashboard-type">Type</Label>
+                      <Select
+                        value={formData.type}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as DashboardType }))}
+                        disabled={isFormSubmitting}
+                      >
+                        <SelectTrigger id="dashboard-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="public">Public link</SelectItem>
+                          <SelectItem value="embedded">Embedded report</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {formData.type === 'embedded' ? (
+                      <>
+                        <div className="space-y-2">
+                          <Label htmlFor="dashboard-workspace">Workspace ID *</Label>
+                          <Input
+                            id="dashboard-workspace"
+                            type="text"
+                            value={formData.workspaceId}
+                            onChange={(e) => setFormData(prev => ({ ...prev, workspaceId: e.target.value }))}
+                            placeholder="00000000-0000-0000-0000-000000000000"
+                            className={errors.workspaceId ? 'border-red-500' : ''}
+                            aria-describedby={errors.workspaceId ? 'workspace-error' : undefined}
+                            aria-invalid={!!errors.workspaceId}
+                            disabled={isFormSubmitting}
+                          />
+                          {errors.workspaceId && (
+                            <p id="workspace-error" className="text-sm text-red-600" role="alert">
+                              {errors.workspaceId}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="dashboard-report">Report ID *</Label>
+                          <Input
+                            id="dashboard-report"
+                            type="text"
+                            value={formData.reportId}
+                            onChange={(e) => setFormData(prev => ({ ...prev, reportId: e.target.value }))}
+                            placeholder="00000000-0000-0000-0000-000000000000"
+                            className={errors.reportId ? 'border-red-500' : ''}
+                            aria-describedby={errors.reportId ? 'report-error' : undefined}
+                            aria-invalid={!!errors.reportId}
+                            disabled={isFormSubmitting}
+                          />
+                          {errors.reportId && (
+                            <p id="report-error" className="text-sm text-red-600" role="alert">
+                              {errors.reportId}
+                            </p>
+                          )}
+                        </div>
+                      </>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="dashboard-url">Dashboard URL *</Label>
+                        <Input
+                          id="dashboard-url"
+                          type="url"
+                          value={formData.url}
+                          onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
+                          onBlur={handleUrlBlur}
+                          placeholder="https://app.powerbi.com/view?r=..."
+                          className={errors.url ? 'border-red-500' : ''}
+                          aria-describedby={errors.url ? 'url-error' : undefined}
+                          aria-invalid={!!errors.url}
+                          disabled={isFormSubmitting}
+                        />
+                        {errors.url && (
+                          <p id="url-error" className="text-sm text-red-600" role="alert">
+                            {errors.url}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor="dashboard-duration">Dwell Time (seconds)</Label>
+                      <Input
+                        id="dashboard-duration"
+                        type="number"
+                        min={MIN_DURATION_SECONDS}
+                        max={MAX_DURATION_SECONDS}
+                        value={formData.duration}
+                        onChange={(e) => setFormData(prev => ({ ...prev, duration: e.target.value }))}
+                        placeholder={`Default (${settings.rotationInterval}s)`}
+                        className={errors.duration ? 'border-red-500' : ''}
+                        aria-describedby={errors.duration ? 'duration-error' : 'duration-help'}
+                        aria-invalid={!!errors.duration}
+                        disabled={isFormSubmitting}
+                      />
+                      {errors.duration ? (
+                        <p id="duration-error" className="text-sm text-red-600" role="alert">
+                          {errors.duration}
+                        </p>
+                      ) : (
+                        <p id="duration-help" className="text-sm text-gray-500">
+                          Leave empty to use the global rotation interval.
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="dashboard-folder">Folder</Label>
+                      <Select
+                        value={formData.folderId}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, folderId: value }))}
+                        disabled={isFormSubmitting}
+                      >
+                        <SelectTrigger id="dashboard-folder">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+                          {folderTree(folders).map(({ folder, depth }) => (
+                            <SelectItem key={folder.id} value={folder.id}>
+                              <span style={{ paddingLeft: `${depth}rem` }}>{folder.name}</span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="dashboard-tags">Tags</Label>
                       <Input
-                        id="dashboard-url"
-                        type="url"
-                        value={formData.url}
-                        onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
-                        placeholder="https://app.powerbi.com/view?r=..."
-                        className={errors.url ? 'border-red-500' : ''}
-                        aria-describedby={errors.url ? 'url-error' : undefined}
-                        aria-invalid={!!errors.url}
+                        id="dashboard-tags"
+                        type="text"
+                        value={formData.tags}
+                        onChange={(e) => setFormData(prev => ({ ...prev, tags: e.target.value }))}
+                        placeholder="e.g., finance, daily"
+                        className={errors.tags ? 'border-red-500' : ''}
+                        aria-describedby={errors.tags ? 'tags-error' : 'tags-help'}
+                        aria-invalid={!!errors.tags}
                         disabled={isFormSubmitting}
                       />
-                      {errors.url && (
-                        <p id="url-error" className="text-sm text-red-600" role="alert">
-                          {errors.url}
+                      {errors.tags ? (
+                        <p id="tags-error" className="text-sm text-red-600" role="alert">
+                          {errors.tags}
+                        </p>
+                      ) : (
+                        <p id="tags-help" className="text-sm text-gray-500">
+                          Separate tags with commas; playlists can be built from them.
                         </p>
                       )}
+                      {/* Offer the tags already in use, so the same label is not spelled two ways */}
+                      {knownTags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {knownTags.filter(tag => !parseTags(formData.tags).includes(tag)).map(tag => (
+                            <button
+                              key={tag}
+                              type="button"
+                              onClick={() => setFormData(prev => ({ ...prev, tags: parseTags(`${prev.tags},${tag}`).join(', ') }))}
+                              className="inline-flex items-center space-x-1 rounded-full border bg-white px-2 py-0.5 text-xs text-gray-700 hover:bg-gray-100"
+                              disabled={isFormSubmitting}
+                              aria-label={`Add tag ${tag}`}
+                            >
+                              <Plus className="h-3 w-3" />
+                              <span>{tag}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
 
+                  <DashboardPagesEditor
+                    pages={formData.pages}
+                    onChange={(pages) => setFormData(prev => ({ ...prev, pages }))}
+                    error={errors.pages}
+                    disabled={isFormSubmitting}
+                  />
+
+                  <DashboardFiltersEditor
+                    filters={formData.filters}
+                    onChange={(filters) => setFormData(prev => ({ ...prev, filters }))}
+                    error={errors.filters}
+                    disabled={isFormSubmitting}
+                  />
+
                   <Alert>
                     <AlertDescription>
-                      <strong>Tip:</strong> To get the Power BI dashboard URL, open your dashboard in Power BI, 
-                      click "File" → "Embed" → "Website or portal" and copy the URL from the embed code.
+                      {formData.type === 'embedded' ? (
+                        <>
+                          <strong>Tip:</strong> Open the report in Power BI; its URL has the form
+                          .../groups/&lt;workspace ID&gt;/reports/&lt;report ID&gt;/... The service principal
+                          configured on the server needs access to that workspace.
+                        </>
+                      ) : (
+                        <>
+                          <strong>Tip:</strong> To get the Power BI dashboard URL, open your dashboard in Power BI, 
+                          click "File" → "Embed" → "Website or portal" and copy the URL from the embed code.
+                        </>
+                      )}
                     </AlertDescription>
                   </Alert>
 
@@ -501,9 +1007,15 @@ export default function SettingsPage() {
           {/* Dashboard List */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-gray-900">
-              Current Dashboards ({dashboards.length})
+              Current Dashboards ({filteredDashboards.length === dashboards.length
+                ? dashboards.length
+                : `${filteredDashboards.length} of ${dashboards.length}`})
             </h3>
-            
+
+            {dashboards.length > 0 && (
+              <CatalogFilterBar filter={catalogFilter} onChange={setCatalogFilter} tags={knownTags} />
+            )}
+
             {isDashboardsLoading ? (
               <DashboardListSkeleton />
             ) : dashboards.length === 0 ? (
@@ -525,96 +1037,179 @@ export default function SettingsPage() {
                   </Button>
                 </CardContent>
               </Card>
+            ) : filteredDashboards.length === 0 ? (
+              <p className="text-sm text-gray-600">No dashboards match the filter.</p>
             ) : (
-              <div className="grid gap-4">
-                {dashboards.map((dashboard) => (
-                  <Card 
-                    key={dashboard.id} 
-                    className={`${editingId === dashboard.id ? 'ring-2 ring-blue-500' : ''} ${deletingId === dashboard.id ? 'opacity-50' : ''}`}
-                  >
-                    <CardContent className="p-4">
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-2 mb-1">
-                            <h4 className="font-medium text-gray-900">{dashboard.name}</h4>
-                            <div className="flex items-center space-x-1">
-                              {getHealthStatusIcon(dashboard.id)}
-                              <Badge 
-                                variant={
-                                  healthStatus[dashboard.id]?.status === 'online' 
-                                    ? 'default' 
-                                    : healthStatus[dashboard.id]?.status === 'offline' || healthStatus[dashboard.id]?.status === 'error'
-                                    ? 'destructive'
-                                    : 'secondary'
-                                }
-                                className="text-xs"
-                                aria-label={`Dashboard status: ${getHealthStatusText(dashboard.id)}`}
-                              >
-                                {getHealthStatusText(dashboard.id)}
-                              </Badge>
+              <div className="space-y-6">
+                {dashboardGroups.map((group) => (
+                  <div key={group.folderId ?? 'top-level'} className="space-y-2">
+                    {group.label && (
+                      <h4 className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                        <FolderIcon className="h-4 w-4" />
+                        <span>{group.label}</span>
+                      </h4>
+                    )}
+                    <div className="grid gap-4">
+                      {group.dashboards.map((dashboard) => (
+                        <Card 
+                          key={dashboard.id} 
+                          className={`${editingId === dashboard.id ? 'ring-2 ring-blue-500' : ''} ${deletingId === dashboard.id ? 'opacity-50' : ''}`}
+                        >
+                          <CardContent className="p-4">
+                            <div className="flex items-center justify-between">
+                              <div className="flex-1">
+                                <div className="flex items-center space-x-2 mb-1">
+                                  <h4 className="font-medium text-gray-900">{dashboard.name}</h4>
+                                  <div className="flex items-center space-x-1">
+                                    {getHealthStatusIcon(dashboard.id)}
+                                    <Badge 
+                                      variant={
+                                        healthStatus[dashboard.id]?.status === 'online' 
+                                          ? 'default' 
+                                          : healthStatus[dashboard.id] && healthStatus[dashboard.id].status !== 'checking'
+                                          ? 'destructive'
+                                          : 'secondary'
+                                      }
+                                      className="text-xs"
+                                      aria-label={`Dashboard status: ${getHealthStatusText(dashboard.id)}`}
+                                      title={getHealthStatusDetails(dashboard.id)}
+                                    >
+                                      {getHealthStatusText(dashboard.id)}
+                                    </Badge>
+                                  </div>
+                                  {dashboard.durationSeconds !== undefined && (
+                                    <Badge 
+                                      variant="outline" 
+                                      className="text-xs flex items-center space-x-1"
+                                      aria-label={`Dwell time: ${formatDuration(dashboard.durationSeconds)}`}
+                                    >
+                                      <Clock className="h-3 w-3" />
+                                      <span>{formatDuration(dashboard.durationSeconds)}</span>
+                                    </Badge>
+                                  )}
+                                  {dashboard.pages.length > 0 && (
+                                    <Badge 
+                                      variant="outline" 
+                                      className="text-xs"
+                                      title={dashboard.pages.map(page => page.displayName ?? page.name).join(' → ')}
+                                    >
+                                      {dashboard.pages.length} page{dashboard.pages.length === 1 ? '' : 's'}
+                                    </Badge>
+                                  )}
+                                  {dashboard.filters.length > 0 && (
+                                    <Badge 
+                                      variant="outline" 
+                                      className="text-xs"
+                                      title={buildFilterExpression(dashboard.filters)}
+                                    >
+                                      {dashboard.filters.length} filter{dashboard.filters.length === 1 ? '' : 's'}
+                                    </Badge>
+                                  )}
+                                  {dashboard.tags.map(tag => (
+                                    <Badge key={tag} variant="secondary" className="text-xs flex items-center space-x-1">
+                                      <Tag className="h-3 w-3" />
+                                      <span>{tag}</span>
+                                    </Badge>
+                                  ))}
+                                </div>
+                                {dashboard.type === 'embedded' ? (
+                                  <div className="flex items-center space-x-2">
+                                    <Badge variant="outline" className="text-xs">Embedded report</Badge>
+                                    <p className="text-sm text-gray-600 font-mono truncate max-w-md">
+                                      {dashboard.reportId}
+                                    </p>
+                                  </div>
+                                ) : (
+                                  <div className="flex items-center space-x-2">
+                                    <p className="text-sm text-gray-600 truncate max-w-md">
+                                      {dashboard.url}
+                                    </p>
+                                    <a
+                                      href={dashboard.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-blue-600 hover:text-blue-800"
+                                      aria-label={`Open ${dashboard.name} in new tab`}
+                                    >
+                                      <ExternalLink className="h-4 w-4" />
+                                    </a>
+                                  </div>
+                                )}
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => checkHealth(dashboard)}
+                                  disabled={isChecking || deletingId === dashboard.id}
+                                  className="flex items-center space-x-1"
+                                  aria-label={`Check health status of ${dashboard.name}`}
+                                >
+                                  <RefreshCw className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+                                  <span>Check</span>
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleEdit(dashboard)}
+                                  disabled={isAddingNew || (editingId !== null && editingId !== dashboard.id) || isFormSubmitting || deletingId === dashboard.id}
+                                  className="flex items-center space-x-1"
+                                  aria-label={`Edit ${dashboard.name}`}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                  <span>Edit</span>
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleDelete(dashboard)}
+                                  disabled={isAddingNew || editingId !== null || isFormSubmitting || deletingId !== null}
+                                  className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                                  aria-label={`Delete ${dashboard.name}`}
+                                >
+                                  {deletingId === dashboard.id ? (
+                                    <LoadingSpinner size="sm" />
+                                  ) : (
+                                    <Trash2 className="h-4 w-4" />
+                                  )}
+                                  <span>Delete</span>
+                                </Button>
+                              </div>
                             </div>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <p className="text-sm text-gray-600 truncate max-w-md">
-                              {dashboard.url}
-                            </p>
-                            <a
-                              href={dashboard.url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 hover:text-blue-800"
-                              aria-label={`Open ${dashboard.name} in new tab`}
-                            >
-                              <ExternalLink className="h-4 w-4" />
-                            </a>
-                          </div>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => checkHealth(dashboard.id, dashboard.url)}
-                            disabled={isChecking || deletingId === dashboard.id}
-                            className="flex items-center space-x-1"
-                            aria-label={`Check health status of ${dashboard.name}`}
-                          >
-                            <RefreshCw className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
-                            <span>Check</span>
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEdit(dashboard)}
-                            disabled={isAddingNew || (editingId !== null && editingId !== dashboard.id) || isFormSubmitting || deletingId === dashboard.id}
-                            className="flex items-center space-x-1"
-                            aria-label={`Edit ${dashboard.name}`}
-                          >
-                            <Edit className="h-4 w-4" />
-                            <span>Edit</span>
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDelete(dashboard)}
-                            disabled={isAddingNew || editingId !== null || isFormSubmitting || deletingId !== null}
-                            className="flex items-center space-x-1 text-red-600 hover:text-red-800"
-                            aria-label={`Delete ${dashboard.name}`}
-                          >
-                            {deletingId === dashboard.id ? (
-                              <LoadingSpinner size="sm" />
-                            ) : (
-                              <Trash2 className="h-4 w-4" />
-                            )}
-                            <span>Delete</span>
-                          </Button>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  </div>
                 ))}
               </div>
             )}
           </div>
+
+          {/* Folders and Tags */}
+          <FolderManagement />
+          <TagManagement />
+
+          {/* Health History */}
+          <HealthHistory />
+
+          {/* Alert Webhooks */}
+          {hasRole('admin') && <AlertWebhooks />}
+
+          {/* Playlist Management */}
+          <PlaylistManagement />
+
+          {/* Layouts */}
+          <LayoutManagement />
+
+          {/* Schedule */}
+          <ScheduleEditor />
+
+          {/* Displays */}
+          {hasRole('admin') && <DisplayManagement />}
+
+          {/* Audit Log */}
+          {hasRole('admin') && <AuditLog />}
         </main>
       </div>
     </ErrorBoundary>
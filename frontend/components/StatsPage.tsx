@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import backend from '~backend/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, BarChart3, Gauge, LayoutDashboard, Monitor, RefreshCw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { ErrorBoundary } from './ErrorBoundary';
+import { DashboardListSkeleton } from './SkeletonLoader';
+
+type LoadStats = Awaited<ReturnType<typeof backend.telemetry.getStats>>;
+type LoadTimeStats = LoadStats['byMethod'][number];
+
+const windowOptions = [
+  { value: 24, label: 'Last 24 hours' },
+  { value: 168, label: 'Last 7 days' },
+  { value: 720, label: 'Last 30 days' },
+];
+
+function formatMs(ms?: number): string {
+  if (ms === undefined) return '–';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+// Answer the question the stats exist for: how much faster a warm load is than a fresh one
+function describeSpeedup(byMethod: LoadTimeStats[]): string | null {
+  const fresh = byMethod.find(stats => stats.key === 'fresh')?.p50Ms;
+  if (!fresh) return null;
+
+  const comparisons = byMethod
+    .filter(stats => stats.key !== 'fresh' && stats.p50Ms !== undefined)
+    .map(stats => {
+      const ratio = fresh / Math.max(stats.p50Ms!, 1);
+      return ratio >= 1
+        ? `${stats.label} loads are ${ratio.toFixed(1)}× faster than fresh ones at the median`
+        : `${stats.label} loads are slower than fresh ones at the median`;
+    });
+  return comparisons.length > 0 ? `${comparisons.join('; ')}.` : null;
+}
+
+function StatsTable({ title, icon, rows, emptyText }: {
+  title: string;
+  icon: React.ReactNode;
+  rows: LoadTimeStats[];
+  emptyText: string;
+}) {
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          {icon}
+          <span>{title}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-600">{emptyText}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 px-2 font-medium text-right">Loads</th>
+                  <th className="py-2 px-2 font-medium text-right">Failed</th>
+                  <th className="py-2 px-2 font-medium text-right">p50</th>
+                  <th className="py-2 px-2 font-medium text-right">p90</th>
+                  <th className="py-2 px-2 font-medium text-right">p95</th>
+                  <th className="py-2 pl-2 font-medium text-right">p99</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-900">{row.label}</td>
+                    <td className="py-2 px-2 text-right tabular-nums">{row.loads}</td>
+                    <td className={`py-2 px-2 text-right tabular-nums ${row.failures > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                      {row.failures}
+                    </td>
+                    <td className="py-2 px-2 text-right tabular-nums">{formatMs(row.p50Ms)}</td>
+                    <td className="py-2 px-2 text-right tabular-nums">{formatMs(row.p90Ms)}</td>
+                    <td className="py-2 px-2 text-right tabular-nums">{formatMs(row.p95Ms)}</td>
+                    <td className="py-2 pl-2 text-right tabular-nums">{formatMs(row.p99Ms)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Load-time percentiles reported by the screens, to tell whether preloading pays off
+export default function StatsPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [hours, setHours] = useState(24);
+  const [stats, setStats] = useState<LoadStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadStats = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setStats(await backend.telemetry.getStats({ hours }));
+    } catch (error) {
+      console.error('Error loading load stats:', error);
+      toast({
+        title: "Unable to Load Stats",
+        description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [hours, toast]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const speedup = stats ? describeSpeedup(stats.byMethod) : null;
+
+  return (
+    <ErrorBoundary>
+      <div className="min-h-screen bg-gray-50">
+        {/* Navigation Bar */}
+        <nav
+          className="bg-white shadow-sm border-b border-gray-200 p-4"
+          role="navigation"
+          aria-label="Stats navigation"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate('/settings')}
+                className="flex items-center space-x-2"
+                aria-label="Return to settings"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>Back to Settings</span>
+              </Button>
+
+              <div className="flex items-center space-x-3">
+                <div className="h-8 w-12 bg-blue-600 rounded flex items-center justify-center text-white font-bold text-xs">
+                  REO
+                </div>
+                <h1 className="text-xl font-semibold text-gray-900">
+                  Load Performance
+                </h1>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Select value={hours.toString()} onValueChange={(value) => setHours(parseInt(value))}>
+                <SelectTrigger className="w-40" aria-label="Select stats window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {windowOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value.toString()}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={loadStats}
+                disabled={isLoading}
+                aria-label="Reload stats"
+              >
+                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </nav>
+
+        {/* Main Content */}
+        <main className="max-w-4xl mx-auto p-6" role="main">
+          {isLoading && !stats ? (
+            <DashboardListSkeleton />
+          ) : stats && (
+            <>
+              <p className="text-sm text-gray-600 mb-6">
+                Load times of dashboards that showed, measured on each screen from the start of the load.
+                Failed loads are counted but left out of the percentiles.
+                {speedup && <span className="block mt-1 font-medium text-gray-900">{speedup}</span>}
+              </p>
+              <StatsTable
+                title="By Load Method"
+                icon={<Gauge className="h-5 w-5" />}
+                rows={stats.byMethod}
+                emptyText="No loads have been reported in this window."
+              />
+              <StatsTable
+                title="By Dashboard"
+                icon={<LayoutDashboard className="h-5 w-5" />}
+                rows={stats.byDashboard}
+                emptyText="No loads have been reported in this window."
+              />
+              <StatsTable
+                title="By Display"
+                icon={<Monitor className="h-5 w-5" />}
+                rows={stats.byDisplay}
+                emptyText="No loads have been reported in this window."
+              />
+              <p className="flex items-center space-x-1 text-xs text-gray-500">
+                <BarChart3 className="h-3 w-3" />
+                <span>Slowest first, by p90. Measurements are kept for 30 days.</span>
+              </p>
+            </>
+          )}
+        </main>
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useConfigChange } from '../contexts/ConfigEventsContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tags, Edit, Trash2, Save, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { DashboardListSkeleton } from './SkeletonLoader';
+import { LoadingSpinner } from './LoadingSpinner';
+import { isValidTag, normalizeTag } from '../utils/catalog';
+
+type TagUsage = Awaited<ReturnType<typeof backend.dashboards.listTags>>['tags'][number];
+
+// Tags come into being when a dashboard gets them; here they are renamed, merged or removed
+export function TagManagement() {
+  const { toast } = useToast();
+
+  const [tags, setTags] = useState<TagUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingTag, setRenamingTag] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [busyTag, setBusyTag] = useState<string | null>(null);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadTags = useCallback(async () => {
+    try {
+      const response = await backend.dashboards.listTags();
+      setTags(response.tags);
+    } catch (error) {
+      showError('Unable to Load Tags', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // Usage counts follow the dashboards and playlists
+  useConfigChange('dashboards', loadTags);
+  useConfigChange('playlists', loadTags);
+
+  const handleRename = async (e: React.FormEvent, tag: TagUsage) => {
+    e.preventDefault();
+
+    const to = normalizeTag(newName);
+    if (!isValidTag(to)) {
+      toast({
+        title: "Invalid Tag",
+        description: 'Use up to 30 letters, digits, spaces, dashes or underscores.',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const isMerge = to !== tag.name && tags.some(t => t.name === to);
+    if (isMerge && !window.confirm(`"${to}" already exists. Merge "${tag.name}" into it?`)) {
+      return;
+    }
+
+    setBusyTag(tag.name);
+    try {
+      await backend.dashboards.renameTag({ from: tag.name, to });
+      toast({
+        title: isMerge ? "Tags Merged" : "Tag Renamed",
+        description: `"${tag.name}" is now "${to}" on every dashboard and playlist.`,
+      });
+      setRenamingTag(null);
+      await loadTags();
+    } catch (error) {
+      showError('Rename Failed', error);
+    } finally {
+      setBusyTag(null);
+    }
+  };
+
+  const handleDelete = async (tag: TagUsage) => {
+    if (window.confirm(`Remove the tag "${tag.name}" from ${tag.dashboardCount} dashboard${tag.dashboardCount === 1 ? '' : 's'}?`)) {
+      setBusyTag(tag.name);
+      try {
+        await backend.dashboards.deleteTag({ name: tag.name });
+        setTags(prev => prev.filter(t => t.name !== tag.name));
+        toast({
+          title: "Tag Deleted",
+          description: `"${tag.name}" has been removed from every dashboard.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        showError('Delete Failed', error);
+      } finally {
+        setBusyTag(null);
+      }
+    }
+  };
+
+  return (
+    <Card className="my-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Tags className="h-5 w-5" />
+          <span>Tags</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <DashboardListSkeleton />
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No tags yet. Add tags when editing a dashboard to filter by them and build playlists from them.
+          </p>
+        ) : (
+          <div className="grid gap-2">
+            {tags.map((tag) => {
+              const isBusy = busyTag === tag.name;
+
+              return (
+                <div key={tag.name} className="flex items-center justify-between border rounded-lg p-2">
+                  {renamingTag === tag.name ? (
+                    <form onSubmit={(e) => handleRename(e, tag)} className="flex items-center space-x-2">
+                      <Label htmlFor={`rename-tag-${tag.name}`} className="sr-only">
+                        New name for {tag.name}
+                      </Label>
+                      <Input
+                        id={`rename-tag-${tag.name}`}
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        maxLength={30}
+                        required
+                        disabled={isBusy}
+                        className="max-w-xs"
+                        autoFocus
+                      />
+                      <Button type="submit" size="sm" className="flex items-center space-x-1" disabled={isBusy}>
+                        {isBusy ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+                        <span>Save</span>
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRenamingTag(null)}
+                        className="flex items-center space-x-1"
+                        disabled={isBusy}
+                      >
+                        <X className="h-4 w-4" />
+                        <span>Cancel</span>
+                      </Button>
+                    </form>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="secondary">{tag.name}</Badge>
+                      <span className="text-sm text-gray-600">
+                        {tag.dashboardCount} dashboard{tag.dashboardCount === 1 ? '' : 's'}
+                        {tag.playlistCount > 0 && `, ${tag.playlistCount} playlist${tag.playlistCount === 1 ? '' : 's'}`}
+                      </span>
+                    </div>
+                  )}
+                  {renamingTag !== tag.name && (
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setRenamingTag(tag.name);
+                          setNewName(tag.name);
+                        }}
+                        disabled={busyTag !== null}
+                        className="flex items-center space-x-1"
+                        aria-label={`Rename tag ${tag.name}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                        <span>Rename</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(tag)}
+                        disabled={busyTag !== null || tag.playlistCount > 0}
+                        className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                        aria-label={`Delete tag ${tag.name}`}
+                        title={tag.playlistCount > 0 ? 'Playlists are built from this tag' : undefined}
+                      >
+                        {isBusy ? <LoadingSpinner size="sm" /> : <Trash2 className="h-4 w-4" />}
+                        <span>Delete</span>
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,498 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useAuth, Role } from '../contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Users, UserPlus, Trash2, KeyRound, Ban, CheckCircle, Save, X, Building2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { DashboardListSkeleton } from './SkeletonLoader';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface ManagedUser {
+  id: string;
+  username: string;
+  role: Role;
+  disabled: boolean;
+  workspaceIds: string[];
+  createdAt: Date;
+}
+
+interface Workspace {
+  id: string;
+  name: string;
+}
+
+interface UserForm {
+  username: string;
+  password: string;
+  role: Role;
+  workspaceIds: string[];
+}
+
+const roleOptions: { value: Role; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'admin', label: 'Admin' },
+];
+
+const emptyForm: UserForm = { username: '', password: '', role: 'viewer', workspaceIds: [] };
+
+function toggleId(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+}
+
+// Checkboxes for the workspaces an account belongs to
+function WorkspaceChecklist({ idPrefix, workspaces, selected, onChange, disabled }: {
+  idPrefix: string;
+  workspaces: Workspace[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-2">
+      {workspaces.map((workspace) => (
+        <label key={workspace.id} htmlFor={`${idPrefix}-${workspace.id}`} className="flex items-center space-x-2 text-sm">
+          <input
+            id={`${idPrefix}-${workspace.id}`}
+            type="checkbox"
+            checked={selected.includes(workspace.id)}
+            onChange={() => onChange(toggleId(selected, workspace.id))}
+            disabled={disabled}
+          />
+          <span>{workspace.name}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [formData, setFormData] = useState<UserForm>(emptyForm);
+  const [isFormSubmitting, setIsFormSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [resettingId, setResettingId] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [membershipId, setMembershipId] = useState<string | null>(null);
+  const [memberships, setMemberships] = useState<string[]>([]);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const [userResponse, workspaceResponse] = await Promise.all([
+        backend.auth.listUsers(),
+        backend.auth.listWorkspaces(),
+      ]);
+      setUsers(userResponse.users);
+      setWorkspaces(workspaceResponse.workspaces);
+    } catch (error) {
+      showError('Unable to Load Users', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  // Workspaces may have been added since the list was loaded
+  const loadWorkspaces = async () => {
+    try {
+      const response = await backend.auth.listWorkspaces();
+      setWorkspaces(response.workspaces);
+    } catch (error) {
+      showError('Unable to Load Workspaces', error);
+    }
+  };
+
+  const replaceUser = (updated: ManagedUser) => {
+    setUsers(prev => prev.map(user => user.id === updated.id ? updated : user));
+  };
+
+  const workspaceNames = (ids: string[]) =>
+    workspaces.filter(workspace => ids.includes(workspace.id)).map(workspace => workspace.name);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsFormSubmitting(true);
+
+    try {
+      const created = await backend.auth.createUser({
+        username: formData.username.trim(),
+        password: formData.password,
+        role: formData.role,
+        workspaceIds: formData.workspaceIds,
+      });
+      setUsers(prev => [...prev, created].sort((a, b) => a.username.localeCompare(b.username)));
+      toast({
+        title: "User Created",
+        description: `"${created.username}" can now sign in as ${created.role}.`,
+      });
+      setFormData(emptyForm);
+      setIsAddingNew(false);
+    } catch (error) {
+      showError('Create Failed', error);
+    } finally {
+      setIsFormSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (user: ManagedUser, role: string) => {
+    setBusyId(user.id);
+    try {
+      replaceUser(await backend.auth.updateUser({ id: user.id, role: role as Role }));
+      toast({
+        title: "Role Updated",
+        description: `"${user.username}" is now ${role}.`,
+      });
+    } catch (error) {
+      showError('Update Failed', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleDisabled = async (user: ManagedUser) => {
+    setBusyId(user.id);
+    try {
+      replaceUser(await backend.auth.updateUser({ id: user.id, disabled: !user.disabled }));
+      toast({
+        title: user.disabled ? "User Enabled" : "User Disabled",
+        description: user.disabled
+          ? `"${user.username}" can sign in again.`
+          : `"${user.username}" has been signed out and can no longer sign in.`,
+      });
+    } catch (error) {
+      showError('Update Failed', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleMembershipSave = async (user: ManagedUser) => {
+    setBusyId(user.id);
+    try {
+      replaceUser(await backend.auth.updateUser({ id: user.id, workspaceIds: memberships }));
+      toast({
+        title: "Workspaces Updated",
+        description: `"${user.username}" now has access to ${memberships.length === 1 ? '1 workspace' : `${memberships.length} workspaces`}.`,
+      });
+      setMembershipId(null);
+    } catch (error) {
+      showError('Update Failed', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResetPassword = async (user: ManagedUser) => {
+    setBusyId(user.id);
+    try {
+      await backend.auth.resetPassword({ id: user.id, password: newPassword });
+      toast({
+        title: "Password Reset",
+        description: `"${user.username}" has been signed out and must use the new password.`,
+      });
+      setResettingId(null);
+      setNewPassword('');
+    } catch (error) {
+      showError('Reset Failed', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (user: ManagedUser) => {
+    if (window.confirm(`Are you sure you want to delete the user "${user.username}"?`)) {
+      setBusyId(user.id);
+      try {
+        await backend.auth.deleteUser({ id: user.id });
+        setUsers(prev => prev.filter(u => u.id !== user.id));
+        toast({
+          title: "User Deleted",
+          description: `"${user.username}" has been deleted.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        showError('Delete Failed', error);
+      } finally {
+        setBusyId(null);
+      }
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>User Management</span>
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={() => {
+              // New accounts start out in the workspace the admin is working in
+              setFormData({ ...emptyForm, workspaceIds: currentUser ? [currentUser.workspaceId] : [] });
+              setIsAddingNew(true);
+              loadWorkspaces();
+            }}
+            disabled={isAddingNew}
+            className="flex items-center space-x-2"
+            aria-label="Add new user"
+          >
+            <UserPlus className="h-4 w-4" />
+            <span>Add User</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAddingNew && (
+          <form onSubmit={handleCreate} className="space-y-4 border rounded-lg p-4 bg-gray-50">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-user-username">Username *</Label>
+                <Input
+                  id="new-user-username"
+                  value={formData.username}
+                  onChange={(e) => setFormData(prev => ({ ...prev, username: e.target.value }))}
+                  placeholder="e.g., lobby-screen"
+                  required
+                  disabled={isFormSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-user-password">Initial Password *</Label>
+                <Input
+                  id="new-user-password"
+                  type="password"
+                  value={formData.password}
+                  onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder="At least 8 characters"
+                  minLength={8}
+                  required
+                  disabled={isFormSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-user-role">Role</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, role: value as Role }))}
+                >
+                  <SelectTrigger id="new-user-role" aria-label="Select role for new user">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roleOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Workspaces</Label>
+              <WorkspaceChecklist
+                idPrefix="new-user-workspace"
+                workspaces={workspaces}
+                selected={formData.workspaceIds}
+                onChange={(workspaceIds) => setFormData(prev => ({ ...prev, workspaceIds }))}
+                disabled={isFormSubmitting}
+              />
+              {formData.role === 'admin' && (
+                <p className="text-xs text-gray-500">Admins can open every workspace regardless of membership.</p>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button type="submit" className="flex items-center space-x-2" disabled={isFormSubmitting}>
+                {isFormSubmitting ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+                <span>Create User</span>
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setIsAddingNew(false);
+                  setFormData(emptyForm);
+                }}
+                className="flex items-center space-x-2"
+                disabled={isFormSubmitting}
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <DashboardListSkeleton />
+        ) : (
+          <div className="grid gap-3">
+            {users.map((user) => {
+              const isSelf = user.id === currentUser?.id;
+              const isBusy = busyId === user.id;
+
+              return (
+                <div
+                  key={user.id}
+                  className={`border rounded-lg p-3 ${user.disabled ? 'bg-gray-50 opacity-75' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{user.username}</span>
+                      {isSelf && <Badge variant="outline" className="text-xs">You</Badge>}
+                      {user.disabled && <Badge variant="destructive" className="text-xs">Disabled</Badge>}
+                      {workspaceNames(user.workspaceIds).map(name => (
+                        <Badge key={name} variant="secondary" className="text-xs">{name}</Badge>
+                      ))}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Select
+                        value={user.role}
+                        onValueChange={(value) => handleRoleChange(user, value)}
+                        disabled={isSelf || isBusy}
+                      >
+                        <SelectTrigger className="w-32" aria-label={`Role of ${user.username}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roleOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (membershipId === user.id) {
+                            setMembershipId(null);
+                            return;
+                          }
+                          setMembershipId(user.id);
+                          setMemberships(user.workspaceIds);
+                          loadWorkspaces();
+                        }}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1"
+                        aria-label={`Workspaces of ${user.username}`}
+                      >
+                        <Building2 className="h-4 w-4" />
+                        <span>Workspaces</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setResettingId(resettingId === user.id ? null : user.id);
+                          setNewPassword('');
+                        }}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1"
+                        aria-label={`Reset password of ${user.username}`}
+                      >
+                        <KeyRound className="h-4 w-4" />
+                        <span>Reset</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleToggleDisabled(user)}
+                        disabled={isSelf || isBusy}
+                        className="flex items-center space-x-1"
+                        aria-label={`${user.disabled ? 'Enable' : 'Disable'} ${user.username}`}
+                      >
+                        {user.disabled ? <CheckCircle className="h-4 w-4" /> : <Ban className="h-4 w-4" />}
+                        <span>{user.disabled ? 'Enable' : 'Disable'}</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(user)}
+                        disabled={isSelf || isBusy}
+                        className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                        aria-label={`Delete ${user.username}`}
+                      >
+                        {isBusy ? <LoadingSpinner size="sm" /> : <Trash2 className="h-4 w-4" />}
+                        <span>Delete</span>
+                      </Button>
+                    </div>
+                  </div>
+
+                  {membershipId === user.id && (
+                    <div className="flex items-center justify-between space-x-4 mt-3">
+                      <WorkspaceChecklist
+                        idPrefix={`workspace-${user.id}`}
+                        workspaces={workspaces}
+                        selected={memberships}
+                        onChange={setMemberships}
+                        disabled={isBusy}
+                      />
+                      <Button size="sm" onClick={() => handleMembershipSave(user)} disabled={isBusy}>
+                        Save Workspaces
+                      </Button>
+                    </div>
+                  )}
+
+                  {resettingId === user.id && (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleResetPassword(user);
+                      }}
+                      className="flex items-center space-x-2 mt-3"
+                    >
+                      <Label htmlFor={`reset-${user.id}`} className="sr-only">
+                        New password for {user.username}
+                      </Label>
+                      <Input
+                        id={`reset-${user.id}`}
+                        type="password"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        placeholder="New password (at least 8 characters)"
+                        minLength={8}
+                        required
+                        disabled={isBusy}
+                        className="max-w-xs"
+                      />
+                      <Button type="submit" size="sm" disabled={isBusy}>
+                        Set Password
+                      </Button>
+                    </form>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
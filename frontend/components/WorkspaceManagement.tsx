@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Building2, Plus, Edit, Trash2, Save, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { DashboardListSkeleton } from './SkeletonLoader';
+import { LoadingSpinner } from './LoadingSpinner';
+
+type Workspace = Awaited<ReturnType<typeof backend.auth.listWorkspaces>>['workspaces'][number];
+
+// Owns everything configured before workspaces existed; it cannot be deleted
+const DEFAULT_WORKSPACE_ID = 'workspace-default';
+
+// Workspaces each own their dashboards, playlists, displays and settings; members are managed per user
+export function WorkspaceManagement() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddingNew, setIsAddingNew] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      const response = await backend.auth.listWorkspaces();
+      setWorkspaces(response.workspaces);
+    } catch (error) {
+      showError('Unable to Load Workspaces', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadWorkspaces();
+  }, [loadWorkspaces]);
+
+  const handleCancel = () => {
+    setIsAddingNew(false);
+    setEditingId(null);
+    setName('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      if (editingId) {
+        const updated = await backend.auth.updateWorkspace({ id: editingId, name: name.trim() });
+        setWorkspaces(prev => prev.map(workspace => workspace.id === updated.id ? updated : workspace));
+        toast({
+          title: "Workspace Renamed",
+          description: `The workspace is now called "${updated.name}".`,
+        });
+      } else {
+        const created = await backend.auth.createWorkspace({ name: name.trim() });
+        setWorkspaces(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+        toast({
+          title: "Workspace Created",
+          description: `Add members to "${created.name}" under User Management.`,
+        });
+      }
+      handleCancel();
+    } catch (error) {
+      showError('Save Failed', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (workspace: Workspace) => {
+    if (window.confirm(`Delete the workspace "${workspace.name}"? Its webhooks and settings are deleted with it.`)) {
+      setDeletingId(workspace.id);
+
+      try {
+        await backend.auth.deleteWorkspace({ id: workspace.id });
+        setWorkspaces(prev => prev.filter(w => w.id !== workspace.id));
+        toast({
+          title: "Workspace Deleted",
+          description: `"${workspace.name}" has been deleted.`,
+          variant: "destructive",
+        });
+      } catch (error) {
+        showError('Delete Failed', error);
+      } finally {
+        setDeletingId(null);
+      }
+    }
+  };
+
+  const nameForm = (inputId: string) => (
+    <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+      <Label htmlFor={inputId} className="sr-only">Workspace name</Label>
+      <Input
+        id={inputId}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="e.g., Finance"
+        minLength={2}
+        maxLength={50}
+        required
+        disabled={isSaving}
+        className="max-w-xs"
+      />
+      <Button type="submit" size="sm" className="flex items-center space-x-1" disabled={isSaving}>
+        {isSaving ? <LoadingSpinner size="sm" /> : <Save className="h-4 w-4" />}
+        <span>Save</span>
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleCancel}
+        className="flex items-center space-x-1"
+        disabled={isSaving}
+      >
+        <X className="h-4 w-4" />
+        <span>Cancel</span>
+      </Button>
+    </form>
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Building2 className="h-5 w-5" />
+            <span>Workspaces</span>
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={() => {
+              handleCancel();
+              setIsAddingNew(true);
+            }}
+            disabled={isAddingNew}
+            className="flex items-center space-x-2"
+            aria-label="Add new workspace"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Workspace</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Each workspace has its own dashboards, playlists, displays, schedule and rotation interval.
+          Switch between them from the dashboard view. A workspace can be deleted once its
+          dashboards, playlists, layouts, folders and displays are gone.
+        </p>
+
+        {isAddingNew && (
+          <div className="border rounded-lg p-4 bg-gray-50">
+            {nameForm('new-workspace-name')}
+          </div>
+        )}
+
+        {isLoading ? (
+          <DashboardListSkeleton />
+        ) : (
+          <div className="grid gap-3">
+            {workspaces.map((workspace) => (
+              <div key={workspace.id} className="border rounded-lg p-3">
+                {editingId === workspace.id ? (
+                  nameForm(`workspace-name-${workspace.id}`)
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{workspace.name}</span>
+                      {workspace.id === user?.workspaceId && (
+                        <Badge variant="outline" className="text-xs">Current</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setIsAddingNew(false);
+                          setEditingId(workspace.id);
+                          setName(workspace.name);
+                        }}
+                        disabled={deletingId !== null}
+                        className="flex items-center space-x-1"
+                        aria-label={`Rename ${workspace.name}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                        <span>Rename</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(workspace)}
+                        disabled={deletingId !== null || workspace.id === DEFAULT_WORKSPACE_ID || workspace.id === user?.workspaceId}
+                        className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                        aria-label={`Delete ${workspace.name}`}
+                      >
+                        {deletingId === workspace.id ? <LoadingSpinner size="sm" /> : <Trash2 className="h-4 w-4" />}
+                        <span>Delete</span>
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
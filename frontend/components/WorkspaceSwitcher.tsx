@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import backend from '~backend/client';
+import { useAuth } from '../contexts/AuthContext';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+
+type Workspace = Awaited<ReturnType<typeof backend.auth.listWorkspaces>>['workspaces'][number];
+
+// Shows the current workspace and, for members of several, switches between them
+export function WorkspaceSwitcher() {
+  const { user, switchWorkspace } = useAuth();
+  const { toast } = useToast();
+
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    backend.auth.listWorkspaces()
+      .then(response => setWorkspaces(response.workspaces))
+      .catch(error => console.error('Error loading workspaces:', error));
+  }, []);
+
+  const current = workspaces.find(workspace => workspace.id === user?.workspaceId);
+  if (!user || !current) return null;
+
+  // Paired displays stay in the workspace they were registered in
+  if (user.displayId || workspaces.length === 1) {
+    return (
+      <span className="flex items-center space-x-1 text-sm text-gray-600" aria-label={`Workspace: ${current.name}`}>
+        <Building2 className="h-4 w-4" />
+        <span>{current.name}</span>
+      </span>
+    );
+  }
+
+  const handleSwitch = async (workspaceId: string) => {
+    if (workspaceId === user.workspaceId) return;
+    setIsSwitching(true);
+    try {
+      await switchWorkspace(workspaceId);
+    } catch (error) {
+      console.error('Error switching workspace:', error);
+      toast({
+        title: "Switch Failed",
+        description: error instanceof Error ? error.message : 'Unable to switch workspace.',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <Select value={user.workspaceId} onValueChange={handleSwitch} disabled={isSwitching}>
+      <SelectTrigger className="w-44" aria-label="Switch workspace">
+        <Building2 className="h-4 w-4 mr-2 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
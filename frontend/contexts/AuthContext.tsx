@@ -1,13 +1,41 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import backend, { ErrCode, isAPIError } from '~backend/client';
+
+export type Role = 'admin' | 'editor' | 'viewer';
+
+export interface User {
+  id: string;
+  username: string;
+  role: Role;
+  workspaceId: string;
+  displayId?: string; // set when this device is signed in as a paired display
+}
+
+// Each role includes the permissions of the roles ranked below it
+const roleRank: Record<Role, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+};
 
 interface AuthContextType {
   isAuthenticated: boolean;
-  login: (username: string, password: string) => boolean;
-  logout: () => void;
+  isInitializing: boolean;
+  user: User | null;
+  hasRole: (required: Role) => boolean;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  // Moves the session to another workspace; the data contexts reload for it
+  switchWorkspace: (workspaceId: string) => Promise<void>;
+  // Re-reads the current credential, e.g. after the pairing page received one
+  restoreSession: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// How often an open app slides its session forward while signed in
+const SESSION_RENEWAL_INTERVAL_MS = 15 * 60 * 1000;
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -21,22 +49,80 @@ interface AuthProviderProps {
 }
 
 export function AuthProvider({ children }: AuthProviderProps) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [isInitializing, setIsInitializing] = useState(true);
+
+  const restoreSession = useCallback(async () => {
+    try {
+      const response = await backend.auth.refresh();
+      setUser(response.user);
+    } catch (error) {
+      if (!isAPIError(error) || error.code !== ErrCode.Unauthenticated) {
+        console.error('Error restoring session:', error);
+      }
+    } finally {
+      setIsInitializing(false);
+    }
+  }, []);
+
+  // Quietly restore an existing session or display cookie before any page decides to redirect
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
 
-  const login = (username: string, password: string): boolean => {
-    if (username === 'reodept' && password === 'geberman#2025') {
-      setIsAuthenticated(true);
+  // Renew the session periodically so unattended displays stay signed in
+  useEffect(() => {
+    if (!user) return;
+
+    const intervalId = setInterval(async () => {
+      try {
+        await backend.auth.refresh();
+      } catch (error) {
+        if (isAPIError(error) && error.code === ErrCode.Unauthenticated) {
+          setUser(null);
+        } else {
+          console.warn('Session renewal failed, will retry:', error);
+        }
+      }
+    }, SESSION_RENEWAL_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [user]);
+
+  const hasRole = (required: Role): boolean => {
+    return user !== null && roleRank[user.role] >= roleRank[required];
+  };
+
+  const login = async (username: string, password: string): Promise<boolean> => {
+    try {
+      const response = await backend.auth.login({ username, password });
+      setUser(response.user);
       return true;
+    } catch (error) {
+      if (isAPIError(error) && error.code === ErrCode.Unauthenticated) {
+        return false;
+      }
+      throw error;
     }
-    return false;
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
+  const switchWorkspace = async (workspaceId: string) => {
+    const response = await backend.auth.switchWorkspace({ workspaceId });
+    setUser(response.user);
+  };
+
+  const logout = async () => {
+    try {
+      await backend.auth.logout();
+    } catch (error) {
+      console.error('Error ending session:', error);
+    } finally {
+      setUser(null);
+    }
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated: user !== null, isInitializing, user, hasRole, login, logout, switchWorkspace, restoreSession }}>
       {children}
     </AuthContext.Provider>
   );
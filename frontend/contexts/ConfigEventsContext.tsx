@@ -0,0 +1,95 @@
+import React, { createContext, useContext, useEffect, useRef, useCallback, ReactNode } from 'react';
+import backend from '~backend/client';
+import { useAuth } from './AuthContext';
+import { openReconnectingStream } from '../utils/stream';
+
+export type ConfigResource = 'dashboards' | 'folders' | 'layouts' | 'playlists' | 'schedule' | 'settings' | 'displays';
+
+export interface ConfigChange {
+  resource: ConfigResource;
+  id?: string;
+}
+
+const ALL_RESOURCES: ConfigResource[] = ['dashboards', 'folders', 'layouts', 'playlists', 'schedule', 'settings', 'displays'];
+
+type ConfigChangeListener = (change: ConfigChange) => void;
+
+interface ConfigEventsContextType {
+  // Registers a listener for changes to one resource and returns the unsubscribe function
+  subscribe: (resource: ConfigResource, listener: ConfigChangeListener) => () => void;
+}
+
+const ConfigEventsContext = createContext<ConfigEventsContextType | undefined>(undefined);
+
+export function useConfigEvents() {
+  const context = useContext(ConfigEventsContext);
+  if (context === undefined) {
+    throw new Error('useConfigEvents must be used within a ConfigEventsProvider');
+  }
+  return context;
+}
+
+/**
+ * Calls `onChange` whenever another screen or user changes the given resource.
+ */
+export function useConfigChange(resource: ConfigResource, onChange: ConfigChangeListener) {
+  const { subscribe } = useConfigEvents();
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    return subscribe(resource, (change) => onChangeRef.current(change));
+  }, [resource, subscribe]);
+}
+
+interface ConfigEventsProviderProps {
+  children: ReactNode;
+}
+
+export function ConfigEventsProvider({ children }: ConfigEventsProviderProps) {
+  const listenersRef = useRef(new Map<ConfigResource, Set<ConfigChangeListener>>());
+  const { isAuthenticated, user } = useAuth();
+  const workspaceId = user?.workspaceId;
+
+  const notify = useCallback((change: ConfigChange) => {
+    listenersRef.current.get(change.resource)?.forEach(listener => listener(change));
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    // The stream only carries changes in the current workspace, so reconnect after a switch
+    const stream = openReconnectingStream({
+      name: 'Configuration events',
+      connect: backend.events.subscribe,
+      onMessage: notify,
+      // Changes made while disconnected were missed, so reload everything
+      onOpen: (isReconnect) => {
+        if (isReconnect) {
+          ALL_RESOURCES.forEach(resource => notify({ resource }));
+        }
+      },
+    });
+
+    return () => stream.close();
+  }, [isAuthenticated, workspaceId, notify]);
+
+  const subscribe = useCallback((resource: ConfigResource, listener: ConfigChangeListener) => {
+    const listeners = listenersRef.current;
+    const forResource = listeners.get(resource) ?? new Set<ConfigChangeListener>();
+    forResource.add(listener);
+    listeners.set(resource, forResource);
+    return () => {
+      forResource.delete(listener);
+    };
+  }, []);
+
+  return (
+    <ConfigEventsContext.Provider value={{ subscribe }}>
+      {children}
+    </ConfigEventsContext.Provider>
+  );
+}
@@ -1,17 +1,64 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { StorageManager } from '../utils/storage';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useAuth } from './AuthContext';
+import { useConfigChange } from './ConfigEventsContext';
+
+// 'public' dashboards are publish-to-web links; 'embedded' ones are secure
+// Power BI Embedded reports shown with a server-issued embed token
+export type DashboardType = 'public' | 'embedded';
+
+// A page of a Power BI report, shown in turn before the rotation moves on
+export interface DashboardPage {
+  name: string; // the report's internal page name, as in the "pageName" URL parameter
+  displayName?: string;
+  durationSeconds?: number; // overrides the dashboard's dwell time
+}
+
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le' | 'in';
+export type FilterValueType = 'text' | 'number';
+
+// A report filter condition, e.g. Store/Territory eq 'NC'
+export interface DashboardFilter {
+  table: string;
+  field: string;
+  operator: FilterOperator;
+  valueType: FilterValueType;
+  values: string[]; // one value, or one or more for 'in'
+}
 
 export interface Dashboard {
   id: string;
   name: string;
-  url: string;
+  type: DashboardType;
+  url: string; // empty for embedded reports
+  workspaceId?: string;
+  reportId?: string;
+  durationSeconds?: number; // overrides the global rotation interval
+  pages: DashboardPage[]; // empty when the dashboard is shown as a whole
+  filters: DashboardFilter[]; // all apply; never part of the url itself
+  folderId?: string; // unset at the top level
+  tags: string[]; // lowercase, sorted
+  layoutId?: string; // set by the playlist entry that put the dashboard in the rotation
+}
+
+// A folder of the dashboard catalog; folders nest through parentId
+export interface Folder {
+  id: string;
+  name: string;
+  parentId?: string;
 }
 
 interface DashboardContextType {
   dashboards: Dashboard[];
-  addDashboard: (dashboard: Omit<Dashboard, 'id'>) => Dashboard;
-  updateDashboard: (id: string, dashboard: Omit<Dashboard, 'id'>) => void;
-  deleteDashboard: (id: string) => void;
+  isLoading: boolean;
+  addDashboard: (dashboard: Omit<Dashboard, 'id'>) => Promise<Dashboard>;
+  updateDashboard: (id: string, dashboard: Omit<Dashboard, 'id'>) => Promise<void>;
+  deleteDashboard: (id: string) => Promise<void>;
+  folders: Folder[];
+  addFolder: (folder: Omit<Folder, 'id'>) => Promise<Folder>;
+  updateFolder: (id: string, folder: Omit<Folder, 'id'>) => Promise<void>;
+  // Dashboards and subfolders of a deleted folder move up into its parent
+  deleteFolder: (id: string) => Promise<void>;
 }
 
 const DashboardContext = createContext<DashboardContextType | undefined>(undefined);
@@ -28,82 +75,97 @@ interface DashboardProviderProps {
   children: ReactNode;
 }
 
-const defaultDashboards: Dashboard[] = [
-  {
-    id: 'dashboard-1',
-    name: 'Sales Dashboard',
-    url: 'https://app.powerbi.com/view?r=eyJrIjoiNTFkN2Q4ODEtMzVjZi00YTZlLWI5MDEtZjZkOTE5NjY3ODgwIiwidCI6IjRiZGJiZTdkLTYzZGYtNGU1Yy05NTNlLTkyODYzMTY4OTVlNiIsImMiOjEwfQ%3D%3D',
-  },
-  {
-    id: 'dashboard-2',
-    name: 'Marketing Dashboard',
-    url: 'https://app.powerbi.com/view?r=eyJrIjoiN2U5YThjNGYtOGFjMi00M2FjLWI4OWUtNDYzNjNhOTMzZGQ5IiwidCI6IjRiZGJiZTdkLTYzZGYtNGU1Yy05NTNlLTkyODYzMTY4OTVlNiIsImMiOjEwfQ%3D%3D&pageName=5d09de0a920dc3d03aa6',
-  },
-  {
-    id: 'dashboard-3',
-    name: 'Financial Dashboard',
-    url: 'https://app.powerbi.com/view?r=eyJrIjoiMzZhYmJmODMtMDRhNC00OTMwLWI0OWYtNTc5OWIzY2I1Yjc1IiwidCI6IjRiZGJiZTdkLTYzZGYtNGU1Yy05NTNlLTkyODYzMTY4OTVlNiIsImMiOjEwfQ%3D%3D',
-  },
-];
-
 export function DashboardProvider({ children }: DashboardProviderProps) {
   const [dashboards, setDashboards] = useState<Dashboard[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { isAuthenticated, user } = useAuth();
+  const workspaceId = user?.workspaceId;
 
-  // Load dashboards from localStorage on mount
-  useEffect(() => {
+  const loadDashboards = useCallback(async () => {
     try {
-      const savedDashboards = StorageManager.getDashboards();
-      if (savedDashboards && savedDashboards.length > 0) {
-        setDashboards(savedDashboards);
-      } else {
-        setDashboards(defaultDashboards);
-      }
+      const response = await backend.dashboards.list();
+      setDashboards(response.dashboards);
     } catch (error) {
       console.error('Error loading dashboards:', error);
-      setDashboards(defaultDashboards);
     }
   }, []);
 
-  // Save dashboards to localStorage whenever they change
+  const loadFolders = useCallback(async () => {
+    try {
+      const response = await backend.dashboards.listFolders();
+      setFolders(response.folders);
+    } catch (error) {
+      console.error('Error loading folders:', error);
+    }
+  }, []);
+
+  // Load the workspace's dashboard list once signed in, and again after switching workspace
   useEffect(() => {
-    if (dashboards.length > 0) {
-      try {
-        StorageManager.saveDashboards(dashboards);
-      } catch (error) {
-        console.error('Error saving dashboards:', error);
-      }
+    if (!isAuthenticated) {
+      setDashboards([]);
+      setFolders([]);
+      return;
     }
-  }, [dashboards]);
 
-  const addDashboard = (dashboard: Omit<Dashboard, 'id'>): Dashboard => {
-    const newDashboard: Dashboard = {
-      ...dashboard,
-      id: `dashboard-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    };
+    setIsLoading(true);
+    Promise.all([loadDashboards(), loadFolders()]).finally(() => setIsLoading(false));
+  }, [isAuthenticated, workspaceId, loadDashboards, loadFolders]);
+
+  // Pick up edits made on other screens; the rotation carries on with the new list
+  useConfigChange('dashboards', loadDashboards);
+  useConfigChange('folders', loadFolders);
+
+  const addDashboard = async (dashboard: Omit<Dashboard, 'id'>): Promise<Dashboard> => {
+    const newDashboard = await backend.dashboards.create(dashboard);
     setDashboards(prev => [...prev, newDashboard]);
     return newDashboard;
   };
 
-  const updateDashboard = (id: string, updatedDashboard: Omit<Dashboard, 'id'>) => {
+  const updateDashboard = async (id: string, updatedDashboard: Omit<Dashboard, 'id'>) => {
+    const saved = await backend.dashboards.update({ id, ...updatedDashboard });
     setDashboards(prev => 
       prev.map(dashboard => 
         dashboard.id === id 
-          ? { ...updatedDashboard, id }
+          ? saved
           : dashboard
       )
     );
   };
 
-  const deleteDashboard = (id: string) => {
+  const deleteDashboard = async (id: string) => {
+    await backend.dashboards.remove({ id });
     setDashboards(prev => prev.filter(dashboard => dashboard.id !== id));
   };
 
+  const addFolder = async (folder: Omit<Folder, 'id'>): Promise<Folder> => {
+    const newFolder = await backend.dashboards.createFolder(folder);
+    setFolders(prev => [...prev, newFolder].sort((a, b) => a.name.localeCompare(b.name)));
+    return newFolder;
+  };
+
+  const updateFolder = async (id: string, updatedFolder: Omit<Folder, 'id'>) => {
+    const saved = await backend.dashboards.updateFolder({ id, ...updatedFolder });
+    setFolders(prev => prev.map(folder => folder.id === id ? saved : folder).sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const deleteFolder = async (id: string) => {
+    await backend.dashboards.deleteFolder({ id });
+    // The server moved the folder's contents, so read them back rather than guess
+    await Promise.all([loadDashboards(), loadFolders()]);
+  };
+
   return (
     <DashboardContext.Provider value={{
       dashboards,
+      isLoading,
       addDashboard,
       updateDashboard,
       deleteDashboard,
+      folders,
+      addFolder,
+      updateFolder,
+      deleteFolder,
     }}>
       {children}
     </DashboardContext.Provider>
@@ -0,0 +1,109 @@
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useAuth } from './AuthContext';
+import { useConfigChange } from './ConfigEventsContext';
+
+export type LayoutPreset = '1x1' | '2x1' | '2x2' | '1+2' | 'custom';
+
+// 'main' follows the rotation, 'dashboard' always shows one dashboard and
+// 'rotation' cycles through dashboards of its own
+export type LayoutCellContent = 'main' | 'dashboard' | 'rotation';
+
+export interface LayoutCell {
+  // 1-based grid lines, as in CSS grid
+  column: number;
+  row: number;
+  columnSpan: number;
+  rowSpan: number;
+  content: LayoutCellContent;
+  dashboardIds: string[]; // one for 'dashboard', one or more for 'rotation'
+  intervalSeconds?: number; // per dashboard of a 'rotation' cell; falls back to its dwell time
+}
+
+// A screen split into cells, chosen per playlist entry or per display
+export interface Layout {
+  id: string;
+  name: string;
+  preset: LayoutPreset;
+  columns: number;
+  rows: number;
+  cells: LayoutCell[];
+}
+
+interface LayoutContextType {
+  layouts: Layout[];
+  isLoading: boolean;
+  addLayout: (layout: Omit<Layout, 'id'>) => Promise<Layout>;
+  updateLayout: (id: string, layout: Omit<Layout, 'id'>) => Promise<void>;
+  deleteLayout: (id: string) => Promise<void>;
+}
+
+const LayoutContext = createContext<LayoutContextType | undefined>(undefined);
+
+export function useLayouts() {
+  const context = useContext(LayoutContext);
+  if (context === undefined) {
+    throw new Error('useLayouts must be used within a LayoutProvider');
+  }
+  return context;
+}
+
+interface LayoutProviderProps {
+  children: ReactNode;
+}
+
+export function LayoutProvider({ children }: LayoutProviderProps) {
+  const [layouts, setLayouts] = useState<Layout[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { isAuthenticated, user } = useAuth();
+  const workspaceId = user?.workspaceId;
+
+  const loadLayouts = useCallback(async () => {
+    try {
+      const response = await backend.dashboards.listLayouts();
+      setLayouts(response.layouts);
+    } catch (error) {
+      console.error('Error loading layouts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLayouts([]);
+      return;
+    }
+
+    setIsLoading(true);
+    loadLayouts().finally(() => setIsLoading(false));
+  }, [isAuthenticated, workspaceId, loadLayouts]);
+
+  useConfigChange('layouts', loadLayouts);
+
+  const addLayout = async (layout: Omit<Layout, 'id'>): Promise<Layout> => {
+    const newLayout = await backend.dashboards.createLayout(layout);
+    setLayouts(prev => [...prev, newLayout].sort((a, b) => a.name.localeCompare(b.name)));
+    return newLayout;
+  };
+
+  const updateLayout = async (id: string, updatedLayout: Omit<Layout, 'id'>) => {
+    const saved = await backend.dashboards.updateLayout({ id, ...updatedLayout });
+    setLayouts(prev => prev.map(layout => layout.id === id ? saved : layout));
+  };
+
+  const deleteLayout = async (id: string) => {
+    await backend.dashboards.deleteLayout({ id });
+    setLayouts(prev => prev.filter(layout => layout.id !== id));
+  };
+
+  return (
+    <LayoutContext.Provider value={{
+      layouts,
+      isLoading,
+      addLayout,
+      updateLayout,
+      deleteLayout,
+    }}>
+      {children}
+    </LayoutContext.Provider>
+  );
+}
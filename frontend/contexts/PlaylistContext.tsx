@@ -0,0 +1,193 @@
+import React, { createContext, useContext, useState, ReactNode, useEffect, useMemo, useCallback } from 'react';
+import backend from '~backend/client';
+import { useAuth } from './AuthContext';
+import { useConfigChange } from './ConfigEventsContext';
+import { useDashboards, Dashboard } from './DashboardContext';
+import { StorageManager } from '../utils/storage';
+
+export interface PlaylistEntry {
+  dashboardId: string;
+  durationSeconds?: number; // overrides the dashboard's own dwell time
+  layoutId?: string; // shows the dashboard in the layout's main cell
+}
+
+// Dashboards carrying any, or all, of the tags make up the playlist
+export interface TagQuery {
+  match: 'any' | 'all';
+  tags: string[];
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  entries: PlaylistEntry[]; // for a playlist built from tags, the dashboards matching it
+  tagQuery?: TagQuery;
+}
+
+interface PlaylistContextType {
+  playlists: Playlist[];
+  isLoading: boolean;
+  activePlaylist: Playlist | null;
+  // Dashboards of the active playlist in rotation order (with the entry's dwell time
+  // and layout applied), or every dashboard when none is active
+  activeDashboards: Dashboard[];
+  setActivePlaylistId: (id: string | null) => void;
+  // Playlist an admin assigned to this device when it is a paired display; it takes
+  // precedence over the schedule
+  assignedPlaylistId: string | null;
+  // Layout an admin assigned to this display, used for entries without one of their own
+  assignedLayoutId: string | null;
+  addPlaylist: (playlist: Omit<Playlist, 'id'>) => Promise<Playlist>;
+  updatePlaylist: (id: string, playlist: Omit<Playlist, 'id'>) => Promise<void>;
+  deletePlaylist: (id: string) => Promise<void>;
+}
+
+const PlaylistContext = createContext<PlaylistContextType | undefined>(undefined);
+
+export function usePlaylists() {
+  const context = useContext(PlaylistContext);
+  if (context === undefined) {
+    throw new Error('usePlaylists must be used within a PlaylistProvider');
+  }
+  return context;
+}
+
+interface PlaylistProviderProps {
+  children: ReactNode;
+}
+
+export function PlaylistProvider({ children }: PlaylistProviderProps) {
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // The active playlist is a per-device choice, so it lives in local storage
+  const [activePlaylistId, setActivePlaylistIdState] = useState<string | null>(
+    () => StorageManager.getActivePlaylistId()
+  );
+  const [assignedPlaylistId, setAssignedPlaylistId] = useState<string | null>(null);
+  const [assignedLayoutId, setAssignedLayoutId] = useState<string | null>(null);
+  const { isAuthenticated, user } = useAuth();
+  const workspaceId = user?.workspaceId;
+  const { dashboards } = useDashboards();
+
+  const loadPlaylists = useCallback(async () => {
+    try {
+      const response = await backend.dashboards.listPlaylists();
+      setPlaylists(response.playlists);
+    } catch (error) {
+      console.error('Error loading playlists:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setPlaylists([]);
+      return;
+    }
+
+    setIsLoading(true);
+    loadPlaylists().finally(() => setIsLoading(false));
+  }, [isAuthenticated, workspaceId, loadPlaylists]);
+
+  useConfigChange('playlists', loadPlaylists);
+
+  const setActivePlaylistId = useCallback((id: string | null) => {
+    setActivePlaylistIdState(id);
+    try {
+      StorageManager.saveActivePlaylistId(id);
+    } catch (error) {
+      console.error('Error saving active playlist:', error);
+    }
+  }, []);
+
+  const displayId = user?.displayId;
+
+  const loadAssignment = useCallback(async () => {
+    if (!displayId) return;
+    try {
+      const display = await backend.displays.current();
+      setAssignedPlaylistId(display.playlistId ?? null);
+      setAssignedLayoutId(display.layoutId ?? null);
+      if (display.playlistId) {
+        setActivePlaylistId(display.playlistId);
+      }
+    } catch (error) {
+      console.error('Error loading display assignment:', error);
+    }
+  }, [displayId, setActivePlaylistId]);
+
+  useEffect(() => {
+    if (!displayId) {
+      setAssignedPlaylistId(null);
+      setAssignedLayoutId(null);
+      return;
+    }
+    loadAssignment();
+  }, [displayId, loadAssignment]);
+
+  // An admin may reassign this display's playlist or layout at any time
+  useConfigChange('displays', (change) => {
+    if (!change.id || change.id === displayId) {
+      loadAssignment();
+    }
+  });
+
+  const activePlaylist = playlists.find(playlist => playlist.id === activePlaylistId) ?? null;
+
+  const activeDashboards = useMemo(() => {
+    if (!activePlaylist) {
+      return dashboards;
+    }
+    // Skip entries whose dashboard has been deleted since the playlist was loaded
+    return activePlaylist.entries.flatMap(entry => {
+      const dashboard = dashboards.find(d => d.id === entry.dashboardId);
+      if (!dashboard) return [];
+      return [{
+        ...dashboard,
+        durationSeconds: entry.durationSeconds ?? dashboard.durationSeconds,
+        layoutId: entry.layoutId,
+      }];
+    });
+  }, [activePlaylist, dashboards]);
+
+  const addPlaylist = async (playlist: Omit<Playlist, 'id'>): Promise<Playlist> => {
+    const newPlaylist = await backend.dashboards.createPlaylist(playlist);
+    setPlaylists(prev => [...prev, newPlaylist].sort((a, b) => a.name.localeCompare(b.name)));
+    return newPlaylist;
+  };
+
+  const updatePlaylist = async (id: string, updatedPlaylist: Omit<Playlist, 'id'>) => {
+    const saved = await backend.dashboards.updatePlaylist({ id, ...updatedPlaylist });
+    setPlaylists(prev =>
+      prev.map(playlist =>
+        playlist.id === id
+          ? saved
+          : playlist
+      )
+    );
+  };
+
+  const deletePlaylist = async (id: string) => {
+    await backend.dashboards.deletePlaylist({ id });
+    setPlaylists(prev => prev.filter(playlist => playlist.id !== id));
+    if (activePlaylistId === id) {
+      setActivePlaylistId(null);
+    }
+  };
+
+  return (
+    <PlaylistContext.Provider value={{
+      playlists,
+      isLoading,
+      activePlaylist,
+      activeDashboards,
+      setActivePlaylistId,
+      assignedPlaylistId,
+      assignedLayoutId,
+      addPlaylist,
+      updatePlaylist,
+      deletePlaylist,
+    }}>
+      {children}
+    </PlaylistContext.Provider>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useAuth } from './AuthContext';
+import { useConfigChange } from './ConfigEventsContext';
+import { Schedule } from '../utils/schedule';
+
+type ScheduleInput = Omit<Schedule, 'windows'> & {
+  windows: Omit<Schedule['windows'][number], 'id'>[];
+};
+
+interface ScheduleContextType {
+  schedule: Schedule;
+  isLoading: boolean;
+  updateSchedule: (schedule: ScheduleInput) => Promise<void>;
+}
+
+const emptySchedule: Schedule = { timezone: 'UTC', windows: [] };
+
+const ScheduleContext = createContext<ScheduleContextType | undefined>(undefined);
+
+export function useSchedule() {
+  const context = useContext(ScheduleContext);
+  if (context === undefined) {
+    throw new Error('useSchedule must be used within a ScheduleProvider');
+  }
+  return context;
+}
+
+interface ScheduleProviderProps {
+  children: ReactNode;
+}
+
+export function ScheduleProvider({ children }: ScheduleProviderProps) {
+  const [schedule, setSchedule] = useState<Schedule>(emptySchedule);
+  const [isLoading, setIsLoading] = useState(true);
+  const { isAuthenticated, user } = useAuth();
+  const workspaceId = user?.workspaceId;
+
+  const loadSchedule = useCallback(async () => {
+    try {
+      setSchedule(await backend.dashboards.getSchedule());
+    } catch (error) {
+      console.error('Error loading schedule:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setSchedule(emptySchedule);
+      return;
+    }
+
+    setIsLoading(true);
+    loadSchedule().finally(() => setIsLoading(false));
+  }, [isAuthenticated, workspaceId, loadSchedule]);
+
+  useConfigChange('schedule', loadSchedule);
+
+  const updateSchedule = async (input: ScheduleInput) => {
+    setSchedule(await backend.dashboards.updateSchedule(input));
+  };
+
+  return (
+    <ScheduleContext.Provider value={{
+      schedule,
+      isLoading,
+      updateSchedule,
+    }}>
+      {children}
+    </ScheduleContext.Provider>
+  );
+}
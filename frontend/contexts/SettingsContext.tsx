@@ -1,13 +1,17 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { StorageManager } from '../utils/storage';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import backend from '~backend/client';
+import { useAuth } from './AuthContext';
+import { useConfigChange } from './ConfigEventsContext';
 
 export interface AppSettings {
   rotationInterval: number; // in seconds
+  sessionTimeoutHours: number;
+  healthCheckIntervalMinutes: number;
 }
 
 interface SettingsContextType {
   settings: AppSettings;
-  updateSettings: (updates: Partial<AppSettings>) => void;
+  updateSettings: (updates: Partial<AppSettings>) => Promise<void>;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -24,20 +28,21 @@ interface SettingsProviderProps {
   children: ReactNode;
 }
 
-const defaultSettings: AppSettings = {
+export const defaultSettings: AppSettings = {
   rotationInterval: 60, // 1 minute
+  sessionTimeoutHours: 168, // 7 days
+  healthCheckIntervalMinutes: 5,
 };
 
 export function SettingsProvider({ children }: SettingsProviderProps) {
   const [settings, setSettings] = useState<AppSettings>(defaultSettings);
+  const { isAuthenticated, user } = useAuth();
+  const workspaceId = user?.workspaceId;
 
-  // Load settings from localStorage on mount
-  useEffect(() => {
+  const loadSettings = useCallback(async () => {
     try {
-      const savedSettings = StorageManager.getSettings();
-      if (savedSettings) {
-        setSettings({ ...defaultSettings, ...savedSettings });
-      }
+      const savedSettings = await backend.settings.get();
+      setSettings({ ...defaultSettings, ...savedSettings });
     } catch (error) {
       console.error('Error loading settings:', error);
       // Use default settings if there's an error
@@ -45,17 +50,26 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     }
   }, []);
 
-  // Save settings to localStorage whenever they change
+  // Load the workspace's settings once signed in, and again after switching workspace
   useEffect(() => {
+    if (!isAuthenticated) return;
+    loadSettings();
+  }, [isAuthenticated, workspaceId, loadSettings]);
+
+  // Apply changes made elsewhere, e.g. a new rotation interval, as they happen
+  useConfigChange('settings', loadSettings);
+
+  const updateSettings = async (updates: Partial<AppSettings>) => {
+    const previous = settings;
+    setSettings(prev => ({ ...prev, ...updates }));
+
     try {
-      StorageManager.saveSettings(settings);
+      const saved = await backend.settings.update(updates);
+      setSettings(saved);
     } catch (error) {
-      console.error('Error saving settings:', error);
+      setSettings(previous);
+      throw error;
     }
-  }, [settings]);
-
-  const updateSettings = (updates: Partial<AppSettings>) => {
-    setSettings(prev => ({ ...prev, ...updates }));
   };
 
   return (
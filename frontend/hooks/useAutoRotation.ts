@@ -1,16 +1,37 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Dashboard } from '../contexts/DashboardContext';
+import { nextHealthyStep, pageCount, pageDuration } from '../utils/pages';
 
-export function useAutoRotation(dashboards: Dashboard[], isUserActive: boolean, rotationIntervalSeconds: number = 60) {
+const NONE_SKIPPED: ReadonlySet<string> = new Set();
+
+export function useAutoRotation(
+  dashboards: Dashboard[],
+  isUserActive: boolean,
+  rotationIntervalSeconds: number = 60,
+  skippedIds: ReadonlySet<string> = NONE_SKIPPED
+) {
   const [currentDashboardIndex, setCurrentDashboardIndex] = useState(0);
+  const [currentPageIndex, setCurrentPageIndex] = useState(0);
   const [isRotating, setIsRotating] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(rotationIntervalSeconds);
   const countdownRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  // A page's own dwell time, then its dashboard's (already resolved against its
+  // playlist entry), take precedence over the global rotation interval
+  const intervalFor = useCallback((index: number, pageIndex: number = 0) => {
+    return pageDuration(dashboards[index], pageIndex, rotationIntervalSeconds);
+  }, [dashboards, rotationIntervalSeconds]);
+
+  const currentInterval = intervalFor(currentDashboardIndex, currentPageIndex);
+
+  // Every page of every dashboard is a step of its own
+  const stepCount = dashboards.reduce((count, dashboard) => count + pageCount(dashboard), 0);
+  const canRotate = stepCount > 1;
+
   const startRotation = useCallback(() => {
     setIsRotating(true);
-    setTimeRemaining(rotationIntervalSeconds);
-  }, [rotationIntervalSeconds]);
+    setTimeRemaining(currentInterval);
+  }, [currentInterval]);
 
   const stopRotation = useCallback(() => {
     setIsRotating(false);
@@ -20,31 +41,38 @@ export function useAutoRotation(dashboards: Dashboard[], isUserActive: boolean,
     }
   }, []);
 
-  const nextDashboard = useCallback(() => {
+  // Move to the next page, or to the next dashboard after the last page, passing
+  // over dashboards that are being skipped
+  const advanceRotation = useCallback(() => {
     if (dashboards.length > 0) {
-      setCurrentDashboardIndex((prev) => (prev + 1) % dashboards.length);
-      setTimeRemaining(rotationIntervalSeconds);
+      const next = nextHealthyStep(dashboards, { dashboardIndex: currentDashboardIndex, pageIndex: currentPageIndex }, skippedIds);
+      setCurrentDashboardIndex(next.dashboardIndex);
+      setCurrentPageIndex(next.pageIndex);
+      setTimeRemaining(intervalFor(next.dashboardIndex, next.pageIndex));
     }
-  }, [dashboards.length, rotationIntervalSeconds]);
+  }, [currentDashboardIndex, currentPageIndex, dashboards, intervalFor, skippedIds]);
 
-  // Update time remaining when rotation interval changes
+  // Move off a dashboard as soon as it is skipped rather than leaving its error on
+  // screen for the rest of the countdown
+  const isCurrentSkipped = skippedIds.has(dashboards[currentDashboardIndex]?.id);
+  useEffect(() => {
+    if (isRotating && !isUserActive && isCurrentSkipped) {
+      advanceRotation();
+    }
+  }, [isRotating, isUserActive, isCurrentSkipped]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Update time remaining when the interval of the current dashboard changes
   useEffect(() => {
     if (isRotating) {
-      setTimeRemaining(rotationIntervalSeconds);
+      setTimeRemaining(currentInterval);
     }
-  }, [rotationIntervalSeconds, isRotating]);
+  }, [currentInterval, isRotating]);
 
   useEffect(() => {
-    if (isRotating && !isUserActive && dashboards.length > 1) {
+    if (isRotating && !isUserActive && canRotate) {
       // Start countdown
       countdownRef.current = setInterval(() => {
-        setTimeRemaining((prev) => {
-          if (prev <= 1) {
-            nextDashboard();
-            return rotationIntervalSeconds;
-          }
-          return prev - 1;
-        });
+        setTimeRemaining((prev) => Math.max(prev - 1, 0));
       }, 1000);
 
       return () => {
@@ -60,28 +88,62 @@ export function useAutoRotation(dashboards: Dashboard[], isUserActive: boolean,
         countdownRef.current = null;
       }
     }
-  }, [isRotating, isUserActive, dashboards.length, nextDashboard, rotationIntervalSeconds]);
+  }, [isRotating, isUserActive, canRotate]);
+
+  // Advance once the countdown for the current page has run out
+  useEffect(() => {
+    if (isRotating && timeRemaining === 0) {
+      advanceRotation();
+    }
+  }, [isRotating, timeRemaining, advanceRotation]);
 
   // Reset countdown when user becomes active
   useEffect(() => {
     if (isUserActive && isRotating) {
-      setTimeRemaining(rotationIntervalSeconds);
+      setTimeRemaining(currentInterval);
+    }
+  }, [isUserActive, isRotating, currentInterval]);
+
+  // When the rotation list changes (a playlist switch, or dashboards edited on
+  // another screen), carry on from the dashboard and page on screen if they are
+  // still part of the list and start over from the first one otherwise.
+  // Adjusting during render keeps the stale index from ever reaching the page.
+  const rotationIds = dashboards.map(d => d.id);
+  const rotationKey = dashboards.map(d => [d.id, ...d.pages.map(page => page.name)].join('#')).join(',');
+  const [previousRotation, setPreviousRotation] = useState({ key: rotationKey, ids: rotationIds });
+  if (previousRotation.key !== rotationKey) {
+    setPreviousRotation({ key: rotationKey, ids: rotationIds });
+    const carriedIndex = rotationIds.indexOf(previousRotation.ids[currentDashboardIndex]);
+    if (carriedIndex >= 0) {
+      setCurrentDashboardIndex(carriedIndex);
+      if (currentPageIndex >= pageCount(dashboards[carriedIndex])) {
+        setCurrentPageIndex(0);
+        setTimeRemaining(intervalFor(carriedIndex, 0));
+      }
+    } else {
+      setCurrentDashboardIndex(0);
+      setCurrentPageIndex(0);
+      setTimeRemaining(intervalFor(0));
     }
-  }, [isUserActive, isRotating, rotationIntervalSeconds]);
+  }
 
   // Reset index if it's out of bounds (e.g., after deleting dashboards)
   useEffect(() => {
     if (currentDashboardIndex >= dashboards.length && dashboards.length > 0) {
       setCurrentDashboardIndex(0);
+      setCurrentPageIndex(0);
     }
   }, [dashboards.length, currentDashboardIndex]);
 
   return {
     currentDashboardIndex,
+    currentPageIndex,
+    canRotate,
     isRotating,
     timeRemaining,
+    currentInterval,
     startRotation,
     stopRotation,
-    nextDashboard,
+    advanceRotation,
   };
 }
@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Dashboard } from '../contexts/DashboardContext';
+import { pageUrl } from '../utils/pages';
+import { CellRotation, cellShare } from '../utils/layouts';
 
 interface PooledConnection {
   id: string;
@@ -19,13 +21,22 @@ interface ConnectionPoolOptions {
 
 export function useConnectionPool(
   dashboards: Dashboard[],
+  // The rest of a layout on screen, when the dashboards rotate in one of its cells
+  otherCells: CellRotation[] = [],
   options: ConnectionPoolOptions = {}
 ) {
   const {
-    maxConnections = 5,
     idleTimeoutMs = 10 * 60 * 1000, // 10 minutes
     warmupDelayMs = 500,
   } = options;
+  // Every cell pools for itself, sharing what a single dashboard would hold
+  const maxConnections = cellShare(options.maxConnections ?? 5, otherCells.length + 1);
+
+  // Dashboards another cell is showing hold an iframe there already
+  const shownElsewhereKey = otherCells
+    .map(({ dashboards: cellDashboards, step }) => cellDashboards[step.dashboardIndex]?.id)
+    .filter(Boolean)
+    .join(',');
 
   const [connectionPool, setConnectionPool] = useState<Map<string, PooledConnection>>(new Map());
   const [isWarmingUp, setIsWarmingUp] = useState(false);
@@ -95,7 +106,8 @@ export function useConnectionPool(
       const iframe = document.createElement('iframe');
       const startTime = Date.now();
       
-      iframe.src = dashboard.url;
+      // Pooled connections hold a dashboard's first page
+      iframe.src = pageUrl(dashboard, 0);
       iframe.style.cssText = `
         width: 100%;
         height: 100%;
@@ -155,7 +167,10 @@ export function useConnectionPool(
 
     try {
       // Warm up connections for the first few dashboards
-      const dashboardsToWarmUp = dashboards.slice(0, Math.min(maxConnections, dashboards.length));
+      // Embedded reports are rendered through the Power BI API rather than a plain iframe
+      const shownElsewhere = new Set(shownElsewhereKey.split(','));
+      const pageDashboards = dashboards.filter(d => d.type !== 'embedded' && !shownElsewhere.has(d.id));
+      const dashboardsToWarmUp = pageDashboards.slice(0, Math.min(maxConnections, pageDashboards.length));
       
       for (const dashboard of dashboardsToWarmUp) {
         if (!connectionPool.has(dashboard.id)) {
@@ -174,11 +189,11 @@ export function useConnectionPool(
       setIsWarmingUp(false);
       console.log('Connection pool warm-up complete');
     }
-  }, [dashboards, maxConnections, connectionPool, createPooledConnection, warmupDelayMs, isWarmingUp]);
+  }, [dashboards, maxConnections, connectionPool, createPooledConnection, warmupDelayMs, isWarmingUp, shownElsewhereKey]);
 
   const acquireConnection = useCallback(async (dashboardId: string): Promise<HTMLIFrameElement | null> => {
     const dashboard = dashboards.find(d => d.id === dashboardId);
-    if (!dashboard) return null;
+    if (!dashboard || dashboard.type === 'embedded') return null;
 
     let connection = connectionPool.get(dashboardId);
     
@@ -274,6 +289,25 @@ export function useConnectionPool(
     };
   }, [connectionPool, maxConnections, isWarmingUp]);
 
+  // Drop idle connections for dashboards that are no longer part of the rotation
+  // (e.g., after switching playlists) so the pool makes room for the new ones
+  useEffect(() => {
+    const rotationIds = new Set(dashboards.map(d => d.id));
+    setConnectionPool(prev => {
+      const stale = Array.from(prev.values()).filter(c => !c.isActive && !rotationIds.has(c.id));
+      if (stale.length === 0) return prev;
+
+      const updated = new Map(prev);
+      for (const connection of stale) {
+        if (connection.iframe.parentNode) {
+          connection.iframe.parentNode.removeChild(connection.iframe);
+        }
+        updated.delete(connection.id);
+      }
+      return updated;
+    });
+  }, [dashboards]);
+
   // Warm up pool when dashboards change
   useEffect(() => {
     if (dashboards.length > 0) {
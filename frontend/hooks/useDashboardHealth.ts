@@ -1,130 +1,95 @@
 import { useState, useCallback } from 'react';
+import backend from '~backend/client';
+import { Dashboard } from '../contexts/DashboardContext';
 
 export interface HealthStatus {
-  status: 'online' | 'offline' | 'error' | 'checking';
+  // 'online', 'unavailable' and 'offline' come from the server-side check; 'error'
+  // means the check itself could not be run
+  status: 'online' | 'unavailable' | 'offline' | 'error' | 'checking';
   lastChecked: Date;
+  statusCode?: number;
+  latencyMs?: number;
+  redirects?: number;
   error?: string;
 }
 
+type DashboardHealth = Awaited<ReturnType<typeof backend.health.checkDashboard>>;
+
+function toHealthStatus(health: DashboardHealth): HealthStatus {
+  return {
+    status: health.status,
+    lastChecked: health.checkedAt,
+    statusCode: health.statusCode,
+    latencyMs: health.latencyMs,
+    redirects: health.redirects,
+    error: health.error,
+  };
+}
+
 export function useDashboardHealth() {
   const [healthStatus, setHealthStatus] = useState<Record<string, HealthStatus>>({});
   const [isChecking, setIsChecking] = useState(false);
 
-  const checkHealth = useCallback(async (dashboardId: string, url: string) => {
-    setIsChecking(true);
-    setHealthStatus(prev => ({
-      ...prev,
-      [dashboardId]: {
-        status: 'checking',
-        lastChecked: new Date(),
+  const markChecking = (ids: string[]) => {
+    setHealthStatus(prev => {
+      const updated = { ...prev };
+      for (const id of ids) {
+        updated[id] = { ...prev[id], status: 'checking', lastChecked: new Date() };
       }
-    }));
-
-    try {
-      // Create a simple health check by trying to fetch the URL
-      // Note: This might be blocked by CORS, but we can still detect some issues
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-      try {
-        const response = await fetch(url, {
-          method: 'HEAD',
-          mode: 'no-cors', // This will help avoid CORS issues
-          signal: controller.signal,
-        });
+      return updated;
+    });
+  };
 
-        clearTimeout(timeoutId);
+  const markFailed = (ids: string[], error: unknown) => {
+    setHealthStatus(prev => {
+      const updated = { ...prev };
+      for (const id of ids) {
+        updated[id] = {
+          status: 'error',
+          lastChecked: new Date(),
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+      return updated;
+    });
+  };
 
-        // With no-cors mode, we can't read the response status
-        // But if the fetch completes without error, the URL is likely accessible
-        setHealthStatus(prev => ({
-          ...prev,
-          [dashboardId]: {
-            status: 'online',
-            lastChecked: new Date(),
-          }
-        }));
-      } catch (fetchError) {
-        clearTimeout(timeoutId);
-        
-        if (fetchError instanceof Error) {
-          if (fetchError.name === 'AbortError') {
-            setHealthStatus(prev => ({
-              ...prev,
-              [dashboardId]: {
-                status: 'error',
-                lastChecked: new Date(),
-                error: 'Request timeout'
-              }
-            }));
-          } else {
-            // For CORS errors or network errors, we'll try a different approach
-            // Create an iframe to test if the URL loads
-            const iframe = document.createElement('iframe');
-            iframe.style.display = 'none';
-            iframe.src = url;
-            
-            const checkPromise = new Promise<void>((resolve, reject) => {
-              const timeout = setTimeout(() => {
-                document.body.removeChild(iframe);
-                reject(new Error('Iframe load timeout'));
-              }, 5000);
+  // The backend requests the dashboard itself, so the result reflects real HTTP
+  // statuses rather than what the browser's CORS rules let us see
+  const checkHealth = useCallback(async (dashboard: Dashboard) => {
+    setIsChecking(true);
+    markChecking([dashboard.id]);
 
-              iframe.onload = () => {
-                clearTimeout(timeout);
-                document.body.removeChild(iframe);
-                resolve();
-              };
+    try {
+      const health = await backend.health.checkDashboard({ id: dashboard.id });
+      setHealthStatus(prev => ({ ...prev, [dashboard.id]: toHealthStatus(health) }));
+    } catch (error) {
+      console.error('Error checking dashboard health:', error);
+      markFailed([dashboard.id], error);
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
 
-              iframe.onerror = () => {
-                clearTimeout(timeout);
-                document.body.removeChild(iframe);
-                reject(new Error('Failed to load in iframe'));
-              };
-            });
+  const checkAllHealth = useCallback(async (dashboards: Dashboard[]) => {
+    const ids = dashboards.map(d => d.id);
+    if (ids.length === 0) return;
 
-            document.body.appendChild(iframe);
+    setIsChecking(true);
+    markChecking(ids);
 
-            try {
-              await checkPromise;
-              setHealthStatus(prev => ({
-                ...prev,
-                [dashboardId]: {
-                  status: 'online',
-                  lastChecked: new Date(),
-                }
-              }));
-            } catch (iframeError) {
-              setHealthStatus(prev => ({
-                ...prev,
-                [dashboardId]: {
-                  status: 'offline',
-                  lastChecked: new Date(),
-                  error: iframeError instanceof Error ? iframeError.message : 'Unknown error'
-                }
-              }));
-            }
-          }
-        } else {
-          setHealthStatus(prev => ({
-            ...prev,
-            [dashboardId]: {
-              status: 'error',
-              lastChecked: new Date(),
-              error: 'Unknown error occurred'
-            }
-          }));
+    try {
+      const { results } = await backend.health.checkDashboards();
+      setHealthStatus(prev => {
+        const updated = { ...prev };
+        for (const health of results) {
+          updated[health.dashboardId] = toHealthStatus(health);
         }
-      }
+        return updated;
+      });
     } catch (error) {
-      setHealthStatus(prev => ({
-        ...prev,
-        [dashboardId]: {
-          status: 'error',
-          lastChecked: new Date(),
-          error: error instanceof Error ? error.message : 'Unknown error'
-        }
-      }));
+      console.error('Error checking dashboard health:', error);
+      markFailed(ids, error);
     } finally {
       setIsChecking(false);
     }
@@ -133,6 +98,7 @@ export function useDashboardHealth() {
   return {
     healthStatus,
     checkHealth,
+    checkAllHealth,
     isChecking,
   };
 }
@@ -1,8 +1,10 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Dashboard } from '../contexts/DashboardContext';
+import { RotationStep, nextStep, pageCount, pageKey, pageUrl } from '../utils/pages';
+import { CellRotation, cellShare, visibleKeys } from '../utils/layouts';
 
 interface PreloadedDashboard {
-  id: string;
+  id: string; // the page key, as dashboards with pages preload each page separately
   iframe: HTMLIFrameElement;
   isLoaded: boolean;
   loadTime: number;
@@ -18,13 +20,17 @@ interface PreloaderOptions {
 export function useDashboardPreloader(
   dashboards: Dashboard[],
   currentDashboardIndex: number,
+  currentPageIndex: number = 0,
+  // The rest of a layout on screen, when the dashboards rotate in one of its cells
+  otherCells: CellRotation[] = [],
   options: PreloaderOptions = {}
 ) {
   const {
-    maxPreloadedDashboards = 3,
     preloadTimeoutMs = 15000,
     cleanupIntervalMs = 60000,
   } = options;
+  // Every cell preloads for itself, sharing what a single dashboard would hold
+  const maxPreloadedDashboards = cellShare(options.maxPreloadedDashboards ?? 3, otherCells.length + 1);
 
   const [preloadedDashboards, setPreloadedDashboards] = useState<Map<string, PreloadedDashboard>>(new Map());
   const [isPreloading, setIsPreloading] = useState(false);
@@ -89,12 +95,12 @@ export function useDashboardPreloader(
     };
   }, [cleanupIntervalMs]);
 
-  const createPreloadedIframe = useCallback((dashboard: Dashboard): Promise<HTMLIFrameElement> => {
+  const createPreloadedIframe = useCallback((dashboard: Dashboard, pageIndex: number): Promise<HTMLIFrameElement> => {
     return new Promise((resolve, reject) => {
       const iframe = document.createElement('iframe');
       const startTime = Date.now();
       
-      iframe.src = dashboard.url;
+      iframe.src = pageUrl(dashboard, pageIndex);
       iframe.style.cssText = `
         width: 100%;
         height: 100%;
@@ -136,15 +142,19 @@ export function useDashboardPreloader(
     });
   }, [preloadTimeoutMs]);
 
-  const preloadDashboard = useCallback(async (dashboard: Dashboard) => {
-    if (preloadedDashboards.has(dashboard.id)) {
+  const preloadDashboard = useCallback(async (dashboard: Dashboard, pageIndex: number = 0) => {
+    // Embedded reports need an embed token and are rendered through the Power BI API
+    if (dashboard.type === 'embedded') return;
+
+    const key = pageKey(dashboard, pageIndex);
+    if (preloadedDashboards.has(key)) {
       // Update last used time
       setPreloadedDashboards(prev => {
         const updated = new Map(prev);
-        const existing = updated.get(dashboard.id);
+        const existing = updated.get(key);
         if (existing) {
           existing.lastUsed = new Date();
-          updated.set(dashboard.id, existing);
+          updated.set(key, existing);
         }
         return updated;
       });
@@ -153,7 +163,7 @@ export function useDashboardPreloader(
 
     try {
       setIsPreloading(true);
-      const iframe = await createPreloadedIframe(dashboard);
+      const iframe = await createPreloadedIframe(dashboard, pageIndex);
       
       setPreloadedDashboards(prev => {
         const updated = new Map(prev);
@@ -179,8 +189,8 @@ export function useDashboardPreloader(
           }
         }
 
-        updated.set(dashboard.id, {
-          id: dashboard.id,
+        updated.set(key, {
+          id: key,
           iframe,
           isLoaded: true,
           loadTime: Date.now(),
@@ -196,21 +206,50 @@ export function useDashboardPreloader(
     }
   }, [preloadedDashboards, maxPreloadedDashboards, createPreloadedIframe]);
 
-  // Preload next dashboards when current index changes
+  // Forget preloaded pages that have left the rotation (e.g., after switching playlists)
+  useEffect(() => {
+    const rotationKeys = new Set(dashboards.flatMap(d =>
+      Array.from({ length: pageCount(d) }, (_, pageIndex) => pageKey(d, pageIndex))
+    ));
+    setPreloadedDashboards(prev => {
+      const stale = Array.from(prev.values()).filter(p => !rotationKeys.has(p.id));
+      if (stale.length === 0) return prev;
+
+      const updated = new Map(prev);
+      for (const preloaded of stale) {
+        if (preloaded.iframe.parentNode) {
+          preloaded.iframe.parentNode.removeChild(preloaded.iframe);
+        }
+        updated.delete(preloaded.id);
+      }
+      return updated;
+    });
+  }, [dashboards]);
+
+  // Pages another cell is showing are loaded already; preloading them as well would
+  // load the same report twice at once
+  const shownElsewhere = visibleKeys(otherCells);
+  const shownElsewhereKey = Array.from(shownElsewhere).join(',');
+
+  // Preload the next pages or dashboards when the rotation moves on
   useEffect(() => {
-    if (dashboards.length <= 1) return;
+    if (dashboards.length === 0) return;
 
     const preloadNext = async () => {
-      // Preload the next 2 dashboards in rotation
-      const indicesToPreload = [
-        (currentDashboardIndex + 1) % dashboards.length,
-        (currentDashboardIndex + 2) % dashboards.length,
-      ];
-
-      for (const index of indicesToPreload) {
-        const dashboard = dashboards[index];
-        if (dashboard && !preloadedDashboards.has(dashboard.id)) {
-          await preloadDashboard(dashboard);
+      // Preload the next 2 steps in rotation (fewer for a cell of a layout), skipping
+      // the one on screen
+      const current: RotationStep = { dashboardIndex: currentDashboardIndex, pageIndex: currentPageIndex };
+      const first = nextStep(dashboards, current);
+      const stepsToPreload = [first, nextStep(dashboards, first)]
+        .filter(step => step.dashboardIndex !== current.dashboardIndex || step.pageIndex !== current.pageIndex)
+        .slice(0, maxPreloadedDashboards);
+
+      for (const step of stepsToPreload) {
+        const dashboard = dashboards[step.dashboardIndex];
+        if (!dashboard) continue;
+        const key = pageKey(dashboard, step.pageIndex);
+        if (!preloadedDashboards.has(key) && !shownElsewhere.has(key)) {
+          await preloadDashboard(dashboard, step.pageIndex);
           // Add a small delay between preloads to avoid overwhelming the browser
           await new Promise(resolve => setTimeout(resolve, 100));
         }
@@ -221,10 +260,10 @@ export function useDashboardPreloader(
     const timeoutId = setTimeout(preloadNext, 1000);
 
     return () => clearTimeout(timeoutId);
-  }, [currentDashboardIndex, dashboards, preloadedDashboards, preloadDashboard]);
+  }, [currentDashboardIndex, currentPageIndex, dashboards, preloadedDashboards, preloadDashboard, maxPreloadedDashboards, shownElsewhereKey]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  const getPreloadedIframe = useCallback((dashboardId: string): HTMLIFrameElement | null => {
-    const preloaded = preloadedDashboards.get(dashboardId);
+  const getPreloadedIframe = useCallback((key: string): HTMLIFrameElement | null => {
+    const preloaded = preloadedDashboards.get(key);
     if (preloaded && preloaded.isLoaded) {
       // Update last used time
       preloaded.lastUsed = new Date();
@@ -233,14 +272,14 @@ export function useDashboardPreloader(
     return null;
   }, [preloadedDashboards]);
 
-  const removePreloadedDashboard = useCallback((dashboardId: string) => {
+  const removePreloadedDashboard = useCallback((key: string) => {
     setPreloadedDashboards(prev => {
       const updated = new Map(prev);
-      const preloaded = updated.get(dashboardId);
+      const preloaded = updated.get(key);
       if (preloaded && preloaded.iframe.parentNode) {
         preloaded.iframe.parentNode.removeChild(preloaded.iframe);
       }
-      updated.delete(dashboardId);
+      updated.delete(key);
       return updated;
     });
   }, []);
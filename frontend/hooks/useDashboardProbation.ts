@@ -0,0 +1,129 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import backend from '~backend/client';
+import { Dashboard } from '../contexts/DashboardContext';
+
+export interface ProbationEntry {
+  dashboardId: string;
+  // 'health': the latest server-side check found it down; 'load': it failed to load on this screen
+  reason: 'health' | 'load';
+  since: Date;
+  error?: string;
+}
+
+const STATUS_POLL_INTERVAL_MS = 60 * 1000;
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+// Ask the server to check a dashboard the way the scheduled health checks do; a hidden
+// iframe cannot tell, as its load event fires for error pages as well. The answer is
+// not recorded, so retries from screens leave uptime and alerts alone
+async function isBackOnline(dashboard: Dashboard): Promise<boolean> {
+  try {
+    const health = await backend.health.recheckDashboard({ id: dashboard.id });
+    return health.status === 'online';
+  } catch (error) {
+    console.warn(`Failed to check dashboard "${dashboard.name}":`, error);
+    return false;
+  }
+}
+
+/**
+ * Track which dashboards the rotation should skip: those the latest server-side
+ * check found down, and those that failed to load on this screen. Load failures are
+ * checked again by the server in the background and rejoin once it finds them online;
+ * dashboards the scheduled checks found down rejoin once a later check does.
+ */
+export function useDashboardProbation(dashboards: Dashboard[]) {
+  const [serverDown, setServerDown] = useState<Record<string, { since: Date; error?: string }>>({});
+  const [loadFailures, setLoadFailures] = useState<Record<string, { since: Date; error?: string }>>({});
+  const dashboardsRef = useRef(dashboards);
+  dashboardsRef.current = dashboards;
+
+  // Follow the outcome of the scheduled health checks
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStatus = async () => {
+      try {
+        const { dashboards: statuses } = await backend.health.latestStatus();
+        if (cancelled) return;
+        const down: Record<string, { since: Date; error?: string }> = {};
+        for (const status of statuses) {
+          if (status.status !== 'online') {
+            down[status.dashboardId] = { since: status.checkedAt, error: status.error ?? status.status };
+          }
+        }
+        setServerDown(down);
+      } catch (error) {
+        // Keep the last known state; the next poll tries again
+        console.warn('Failed to load dashboard health:', error);
+      }
+    };
+
+    loadStatus();
+    const intervalId = setInterval(loadStatus, STATUS_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, []);
+
+  // Called by the dashboard frame whenever a dashboard finishes loading, or fails to
+  const reportLoad = useCallback((dashboardId: string, loaded: boolean, error?: string) => {
+    setLoadFailures(prev => {
+      if (loaded) {
+        if (!prev[dashboardId]) return prev;
+        const { [dashboardId]: _, ...rest } = prev;
+        return rest;
+      }
+      if (prev[dashboardId]) return prev;
+      return { ...prev, [dashboardId]: { since: new Date(), error } };
+    });
+  }, []);
+
+  // Check dashboards that failed to load until the server finds them online again
+  const failedKey = Object.keys(loadFailures).sort().join(',');
+  useEffect(() => {
+    if (!failedKey) return;
+    let cancelled = false;
+
+    const retry = async () => {
+      for (const id of failedKey.split(',')) {
+        const dashboard = dashboardsRef.current.find(d => d.id === id);
+        if (!dashboard) continue;
+        const isOnline = await isBackOnline(dashboard);
+        if (cancelled) return;
+        if (isOnline) {
+          console.log(`Dashboard "${dashboard.name}" is online again and rejoins the rotation`);
+          reportLoad(id, true);
+        }
+      }
+    };
+
+    const intervalId = setInterval(retry, RETRY_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [failedKey, reportLoad]);
+
+  const probation = useMemo(() => dashboards.flatMap((dashboard): ProbationEntry[] => {
+    const failure = loadFailures[dashboard.id];
+    if (failure) return [{ dashboardId: dashboard.id, reason: 'load', ...failure }];
+    const down = serverDown[dashboard.id];
+    if (down) return [{ dashboardId: dashboard.id, reason: 'health', ...down }];
+    return [];
+  }), [dashboards, loadFailures, serverDown]);
+
+  // Only a change in membership gives the rotation a new set to work with
+  const skippedKey = probation.map(entry => entry.dashboardId).join(',');
+  const skippedIds = useMemo<ReadonlySet<string>>(
+    () => new Set(skippedKey ? skippedKey.split(',') : []),
+    [skippedKey]
+  );
+
+  return {
+    probation,
+    skippedIds,
+    reportLoad,
+  };
+}
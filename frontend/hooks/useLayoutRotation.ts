@@ -0,0 +1,99 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dashboard, useDashboards } from '../contexts/DashboardContext';
+import { Layout, LayoutCell } from '../contexts/LayoutContext';
+import { RotationStep, nextStep, pageCount, pageDuration } from '../utils/pages';
+
+export interface LayoutCellView {
+  cell: LayoutCell;
+  dashboards: Dashboard[]; // the cell's own; empty for the main cell
+  step: RotationStep;
+}
+
+interface CellTimers {
+  steps: RotationStep[];
+  secondsOnStep: number[];
+}
+
+const FIRST_STEP: RotationStep = { dashboardIndex: 0, pageIndex: 0 };
+
+function initialTimers(cellCount: number): CellTimers {
+  return {
+    steps: Array.from({ length: cellCount }, () => FIRST_STEP),
+    secondsOnStep: Array.from({ length: cellCount }, () => 0),
+  };
+}
+
+// Drives the cells of a layout that have a rotation of their own; each moves on by
+// itself, independently of the main rotation, and all pause while the user is active
+export function useLayoutRotation(
+  layout: Layout | null,
+  isUserActive: boolean,
+  rotationIntervalSeconds: number = 60
+) {
+  const { dashboards } = useDashboards();
+
+  // Cells whose dashboards have been deleted since the layout was saved show what is left
+  const resolved = useMemo(() => (layout?.cells ?? []).map(cell => ({
+    cell,
+    dashboards: cell.dashboardIds.flatMap(id => dashboards.filter(d => d.id === id)),
+  })), [layout, dashboards]);
+
+  const [timers, setTimers] = useState<CellTimers>(() => initialTimers(resolved.length));
+
+  // Start every cell over when the layout or the dashboards in it change.
+  // Adjusting during render keeps a stale step from ever reaching the page.
+  const cellsKey = resolved.map(({ cell, dashboards: cellDashboards }) =>
+    [cell.content, cell.intervalSeconds, ...cellDashboards.map(d => [d.id, ...d.pages.map(page => page.name)].join('#'))].join(',')
+  ).join(';');
+  const [previousKey, setPreviousKey] = useState(cellsKey);
+  if (previousKey !== cellsKey) {
+    setPreviousKey(cellsKey);
+    setTimers(initialTimers(resolved.length));
+  }
+
+  const rotatingCount = resolved.filter(({ cell, dashboards: cellDashboards }) =>
+    cell.content === 'rotation' && cellDashboards.reduce((count, d) => count + pageCount(d), 0) > 1
+  ).length;
+
+  useEffect(() => {
+    if (isUserActive || rotatingCount === 0) return;
+
+    const intervalId = setInterval(() => {
+      setTimers(prev => {
+        const steps = [...prev.steps];
+        const secondsOnStep = [...prev.secondsOnStep];
+
+        resolved.forEach(({ cell, dashboards: cellDashboards }, index) => {
+          if (cell.content !== 'rotation' || cellDashboards.length === 0) return;
+
+          const step = steps[index] ?? FIRST_STEP;
+          const seconds = (secondsOnStep[index] ?? 0) + 1;
+          const duration = cell.intervalSeconds
+            ?? pageDuration(cellDashboards[step.dashboardIndex], step.pageIndex, rotationIntervalSeconds);
+
+          if (seconds >= duration) {
+            steps[index] = nextStep(cellDashboards, step);
+            secondsOnStep[index] = 0;
+          } else {
+            secondsOnStep[index] = seconds;
+          }
+        });
+
+        return { steps, secondsOnStep };
+      });
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [resolved, isUserActive, rotatingCount, rotationIntervalSeconds]);
+
+  const cells: LayoutCellView[] = useMemo(() => resolved.map(({ cell, dashboards: cellDashboards }, index) => {
+    const step = timers.steps[index] ?? FIRST_STEP;
+    return {
+      cell,
+      dashboards: cellDashboards,
+      step: step.dashboardIndex < cellDashboards.length ? step : FIRST_STEP,
+    };
+  }), [resolved, timers.steps]);
+
+  return { cells };
+}
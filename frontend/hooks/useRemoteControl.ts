@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+import backend from '~backend/client';
+import { openReconnectingStream, ReconnectingStream } from '../utils/stream';
+
+export type RemoteAction = 'next' | 'pause' | 'play' | 'show' | 'reload';
+
+export interface RemoteCommand {
+  action: RemoteAction;
+  dashboardId?: string; // set for 'show'
+}
+
+export interface RemoteStatus {
+  dashboardId?: string;
+  isRotating: boolean;
+}
+
+/**
+ * Keeps a paired display connected to the remote control stream, hands every
+ * incoming command to `onCommand` and reports what the screen is showing.
+ */
+export function useRemoteControl(
+  enabled: boolean,
+  status: RemoteStatus,
+  onCommand: (command: RemoteCommand) => void
+) {
+  const onCommandRef = useRef(onCommand);
+  const statusRef = useRef(status);
+  const streamRef = useRef<ReconnectingStream<RemoteStatus> | null>(null);
+
+  useEffect(() => {
+    onCommandRef.current = onCommand;
+  }, [onCommand]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const stream = openReconnectingStream({
+      name: 'Remote control',
+      connect: backend.displays.control,
+      onMessage: (command) => onCommandRef.current(command),
+      onOpen: () => stream.send(statusRef.current),
+    });
+    streamRef.current = stream;
+
+    return () => {
+      stream.close();
+      streamRef.current = null;
+    };
+  }, [enabled]);
+
+  // Report changes as they happen so the settings page shows what is on screen
+  const { dashboardId, isRotating } = status;
+  useEffect(() => {
+    statusRef.current = { dashboardId, isRotating };
+    streamRef.current?.send(statusRef.current);
+  }, [dashboardId, isRotating]);
+}
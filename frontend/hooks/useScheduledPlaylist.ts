@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { Schedule, ScheduleWindow, findActiveWindow } from '../utils/schedule';
+
+/**
+ * Tracks which schedule window is active right now, re-evaluating at every
+ * minute boundary so content switches as soon as a window starts or ends.
+ */
+export function useScheduledPlaylist(schedule: Schedule) {
+  const [activeWindow, setActiveWindow] = useState<ScheduleWindow | null>(() => findActiveWindow(schedule));
+  const isScheduled = schedule.windows.length > 0;
+
+  useEffect(() => {
+    let timeoutId: ReturnType<typeof setTimeout>;
+
+    const evaluate = () => {
+      setActiveWindow(findActiveWindow(schedule));
+      // Wake up just after the next minute starts; windows are minute-aligned
+      const now = new Date();
+      const msUntilNextMinute = (60 - now.getSeconds()) * 1000 - now.getMilliseconds() + 50;
+      timeoutId = setTimeout(evaluate, msUntilNextMinute);
+    };
+
+    evaluate();
+
+    return () => clearTimeout(timeoutId);
+  }, [schedule]);
+
+  return {
+    isScheduled,
+    activeWindow,
+    // null means "all dashboards"
+    scheduledPlaylistId: activeWindow?.playlistId ?? schedule.defaultPlaylistId ?? null,
+  };
+}
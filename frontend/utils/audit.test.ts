@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { AuditEntry, auditEntriesToCsv, changedFields, formatAuditValue } from './audit';
+
+const entry: AuditEntry = {
+  id: 'entry-1',
+  occurredAt: new Date('2024-03-01T09:30:00.000Z'),
+  actorId: 'user-1',
+  actorName: 'jane',
+  action: 'update',
+  resource: 'dashboard',
+  resourceId: 'dashboard-1',
+  resourceName: 'Sales',
+  before: { name: 'Sales', durationSeconds: 30, tags: ['eu'] },
+  after: { name: 'Sales', durationSeconds: 60, tags: ['eu', 'us'] },
+};
+
+describe('changedFields', () => {
+  test('lists the fields whose values differ', () => {
+    expect(changedFields(entry)).toEqual([
+      { field: 'durationSeconds', before: 30, after: 60 },
+      { field: 'tags', before: ['eu'], after: ['eu', 'us'] },
+    ]);
+  });
+
+  test('counts every field of a creation or deletion', () => {
+    expect(changedFields({ ...entry, action: 'create', before: undefined }).map(change => change.field)).toEqual([
+      'name',
+      'durationSeconds',
+      'tags',
+    ]);
+    expect(changedFields({ ...entry, action: 'delete', after: undefined })).toHaveLength(3);
+  });
+
+  test('lists fields that were added or removed', () => {
+    expect(changedFields({ ...entry, before: { name: 'Sales' }, after: { url: 'https://example.com' } })).toEqual([
+      { field: 'name', before: 'Sales', after: undefined },
+      { field: 'url', before: undefined, after: 'https://example.com' },
+    ]);
+  });
+});
+
+describe('formatAuditValue', () => {
+  test('leaves missing values empty', () => {
+    expect(formatAuditValue(undefined)).toBe('');
+    expect(formatAuditValue(null)).toBe('');
+  });
+
+  test('shows strings as they are, dates as ISO and anything else as JSON', () => {
+    expect(formatAuditValue('Sales')).toBe('Sales');
+    expect(formatAuditValue(new Date('2024-03-01T09:30:00.000Z'))).toBe('2024-03-01T09:30:00.000Z');
+    expect(formatAuditValue(30)).toBe('30');
+    expect(formatAuditValue([{ name: 'ReportSection' }])).toBe('[{"name":"ReportSection"}]');
+  });
+});
+
+describe('auditEntriesToCsv', () => {
+  test('writes a header and one quoted row per entry with CRLF line endings', () => {
+    const csv = auditEntriesToCsv([entry]);
+    expect(csv).toBe(
+      '"Time","Actor","Action","Resource","Resource ID","Resource Name","Changed Fields","Before","After"\r\n' +
+        '"2024-03-01T09:30:00.000Z","jane","update","dashboard","dashboard-1","Sales","durationSeconds tags",' +
+        '"{""name"":""Sales"",""durationSeconds"":30,""tags"":[""eu""]}",' +
+        '"{""name"":""Sales"",""durationSeconds"":60,""tags"":[""eu"",""us""]}"\r\n'
+    );
+  });
+
+  test('writes only the header when there are no entries', () => {
+    expect(auditEntriesToCsv([])).toBe(
+      '"Time","Actor","Action","Resource","Resource ID","Resource Name","Changed Fields","Before","After"\r\n'
+    );
+  });
+
+  test('leaves the ids and names of settings changes empty', () => {
+    const csv = auditEntriesToCsv([{ ...entry, resource: 'settings', resourceId: undefined, resourceName: undefined }]);
+    expect(csv.split('\r\n')[1]).toStartWith('"2024-03-01T09:30:00.000Z","jane","update","settings","","",');
+  });
+
+  test('defuses cells that a spreadsheet would run as a formula', () => {
+    for (const name of ['=HYPERLINK("x")', '+1', '-1', '@SUM(A1)', '\tcmd', '\rcmd']) {
+      const row = auditEntriesToCsv([{ ...entry, resourceName: name }]).split('\r\n')[1];
+      expect(row).toContain(`"'${name.replace(/"/g, '""')}"`);
+    }
+  });
+});
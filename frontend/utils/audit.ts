@@ -0,0 +1,70 @@
+import backend from '~backend/client';
+
+export type AuditEntry = Awaited<ReturnType<typeof backend.audit.listEntries>>['entries'][number];
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * List the top-level fields that differ between the before and after values of a
+ * change; every field counts for a creation or a deletion
+ */
+export function changedFields(entry: AuditEntry): FieldChange[] {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Format a recorded value for display, e.g. a list of pages as JSON
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Quote every cell; a leading =, +, -, @, tab or carriage return is defused so
+// spreadsheets do not run it as a formula
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build a CSV file of audit entries, one row per change
+ */
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const header = ['Time', 'Actor', 'Action', 'Resource', 'Resource ID', 'Resource Name', 'Changed Fields', 'Before', 'After'];
+  const rows = entries.map(entry => [
+    entry.occurredAt.toISOString(),
+    entry.actorName,
+    entry.action,
+    entry.resource,
+    entry.resourceId ?? '',
+    entry.resourceName ?? '',
+    changedFields(entry).map(change => change.field).join(' '),
+    formatAuditValue(entry.before),
+    formatAuditValue(entry.after),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Offer a CSV file to the browser as a download
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
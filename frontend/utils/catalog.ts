@@ -0,0 +1,126 @@
+import { Dashboard, Folder } from '../contexts/DashboardContext';
+import { TagQuery } from '../contexts/PlaylistContext';
+
+export interface CatalogFilter {
+  search: string;
+  // Dashboards need every one of these tags
+  tags: string[];
+}
+
+export interface DashboardGroup {
+  // Unset for dashboards outside every folder
+  folderId?: string;
+  // Folder names from the top down, e.g. "Finance / Monthly"
+  label: string;
+  dashboards: Dashboard[];
+}
+
+export const emptyCatalogFilter: CatalogFilter = { search: '', tags: [] };
+
+// Letters, digits, spaces, dashes and underscores, as accepted by the backend
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]{0,29}$/u;
+
+/**
+ * Tags are stored in lowercase with single spaces, so they match however they were typed
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function isValidTag(tag: string): boolean {
+  return TAG_PATTERN.test(tag);
+}
+
+/**
+ * Split a comma-separated list as typed into a form into unique, normalized tags
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(normalizeTag).filter(tag => tag !== ''))].sort();
+}
+
+/**
+ * Every tag used by the given dashboards, sorted
+ */
+export function collectTags(dashboards: Dashboard[]): string[] {
+  return [...new Set(dashboards.flatMap(dashboard => dashboard.tags))].sort();
+}
+
+/**
+ * Names of a folder and its parents from the top down; an unknown folder yields none
+ */
+export function folderPath(folders: Folder[], folderId: string | undefined): string[] {
+  const path: string[] = [];
+  const seen = new Set<string>();
+  for (let id = folderId; id && !seen.has(id); ) {
+    seen.add(id);
+    const folder = folders.find(f => f.id === id);
+    if (!folder) break;
+    path.unshift(folder.name);
+    id = folder.parentId;
+  }
+  return path;
+}
+
+export function folderLabel(folders: Folder[], folderId: string | undefined): string {
+  return folderPath(folders, folderId).join(' / ');
+}
+
+/**
+ * Folders in tree order, each with its nesting depth, for indented lists
+ */
+export function folderTree(folders: Folder[], parentId?: string, depth = 0): { folder: Folder; depth: number }[] {
+  return folders
+    .filter(folder => folder.parentId === parentId)
+    .flatMap(folder => [{ folder, depth }, ...folderTree(folders, folder.id, depth + 1)]);
+}
+
+/**
+ * IDs of a folder and every folder below it
+ */
+export function folderDescendants(folders: Folder[], folderId: string): Set<string> {
+  const ids = new Set([folderId]);
+  folderTree(folders, folderId).forEach(({ folder }) => ids.add(folder.id));
+  return ids;
+}
+
+/**
+ * Whether a dashboard passes the filter; the search matches the name, a tag or a folder name
+ */
+export function matchesCatalogFilter(dashboard: Dashboard, filter: CatalogFilter, folders: Folder[]): boolean {
+  if (!filter.tags.every(tag => dashboard.tags.includes(tag))) return false;
+
+  const search = filter.search.trim().toLowerCase();
+  if (!search) return true;
+  return [dashboard.name, ...dashboard.tags, ...folderPath(folders, dashboard.folderId)]
+    .some(text => text.toLowerCase().includes(search));
+}
+
+/**
+ * Group dashboards by folder in tree order, top-level dashboards first; the order
+ * within a group is kept and empty groups are left out
+ */
+export function groupByFolder(dashboards: Dashboard[], folders: Folder[]): DashboardGroup[] {
+  const knownIds = new Set(folders.map(folder => folder.id));
+  const groups: DashboardGroup[] = [{
+    label: '',
+    // Dashboards whose folder was deleted elsewhere count as top-level until reloaded
+    dashboards: dashboards.filter(d => !d.folderId || !knownIds.has(d.folderId)),
+  }];
+  folderTree(folders).forEach(({ folder }) => {
+    groups.push({
+      folderId: folder.id,
+      label: folderLabel(folders, folder.id),
+      dashboards: dashboards.filter(d => d.folderId === folder.id),
+    });
+  });
+  return groups.filter(group => group.dashboards.length > 0);
+}
+
+/**
+ * Whether a dashboard belongs in a playlist built from the tag query
+ */
+export function matchesTagQuery(dashboard: Dashboard, query: TagQuery): boolean {
+  return query.match === 'all'
+    ? query.tags.every(tag => dashboard.tags.includes(tag))
+    : query.tags.some(tag => dashboard.tags.includes(tag));
+}
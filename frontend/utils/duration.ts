@@ -0,0 +1,24 @@
+// Dwell time bounds, kept in sync with the validation in the dashboards service
+export const MIN_DURATION_SECONDS = 5;
+export const MAX_DURATION_SECONDS = 60 * 60;
+
+export function isValidDuration(seconds: number): boolean {
+  return Number.isInteger(seconds) && seconds >= MIN_DURATION_SECONDS && seconds <= MAX_DURATION_SECONDS;
+}
+
+/**
+ * Parse a dwell time typed into a form; an empty field means "use the default"
+ */
+export function parseDuration(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Format a dwell time for display, e.g. 90 -> "1m 30s"
+ */
+export function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  if (mins === 0) return `${secs}s`;
+  return secs === 0 ? `${mins}m` : `${mins}m ${secs}s`;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, mock, test } from 'bun:test';
+import type { DashboardFilter } from '../contexts/DashboardContext';
+
+// powerbi-client needs a browser window to load; the URL filters do not use it
+mock.module('powerbi-client', () => ({ models: {} }));
+const { applyFilters, buildFilterExpression, parseFilterExpression, splitFilterUrl } = await import('./filters');
+
+const territory: DashboardFilter = { table: 'Store', field: 'Territory', operator: 'eq', valueType: 'text', values: ['NC'] };
+const chains: DashboardFilter = {
+  table: 'Store',
+  field: 'Chain',
+  operator: 'in',
+  valueType: 'text',
+  values: ['Fashions Direct', "Lindsey's"],
+};
+const units: DashboardFilter = { table: 'Sales', field: 'Units', operator: 'ge', valueType: 'number', values: ['10'] };
+
+describe('buildFilterExpression', () => {
+  test('joins conditions with and', () => {
+    expect(buildFilterExpression([territory, units])).toBe("Store/Territory eq 'NC' and Sales/Units ge 10");
+  });
+
+  test('escapes characters in names as _xHHHH_', () => {
+    expect(buildFilterExpression([{ ...territory, table: 'Store Name', field: 'Sales-Region' }])).toBe(
+      "Store_x0020_Name/Sales_x002D_Region eq 'NC'"
+    );
+  });
+
+  test('doubles quotes inside text values', () => {
+    expect(buildFilterExpression([{ ...territory, values: ["O'Neil"] }])).toBe("Store/Territory eq 'O''Neil'");
+  });
+
+  test('lists the values of in between parentheses', () => {
+    expect(buildFilterExpression([chains])).toBe("Store/Chain in ('Fashions Direct', 'Lindsey''s')");
+    expect(buildFilterExpression([{ ...units, operator: 'in', values: ['1', '2.5'] }])).toBe('Sales/Units in (1, 2.5)');
+  });
+});
+
+describe('parseFilterExpression', () => {
+  test('reads what buildFilterExpression writes', () => {
+    const filters = [territory, chains, units, { ...territory, table: 'Store Name', field: 'Sales-Region' }];
+    expect(parseFilterExpression(buildFilterExpression(filters))).toEqual(filters);
+  });
+
+  test('unescapes _xHHHH_ in names', () => {
+    expect(parseFilterExpression("Store_x0020_Name/Sales_x002d_Region eq 'NC'")).toEqual([
+      { ...territory, table: 'Store Name', field: 'Sales-Region' },
+    ]);
+  });
+
+  test('reads doubled quotes as one quote', () => {
+    expect(parseFilterExpression("Store/Chain eq 'Lindsey''s'")[0].values).toEqual(["Lindsey's"]);
+    expect(parseFilterExpression("Store/Chain eq ''''")[0].values).toEqual(["'"]);
+  });
+
+  test('reads numbers and drops their type suffix', () => {
+    expect(parseFilterExpression('Sales/Units gt 5L and Sales/Price le -2.5M and Sales/Ratio lt 1e-3')).toEqual([
+      { table: 'Sales', field: 'Units', operator: 'gt', valueType: 'number', values: ['5'] },
+      { table: 'Sales', field: 'Price', operator: 'le', valueType: 'number', values: ['-2.5'] },
+      { table: 'Sales', field: 'Ratio', operator: 'lt', valueType: 'number', values: ['1e-3'] },
+    ]);
+  });
+
+  test('ignores the case of operators and and, and extra spaces', () => {
+    expect(parseFilterExpression("  Store/Territory  EQ 'NC'  AND Store/Chain In ( 'A' ,'B' ) ")).toEqual([
+      territory,
+      { ...chains, values: ['A', 'B'] },
+    ]);
+  });
+
+  test('reports syntax errors with their position', () => {
+    expect(() => parseFilterExpression("Store Territory eq 'NC'")).toThrow('Expected "/" between table and field at position 6');
+    expect(() => parseFilterExpression("/Territory eq 'NC'")).toThrow('Expected a table or field name at position 1');
+    expect(() => parseFilterExpression("Store/Territory is 'NC'")).toThrow('Expected an operator such as eq or in');
+    expect(() => parseFilterExpression('Store/Territory eq NC')).toThrow('Expected a quoted text value or a number');
+    expect(() => parseFilterExpression("Store/Territory eq 'NC")).toThrow('Unterminated text value');
+    expect(() => parseFilterExpression("Store/Chain in 'A'")).toThrow('Expected "(" after "in"');
+    expect(() => parseFilterExpression("Store/Chain in ('A' 'B')")).toThrow('Expected "," or ")"');
+    expect(() => parseFilterExpression("Store/Id in (1, 'a')")).toThrow('The values of Store/Id mix text and numbers');
+    expect(() => parseFilterExpression("Store/A eq 1 or Store/B eq 2")).toThrow('Expected "and" between conditions');
+  });
+});
+
+describe('applyFilters', () => {
+  test('leaves the link alone without filters', () => {
+    expect(applyFilters('https://app.powerbi.com/view?r=abc', [])).toBe('https://app.powerbi.com/view?r=abc');
+    expect(applyFilters('', [territory])).toBe('');
+  });
+
+  test('adds the filter parameter, keeping "/" readable', () => {
+    expect(applyFilters('https://app.powerbi.com/view?r=abc', [territory])).toBe(
+      "https://app.powerbi.com/view?r=abc&filter=Store/Territory%20eq%20'NC'"
+    );
+    expect(applyFilters('https://example.com/report', [units])).toBe('https://example.com/report?filter=Sales/Units%20ge%2010');
+  });
+});
+
+describe('splitFilterUrl', () => {
+  test('round-trips the filters and keeps the other query parameters', () => {
+    const url = 'https://app.powerbi.com/view?r=abc&pageName=ReportSection2';
+    const filters = [territory, chains, units, { ...territory, table: 'Store Name', values: ['a & b = c'] }];
+    expect(splitFilterUrl(applyFilters(url, filters))).toEqual({ url, filters });
+  });
+
+  test('leaves links without a filter, or that do not parse, as they are', () => {
+    expect(splitFilterUrl('https://app.powerbi.com/view?r=abc')).toEqual({ url: 'https://app.powerbi.com/view?r=abc', filters: [] });
+    expect(splitFilterUrl('not a link')).toEqual({ url: 'not a link', filters: [] });
+  });
+
+  test('throws when the filter cannot be read', () => {
+    expect(() => splitFilterUrl("https://app.powerbi.com/view?r=abc&filter=Store/Territory%20eq%20'NC")).toThrow(
+      'Unterminated text value'
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { models } from 'powerbi-client';
+import { DashboardFilter, FilterOperator, FilterValueType } from '../contexts/DashboardContext';
+
+export const FILTER_OPERATORS: { value: FilterOperator; label: string }[] = [
+  { value: 'eq', label: 'equals' },
+  { value: 'ne', label: 'does not equal' },
+  { value: 'gt', label: 'greater than' },
+  { value: 'ge', label: 'at least' },
+  { value: 'lt', label: 'less than' },
+  { value: 'le', label: 'at most' },
+  { value: 'in', label: 'is one of' },
+];
+
+const OPERATORS = FILTER_OPERATORS.map(operator => operator.value);
+
+export const emptyFilter: DashboardFilter = { table: '', field: '', operator: 'eq', valueType: 'text', values: [''] };
+
+/**
+ * Escape a table or field name for a URL filter; Power BI spells every character
+ * other than letters, digits and "_" as _xHHHH_, e.g. a space as _x0020_
+ */
+function escapeName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_]/g, char =>
+    `_x${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}_`
+  );
+}
+
+function unescapeName(name: string): string {
+  return name.replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function formatValue(value: string, valueType: FilterValueType): string {
+  return valueType === 'number' ? value : `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Build the expression of the "filter" URL parameter, e.g.
+ * Store/Territory eq 'NC' and Store/Chain in ('Fashions Direct', 'Lindseys')
+ */
+export function buildFilterExpression(filters: DashboardFilter[]): string {
+  return filters.map(filter => {
+    const target = `${escapeName(filter.table)}/${escapeName(filter.field)}`;
+    const values = filter.values.map(value => formatValue(value, filter.valueType));
+    const operand = filter.operator === 'in' ? `(${values.join(', ')})` : values[0];
+    return `${target} ${filter.operator} ${operand}`;
+  }).join(' and ');
+}
+
+/**
+ * Parse the expression of a "filter" URL parameter; throws with the position of
+ * the first thing it does not understand
+ */
+export function parseFilterExpression(expression: string): DashboardFilter[] {
+  let pos = 0;
+  const syntaxError = (message: string) => new Error(`${message} at position ${pos + 1}`);
+  const skipSpaces = () => {
+    while (pos < expression.length && /\s/.test(expression[pos])) pos++;
+  };
+  const readMatch = (pattern: RegExp): string | null => {
+    const match = pattern.exec(expression.slice(pos));
+    if (!match) return null;
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const readName = (): string => {
+    const name = readMatch(/^[A-Za-z0-9_]+/);
+    if (name === null) throw syntaxError('Expected a table or field name');
+    return unescapeName(name);
+  };
+
+  const readValue = (): { value: string; valueType: FilterValueType } => {
+    if (expression[pos] === "'") {
+      let value = '';
+      pos++;
+      while (pos < expression.length) {
+        if (expression[pos] === "'") {
+          // A doubled quote stands for a quote inside the value
+          if (expression[pos + 1] !== "'") {
+            pos++;
+            return { value, valueType: 'text' };
+          }
+          pos++;
+        }
+        value += expression[pos++];
+      }
+      throw syntaxError('Unterminated text value');
+    }
+
+    // Power BI accepts a type suffix on numbers (5L, 5.5M); the value itself is all we keep
+    const number = readMatch(/^-?\d+(\.\d+)?([eE][-+]?\d+)?[LlMmDd]?/);
+    if (number === null) throw syntaxError('Expected a quoted text value or a number');
+    return { value: number.replace(/[LlMmDd]$/, ''), valueType: 'number' };
+  };
+
+  const filters: DashboardFilter[] = [];
+  while (true) {
+    skipSpaces();
+    const table = readName();
+    if (expression[pos] !== '/') throw syntaxError('Expected "/" between table and field');
+    pos++;
+    const field = readName();
+
+    skipSpaces();
+    const operator = readMatch(/^[A-Za-z]+/)?.toLowerCase() as FilterOperator | undefined;
+    if (!operator || !OPERATORS.includes(operator)) throw syntaxError('Expected an operator such as eq or in');
+    skipSpaces();
+
+    const operands: { value: string; valueType: FilterValueType }[] = [];
+    if (operator === 'in') {
+      if (expression[pos] !== '(') throw syntaxError('Expected "(" after "in"');
+      pos++;
+      do {
+        skipSpaces();
+        operands.push(readValue());
+        skipSpaces();
+      } while (expression[pos] === ',' && ++pos);
+      if (expression[pos] !== ')') throw syntaxError('Expected "," or ")"');
+      pos++;
+    } else {
+      operands.push(readValue());
+    }
+
+    const valueType = operands[0].valueType;
+    if (operands.some(operand => operand.valueType !== valueType)) {
+      throw syntaxError(`The values of ${table}/${field} mix text and numbers`);
+    }
+    filters.push({ table, field, operator, valueType, values: operands.map(operand => operand.value) });
+
+    skipSpaces();
+    if (pos >= expression.length) return filters;
+    if (readMatch(/^and\b/i) === null) throw syntaxError('Expected "and" between conditions');
+  }
+}
+
+/**
+ * Add dashboard filters to a publish-to-web link as its "filter" parameter
+ */
+export function applyFilters(url: string, filters: DashboardFilter[]): string {
+  if (!url || filters.length === 0) return url;
+  // Keep the table/field separator readable; Power BI decodes either form
+  const expression = encodeURIComponent(buildFilterExpression(filters)).replace(/%2F/g, '/');
+  return `${url}${url.includes('?') ? '&' : '?'}filter=${expression}`;
+}
+
+/**
+ * Split a link into its base URL and the filters of its "filter" parameter, so a
+ * pasted link can be edited with the filter builder; throws when the filter cannot be read
+ */
+export function splitFilterUrl(url: string): { url: string; filters: DashboardFilter[] } {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { url, filters: [] };
+  }
+
+  const expression = parsed.searchParams.get('filter');
+  if (expression === null) {
+    return { url, filters: [] };
+  }
+
+  const filters = parseFilterExpression(expression);
+  parsed.searchParams.delete('filter');
+  return { url: parsed.toString(), filters };
+}
+
+/**
+ * Describe what is wrong with a filter, mirroring the checks in the dashboards service
+ */
+export function validateFilter(filter: DashboardFilter): string | null {
+  const target = `${filter.table || '?'}/${filter.field || '?'}`;
+  if (!filter.table.trim() || !filter.field.trim()) {
+    return 'Every filter needs a table and a field';
+  }
+  if (filter.table.length > 100 || filter.field.length > 100) {
+    return 'Table and field names must be at most 100 characters';
+  }
+  if (filter.operator === 'in' ? filter.values.length === 0 : filter.values.length !== 1) {
+    return `The filter on ${target} needs ${filter.operator === 'in' ? 'at least one value' : 'exactly one value'}`;
+  }
+  if (filter.valueType === 'number' && filter.values.some(value => value.trim() === '' || !Number.isFinite(Number(value)))) {
+    return `The filter on ${target} compares numbers, so its values must be numbers`;
+  }
+  return null;
+}
+
+const COMPARISONS: Partial<Record<FilterOperator, models.AdvancedFilterConditionOperators>> = {
+  gt: 'GreaterThan',
+  ge: 'GreaterThanOrEqual',
+  lt: 'LessThan',
+  le: 'LessThanOrEqual',
+};
+
+/**
+ * Translate dashboard filters into report-level filters for the Power BI embedding API
+ */
+export function toReportFilters(filters: DashboardFilter[]): models.ReportLevelFilters[] {
+  return filters.map(filter => {
+    const target = { table: filter.table, column: filter.field };
+    const values = filter.values.map(value => (filter.valueType === 'number' ? Number(value) : value));
+
+    const comparison = COMPARISONS[filter.operator];
+    if (comparison) {
+      return new models.AdvancedFilter(target, 'And', { operator: comparison, value: values[0] }).toJSON();
+    }
+    return new models.BasicFilter(target, filter.operator === 'ne' ? 'NotIn' : 'In', values).toJSON();
+  });
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { bestFuzzyScore, fuzzyScore } from './fuzzy';
+
+describe('fuzzyScore', () => {
+  test('matches everything with a score of 0 for an empty query', () => {
+    expect(fuzzyScore('', 'Finance Weekly')).toBe(0);
+    expect(fuzzyScore('   ', 'Finance Weekly')).toBe(0);
+  });
+
+  test('matches characters in order, ignoring case and spaces in the query', () => {
+    expect(fuzzyScore('fin wk', 'Finance Weekly')).not.toBeNull();
+    expect(fuzzyScore('FINWK', 'finance weekly')).not.toBeNull();
+  });
+
+  test('does not match characters that are missing or out of order', () => {
+    expect(fuzzyScore('xyz', 'Finance Weekly')).toBeNull();
+    expect(fuzzyScore('wf', 'Finance Weekly')).toBeNull();
+  });
+
+  test('scores consecutive characters higher than scattered ones', () => {
+    expect(fuzzyScore('sales', 'Sales')!).toBeGreaterThan(fuzzyScore('sales', 'Stock ageing levels')!);
+  });
+
+  test('scores matches at the start of a word higher', () => {
+    expect(fuzzyScore('w', 'Finance Weekly')!).toBeGreaterThan(fuzzyScore('w', 'Finance lowkey')!);
+  });
+
+  test('prefers the shorter of two otherwise equal matches', () => {
+    expect(fuzzyScore('sales', 'Sales')!).toBeGreaterThan(fuzzyScore('sales', 'Sales and marketing')!);
+  });
+});
+
+describe('bestFuzzyScore', () => {
+  test('returns the best score among the texts', () => {
+    expect(bestFuzzyScore('fin', ['Operations', 'Finance', 'Sales (final)'])).toBe(fuzzyScore('fin', 'Finance'));
+  });
+
+  test('returns null when none of the texts match', () => {
+    expect(bestFuzzyScore('hr', ['Finance', 'Sales'])).toBeNull();
+    expect(bestFuzzyScore('fin', [])).toBeNull();
+  });
+});
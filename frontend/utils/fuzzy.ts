@@ -0,0 +1,44 @@
+// Characters after which a new word starts, e.g. "Sales - EMEA (weekly)"
+const WORD_SEPARATOR = /[\s\-_/.,:()[\]]/;
+
+/**
+ * Score how well the query matches the text when its characters appear in order,
+ * though not necessarily next to each other ("fin wk" matches "Finance Weekly").
+ * Runs of consecutive characters and matches at the start of a word score higher;
+ * null means no match. An empty query matches everything with a score of 0.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let run = 0;
+  let position = 0;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    const isWordStart = index === 0 || WORD_SEPARATOR.test(haystack[index - 1]);
+    run = index === position && position > 0 ? run + 1 : 0;
+    score += 1 + run * 2 + (isWordStart ? 3 : 0) - Math.min(index - position, 3) * 0.5;
+    position = index + 1;
+  }
+
+  // Prefer the tighter of two otherwise equal matches
+  return score - haystack.length * 0.01;
+}
+
+/**
+ * Best score of the query against any of the texts, or null when none match
+ */
+export function bestFuzzyScore(query: string, texts: string[]): number | null {
+  let best: number | null = null;
+  for (const text of texts) {
+    const score = fuzzyScore(query, text);
+    if (score !== null && (best === null || score > best)) {
+      best = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,157 @@
+import type { CSSProperties } from 'react';
+import { Dashboard } from '../contexts/DashboardContext';
+import { Layout, LayoutCell, LayoutPreset } from '../contexts/LayoutContext';
+import { RotationStep, pageKey } from './pages';
+
+type CellArea = Pick<LayoutCell, 'column' | 'row' | 'columnSpan' | 'rowSpan'>;
+
+// What a cell of the layout on screen is showing: the main cell shows the rotation,
+// the others their own dashboards
+export interface CellRotation {
+  dashboards: Dashboard[];
+  step: RotationStep;
+}
+
+export const MAX_GRID_SIZE = 4;
+export const MAX_ROTATION_DASHBOARDS = 20;
+
+export const PRESET_LABELS: Record<LayoutPreset, string> = {
+  '1x1': 'Single (1x1)',
+  '2x1': 'Side by side (2x1)',
+  '2x2': 'Quadrants (2x2)',
+  '1+2': 'One large, two small (1+2)',
+  'custom': 'Custom grid',
+};
+
+// The grid of every preset, as drawn by the backend
+const PRESET_GRIDS: Record<Exclude<LayoutPreset, 'custom'>, { columns: number; rows: number; areas: CellArea[] }> = {
+  '1x1': {
+    columns: 1,
+    rows: 1,
+    areas: [{ column: 1, row: 1, columnSpan: 1, rowSpan: 1 }],
+  },
+  '2x1': {
+    columns: 2,
+    rows: 1,
+    areas: [
+      { column: 1, row: 1, columnSpan: 1, rowSpan: 1 },
+      { column: 2, row: 1, columnSpan: 1, rowSpan: 1 },
+    ],
+  },
+  '2x2': {
+    columns: 2,
+    rows: 2,
+    areas: [
+      { column: 1, row: 1, columnSpan: 1, rowSpan: 1 },
+      { column: 2, row: 1, columnSpan: 1, rowSpan: 1 },
+      { column: 1, row: 2, columnSpan: 1, rowSpan: 1 },
+      { column: 2, row: 2, columnSpan: 1, rowSpan: 1 },
+    ],
+  },
+  '1+2': {
+    columns: 2,
+    rows: 2,
+    areas: [
+      { column: 1, row: 1, columnSpan: 1, rowSpan: 2 },
+      { column: 2, row: 1, columnSpan: 1, rowSpan: 1 },
+      { column: 2, row: 2, columnSpan: 1, rowSpan: 1 },
+    ],
+  },
+};
+
+/**
+ * Switch a layout to another preset, keeping the contents of the cells in order;
+ * switching to a custom grid keeps the current one to edit from there
+ */
+export function applyPreset(layout: Omit<Layout, 'id' | 'name'>, preset: LayoutPreset): Omit<Layout, 'id' | 'name'> {
+  if (preset === 'custom') {
+    return { ...layout, preset };
+  }
+
+  const grid = PRESET_GRIDS[preset];
+  return {
+    preset,
+    columns: grid.columns,
+    rows: grid.rows,
+    cells: grid.areas.map((area, index) => ({
+      ...(layout.cells[index] ?? { content: 'dashboard', dashboardIds: [] }),
+      ...area,
+    })),
+  };
+}
+
+/**
+ * The top-left free square of a custom grid, for a new cell, or null when the grid is full
+ */
+export function freeSquare(layout: Pick<Layout, 'columns' | 'rows' | 'cells'>): CellArea | null {
+  for (let row = 1; row <= layout.rows; row++) {
+    for (let column = 1; column <= layout.columns; column++) {
+      const isTaken = layout.cells.some(cell =>
+        column >= cell.column && column < cell.column + cell.columnSpan &&
+        row >= cell.row && row < cell.row + cell.rowSpan
+      );
+      if (!isTaken) return { column, row, columnSpan: 1, rowSpan: 1 };
+    }
+  }
+  return null;
+}
+
+/**
+ * The first problem with the cells' positions on the grid, mirroring the backend's checks
+ */
+export function gridError(layout: Pick<Layout, 'columns' | 'rows' | 'cells'>): string | null {
+  const taken = new Set<string>();
+  for (const [index, cell] of layout.cells.entries()) {
+    if (
+      cell.column < 1 || cell.row < 1 || cell.columnSpan < 1 || cell.rowSpan < 1 ||
+      cell.column + cell.columnSpan - 1 > layout.columns ||
+      cell.row + cell.rowSpan - 1 > layout.rows
+    ) {
+      return `Cell ${index + 1} does not fit in a ${layout.columns} by ${layout.rows} grid`;
+    }
+    for (let column = cell.column; column < cell.column + cell.columnSpan; column++) {
+      for (let row = cell.row; row < cell.row + cell.rowSpan; row++) {
+        if (taken.has(`${column},${row}`)) return `Cell ${index + 1} overlaps another cell`;
+        taken.add(`${column},${row}`);
+      }
+    }
+  }
+  return null;
+}
+
+export function hasMainCell(layout: Layout): boolean {
+  return layout.cells.some(cell => cell.content === 'main');
+}
+
+export function gridStyle(layout: Pick<Layout, 'columns' | 'rows'>): CSSProperties {
+  return {
+    display: 'grid',
+    gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))`,
+    gridTemplateRows: `repeat(${layout.rows}, minmax(0, 1fr))`,
+  };
+}
+
+export function cellStyle(cell: CellArea): CSSProperties {
+  return {
+    gridColumn: `${cell.column} / span ${cell.columnSpan}`,
+    gridRow: `${cell.row} / span ${cell.rowSpan}`,
+  };
+}
+
+/**
+ * Page keys of what the cells are showing right now
+ */
+export function visibleKeys(cells: CellRotation[]): Set<string> {
+  return new Set(cells.flatMap(({ dashboards, step }) => {
+    const dashboard = dashboards[step.dashboardIndex];
+    return dashboard ? [pageKey(dashboard, step.pageIndex)] : [];
+  }));
+}
+
+/**
+ * Share of a hidden-iframe budget for one of several cells on screen, so a layout
+ * does not hold several times as many iframes as a single dashboard would
+ */
+export function cellShare(budget: number, cellCount: number): number {
+  return Math.max(Math.floor(budget / Math.max(cellCount, 1)), 1);
+}
@@ -0,0 +1,84 @@
+import { Dashboard } from '../contexts/DashboardContext';
+import { applyFilters } from './filters';
+
+export interface RotationStep {
+  dashboardIndex: number;
+  pageIndex: number;
+}
+
+/**
+ * Number of rotation steps a dashboard takes: one per page, or one when it has no pages
+ */
+export function pageCount(dashboard: Dashboard): number {
+  return Math.max(dashboard.pages.length, 1);
+}
+
+/**
+ * Get the step after the given one, moving on to the next dashboard after its last page
+ */
+export function nextStep(dashboards: Dashboard[], step: RotationStep): RotationStep {
+  const dashboard = dashboards[step.dashboardIndex];
+  if (dashboard && step.pageIndex + 1 < pageCount(dashboard)) {
+    return { dashboardIndex: step.dashboardIndex, pageIndex: step.pageIndex + 1 };
+  }
+  return { dashboardIndex: (step.dashboardIndex + 1) % dashboards.length, pageIndex: 0 };
+}
+
+/**
+ * Get the next step whose dashboard is not being skipped; when every dashboard is,
+ * the rotation carries on as if none were
+ */
+export function nextHealthyStep(dashboards: Dashboard[], step: RotationStep, skippedIds: ReadonlySet<string>): RotationStep {
+  const stepCount = dashboards.reduce((count, dashboard) => count + pageCount(dashboard), 0);
+  let next = nextStep(dashboards, step);
+  for (let i = 0; i < stepCount; i++) {
+    if (!skippedIds.has(dashboards[next.dashboardIndex]?.id)) return next;
+    next = nextStep(dashboards, next);
+  }
+  return nextStep(dashboards, step);
+}
+
+/**
+ * How long a page stays on screen: its own dwell time, then the dashboard's, then the default
+ */
+export function pageDuration(dashboard: Dashboard | undefined, pageIndex: number, fallbackSeconds: number): number {
+  return dashboard?.pages[pageIndex]?.durationSeconds ?? dashboard?.durationSeconds ?? fallbackSeconds;
+}
+
+/**
+ * Build the URL of a page of a publish-to-web dashboard with its filters applied;
+ * Power BI opens the page named in the "pageName" parameter, replacing any page
+ * already in the link
+ */
+export function pageUrl(dashboard: Dashboard, pageIndex: number): string {
+  const page = dashboard.pages[pageIndex];
+  let url = dashboard.url;
+
+  if (page && url) {
+    try {
+      const parsed = new URL(url);
+      parsed.searchParams.set('pageName', page.name);
+      url = parsed.toString();
+    } catch {
+      // Leave a malformed link as it is; loading it reports the problem
+    }
+  }
+  return applyFilters(url, dashboard.filters);
+}
+
+/**
+ * Key identifying one page of a dashboard, for caches that hold an iframe per page
+ */
+export function pageKey(dashboard: Dashboard, pageIndex: number): string {
+  const page = dashboard.pages[pageIndex];
+  return page ? `${dashboard.id}#${page.name}` : dashboard.id;
+}
+
+/**
+ * Label for a page in the UI, e.g. "Overview (2/5)"
+ */
+export function pageLabel(dashboard: Dashboard, pageIndex: number): string | null {
+  const page = dashboard.pages[pageIndex];
+  if (!page) return null;
+  return `${page.displayName ?? page.name} (${pageIndex + 1}/${dashboard.pages.length})`;
+}
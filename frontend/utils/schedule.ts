@@ -0,0 +1,66 @@
+export interface ScheduleWindow {
+  id: string;
+  playlistId: string;
+  days: number[]; // 0 = Sunday
+  start: string; // "HH:MM" in the schedule's timezone
+  end: string; // "HH:MM", may be "24:00"
+}
+
+export interface Schedule {
+  timezone: string;
+  defaultPlaylistId?: string;
+  windows: ScheduleWindow[];
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Get the weekday and minute of the day a moment falls on in the given timezone
+ */
+export function getZonedDayAndMinute(timezone: string, date: Date = new Date()): { day: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '0';
+  return {
+    day: WEEKDAY_INDEX[part('weekday')] ?? 0,
+    minute: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * Find the window covering the given moment, if any
+ */
+export function findActiveWindow(schedule: Schedule, date: Date = new Date()): ScheduleWindow | null {
+  const { day, minute } = getZonedDayAndMinute(schedule.timezone, date);
+  return schedule.windows.find(window =>
+    window.days.includes(day) &&
+    toMinutes(window.start) <= minute &&
+    minute < toMinutes(window.end)
+  ) ?? null;
+}
+
+/**
+ * List the IANA timezones the browser knows about, falling back to a short list
+ */
+export function getTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  if (intl.supportedValuesOf) {
+    return ['UTC', ...intl.supportedValuesOf('timeZone').filter(zone => zone !== 'UTC')];
+  }
+  return ['UTC', 'Europe/London', 'Europe/Amsterdam', 'America/New_York', 'America/Los_Angeles', 'Asia/Tokyo'];
+}
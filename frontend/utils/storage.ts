@@ -1,5 +1,5 @@
 import { Dashboard } from '../contexts/DashboardContext';
-import { AppSettings } from '../contexts/SettingsContext';
+import { AppSettings, defaultSettings } from '../contexts/SettingsContext';
 
 // Storage schema version for migration handling
 const CURRENT_SCHEMA_VERSION = 1;
@@ -8,12 +8,15 @@ interface StorageSchema {
   version: number;
   dashboards: Dashboard[];
   settings: AppSettings;
+  activePlaylistId?: string | null;
+  recentCommands?: string[];
   lastUpdated: string;
 }
 
 export class StorageManager {
   private static readonly STORAGE_KEY = 'powerbi-dashboard-app';
   private static readonly LEGACY_DASHBOARDS_KEY = 'powerbi-dashboards';
+  private static readonly MAX_RECENT_COMMANDS = 10;
 
   /**
    * Get the current storage data with migration support
@@ -58,7 +61,7 @@ export class StorageManager {
           currentData = {
             version: CURRENT_SCHEMA_VERSION,
             dashboards: [],
-            settings: { rotationInterval: 60 },
+            settings: { ...defaultSettings },
             lastUpdated: new Date().toISOString(),
           };
         }
@@ -66,7 +69,7 @@ export class StorageManager {
         currentData = {
           version: CURRENT_SCHEMA_VERSION,
           dashboards: [],
-          settings: { rotationInterval: 60 },
+          settings: { ...defaultSettings },
           lastUpdated: new Date().toISOString(),
         };
       }
@@ -103,7 +106,7 @@ export class StorageManager {
         const migratedData = {
           version: CURRENT_SCHEMA_VERSION,
           dashboards: data.dashboards || [],
-          settings: data.settings || { rotationInterval: 60 },
+          settings: data.settings || { ...defaultSettings },
           lastUpdated: new Date().toISOString(),
         };
         
@@ -143,7 +146,7 @@ export class StorageManager {
     const migratedData: StorageSchema = {
       version: CURRENT_SCHEMA_VERSION,
       dashboards: legacyDashboards,
-      settings: { rotationInterval: 60 },
+      settings: { ...defaultSettings },
       lastUpdated: new Date().toISOString(),
     };
 
@@ -201,6 +204,38 @@ export class StorageManager {
     this.saveStorageData({ settings });
   }
 
+  /**
+   * Get the playlist this device rotates through, or null for all dashboards
+   */
+  static getActivePlaylistId(): string | null {
+    const data = this.getStorageData();
+    return data?.activePlaylistId ?? null;
+  }
+
+  /**
+   * Save the playlist this device rotates through
+   */
+  static saveActivePlaylistId(activePlaylistId: string | null): void {
+    this.saveStorageData({ activePlaylistId });
+  }
+
+  /**
+   * Get the command palette items used on this device, most recent first
+   */
+  static getRecentCommands(): string[] {
+    const data = this.getStorageData();
+    return data?.recentCommands ?? [];
+  }
+
+  /**
+   * Move a command palette item to the front of the recently used list
+   */
+  static saveRecentCommand(commandId: string): void {
+    const recentCommands = [commandId, ...this.getRecentCommands().filter(id => id !== commandId)]
+      .slice(0, this.MAX_RECENT_COMMANDS);
+    this.saveStorageData({ recentCommands });
+  }
+
   /**
    * Clear all storage data
    */
@@ -0,0 +1,81 @@
+import { StreamInOut } from '~backend/client';
+
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+interface ReconnectingStreamOptions<Request, Response> {
+  connect: () => Promise<StreamInOut<Request, Response>>;
+  onMessage: (message: Response) => void;
+  // Called whenever the socket opens; `isReconnect` is false only for the first connection
+  onOpen?: (isReconnect: boolean) => void;
+  // Used in log messages
+  name: string;
+}
+
+export interface ReconnectingStream<Request> {
+  // Sends the message if the stream is currently open and drops it otherwise
+  send: (message: Request) => void;
+  close: () => void;
+}
+
+/**
+ * Opens a streaming endpoint and keeps it open, reconnecting with exponential
+ * backoff whenever the connection drops.
+ */
+export function openReconnectingStream<Request, Response>(
+  options: ReconnectingStreamOptions<Request, Response>
+): ReconnectingStream<Request> {
+  let stream: StreamInOut<Request, Response> | null = null;
+  let closed = false;
+  let attempt = 0;
+  let hasConnected = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    const delay = Math.min(MIN_RECONNECT_DELAY_MS * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+    attempt++;
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  const connect = async () => {
+    try {
+      const current = await options.connect();
+      if (closed) {
+        current.close();
+        return;
+      }
+      stream = current;
+      current.socket.on('open', () => {
+        attempt = 0;
+        options.onOpen?.(hasConnected);
+        hasConnected = true;
+      });
+
+      for await (const message of current) {
+        options.onMessage(message);
+      }
+    } catch (error) {
+      console.warn(`${options.name} connection failed:`, error);
+    }
+
+    stream = null;
+    scheduleReconnect();
+  };
+
+  connect();
+
+  return {
+    send: (message: Request) => {
+      if (stream && stream.socket.ws.readyState === WebSocket.OPEN) {
+        stream.send(message);
+      }
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      stream?.close();
+      stream = null;
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import backend, { ErrCode, isAPIError } from '~backend/client';
+
+export type LoadEvent = Parameters<typeof backend.telemetry.recordLoads>[0]['events'][number];
+
+const STORAGE_KEY = 'powerbi-dashboard-telemetry';
+const FLUSH_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 50;
+// A screen that stays offline keeps its most recent measurements only
+const MAX_QUEUED_EVENTS = 1000;
+
+let queue: LoadEvent[] = readQueue();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = FLUSH_DELAY_MS;
+let isFlushing = false;
+
+/**
+ * Read events left over from before a reload, so a screen that restarts while
+ * offline still sends them
+ */
+function readQueue(): LoadEvent[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    return (JSON.parse(stored) as LoadEvent[]).map(event => ({ ...event, occurredAt: new Date(event.occurredAt) }));
+  } catch (error) {
+    console.warn('Discarding unreadable telemetry queue:', error);
+    return [];
+  }
+}
+
+function saveQueue(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.warn('Failed to save telemetry queue:', error);
+  }
+}
+
+function scheduleFlush(delayMs: number): void {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flush();
+  }, delayMs);
+}
+
+/**
+ * Send queued events in batches; a failed send is retried with a growing delay, and a
+ * batch the backend rejects as invalid is dropped since it would be rejected again
+ */
+async function flush(): Promise<void> {
+  if (isFlushing) return;
+  isFlushing = true;
+
+  try {
+    while (queue.length > 0) {
+      const batch = queue.slice(0, BATCH_SIZE);
+      try {
+        await backend.telemetry.recordLoads({ events: batch });
+      } catch (error) {
+        if (!isAPIError(error) || error.code !== ErrCode.InvalidArgument) {
+          retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+          console.warn(`Failed to send telemetry, retrying in ${retryDelay / 1000}s:`, error);
+          scheduleFlush(retryDelay);
+          return;
+        }
+        console.warn('Dropping telemetry the backend rejected:', error);
+      }
+      // Events may have been added, or the oldest dropped, while the batch was in flight
+      queue = queue.filter(event => !batch.includes(event));
+      saveQueue();
+    }
+    retryDelay = FLUSH_DELAY_MS;
+  } finally {
+    isFlushing = false;
+  }
+}
+
+/**
+ * Queue a dashboard load measurement; it is sent with the next batch
+ */
+export function recordLoad(event: LoadEvent): void {
+  queue.push(event);
+  if (queue.length > MAX_QUEUED_EVENTS) {
+    queue = queue.slice(queue.length - MAX_QUEUED_EVENTS);
+  }
+  saveQueue();
+  scheduleFlush(FLUSH_DELAY_MS);
+}
@@ -0,0 +1,76 @@
+import { mock } from "bun:test";
+
+// Unit tests run under plain Bun, without the Encore runtime that encore.dev needs
+// to load. The modules under test only need APIError at run time; the rest stands in
+// for declarations that are made at import time and never called by a unit test.
+
+class APIError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "APIError";
+  }
+
+  static invalidArgument = (msg: string) => new APIError("invalid_argument", msg);
+  static notFound = (msg: string) => new APIError("not_found", msg);
+  static alreadyExists = (msg: string) => new APIError("already_exists", msg);
+  static permissionDenied = (msg: string) => new APIError("permission_denied", msg);
+  static failedPrecondition = (msg: string) => new APIError("failed_precondition", msg);
+  static unavailable = (msg: string) => new APIError("unavailable", msg);
+  static unauthenticated = (msg: string) => new APIError("unauthenticated", msg);
+  static internal = (msg: string) => new APIError("internal", msg);
+}
+
+const unavailableInTests = () => {
+  throw new Error("not available in unit tests");
+};
+
+const api = Object.assign(<T>(_options: unknown, handler: T) => handler, {
+  streamInOut: <T>(_options: unknown, handler: T) => handler,
+  raw: <T>(_options: unknown, handler: T) => handler,
+});
+
+mock.module("encore.dev/api", () => ({
+  APIError,
+  ErrCode: {
+    InvalidArgument: "invalid_argument",
+    NotFound: "not_found",
+    AlreadyExists: "already_exists",
+    PermissionDenied: "permission_denied",
+    FailedPrecondition: "failed_precondition",
+    Unavailable: "unavailable",
+    Unauthenticated: "unauthenticated",
+    Internal: "internal",
+  },
+  api,
+}));
+
+mock.module("encore.dev/storage/sqldb", () => ({
+  SQLDatabase: class {
+    query = unavailableInTests;
+    queryRow = unavailableInTests;
+    queryAll = unavailableInTests;
+    exec = unavailableInTests;
+    begin = unavailableInTests;
+  },
+}));
+
+mock.module("encore.dev/pubsub", () => ({
+  Topic: class {
+    publish = unavailableInTests;
+  },
+  Subscription: class {},
+}));
+
+mock.module("encore.dev/log", () => ({
+  default: { debug() {}, info() {}, warn() {}, error() {} },
+}));
+
+// Service clients whose calls fail, for modules that only reach other services once
+// their own checks pass.
+const serviceClient = new Proxy({}, { get: () => unavailableInTests });
+const SERVICES = ["alerts", "audit", "auth", "dashboards", "displays", "events", "health", "metrics", "powerbi", "settings", "telemetry"];
+mock.module("~encore/clients", () => Object.fromEntries(SERVICES.map((service) => [service, serviceClient])));
+mock.module("~encore/auth", () => ({ getAuthData: unavailableInTests }));